@@ -0,0 +1,87 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export type LLMProviderName = 'openai' | 'local' | 'mock';
+
+// Each AI feature gets its own model settings
+export type AIFeature = 'summary' | 'qa';
+
+export interface AIFeatureConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Approximate prompt size: longer summary input is split into chunks, and QA drops the oldest context
+  inputTokenBudget: number;
+}
+
+export interface AIConfig {
+  provider: LLMProviderName;
+  openai: {
+    apiKey?: string;
+  };
+  // Any server speaking the OpenAI chat completions API (Ollama, vLLM, LM Studio, llama.cpp)
+  local: {
+    baseURL: string;
+    apiKey: string;
+    // Not every local server supports response_format: json_object
+    jsonMode: boolean;
+  };
+  // Maximum model calls in flight for fan-out work (chunked summaries, batch reviews)
+  maxConcurrency: number;
+  features: Record<AIFeature, AIFeatureConfig>;
+  // Background summary refresh for tasks that opted in
+  autoSummary: {
+    // New (unsummarized) messages that trigger a refresh
+    messageThreshold: number;
+    // Quiet period after the last trigger before the refresh runs
+    debounceMs: number;
+  };
+}
+
+const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'local', 'mock'];
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isNaN(value) ? fallback : value;
+};
+
+// Feature settings come from <PREFIX>_MODEL, <PREFIX>_TEMPERATURE, <PREFIX>_MAX_TOKENS and
+// <PREFIX>_INPUT_TOKEN_BUDGET, falling back to LLM_MODEL and the defaults below
+const featureConfig = (prefix: string, defaults: AIFeatureConfig): AIFeatureConfig => ({
+  model: process.env[`${prefix}_MODEL`] || process.env.LLM_MODEL || defaults.model,
+  temperature: numberFromEnv(`${prefix}_TEMPERATURE`, defaults.temperature),
+  maxTokens: numberFromEnv(`${prefix}_MAX_TOKENS`, defaults.maxTokens),
+  inputTokenBudget: numberFromEnv(`${prefix}_INPUT_TOKEN_BUDGET`, defaults.inputTokenBudget)
+});
+
+const loadAIConfig = (): AIConfig => {
+  const provider = (process.env.LLM_PROVIDER || 'openai') as LLMProviderName;
+  if (!LLM_PROVIDERS.includes(provider)) {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}". Expected one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  return {
+    provider,
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY
+    },
+    local: {
+      baseURL: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+      apiKey: process.env.LLM_API_KEY || 'not-needed',
+      jsonMode: process.env.LLM_JSON_MODE !== 'false'
+    },
+    maxConcurrency: numberFromEnv('LLM_MAX_CONCURRENCY', 3),
+    features: {
+      summary: featureConfig('SUMMARY', { model: 'gpt-3.5-turbo', temperature: 0.3, maxTokens: 500, inputTokenBudget: 6000 }),
+      qa: featureConfig('QA', { model: 'gpt-3.5-turbo', temperature: 0.3, maxTokens: 500, inputTokenBudget: 6000 })
+    },
+    autoSummary: {
+      messageThreshold: numberFromEnv('SUMMARY_AUTO_MESSAGE_THRESHOLD', 10),
+      debounceMs: numberFromEnv('SUMMARY_AUTO_DEBOUNCE_MS', 30000)
+    }
+  };
+};
+
+export const aiConfig = loadAIConfig();
@@ -0,0 +1,47 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export interface AuthConfig {
+  jwtSecret: string;
+  // Lifetime of access tokens, in jsonwebtoken's format (e.g. '15m')
+  accessTokenTtl: string;
+  // Sessions end when their refresh token has not been used for this long
+  refreshTokenTtlDays: number;
+  // How long links in password reset and verification emails stay valid
+  passwordResetTtlMinutes: number;
+  emailVerificationTtlHours: number;
+  invitationTtlDays: number;
+  // Longest lifetime a personal access token can be created with
+  personalAccessTokenMaxTtlDays: number;
+  twoFactor: {
+    // Name shown next to the account in authenticator apps
+    issuer: string;
+    // How long a user has to enter their code after the password step
+    challengeTtlMinutes: number;
+    // Key TOTP secrets are encrypted with; derived from the JWT secret when unset
+    encryptionKey: string;
+  };
+}
+
+// Positive number from the environment, or the fallback
+const positiveFromEnv = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isNaN(value) || value <= 0 ? fallback : value;
+};
+
+export const authConfig: AuthConfig = {
+  jwtSecret: process.env.JWT_SECRET || 'faff_secret_key',
+  accessTokenTtl: process.env.JWT_EXPIRATION || '15m',
+  refreshTokenTtlDays: positiveFromEnv('REFRESH_TOKEN_TTL_DAYS', 30),
+  passwordResetTtlMinutes: positiveFromEnv('PASSWORD_RESET_TTL_MINUTES', 60),
+  emailVerificationTtlHours: positiveFromEnv('EMAIL_VERIFICATION_TTL_HOURS', 48),
+  invitationTtlDays: positiveFromEnv('INVITATION_TTL_DAYS', 7),
+  personalAccessTokenMaxTtlDays: positiveFromEnv('PERSONAL_ACCESS_TOKEN_MAX_TTL_DAYS', 365),
+  twoFactor: {
+    issuer: process.env.TOTP_ISSUER || 'Faff',
+    challengeTtlMinutes: positiveFromEnv('TWO_FACTOR_CHALLENGE_TTL_MINUTES', 5),
+    encryptionKey: process.env.TOTP_ENCRYPTION_KEY || process.env.JWT_SECRET || 'faff_secret_key'
+  }
+};
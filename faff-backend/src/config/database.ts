@@ -19,7 +19,8 @@ const sequelize = new Sequelize(
       acquire: 30000,
       idle: 10000
     },
-    dialectOptions: {
+    // SSL is on by default; set DB_SSL=false for a local Postgres such as the docker-compose one
+    dialectOptions: process.env.DB_SSL === 'false' ? {} : {
       ssl: {
         require: true,
         rejectUnauthorized: true,
@@ -0,0 +1,35 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+export interface JobQueueConfig {
+  // Run a worker in this process (disable to run API-only instances)
+  workerEnabled: boolean;
+  // How often an idle worker checks for due jobs
+  pollIntervalMs: number;
+  // Jobs a worker runs at the same time
+  concurrency: number;
+  // Attempts before a job is moved to the dead-letter state
+  maxAttempts: number;
+  // Retry delay is backoffBaseMs * 2^(attempt - 1), capped at backoffMaxMs
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  // Running jobs whose lock was not refreshed within this time are assumed lost (worker crashed) and requeued
+  lockTimeoutMs: number;
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isNaN(value) ? fallback : value;
+};
+
+export const jobConfig: JobQueueConfig = {
+  workerEnabled: process.env.JOB_WORKER_ENABLED !== 'false',
+  pollIntervalMs: numberFromEnv('JOB_POLL_INTERVAL_MS', 1000),
+  concurrency: numberFromEnv('JOB_CONCURRENCY', 2),
+  maxAttempts: numberFromEnv('JOB_MAX_ATTEMPTS', 5),
+  backoffBaseMs: numberFromEnv('JOB_BACKOFF_BASE_MS', 5000),
+  backoffMaxMs: numberFromEnv('JOB_BACKOFF_MAX_MS', 10 * 60 * 1000),
+  lockTimeoutMs: numberFromEnv('JOB_LOCK_TIMEOUT_MS', 5 * 60 * 1000)
+};
@@ -0,0 +1,53 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// Load environment variables
+dotenv.config();
+
+export type MailTransportName = 'smtp' | 'file' | 'console';
+
+export interface MailConfig {
+  transport: MailTransportName;
+  // Sender, e.g. 'Faff <no-reply@example.com>'
+  from: string;
+  smtp: {
+    host: string;
+    port: number;
+    // Connect over TLS from the start (usually port 465); otherwise STARTTLS is used when offered
+    secure: boolean;
+    user?: string;
+    password?: string;
+    timeoutMs: number;
+  };
+  // Where the file transport writes .eml files
+  fileDir: string;
+  // Base URL of the web app, used to build links in emails
+  appUrl: string;
+}
+
+const MAIL_TRANSPORTS: MailTransportName[] = ['smtp', 'file', 'console'];
+
+const loadMailConfig = (): MailConfig => {
+  const transport = (process.env.MAIL_TRANSPORT || 'console') as MailTransportName;
+  if (!MAIL_TRANSPORTS.includes(transport)) {
+    throw new Error(`Unknown MAIL_TRANSPORT "${transport}". Expected one of: ${MAIL_TRANSPORTS.join(', ')}`);
+  }
+
+  return {
+    transport,
+    from: process.env.MAIL_FROM || 'Faff <no-reply@faff.local>',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      // MailHog listens for SMTP on 1025
+      port: parseInt(process.env.SMTP_PORT || '1025'),
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      timeoutMs: parseInt(process.env.SMTP_TIMEOUT_MS || '10000')
+    },
+    fileDir: process.env.MAIL_FILE_DIR || path.join(__dirname, '../../mail'),
+    appUrl: (process.env.FRONTEND_URL || 'http://localhost:5173').replace(/\/+$/, '')
+  };
+};
+
+export const mailConfig = loadMailConfig();
@@ -0,0 +1,32 @@
+import { getPermissions, getTokenPermissions, hasPermission } from './permissions';
+
+describe('getTokenPermissions', () => {
+  it('grants only the permissions covered by the token scopes', () => {
+    expect(getTokenPermissions('admin', ['tasks:read'])).toEqual(['task.view']);
+    expect(getTokenPermissions('admin', ['tasks:read', 'messages:write']).sort())
+      .toEqual(['message.send', 'task.view']);
+  });
+
+  it('never grants more than the role of the token user', () => {
+    const permissions = getTokenPermissions('requester', ['tasks:read', 'tasks:write']);
+
+    expect(permissions).toContain('task.create');
+    expect(permissions).not.toContain('task.update');
+    expect(permissions).not.toContain('task.assign');
+    expect(permissions.every(permission => hasPermission('requester', permission))).toBe(true);
+  });
+
+  it('never grants permissions no scope covers, even to admins', () => {
+    const permissions = getTokenPermissions('admin', ['tasks:read', 'tasks:write', 'messages:write']);
+
+    expect(permissions).not.toContain('user.manage');
+    expect(permissions).not.toContain('task.delete');
+    expect(permissions).not.toContain('qa.manage');
+  });
+
+  it('ignores unknown scopes and roles', () => {
+    expect(getTokenPermissions('admin', ['users:write'])).toEqual([]);
+    expect(getTokenPermissions('superuser', ['tasks:read'])).toEqual([]);
+    expect(getPermissions('superuser')).toEqual([]);
+  });
+});
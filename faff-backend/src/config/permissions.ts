@@ -0,0 +1,82 @@
+import { UserRole } from '../models/User';
+
+export const PERMISSIONS = [
+  // Read tasks, their messages, summaries and history
+  'task.view',
+  'task.create',
+  // Edit task fields and move tasks through the workflow
+  'task.update',
+  'task.assign',
+  'task.delete',
+  // Post and edit one's own messages
+  'message.send',
+  // Delete other users' messages
+  'message.moderate',
+  'summary.edit',
+  'qa.request',
+  // Claim and decide QA reviews, view QA stats
+  'qa.review',
+  // Manage rubrics, run sweeps and override review assignments
+  'qa.manage',
+  // Requeue one's own dead background jobs, which can call the AI provider or delete files again.
+  // Staff roles only: requesters and QA reviewers ask an operator or admin instead
+  'job.retry',
+  // See and retry every background job, not only one's own
+  'job.manage',
+  'user.manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Scopes a personal access token can be limited to
+export const TOKEN_SCOPES = ['tasks:read', 'tasks:write', 'messages:write'] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+const scopePermissions: Record<TokenScope, Permission[]> = {
+  // Also covers messages, summaries, history and search, which are all read with task.view
+  'tasks:read': ['task.view'],
+  'tasks:write': ['task.create', 'task.update', 'task.assign', 'job.retry'],
+  'messages:write': ['message.send']
+};
+
+const rolePermissions: Record<UserRole, Permission[]> = {
+  admin: [...PERMISSIONS],
+  lead: [
+    'task.view', 'task.create', 'task.update', 'task.assign', 'task.delete',
+    'message.send', 'message.moderate', 'summary.edit', 'qa.request', 'qa.review', 'job.retry'
+  ],
+  operator: ['task.view', 'task.create', 'task.update', 'message.send', 'summary.edit', 'qa.request', 'job.retry'],
+  qa_reviewer: ['task.view', 'message.send', 'qa.review'],
+  // People who raise tasks and follow up on them
+  requester: ['task.view', 'task.create', 'message.send']
+};
+
+/**
+ * Permissions granted to a role
+ * @param role User role
+ * @returns The role's permissions (none for unknown roles)
+ */
+export const getPermissions = (role: string): Permission[] =>
+  rolePermissions[role as UserRole] || [];
+
+/**
+ * Whether a role grants a permission
+ * @param role User role
+ * @param permission Permission to check
+ */
+export const hasPermission = (role: string, permission: Permission): boolean =>
+  getPermissions(role).includes(permission);
+
+/**
+ * Permissions of a request made with a personal access token
+ * A token never grants more than its user's role, and only what its scopes cover.
+ * @param role Role of the token's user
+ * @param scopes Scopes of the token
+ */
+export const getTokenPermissions = (role: string, scopes: string[]): Permission[] => {
+  const allowed = new Set(
+    scopes.flatMap(scope => scopePermissions[scope as TokenScope] || [])
+  );
+  return getPermissions(role).filter(permission => allowed.has(permission));
+};
@@ -0,0 +1,20 @@
+import dotenv from 'dotenv';
+
+// Load environment variables
+dotenv.config();
+
+// round_robin: the reviewer assigned longest ago; least_loaded: the fewest pending reviews
+export type QAAssignmentStrategy = 'round_robin' | 'least_loaded';
+
+export interface QAConfig {
+  assignmentStrategy: QAAssignmentStrategy;
+  // Time a reviewer has to decide an assigned review
+  reviewSlaHours: number;
+}
+
+const hours = parseFloat(process.env.QA_REVIEW_SLA_HOURS || '');
+
+export const qaConfig: QAConfig = {
+  assignmentStrategy: process.env.QA_ASSIGNMENT_STRATEGY === 'round_robin' ? 'round_robin' : 'least_loaded',
+  reviewSlaHours: Number.isNaN(hours) || hours <= 0 ? 24 : hours
+};
@@ -0,0 +1,53 @@
+import fs from 'fs';
+import path from 'path';
+import { TaskStatus } from '../models/Task';
+
+// Guards are referenced by name so the workflow can be loaded from JSON;
+// their implementations live in services/workflowService.ts
+export type WorkflowGuard = 'noPendingQAReviews';
+
+export interface WorkflowTransition {
+  from: TaskStatus;
+  to: TaskStatus;
+  label: string;
+  // Roles allowed to perform the transition (any role if omitted)
+  roles?: string[];
+  // Request body fields that must be non-empty for the transition
+  requiredFields?: string[];
+  guards?: WorkflowGuard[];
+}
+
+export interface WorkflowDefinition {
+  initialStatus: TaskStatus;
+  transitions: WorkflowTransition[];
+}
+
+const defaultWorkflow: WorkflowDefinition = {
+  initialStatus: 'Logged',
+  transitions: [
+    { from: 'Logged', to: 'Ongoing', label: 'Start work' },
+    { from: 'Logged', to: 'Blocked', label: 'Mark as blocked', requiredFields: ['blockedReason'] },
+    { from: 'Ongoing', to: 'Reviewed', label: 'Send for review' },
+    { from: 'Ongoing', to: 'Blocked', label: 'Mark as blocked', requiredFields: ['blockedReason'] },
+    { from: 'Ongoing', to: 'Logged', label: 'Move back to logged' },
+    { from: 'Reviewed', to: 'Done', label: 'Mark as done', guards: ['noPendingQAReviews'] },
+    { from: 'Reviewed', to: 'Ongoing', label: 'Reopen' },
+    { from: 'Blocked', to: 'Ongoing', label: 'Unblock' },
+    { from: 'Blocked', to: 'Logged', label: 'Move back to logged' },
+    { from: 'Done', to: 'Ongoing', label: 'Reopen', roles: ['admin', 'lead'] }
+  ]
+};
+
+// TASK_WORKFLOW_FILE may point to a JSON file with the same shape as defaultWorkflow
+const loadWorkflow = (): WorkflowDefinition => {
+  const workflowFile = process.env.TASK_WORKFLOW_FILE;
+  if (!workflowFile) {
+    return defaultWorkflow;
+  }
+
+  const definition = JSON.parse(fs.readFileSync(path.resolve(workflowFile), 'utf8')) as WorkflowDefinition;
+  console.log(`[WORKFLOW] Loaded task workflow from ${workflowFile}`);
+  return definition;
+};
+
+export const taskWorkflow = loadWorkflow();
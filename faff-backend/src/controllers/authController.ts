@@ -1,18 +1,94 @@
 import { Request, Response } from 'express';
-import jwt, { SignOptions } from 'jsonwebtoken';
 import { User } from '../models';
+import { PRIVATE_USER_FIELDS } from '../models/User';
+import { getPermissions } from '../config/permissions';
+import {
+  createSession,
+  rotateRefreshToken,
+  revokeSession,
+  revokeUserSessions,
+  getActiveSessions
+} from '../services/sessionService';
+import {
+  sendEmailVerification,
+  verifyEmail as verifyEmailToken,
+  sendPasswordReset,
+  resetPassword as resetPasswordWithToken
+} from '../services/accountTokenService';
+import {
+  isTwoFactorRequired,
+  getTwoFactorStatus,
+  signChallenge,
+  resolveChallenge,
+  beginEnrollment,
+  enableTwoFactor as enableTwoFactorWithCode,
+  verifySecondFactor,
+  regenerateRecoveryCodes as regenerateRecoveryCodesFor,
+  disableTwoFactor as disableTwoFactorFor
+} from '../services/twoFactorService';
 
-interface JwtPayload {
-  id: number;
-  email: string;
-  role: string;
-}
+// The signed-in user as returned to the client, with the permissions of their role
+const toAuthUser = (user: User) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  emailVerifiedAt: user.emailVerifiedAt,
+  twoFactorEnabledAt: user.twoFactorEnabledAt,
+  permissions: getPermissions(user.role)
+});
 
-// Get all users
+// Mail failures are logged rather than failing the request that triggered the email
+const sendVerificationQuietly = (user: User) => {
+  sendEmailVerification(user).catch(error => {
+    console.error(`Failed to send verification email to user ${user.id}:`, error);
+  });
+};
+
+// Device details stored with a new session
+const sessionClient = (req: Request) => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip
+});
+
+/**
+ * Finish the password step: start a session, or hand out a challenge token when
+ * the user still has to enter (or first set up) their second factor
+ */
+const completePasswordStep = async (req: Request, res: Response, user: User, status: number, message: string) => {
+  if (user.twoFactorEnabledAt) {
+    return res.status(status).json({
+      message: 'Enter the code from your authenticator app',
+      twoFactorRequired: true,
+      challengeToken: signChallenge(user, 'verify')
+    });
+  }
+
+  if (await isTwoFactorRequired(user)) {
+    return res.status(status).json({
+      message: 'Your role requires two-factor authentication. Set it up to continue.',
+      twoFactorSetupRequired: true,
+      challengeToken: signChallenge(user, 'setup')
+    });
+  }
+
+  // Start a session: a short-lived access token plus a refresh token
+  const { token, refreshToken } = await createSession(user, sessionClient(req));
+
+  return res.status(status).json({
+    message,
+    token,
+    refreshToken,
+    user: toAuthUser(user)
+  });
+};
+
+// Get all active users (for assignee and mention pickers)
 export const getAllUsers = async (req: Request, res: Response) => {
   try {
     const users = await User.findAll({
-      attributes: { exclude: ['password'] },
+      where: { deactivatedAt: null },
+      attributes: { exclude: PRIVATE_USER_FIELDS },
       order: [['name', 'ASC']]
     });
 
@@ -26,46 +102,26 @@ export const getAllUsers = async (req: Request, res: Response) => {
 // Register a new user
 export const register = async (req: Request, res: Response) => {
   try {
-    const { name, email, password, role } = req.body;
+    const { name, email, password } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ where: { email } });
-    console.log("existingUser", existingUser);
     if (existingUser) {
       return res.status(400).json({ message: 'User with this email already exists' });
     }
 
-    // Create new user
+    // Roles are granted by admins; the first account bootstraps the instance as its admin
+    const isFirstUser = (await User.count()) === 0;
     const user = await User.create({
       name,
       email,
       password,
-      role: role || 'operator'
+      role: isFirstUser ? 'admin' : 'operator'
     });
 
-    // Generate JWT token
-    const payload: JwtPayload = {
-      id: user.id,
-      email: user.email,
-      role: user.role
-    };
-
-    const token = jwt.sign(
-      payload,
-      Buffer.from(process.env.JWT_SECRET || 'faff_secret_key'),
-      { expiresIn: process.env.JWT_EXPIRATION || '24h' } as SignOptions
-    );
-
-    return res.status(201).json({
-      message: 'User registered successfully',
-      token,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role
-      }
-    });
+    sendVerificationQuietly(user);
+
+    return completePasswordStep(req, res, user, 201, 'User registered successfully');
   } catch (error) {
     console.error('Register error:', error);
     return res.status(500).json({ message: 'Server error', error: (error as Error).message });
@@ -80,9 +136,6 @@ export const login = async (req: Request, res: Response) => {
     // Find user by email
     const user = await User.findOne({ where: { email } });
     if (!user) {
-      console.log("email", email);
-      console.log("password", password);
-      console.log("user not found");
       return res.status(404).json({ message: 'Invalid email or password' });
     }
 
@@ -92,30 +145,11 @@ export const login = async (req: Request, res: Response) => {
       return res.status(401).json({ message: 'Invalid email or password' });
     }
 
-    // Generate JWT token
-    const payload: JwtPayload = {
-      id: user.id,
-      email: user.email,
-      role: user.role
-    };
-
-    const token = jwt.sign(
-      payload,
-      Buffer.from(process.env.JWT_SECRET || 'faff_secret_key'),
-      { expiresIn: process.env.JWT_EXPIRATION || '24h' } as SignOptions
-    );
+    if (user.deactivatedAt) {
+      return res.status(403).json({ message: 'This account has been deactivated. Contact an administrator.' });
+    }
 
-    console.log("user", user);
-    return res.status(200).json({
-      message: 'Login successful',
-      token,
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role
-      }
-    });
+    return completePasswordStep(req, res, user, 200, 'Login successful');
   } catch (error) {
     console.error('Login error:', error);
     return res.status(500).json({ message: 'Server error', error: (error as Error).message });
@@ -128,14 +162,14 @@ export const getCurrentUser = async (req: Request, res: Response) => {
     const userId = (req as any).user.id;
 
     const user = await User.findByPk(userId, {
-      attributes: { exclude: ['password'] }
+      attributes: { exclude: PRIVATE_USER_FIELDS }
     });
 
     if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
 
-    return res.status(200).json({ user });
+    return res.status(200).json({ user: { ...user.toJSON(), permissions: getPermissions(user.role) } });
   } catch (error) {
     console.error('Get current user error:', error);
     return res.status(500).json({ message: 'Server error', error: (error as Error).message });
@@ -161,20 +195,21 @@ export const updateProfile = async (req: Request, res: Response) => {
       }
     }
 
-    // Update user
+    // Update user; a new email address has to be verified again
+    const emailChanged = Boolean(email) && email !== user.email;
     await user.update({
       name: name || user.name,
       email: email || user.email,
+      ...(emailChanged && { emailVerifiedAt: null })
     });
 
+    if (emailChanged) {
+      sendVerificationQuietly(user);
+    }
+
     return res.status(200).json({
       message: 'Profile updated successfully',
-      user: {
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role
-      }
+      user: toAuthUser(user)
     });
   } catch (error) {
     console.error('Update profile error:', error);
@@ -196,15 +231,437 @@ export const changePassword = async (req: Request, res: Response) => {
     // Validate current password
     const isPasswordValid = await user.validatePassword(currentPassword);
     if (!isPasswordValid) {
-      return res.status(401).json({ message: 'Current password is incorrect' });
+      return res.status(400).json({ message: 'Current password is incorrect' });
     }
 
     // Update password
     await user.update({ password: newPassword });
 
+    // Sign out every other device, in case the old password leaked
+    await revokeUserSessions(userId, (req as any).user.sessionId);
+
     return res.status(200).json({ message: 'Password changed successfully' });
   } catch (error) {
     console.error('Change password error:', error);
     return res.status(500).json({ message: 'Server error', error: (error as Error).message });
   }
-}; 
\ No newline at end of file
+}; 
+// Exchange a refresh token for a new access token; the refresh token is rotated
+export const refresh = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      return res.status(400).json({ message: 'refreshToken is required' });
+    }
+
+    const tokens = await rotateRefreshToken(refreshToken);
+    if (!tokens) {
+      return res.status(401).json({ message: 'Session expired or revoked' });
+    }
+
+    return res.status(200).json({
+      message: 'Token refreshed',
+      token: tokens.token,
+      refreshToken: tokens.refreshToken
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Log out: revoke the current session
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+
+    await revokeSession(userId, sessionId);
+
+    return res.status(200).json({ message: 'Logged out successfully' });
+  } catch (error) {
+    console.error('Logout error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get the current user's active sessions
+export const getSessions = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+
+    const sessions = await getActiveSessions(userId);
+
+    return res.status(200).json({
+      sessions: sessions.map(session => ({ ...session.toJSON(), current: session.id === sessionId }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Revoke one of the current user's sessions (signs that device out)
+export const deleteSession = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const sessionId = parseInt(req.params.id);
+
+    if (!(await revokeSession(userId, sessionId))) {
+      return res.status(404).json({ message: 'Session not found' });
+    }
+
+    return res.status(200).json({ message: 'Session revoked' });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Revoke every session of the current user except the current one
+export const deleteOtherSessions = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+
+    const revoked = await revokeUserSessions(userId, sessionId);
+
+    return res.status(200).json({ message: 'Other sessions revoked', revoked });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Email a password reset link; the response does not reveal whether the account exists
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (typeof email !== 'string' || !email.trim()) {
+      return res.status(400).json({ message: 'email is required' });
+    }
+
+    try {
+      await sendPasswordReset(email.trim());
+    } catch (error) {
+      console.error('Send password reset error:', error);
+    }
+
+    return res.status(200).json({
+      message: 'If an account exists for that email, a password reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Set a new password using the token from a reset link
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ message: 'token is required' });
+    }
+    if (typeof password !== 'string' || password.length < 6) {
+      return res.status(400).json({ message: 'Password must be at least 6 characters' });
+    }
+
+    const user = await resetPasswordWithToken(token, password);
+    if (!user) {
+      return res.status(400).json({ message: 'This reset link is invalid or has expired' });
+    }
+
+    return res.status(200).json({ message: 'Password reset successfully. Please log in with your new password.' });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Verify an email address using the token from a verification link
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (typeof token !== 'string' || !token) {
+      return res.status(400).json({ message: 'token is required' });
+    }
+
+    const user = await verifyEmailToken(token);
+    if (!user) {
+      return res.status(400).json({ message: 'This verification link is invalid or has expired' });
+    }
+
+    return res.status(200).json({ message: 'Email verified successfully', emailVerifiedAt: user.emailVerifiedAt });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Send the current user a new verification link
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.emailVerifiedAt) {
+      return res.status(400).json({ message: 'Email is already verified' });
+    }
+
+    await sendEmailVerification(user);
+
+    return res.status(200).json({ message: `Verification email sent to ${user.email}` });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Second login step: exchange a challenge token and an authenticator or recovery code for a session
+export const loginTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (typeof challengeToken !== 'string' || typeof code !== 'string' || !code.trim()) {
+      return res.status(400).json({ message: 'challengeToken and code are required' });
+    }
+
+    const user = await resolveChallenge(challengeToken, 'verify');
+    if (!user) {
+      return res.status(401).json({ message: 'This sign-in attempt has expired. Log in again.' });
+    }
+
+    const method = await verifySecondFactor(user, code);
+    if (!method) {
+      return res.status(401).json({ message: 'Invalid authentication code' });
+    }
+
+    if (method === 'recovery') {
+      console.log(`[AUTH] ${user.email} signed in with a recovery code (${user.twoFactorRecoveryCodes.length} left)`);
+    }
+
+    const { token, refreshToken } = await createSession(user, sessionClient(req));
+
+    return res.status(200).json({
+      message: 'Login successful',
+      token,
+      refreshToken,
+      user: toAuthUser(user),
+      ...(method === 'recovery' && { recoveryCodesRemaining: user.twoFactorRecoveryCodes.length })
+    });
+  } catch (error) {
+    console.error('Two-factor login error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Start the enrollment required by the admin's policy, during sign-in
+export const loginTwoFactorSetup = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken } = req.body;
+
+    const user = typeof challengeToken === 'string' ? await resolveChallenge(challengeToken, 'setup') : null;
+    if (!user || user.twoFactorEnabledAt) {
+      return res.status(401).json({ message: 'This sign-in attempt has expired. Log in again.' });
+    }
+
+    const setup = await beginEnrollment(user);
+
+    return res.status(200).json(setup);
+  } catch (error) {
+    console.error('Two-factor login setup error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Finish the enrollment started during sign-in and start a session
+export const loginTwoFactorEnable = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code } = req.body;
+
+    if (typeof challengeToken !== 'string' || typeof code !== 'string') {
+      return res.status(400).json({ message: 'challengeToken and code are required' });
+    }
+
+    const user = await resolveChallenge(challengeToken, 'setup');
+    if (!user) {
+      return res.status(401).json({ message: 'This sign-in attempt has expired. Log in again.' });
+    }
+
+    const recoveryCodes = await enableTwoFactorWithCode(user, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+    console.log(`[AUTH] ${user.email} enabled two-factor authentication`);
+
+    const { token, refreshToken } = await createSession(user, sessionClient(req));
+
+    return res.status(200).json({
+      message: 'Two-factor authentication enabled',
+      token,
+      refreshToken,
+      user: toAuthUser(user),
+      recoveryCodes
+    });
+  } catch (error) {
+    console.error('Two-factor login enable error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get the current user's 2FA status
+export const getTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    return res.status(200).json(await getTwoFactorStatus(user));
+  } catch (error) {
+    console.error('Get two-factor status error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Generate a new secret and QR code for the current user to scan
+export const setupTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const setup = await beginEnrollment(user);
+
+    return res.status(200).json(setup);
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Turn on 2FA once the user enters a code from the new secret; other devices are signed out
+export const enableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, sessionId } = (req as any).user;
+    const { code } = req.body;
+
+    if (typeof code !== 'string') {
+      return res.status(400).json({ message: 'code is required' });
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return res.status(400).json({ message: 'Two-factor authentication is already enabled' });
+    }
+
+    const recoveryCodes = await enableTwoFactorWithCode(user, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    await revokeUserSessions(userId, sessionId);
+    console.log(`[AUTH] ${user.email} enabled two-factor authentication`);
+
+    return res.status(200).json({
+      message: 'Two-factor authentication enabled',
+      recoveryCodes,
+      status: await getTwoFactorStatus(user)
+    });
+  } catch (error) {
+    console.error('Enable two-factor error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Replace the current user's recovery codes; needs a current code
+export const regenerateRecoveryCodes = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { code } = req.body;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!user.twoFactorEnabledAt) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodesFor(user);
+
+    return res.status(200).json({
+      message: 'New recovery codes generated',
+      recoveryCodes,
+      status: await getTwoFactorStatus(user)
+    });
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Turn off 2FA; needs the password and a current code, and is refused when the user's role requires 2FA
+export const disableTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { password, code } = req.body;
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!user.twoFactorEnabledAt) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled' });
+    }
+
+    if (await isTwoFactorRequired(user)) {
+      return res.status(403).json({ message: 'Your role requires two-factor authentication' });
+    }
+
+    if (typeof password !== 'string' || !(await user.validatePassword(password))) {
+      return res.status(400).json({ message: 'Password is incorrect' });
+    }
+
+    if (!(await verifySecondFactor(user, code))) {
+      return res.status(400).json({ message: 'Invalid authentication code' });
+    }
+
+    await disableTwoFactorFor(user);
+    console.log(`[AUTH] ${user.email} disabled two-factor authentication`);
+
+    return res.status(200).json({
+      message: 'Two-factor authentication disabled',
+      status: await getTwoFactorStatus(user)
+    });
+  } catch (error) {
+    console.error('Disable two-factor error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
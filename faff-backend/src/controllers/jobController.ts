@@ -0,0 +1,111 @@
+import { Request, Response } from 'express';
+import { Job, Task } from '../models';
+import { retryJob } from '../services/jobService';
+import { requestHasPermission } from '../middleware/auth';
+
+const JOB_STATUSES = ['pending', 'running', 'completed', 'dead'];
+
+// Users see the jobs they queued; job managers see every job
+const canAccessJob = (job: Job, req: Request): boolean =>
+  requestHasPermission(req, 'job.manage') || job.createdById === (req as any).user.id;
+
+// Get background jobs with filtering (`status=dead` lists the dead-letter queue)
+export const getJobs = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const offset = (page - 1) * limit;
+
+    // Filter parameters
+    const status = req.query.status as string;
+    const type = req.query.type as string;
+    const taskId = parseInt(req.query.taskId as string) || undefined;
+
+    if (status && !JOB_STATUSES.includes(status)) {
+      return res.status(400).json({ message: `status must be one of: ${JOB_STATUSES.join(', ')}` });
+    }
+
+    // Build where condition
+    const whereCondition: any = {};
+    if (!requestHasPermission(req, 'job.manage')) {
+      whereCondition.createdById = user.id;
+    }
+    if (status) {
+      whereCondition.status = status;
+    }
+    if (type) {
+      whereCondition.type = type;
+    }
+    if (taskId) {
+      whereCondition.taskId = taskId;
+    }
+
+    const { count, rows } = await Job.findAndCountAll({
+      where: whereCondition,
+      include: [{ model: Task, as: 'task', attributes: ['id', 'title'] }],
+      limit,
+      offset,
+      order: [['createdAt', 'DESC']]
+    });
+
+    return res.status(200).json({
+      jobs: rows,
+      totalCount: count,
+      totalPages: Math.ceil(count / limit),
+      currentPage: page
+    });
+  } catch (error) {
+    console.error('Get jobs error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get a background job's status and result
+export const getJob = async (req: Request, res: Response) => {
+  try {
+    const jobId = parseInt(req.params.id);
+
+    const job = await Job.findByPk(jobId);
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    if (!canAccessJob(job, req)) {
+      return res.status(403).json({ message: 'Not authorized to view this job' });
+    }
+
+    return res.status(200).json({ job });
+  } catch (error) {
+    console.error('Get job error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Requeue a dead job with a fresh set of attempts
+export const retryDeadJob = async (req: Request, res: Response) => {
+  try {
+    const jobId = parseInt(req.params.id);
+
+    const job = await Job.findByPk(jobId);
+    if (!job) {
+      return res.status(404).json({ message: 'Job not found' });
+    }
+
+    if (!canAccessJob(job, req)) {
+      return res.status(403).json({ message: 'Not authorized to retry this job' });
+    }
+
+    if (job.status !== 'dead') {
+      return res.status(400).json({ message: 'Only dead jobs can be retried' });
+    }
+
+    return res.status(200).json({
+      message: 'Job requeued',
+      job: await retryJob(job)
+    });
+  } catch (error) {
+    console.error('Retry job error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
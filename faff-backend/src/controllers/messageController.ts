@@ -1,12 +1,17 @@
 import { Request, Response } from 'express';
+import { Op } from 'sequelize';
 import { Message, User, Task } from '../models';
 import { processUploadedFiles, deleteAttachmentFiles } from '../services/fileService';
 import { Attachment } from '../models/Message';
+import { resolveMentions } from '../services/mentionService';
+import { enqueueJob } from '../services/jobService';
+import { recordDraftCheckOutcome } from '../services/draftCheckService';
+import { auditOptions, requestHasPermission } from '../middleware/auth';
 
 // Create a new message
 export const createMessage = async (req: Request, res: Response) => {
   try {
-    const { taskId, content, replyToId } = req.body;
+    const { taskId, content, replyToId, draftCheckId } = req.body;
     const senderId = (req as any).user.id;
     const files = (req.files as Express.Multer.File[]) || [];
 
@@ -53,8 +58,14 @@ export const createMessage = async (req: Request, res: Response) => {
       senderId,
       content,
       replyToId: replyToId || null,
-      attachments
-    });
+      attachments,
+      mentionedUserIds: await resolveMentions(content)
+    }, auditOptions(req));
+
+    // Log what the sender did with a pre-send quality check
+    if (draftCheckId) {
+      await recordDraftCheckOutcome(parseInt(draftCheckId), message);
+    }
 
     // Fetch the created message with sender info
     const messageWithDetails = await Message.findByPk(message.id, {
@@ -74,13 +85,23 @@ export const createMessage = async (req: Request, res: Response) => {
   }
 };
 
-// Get messages for a task
+// Get messages for a task as cursor-paginated, newest-first windows
+// `before` returns the messages just older than the given message id, `after` the
+// ones just newer; with neither, the newest messages are returned
 export const getTaskMessages = async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.taskId);
-    const page = parseInt(req.query.page as string) || 1;
-    const limit = parseInt(req.query.limit as string) || 20;
-    const offset = (page - 1) * limit;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const before = req.query.before !== undefined ? parseInt(req.query.before as string) : undefined;
+    const after = req.query.after !== undefined ? parseInt(req.query.after as string) : undefined;
+    const mentioningMe = req.query.mentioning === 'me';
+
+    if (Number.isNaN(before) || Number.isNaN(after)) {
+      return res.status(400).json({ message: 'Cursors must be message IDs' });
+    }
+    if (before !== undefined && after !== undefined) {
+      return res.status(400).json({ message: 'Use either before or after, not both' });
+    }
 
     // Check if task exists
     const task = await Task.findByPk(taskId);
@@ -88,9 +109,20 @@ export const getTaskMessages = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Task not found' });
     }
 
-    // Fetch messages with pagination
-    const { count, rows } = await Message.findAndCountAll({
-      where: { taskId },
+    const whereCondition: any = { taskId };
+    if (mentioningMe) {
+      whereCondition.mentionedUserIds = { [Op.contains]: [(req as any).user.id] };
+    }
+    if (before !== undefined) {
+      whereCondition.id = { [Op.lt]: before };
+    } else if (after !== undefined) {
+      whereCondition.id = { [Op.gt]: after };
+    }
+
+    // Message IDs increase with creation time, so they double as the cursor.
+    // Fetch one extra row to know whether another window exists past this one.
+    const rows = await Message.findAll({
+      where: whereCondition,
       include: [
         { model: User, as: 'sender', attributes: ['id', 'name', 'email'] },
         { 
@@ -99,9 +131,49 @@ export const getTaskMessages = async (req: Request, res: Response) => {
           include: [{ model: User, as: 'sender', attributes: ['id', 'name', 'email'] }] 
         }
       ],
+      limit: limit + 1,
+      // `after` walks forward from the cursor; every other window walks back from the newest
+      order: [['id', after !== undefined ? 'ASC' : 'DESC']]
+    });
+
+    const hasMore = rows.length > limit;
+    const window = rows.slice(0, limit);
+    if (after !== undefined) {
+      window.reverse();
+    }
+
+    return res.status(200).json({
+      messages: window,
+      hasMore,
+      // Pass `before` to page further back and `after` to catch up on newer messages
+      cursors: {
+        before: window.length > 0 ? window[window.length - 1].id : null,
+        after: window.length > 0 ? window[0].id : null
+      }
+    });
+  } catch (error) {
+    console.error('Get task messages error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get messages mentioning the current user across all tasks
+export const getMentions = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const offset = (page - 1) * limit;
+
+    const { count, rows } = await Message.findAndCountAll({
+      where: { mentionedUserIds: { [Op.contains]: [userId] } },
+      include: [
+        { model: User, as: 'sender', attributes: ['id', 'name', 'email'] },
+        { model: Task, as: 'task', attributes: ['id', 'title', 'status'] }
+      ],
       limit,
       offset,
-      order: [['createdAt', 'ASC']]
+      order: [['createdAt', 'DESC']]
     });
 
     return res.status(200).json({
@@ -111,7 +183,7 @@ export const getTaskMessages = async (req: Request, res: Response) => {
       currentPage: page
     });
   } catch (error) {
-    console.error('Get task messages error:', error);
+    console.error('Get mentions error:', error);
     return res.status(500).json({ message: 'Server error', error: (error as Error).message });
   }
 };
@@ -185,8 +257,9 @@ export const updateMessage = async (req: Request, res: Response) => {
     // Update message
     await message.update({
       content: content || message.content,
-      attachments: updatedAttachments
-    });
+      attachments: updatedAttachments,
+      mentionedUserIds: content ? await resolveMentions(content) : message.mentionedUserIds
+    }, auditOptions(req));
 
     // Fetch updated message with associations
     const updatedMessage = await Message.findByPk(messageId, {
@@ -215,7 +288,6 @@ export const deleteMessage = async (req: Request, res: Response) => {
   try {
     const messageId = parseInt(req.params.id);
     const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
 
     const message = await Message.findByPk(messageId);
 
@@ -223,18 +295,20 @@ export const deleteMessage = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Message not found' });
     }
 
-    // Only the sender or an admin can delete the message
-    if (message.senderId !== userId && userRole !== 'admin') {
+    // Only the sender or a moderator can delete the message
+    if (message.senderId !== userId && !requestHasPermission(req, 'message.moderate')) {
       return res.status(403).json({ message: 'Not authorized to delete this message' });
     }
 
-    // Delete attachment files if any
+    await message.destroy(auditOptions(req));
+
+    // Delete attachment files in the background, retrying if the disk is unavailable
     if (message.attachments && message.attachments.length > 0) {
-      await deleteAttachmentFiles(message.attachments as Attachment[]);
+      await enqueueJob('attachments.delete', {
+        paths: (message.attachments as Attachment[]).map(attachment => attachment.path)
+      }, { createdById: userId, taskId: message.taskId });
     }
 
-    await message.destroy();
-
     return res.status(200).json({ message: 'Message deleted successfully' });
   } catch (error) {
     console.error('Delete message error:', error);
@@ -269,9 +343,6 @@ export const removeAttachment = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Attachment not found' });
     }
 
-    // Delete the file
-    await deleteAttachmentFiles([attachmentToRemove]);
-
     // Update message attachments
     const updatedAttachments = message.attachments.filter(
       (attachment: Attachment) => attachment.id !== attachmentId
@@ -279,7 +350,10 @@ export const removeAttachment = async (req: Request, res: Response) => {
 
     await message.update({
       attachments: updatedAttachments
-    });
+    }, auditOptions(req));
+
+    // Delete the file in the background
+    await enqueueJob('attachments.delete', { paths: [attachmentToRemove.path] }, { createdById: userId, taskId: message.taskId });
 
     // Fetch updated message with associations
     const updatedMessage = await Message.findByPk(messageId, {
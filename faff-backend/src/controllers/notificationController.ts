@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import { Notification, User, Task } from '../models';
+import { getUnreadCount, markNotifications } from '../services/notificationService';
+
+// Get notifications for the current user
+export const getNotifications = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const offset = (page - 1) * limit;
+    const unreadOnly = req.query.unread === 'true';
+
+    const whereCondition: any = { userId };
+    if (unreadOnly) {
+      whereCondition.readAt = null;
+    }
+
+    const { count, rows } = await Notification.findAndCountAll({
+      where: whereCondition,
+      include: [
+        { model: User, as: 'actor', attributes: ['id', 'name', 'email'] },
+        { model: Task, as: 'task', attributes: ['id', 'title'] }
+      ],
+      limit,
+      offset,
+      order: [['createdAt', 'DESC']]
+    });
+
+    return res.status(200).json({
+      notifications: rows,
+      unreadCount: await getUnreadCount(userId),
+      totalCount: count,
+      totalPages: Math.ceil(count / limit),
+      currentPage: page
+    });
+  } catch (error) {
+    console.error('Get notifications error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get the unread notification count for the current user
+export const getNotificationCount = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    return res.status(200).json({ unreadCount: await getUnreadCount(userId) });
+  } catch (error) {
+    console.error('Get notification count error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Mark notifications as read or unread (all of them when no IDs are given)
+export const updateNotificationsReadState = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const { ids, read = true } = req.body;
+
+    if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => !Number.isInteger(id)))) {
+      return res.status(400).json({ message: 'ids must be an array of notification IDs' });
+    }
+
+    const result = await markNotifications(userId, ids, Boolean(read));
+
+    return res.status(200).json({
+      message: 'Notifications updated successfully',
+      ...result
+    });
+  } catch (error) {
+    console.error('Update notifications error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
@@ -1,9 +1,34 @@
 import { Request, Response } from 'express';
 import { Op } from 'sequelize';
+import sequelize from '../config/database';
 import { QAReview, Message, User, Task } from '../models';
-import { checkMessageQuality } from '../services/openaiService';
+import { enqueueJob } from '../services/jobService';
+import { createSweepReviews } from '../services/qaService';
+import { checkDraft } from '../services/draftCheckService';
+import { assignReviewer, computeDueAt } from '../services/qaAssignmentService';
+import { requestHasPermission } from '../middleware/auth';
+import { AuditOptions } from '../models/TaskEvent';
+
+// Fetch a review with the people and message shown in the QA inbox
+const findReviewWithDetails = (reviewId: number) =>
+  QAReview.findByPk(reviewId, {
+    include: [
+      { model: User, as: 'reviewer', attributes: ['id', 'name', 'email'] },
+      { model: User, as: 'requestedBy', attributes: ['id', 'name', 'email'] },
+      {
+        model: Message,
+        as: 'message',
+        include: [
+          { model: User, as: 'sender', attributes: ['id', 'name', 'email'] },
+          { model: Task, as: 'task' }
+        ]
+      }
+    ]
+  });
 
 // Request a QA review for a message
+// The review is assigned to an eligible reviewer other than the message's author,
+// or left in the unassigned pool when there is none.
 export const requestQAReview = async (req: Request, res: Response) => {
   try {
     const { messageId } = req.body;
@@ -27,25 +52,15 @@ export const requestQAReview = async (req: Request, res: Response) => {
     // Create QA review request
     const review = await QAReview.create({
       messageId,
-      reviewerId: userId,
+      ...(await assignReviewer(message.senderId)),
+      requestedById: userId,
       status: 'pending',
-      feedback: null
-    });
+      feedback: null,
+      dueAt: computeDueAt()
+    }, { actorId: userId } as AuditOptions);
 
     // Fetch the review with associations
-    const reviewWithDetails = await QAReview.findByPk(review.id, {
-      include: [
-        { model: User, as: 'reviewer', attributes: ['id', 'name', 'email'] },
-        { 
-          model: Message, 
-          as: 'message',
-          include: [
-            { model: User, as: 'sender', attributes: ['id', 'name', 'email'] },
-            { model: Task, as: 'task' }
-          ] 
-        }
-      ]
-    });
+    const reviewWithDetails = await findReviewWithDetails(review.id);
 
     return res.status(201).json({
       message: 'QA review requested successfully',
@@ -57,16 +72,107 @@ export const requestQAReview = async (req: Request, res: Response) => {
   }
 };
 
+// Check a draft against the task's QA rubric before sending it
+// Returns the scores, the issues found and a suggested rewrite. Sending a message with the
+// returned check's `draftCheckId` logs whether the rewrite was accepted, edited or ignored.
+export const checkDraftMessage = async (req: Request, res: Response) => {
+  try {
+    const { taskId, content } = req.body;
+    const userId = (req as any).user.id;
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ message: 'Draft content is required' });
+    }
+
+    // Check if task exists
+    const task = await Task.findByPk(taskId);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    let check;
+    try {
+      check = await checkDraft(task, userId, content);
+    } catch (error) {
+      console.error('Draft check model error:', error);
+      return res.status(502).json({ message: 'The quality check is unavailable right now. You can still send the message.' });
+    }
+
+    return res.status(200).json({
+      message: 'Draft checked',
+      check
+    });
+  } catch (error) {
+    console.error('Check draft error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Create reviews for every unreviewed outgoing message matching the filters and queue an AI sweep
+// over them. Responds 202 with the job; its result holds the aggregate report.
+export const sweepQAReviews = async (req: Request, res: Response) => {
+  try {
+    const { taskId, senderId, from, to, limit } = req.body;
+    const userId = (req as any).user.id;
+
+    if (taskId === undefined && senderId === undefined && from === undefined && to === undefined) {
+      return res.status(400).json({ message: 'Provide a taskId, senderId or date range to sweep' });
+    }
+    if ((taskId !== undefined && !Number.isInteger(taskId)) || (senderId !== undefined && !Number.isInteger(senderId))) {
+      return res.status(400).json({ message: 'taskId and senderId must be integers' });
+    }
+
+    const fromDate = from !== undefined ? new Date(from) : undefined;
+    const toDate = to !== undefined ? new Date(to) : undefined;
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      return res.status(400).json({ message: 'from and to must be valid dates' });
+    }
+
+    const { reviews, matched } = await createSweepReviews({
+      taskId,
+      senderId,
+      from: fromDate,
+      to: toDate,
+      limit: Math.min(parseInt(limit) || 100, 500)
+    }, userId);
+
+    if (reviews.length === 0) {
+      return res.status(200).json({ message: 'No unreviewed messages matched', reviewCount: 0, matched });
+    }
+
+    const job = await enqueueJob('qa.sweep', { reviewIds: reviews.map(review => review.id) }, {
+      createdById: userId,
+      taskId: taskId ?? null
+    });
+
+    return res.status(202).json({
+      message: 'QA sweep queued',
+      job,
+      reviewCount: reviews.length,
+      // Messages matching the filters; when above reviewCount, run the sweep again for the rest
+      matched
+    });
+  } catch (error) {
+    console.error('QA sweep error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
 // Get all QA reviews with filtering
+// `assignee` is "me", "unassigned" or a user ID; `overdue=true` keeps pending reviews past their due date.
+// Pending reviews are listed by due date, others newest first.
 export const getQAReviews = async (req: Request, res: Response) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 20;
     const offset = (page - 1) * limit;
+    const userId = (req as any).user.id;
     
     // Filter parameters
     const status = req.query.status as string;
     const taskId = parseInt(req.query.taskId as string) || undefined;
+    const assignee = req.query.assignee as string | undefined;
+    const overdue = req.query.overdue === 'true';
     
     // Build where condition
     const whereCondition: any = {};
@@ -74,6 +180,23 @@ export const getQAReviews = async (req: Request, res: Response) => {
     if (status) {
       whereCondition.status = status;
     }
+
+    if (assignee === 'me') {
+      whereCondition.reviewerId = userId;
+    } else if (assignee === 'unassigned') {
+      whereCondition.reviewerId = null;
+    } else if (assignee !== undefined) {
+      const assigneeId = parseInt(assignee);
+      if (isNaN(assigneeId)) {
+        return res.status(400).json({ message: 'assignee must be "me", "unassigned" or a user ID' });
+      }
+      whereCondition.reviewerId = assigneeId;
+    }
+
+    if (overdue) {
+      whereCondition.status = 'pending';
+      whereCondition.dueAt = { [Op.lt]: new Date() };
+    }
     
     // Task ID filtering requires joining with messages
     const messageWhere: any = {};
@@ -86,6 +209,7 @@ export const getQAReviews = async (req: Request, res: Response) => {
       where: whereCondition,
       include: [
         { model: User, as: 'reviewer', attributes: ['id', 'name', 'email'] },
+        { model: User, as: 'requestedBy', attributes: ['id', 'name', 'email'] },
         { 
           model: Message, 
           as: 'message',
@@ -98,7 +222,9 @@ export const getQAReviews = async (req: Request, res: Response) => {
       ],
       limit,
       offset,
-      order: [['createdAt', 'DESC']]
+      order: whereCondition.status === 'pending'
+        ? [['dueAt', 'ASC NULLS LAST'], ['createdAt', 'ASC']]
+        : [['createdAt', 'DESC']]
     });
 
     return res.status(200).json({
@@ -113,13 +239,14 @@ export const getQAReviews = async (req: Request, res: Response) => {
   }
 };
 
-// Update a QA review (approve or reject) using OpenAI for automatic QA
+// Update a QA review (approve or reject)
+// With `useAI` the review is queued for the QA model and 202 is returned with the job;
+// the verdict is pushed as job_updated when the job completes
 export const updateQAReview = async (req: Request, res: Response) => {
   try {
     const reviewId = parseInt(req.params.id);
     const { status, feedback, useAI = false } = req.body;
     const userId = (req as any).user.id;
-    const userRole = (req as any).user.role;
 
     // Check if review exists
     const review = await QAReview.findByPk(reviewId, {
@@ -134,74 +261,52 @@ export const updateQAReview = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'QA review not found' });
     }
 
-    // Only reviewers or admins can update reviews
-    if (review.reviewerId !== userId && userRole !== 'admin') {
-      return res.status(403).json({ message: 'Not authorized to update this review' });
+    const message = review.get('message') as Message | undefined;
+    if (!message) {
+      return res.status(404).json({ message: 'Associated message not found' });
     }
 
-    let updatedStatus = status;
-    let updatedFeedback = feedback;
+    // Only the assigned reviewer or a QA manager can update a review, and never the message's author
+    if ((review.reviewerId !== userId && !requestHasPermission(req, 'qa.manage')) || message.senderId === userId) {
+      return res.status(403).json({ message: 'Not authorized to update this review' });
+    }
 
-    // If AI review is requested, use OpenAI to check message quality
     if (useAI) {
-      // Get task context (previous messages)
-      const message = await Message.findByPk(review.messageId, {
-        include: [{ model: Task, as: 'task' }]
-      });
-      if (!message) {
-        return res.status(404).json({ message: 'Associated message not found' });
+      // The QA model never overrides a decision a reviewer already made
+      if (review.status !== 'pending') {
+        return res.status(400).json({ message: 'Only pending reviews can be sent to the QA model' });
       }
-      const taskId = message.taskId;
-      
-      // Get all messages for the task before this message
-      const previousMessages = await Message.findAll({
-        where: { 
-          taskId,
-          id: { [Op.lt]: review.messageId }
-        },
-        include: [{ model: User, as: 'sender', attributes: ['id', 'name'] }],
-        order: [['createdAt', 'ASC']]
+
+      const job = await enqueueJob('qa.ai_review', { reviewId }, { createdById: userId, taskId: message.taskId });
+
+      return res.status(202).json({
+        message: 'AI review queued',
+        job
       });
-      
-      // Format previous messages for context
-      const taskContext = previousMessages.map(msg => {
-        const sender = msg.get('sender') as { id: number; name: string };
-        return `${sender.name}: ${msg.content}`;
-      }).join('\n\n');
-      
-      // Check message quality using OpenAI
-      const aiQAResult = await checkMessageQuality(message.content, taskContext);
-      
-      // Update status and feedback based on AI results
-      updatedStatus = aiQAResult.isApproved ? 'approved' : 'rejected';
-      updatedFeedback = aiQAResult.feedback;
-    } else {
-      // Validate manually provided status
-      if (updatedStatus && !['pending', 'approved', 'rejected'].includes(updatedStatus)) {
-        return res.status(400).json({ message: 'Invalid status value' });
-      }
+    }
+
+    // Validate manually provided status
+    if (status && !['pending', 'approved', 'rejected'].includes(status)) {
+      return res.status(400).json({ message: 'Invalid status value' });
+    }
+
+    // A reviewer's approval or rejection becomes the decision, even when it confirms the AI verdict
+    let decision = {};
+    if (status === 'pending') {
+      decision = { decidedAt: null, decisionSource: null };
+    } else if (status) {
+      decision = { decidedAt: new Date(), decisionSource: 'human' };
     }
 
     // Update review
     await review.update({
-      status: updatedStatus || review.status,
-      feedback: updatedFeedback !== undefined ? updatedFeedback : review.feedback
-    });
+      status: status || review.status,
+      feedback: feedback !== undefined ? feedback : review.feedback,
+      ...decision
+    }, { actorId: userId } as AuditOptions);
 
     // Fetch updated review with associations
-    const updatedReview = await QAReview.findByPk(reviewId, {
-      include: [
-        { model: User, as: 'reviewer', attributes: ['id', 'name', 'email'] },
-        { 
-          model: Message, 
-          as: 'message',
-          include: [
-            { model: User, as: 'sender', attributes: ['id', 'name', 'email'] },
-            { model: Task, as: 'task' }
-          ] 
-        }
-      ]
-    });
+    const updatedReview = await findReviewWithDetails(reviewId);
 
     return res.status(200).json({
       message: 'QA review updated successfully',
@@ -213,6 +318,86 @@ export const updateQAReview = async (req: Request, res: Response) => {
   }
 };
 
+// Claim a pending review from the unassigned pool
+// QA managers can also take over a review assigned to someone else.
+export const claimQAReview = async (req: Request, res: Response) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    const userId = (req as any).user.id;
+
+    // Lock the review so two reviewers cannot claim it at the same time
+    const outcome = await sequelize.transaction(async (transaction) => {
+      const review = await QAReview.findByPk(reviewId, {
+        include: [{ model: Message, as: 'message', attributes: ['id', 'senderId'] }],
+        lock: { level: transaction.LOCK.UPDATE, of: QAReview },
+        transaction
+      });
+
+      if (!review) {
+        return { status: 404, message: 'QA review not found' };
+      }
+      if (review.status !== 'pending') {
+        return { status: 400, message: 'Only pending reviews can be claimed' };
+      }
+      if ((review.get('message') as Message | undefined)?.senderId === userId) {
+        return { status: 403, message: 'You cannot review your own message' };
+      }
+      if (review.reviewerId === userId) {
+        return { status: 400, message: 'You already have this review' };
+      }
+      if (review.reviewerId !== null && !requestHasPermission(req, 'qa.manage')) {
+        return { status: 409, message: 'This review is already assigned to another reviewer' };
+      }
+
+      await review.update({ reviewerId: userId, assignedAt: new Date() }, { transaction, actorId: userId } as AuditOptions);
+      return null;
+    });
+
+    if (outcome) {
+      return res.status(outcome.status).json({ message: outcome.message });
+    }
+
+    return res.status(200).json({
+      message: 'QA review claimed successfully',
+      review: await findReviewWithDetails(reviewId)
+    });
+  } catch (error) {
+    console.error('Claim QA review error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Release a pending review back to the unassigned pool; its due date is kept
+export const unclaimQAReview = async (req: Request, res: Response) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    const userId = (req as any).user.id;
+
+    const review = await QAReview.findByPk(reviewId);
+    if (!review) {
+      return res.status(404).json({ message: 'QA review not found' });
+    }
+
+    // Only the assigned reviewer or a QA manager can release a review
+    if (review.reviewerId !== userId && !requestHasPermission(req, 'qa.manage')) {
+      return res.status(403).json({ message: 'Not authorized to release this review' });
+    }
+    if (review.status !== 'pending') {
+      return res.status(400).json({ message: 'Only pending reviews can be released' });
+    }
+
+    await review.update({ reviewerId: null, assignedAt: null }, { actorId: userId } as AuditOptions);
+
+    return res.status(200).json({
+      message: 'QA review released successfully',
+      review: await findReviewWithDetails(reviewId)
+    });
+  } catch (error) {
+    console.error('Unclaim QA review error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
 // Get QA reviews for a specific task
 export const getTaskQAReviews = async (req: Request, res: Response) => {
   try {
@@ -228,6 +413,7 @@ export const getTaskQAReviews = async (req: Request, res: Response) => {
     const reviews = await QAReview.findAll({
       include: [
         { model: User, as: 'reviewer', attributes: ['id', 'name', 'email'] },
+        { model: User, as: 'requestedBy', attributes: ['id', 'name', 'email'] },
         { 
           model: Message, 
           as: 'message',
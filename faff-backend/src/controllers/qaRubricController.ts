@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+import { Op, Transaction } from 'sequelize';
+import { QARubric, QAReview, User, sequelize } from '../models';
+import { validateRubric } from '../services/qaRubricService';
+
+// Only one rubric can be the default
+const clearOtherDefaults = async (rubricId: number, transaction: Transaction) => {
+  await QARubric.update(
+    { isDefault: false },
+    { where: { isDefault: true, id: { [Op.ne]: rubricId } }, transaction }
+  );
+};
+
+// Get QA rubrics (`?active=true` for the ones in use)
+export const getQARubrics = async (req: Request, res: Response) => {
+  try {
+    const whereCondition: any = {};
+    if (req.query.active !== undefined) {
+      whereCondition.active = req.query.active === 'true';
+    }
+
+    const rubrics = await QARubric.findAll({
+      where: whereCondition,
+      include: [{ model: User, as: 'createdBy', attributes: ['id', 'name', 'email'] }],
+      order: [['isDefault', 'DESC'], ['name', 'ASC']]
+    });
+
+    return res.status(200).json({ rubrics });
+  } catch (error) {
+    console.error('Get QA rubrics error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Create a QA rubric
+export const createQARubric = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+
+    const { values, errors } = validateRubric(req.body);
+    if (!values) {
+      return res.status(400).json({ message: errors[0], errors });
+    }
+
+    const rubric = await sequelize.transaction(async (transaction) => {
+      const created = await QARubric.create({ ...values, createdById: userId }, { transaction });
+      if (created.isDefault) {
+        await clearOtherDefaults(created.id, transaction);
+      }
+      return created;
+    });
+
+    return res.status(201).json({
+      message: 'QA rubric created successfully',
+      rubric
+    });
+  } catch (error) {
+    console.error('Create QA rubric error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Update a QA rubric; reviews keep the scores they were given
+export const updateQARubric = async (req: Request, res: Response) => {
+  try {
+    const rubricId = parseInt(req.params.id);
+
+    const rubric = await QARubric.findByPk(rubricId);
+    if (!rubric) {
+      return res.status(404).json({ message: 'QA rubric not found' });
+    }
+
+    const { values, errors } = validateRubric(req.body, rubric);
+    if (!values) {
+      return res.status(400).json({ message: errors[0], errors });
+    }
+
+    await sequelize.transaction(async (transaction) => {
+      await rubric.update(values, { transaction });
+      if (rubric.isDefault) {
+        await clearOtherDefaults(rubric.id, transaction);
+      }
+    });
+
+    return res.status(200).json({
+      message: 'QA rubric updated successfully',
+      rubric
+    });
+  } catch (error) {
+    console.error('Update QA rubric error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Delete a QA rubric that no review used
+export const deleteQARubric = async (req: Request, res: Response) => {
+  try {
+    const rubricId = parseInt(req.params.id);
+
+    const rubric = await QARubric.findByPk(rubricId);
+    if (!rubric) {
+      return res.status(404).json({ message: 'QA rubric not found' });
+    }
+
+    // Keep rubrics with reviews so their score trends stay attributable
+    const reviewCount = await QAReview.count({ where: { rubricId } });
+    if (reviewCount > 0) {
+      return res.status(409).json({
+        message: `QA rubric is used by ${reviewCount} reviews; deactivate it instead`
+      });
+    }
+
+    await rubric.destroy();
+
+    return res.status(200).json({ message: 'QA rubric deleted successfully' });
+  } catch (error) {
+    console.error('Delete QA rubric error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import { getQAStats as computeQAStats, QA_STATS_INTERVALS, QAStatsInterval } from '../services/qaStatsService';
+
+const DEFAULT_RANGE_DAYS = 30;
+
+// Get QA quality metrics over reviews decided in a date range
+// Query: `from`/`to` dates (default the last 30 days), `tags` (comma-separated task tags)
+// and `interval` (day, week or month; default week) for the time series.
+export const getQAStats = async (req: Request, res: Response) => {
+  try {
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ message: 'from and to must be valid dates' });
+    }
+    if (from >= to) {
+      return res.status(400).json({ message: 'from must be before to' });
+    }
+
+    const interval = (req.query.interval as string) || 'week';
+    if (!QA_STATS_INTERVALS.includes(interval as QAStatsInterval)) {
+      return res.status(400).json({ message: `interval must be one of: ${QA_STATS_INTERVALS.join(', ')}` });
+    }
+
+    const tags = ((req.query.tags as string) || '')
+      .split(',')
+      .map(tag => tag.trim())
+      .filter(Boolean);
+
+    const stats = await computeQAStats({ from, to, tags, interval: interval as QAStatsInterval });
+
+    return res.status(200).json({ stats });
+  } catch (error) {
+    console.error('Get QA stats error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
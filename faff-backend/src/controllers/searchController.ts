@@ -0,0 +1,33 @@
+import { Request, Response } from 'express';
+import { search, SearchScope } from '../services/searchService';
+
+const SEARCH_SCOPES: SearchScope[] = ['all', 'tasks', 'messages'];
+
+// Full-text search across tasks and messages
+export const searchAll = async (req: Request, res: Response) => {
+  try {
+    const query = ((req.query.q as string) || '').trim();
+    const scope = ((req.query.type as string) || 'all') as SearchScope;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
+    const offset = (page - 1) * limit;
+
+    if (!query) {
+      return res.status(400).json({ message: 'Search query is required' });
+    }
+
+    if (!SEARCH_SCOPES.includes(scope)) {
+      return res.status(400).json({ message: `Search type must be one of: ${SEARCH_SCOPES.join(', ')}` });
+    }
+
+    const results = await search(query, scope, limit, offset);
+
+    return res.status(200).json({
+      ...results,
+      currentPage: page
+    });
+  } catch (error) {
+    console.error('Search error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
@@ -1,41 +1,25 @@
 import { Request, Response } from 'express';
-import { Summary, Task, Message, User } from '../models';
-import { generateTaskSummary } from '../services/openaiService';
-
-// Helper function to extract entities (URLs, phone numbers, etc.)
-const extractEntities = (messages: Message[]): string[] => {
-  const entities: string[] = [];
-  
-  // URL regex pattern
-  const urlPattern = /https?:\/\/[^\s]+/g;
-  
-  // Phone number regex pattern (basic pattern, can be enhanced)
-  const phonePattern = /(\+\d{1,3}\s?)?(\(\d{1,4}\)\s?)?(\d{1,4}[-\s]?){2,}/g;
-  
-  messages.forEach(message => {
-    // Extract URLs
-    const urls = message.content.match(urlPattern);
-    if (urls) {
-      entities.push(...urls);
-    }
-    
-    // Extract phone numbers
-    const phones = message.content.match(phonePattern);
-    if (phones) {
-      entities.push(...phones);
-    }
-  });
-  
-  // Remove duplicates
-  return [...new Set(entities)];
-};
+import { Summary, SummaryVersion, Task, Message, User } from '../models';
+import { extractEntities, saveSummaryVersion } from '../services/summaryService';
+import { enqueueJob } from '../services/jobService';
+import { summaryJobKey } from '../services/autoSummaryService';
+
+const isStringList = (value: unknown): boolean =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
 
 // Create or update a summary for a task
 export const createSummary = async (req: Request, res: Response) => {
   try {
-    const { taskId, content } = req.body;
+    const { taskId, content, issue, investigation, nextSteps, keyPoints } = req.body;
     const userId = (req as any).user.id;
 
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return res.status(400).json({ message: 'Summary content is required' });
+    }
+    if ((nextSteps !== undefined && !isStringList(nextSteps)) || (keyPoints !== undefined && !isStringList(keyPoints))) {
+      return res.status(400).json({ message: 'nextSteps and keyPoints must be arrays of strings' });
+    }
+
     // Check if task exists
     const task = await Task.findByPk(taskId);
     if (!task) {
@@ -48,57 +32,21 @@ export const createSummary = async (req: Request, res: Response) => {
       order: [['createdAt', 'ASC']]
     });
 
-    // Extract entities using regex patterns (fallback if OpenAI is not available)
-    const extractEntitiesRegex = (messages: Message[]): string[] => {
-      const entities: string[] = [];
-      
-      // URL regex pattern
-      const urlPattern = /https?:\/\/[^\s]+/g;
-      
-      // Phone number regex pattern (basic pattern, can be enhanced)
-      const phonePattern = /(\+\d{1,3}\s?)?(\(\d{1,4}\)\s?)?(\d{1,4}[-\s]?){2,}/g;
-      
-      messages.forEach(message => {
-        // Extract URLs
-        const urls = message.content.match(urlPattern);
-        if (urls) {
-          entities.push(...urls);
-        }
-        
-        // Extract phone numbers
-        const phones = message.content.match(phonePattern);
-        if (phones) {
-          entities.push(...phones);
-        }
-      });
-      
-      // Remove duplicates
-      return [...new Set(entities)];
-    };
-
-    // Extract entities using regex (fallback)
-    const entitiesFromRegex = extractEntitiesRegex(messages);
-
-    // Check if a summary already exists for this task
-    const existingSummary = await Summary.findOne({ where: { taskId } });
-
-    let summary;
-    if (existingSummary) {
-      // Update existing summary
-      summary = await existingSummary.update({
-        content,
-        createdById: userId,
-        entities: entitiesFromRegex
-      });
-    } else {
-      // Create new summary
-      summary = await Summary.create({
-        taskId,
-        createdById: userId,
-        content,
-        entities: entitiesFromRegex
-      });
-    }
+    // Manual edits become a new version; earlier versions are kept
+    const { summary } = await saveSummaryVersion(taskId, {
+      content,
+      issue: issue ?? null,
+      investigation: investigation ?? null,
+      nextSteps: nextSteps ?? [],
+      keyPoints: keyPoints ?? [],
+      entities: extractEntities(messages.map(message => message.content))
+    }, {
+      createdById: userId,
+      source: 'manual',
+      fromMessageId: messages.length > 0 ? messages[0].id : null,
+      toMessageId: messages.length > 0 ? messages[messages.length - 1].id : null,
+      messageCount: messages.length
+    });
 
     // Fetch the summary with associations
     const summaryWithDetails = await Summary.findByPk(summary.id, {
@@ -148,11 +96,14 @@ export const getTaskSummary = async (req: Request, res: Response) => {
   }
 };
 
-// Generate a summary automatically from task messages using OpenAI
+// Queue generating or incrementally updating a task's summary from its messages
+// `?full=true` re-summarizes the whole discussion instead of only new messages.
+// Responds 202 with the job; the result is pushed as job_updated and summary_updated.
 export const generateSummary = async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.taskId);
     const userId = (req as any).user.id;
+    const full = req.query.full === 'true';
 
     // Check if task exists
     const task = await Task.findByPk(taskId);
@@ -160,66 +111,60 @@ export const generateSummary = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Task not found' });
     }
 
-    // Get all messages for the task
-    const messages = await Message.findAll({
-      where: { taskId },
-      include: [{ 
-        model: User, 
-        as: 'sender', 
-        attributes: ['id', 'name'] 
-      }],
-      order: [['createdAt', 'ASC']]
-    });
-
-    if (messages.length === 0) {
+    const messageCount = await Message.count({ where: { taskId } });
+    if (messageCount === 0) {
       return res.status(400).json({ message: 'No messages found to generate summary' });
     }
 
-    // Generate summary using OpenAI
-    const messagesToSummarize = messages.map(msg => ({
-      id: msg.id,
-      content: msg.content,
-      sender: msg.get('sender') as { id: number; name: string },
-      createdAt: msg.createdAt
-
-      
-    }));
-    
-    const aiSummary = await generateTaskSummary(messagesToSummarize, task.status);
-
-    // Create or update summary
-    const existingSummary = await Summary.findOne({ where: { taskId } });
-
-    let summary;
-    if (existingSummary) {
-      summary = await existingSummary.update({
-        content: aiSummary.content,
-        createdById: userId,
-        entities: aiSummary.entities
-      });
-    } else {
-      summary = await Summary.create({
-        taskId,
-        createdById: userId,
-        content: aiSummary.content,
-        entities: aiSummary.entities
-      });
+    // Takes over a pending background refresh of the task rather than queueing a second summary job
+    const job = await enqueueJob('summary.generate', { taskId, full }, {
+      createdById: userId,
+      taskId,
+      dedupeKey: summaryJobKey(taskId)
+    });
+
+    return res.status(202).json({
+      message: 'Summary generation queued',
+      job
+    });
+  } catch (error) {
+    console.error('Generate summary error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get the version history of a task's summary, newest first
+export const getSummaryVersions = async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.taskId);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const offset = (page - 1) * limit;
+
+    // Check if task exists
+    const task = await Task.findByPk(taskId);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
     }
 
-    // Fetch the summary with associations
-    const summaryWithDetails = await Summary.findByPk(summary.id, {
+    const { count, rows } = await SummaryVersion.findAndCountAll({
+      where: { taskId },
       include: [
-        { model: User, as: 'createdBy', attributes: ['id', 'name', 'email'] },
-        { model: Task, as: 'task' }
-      ]
+        { model: User, as: 'createdBy', attributes: ['id', 'name', 'email'] }
+      ],
+      limit,
+      offset,
+      order: [['version', 'DESC']]
     });
 
     return res.status(200).json({
-      message: 'Summary generated successfully',
-      summary: summaryWithDetails
+      versions: rows,
+      totalCount: count,
+      totalPages: Math.ceil(count / limit),
+      currentPage: page
     });
   } catch (error) {
-    console.error('Generate summary error:', error);
+    console.error('Get summary versions error:', error);
     return res.status(500).json({ message: 'Server error', error: (error as Error).message });
   }
-}; 
\ No newline at end of file
+};
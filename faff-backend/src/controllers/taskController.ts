@@ -1,6 +1,17 @@
 import { Request, Response } from 'express';
 import { Op } from 'sequelize';
-import { Task, User } from '../models';
+import sequelize from '../config/database';
+import { Task, User, TaskEvent } from '../models';
+import { TaskStatus } from '../models/Task';
+import { taskWorkflow } from '../config/workflow';
+import { validateTransition, getAvailableTransitions } from '../services/workflowService';
+import { auditOptions, requestHasPermission } from '../middleware/auth';
+
+// Tasks can only be assigned to existing, active users
+const isAssignable = async (userId: number): Promise<boolean> => {
+  const user = await User.findByPk(userId, { attributes: ['id', 'deactivatedAt'] });
+  return !!user && !user.deactivatedAt;
+};
 
 // Create a new task
 export const createTask = async (req: Request, res: Response) => {
@@ -8,6 +19,14 @@ export const createTask = async (req: Request, res: Response) => {
     const { title, assignedToId, priority, tags, description, stepsToReproduce } = req.body;
     const requestedById = (req as any).user.id;
 
+    if (assignedToId && !requestHasPermission(req, 'task.assign')) {
+      return res.status(403).json({ message: 'Not authorized to assign tasks' });
+    }
+
+    if (assignedToId && !(await isAssignable(assignedToId))) {
+      return res.status(400).json({ message: 'Tasks can only be assigned to active users' });
+    }
+
     const task = await Task.create({
       title,
       requestedById,
@@ -16,8 +35,8 @@ export const createTask = async (req: Request, res: Response) => {
       tags: tags || [],
       description: description || '',
       stepsToReproduce: stepsToReproduce || [],
-      status: 'Logged'
-    });
+      status: taskWorkflow.initialStatus
+    }, auditOptions(req));
 
     // Fetch the created task with associated users
     const taskWithDetails = await Task.findByPk(task.id, {
@@ -71,7 +90,11 @@ export const getTasks = async (req: Request, res: Response) => {
     }
     
     if (search) {
-      whereCondition.title = { [Op.iLike]: `%${search}%` };
+      // Partial title matches, plus full-text matches on the rest of the task
+      whereCondition[Op.or] = [
+        { title: { [Op.iLike]: `%${search}%` } },
+        sequelize.literal(`"Task"."searchVector" @@ websearch_to_tsquery('english', ${sequelize.escape(search)})`)
+      ];
     }
 
     // Fetch tasks with pagination and filters
@@ -125,7 +148,12 @@ export const getTaskById = async (req: Request, res: Response) => {
 export const updateTask = async (req: Request, res: Response) => {
   try {
     const taskId = parseInt(req.params.id);
-    const { title, assignedToId, status, priority, tags } = req.body;
+    const { title, assignedToId, status, priority, tags, blockedReason, autoSummary } = req.body;
+    const userRole = (req as any).user.role;
+
+    if (autoSummary !== undefined && typeof autoSummary !== 'boolean') {
+      return res.status(400).json({ message: 'autoSummary must be a boolean' });
+    }
 
     const task = await Task.findByPk(taskId);
 
@@ -133,14 +161,38 @@ export const updateTask = async (req: Request, res: Response) => {
       return res.status(404).json({ message: 'Task not found' });
     }
 
+    const statusChanged = status && status !== task.status;
+
+    if (assignedToId !== undefined && assignedToId !== task.assignedToId && !requestHasPermission(req, 'task.assign')) {
+      return res.status(403).json({ message: 'Not authorized to assign tasks' });
+    }
+
+    if (assignedToId && assignedToId !== task.assignedToId && !(await isAssignable(assignedToId))) {
+      return res.status(400).json({ message: 'Tasks can only be assigned to active users' });
+    }
+
+    // Status changes must follow the task workflow
+    if (statusChanged) {
+      const errors = await validateTransition(task, status as TaskStatus, userRole, req.body);
+      if (errors.length > 0) {
+        return res.status(errors[0].code === 'FORBIDDEN' ? 403 : 422).json({
+          message: errors[0].message,
+          errors
+        });
+      }
+    }
+
     // Update task fields
     await task.update({
       title: title || task.title,
       assignedToId: assignedToId !== undefined ? assignedToId : task.assignedToId,
       status: status || task.status,
       priority: priority || task.priority,
-      tags: tags || task.tags
-    });
+      tags: tags || task.tags,
+      // The blocker reason only applies while the task is blocked
+      blockedReason: statusChanged ? (status === 'Blocked' ? blockedReason : null) : task.blockedReason,
+      autoSummary: autoSummary ?? task.autoSummary
+    }, auditOptions(req));
 
     // Fetch updated task with associations
     const updatedTask = await Task.findByPk(taskId, {
@@ -160,6 +212,52 @@ export const updateTask = async (req: Request, res: Response) => {
   }
 };
 
+// Get the status transitions available to the current user
+export const getTaskTransitions = async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+    const userRole = (req as any).user.role;
+
+    const task = await Task.findByPk(taskId);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    // Users who cannot update tasks cannot move them either
+    const transitions = requestHasPermission(req, 'task.update') ? await getAvailableTransitions(task, userRole) : [];
+
+    return res.status(200).json({ status: task.status, transitions });
+  } catch (error) {
+    console.error('Get task transitions error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get the activity history of a task
+export const getTaskHistory = async (req: Request, res: Response) => {
+  try {
+    const taskId = parseInt(req.params.id);
+
+    const task = await Task.findByPk(taskId);
+
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    const events = await TaskEvent.findAll({
+      where: { taskId },
+      include: [{ model: User, as: 'actor', attributes: ['id', 'name', 'email'] }],
+      order: [['createdAt', 'ASC'], ['id', 'ASC']]
+    });
+
+    return res.status(200).json({ events });
+  } catch (error) {
+    console.error('Get task history error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
 // Delete task
 export const deleteTask = async (req: Request, res: Response) => {
   try {
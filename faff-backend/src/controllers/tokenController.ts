@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import { TOKEN_SCOPES } from '../config/permissions';
+import { authConfig } from '../config/auth';
+import {
+  parseAccessTokenInput,
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken
+} from '../services/accessTokenService';
+
+// Get the current user's personal access tokens, with the scopes a new token can have
+export const getTokens = async (req: Request, res: Response) => {
+  try {
+    const userId = (req as any).user.id;
+    const tokens = await listAccessTokens(userId);
+
+    return res.status(200).json({
+      tokens,
+      scopes: TOKEN_SCOPES,
+      maxExpiresInDays: authConfig.personalAccessTokenMaxTtlDays
+    });
+  } catch (error) {
+    console.error('Get tokens error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Create a personal access token; the raw token is only returned in this response
+export const createToken = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, email } = (req as any).user;
+
+    const { input, error } = parseAccessTokenInput(req.body);
+    if (!input) {
+      return res.status(400).json({ message: error });
+    }
+
+    const { token, accessToken } = await createAccessToken(userId, input, userId);
+    console.log(`[AUTH] ${email} created access token #${accessToken.id} "${accessToken.name}" (${input.scopes.join(', ')})`);
+
+    return res.status(201).json({ message: 'Access token created', token, accessToken });
+  } catch (error) {
+    console.error('Create token error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Revoke one of the current user's personal access tokens
+export const revokeToken = async (req: Request, res: Response) => {
+  try {
+    const { id: userId, email } = (req as any).user;
+    const tokenId = parseInt(req.params.id);
+
+    if (!(await revokeAccessToken(userId, tokenId))) {
+      return res.status(404).json({ message: 'Access token not found' });
+    }
+    console.log(`[AUTH] ${email} revoked access token #${tokenId}`);
+
+    return res.status(200).json({ message: 'Access token revoked' });
+  } catch (error) {
+    console.error('Revoke token error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
@@ -0,0 +1,486 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { Op, fn, col } from 'sequelize';
+import sequelize from '../config/database';
+import { User, Task, QAReview } from '../models';
+import { USER_ROLES, UserRole, PRIVATE_USER_FIELDS } from '../models/User';
+import { getPermissions, TOKEN_SCOPES } from '../config/permissions';
+import { authConfig } from '../config/auth';
+import { auditOptions } from '../middleware/auth';
+import { revokeUserSessions } from '../services/sessionService';
+import { sendInvitation, forcePasswordReset } from '../services/accountTokenService';
+import { getRequiredRoles, setRequiredRoles, disableTwoFactor } from '../services/twoFactorService';
+import {
+  parseAccessTokenInput,
+  createAccessToken,
+  listAccessTokens,
+  revokeAccessToken,
+  revokeUserAccessTokens
+} from '../services/accessTokenService';
+import { reconnectUser } from '../services/socketEmitter';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Tasks still being worked on; done tasks keep the assignee who finished them
+const OPEN_TASK_WHERE = { status: { [Op.ne]: 'Done' } };
+
+// Service accounts act through access tokens, whose scopes never include admin permissions
+const SERVICE_ACCOUNT_ROLES: UserRole[] = USER_ROLES.filter(role => role !== 'admin');
+
+// Placeholder address for a service account, which has no mailbox; .invalid never resolves
+const serviceAccountEmail = (name: string): string => {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'account';
+  return `svc-${slug}-${crypto.randomBytes(3).toString('hex')}@faff.invalid`;
+};
+
+// Load a service account for token management, or respond with why it cannot be used
+const findServiceAccount = async (req: Request, res: Response): Promise<User | null> => {
+  const user = await User.findByPk(parseInt(req.params.id), { attributes: { exclude: PRIVATE_USER_FIELDS } });
+  if (!user) {
+    res.status(404).json({ message: 'User not found' });
+    return null;
+  }
+  if (!user.isServiceAccount) {
+    res.status(400).json({ message: 'Only service accounts have their tokens managed by admins' });
+    return null;
+  }
+  return user;
+};
+
+// The instance must keep an active admin, or nobody could manage users again
+const isLastActiveAdmin = async (user: User): Promise<boolean> =>
+  user.role === 'admin' &&
+  !user.deactivatedAt &&
+  (await User.count({ where: { role: 'admin', deactivatedAt: null } })) <= 1;
+
+// Get every user, including deactivated ones, with their open task counts
+export const getUsers = async (req: Request, res: Response) => {
+  try {
+    const users = await User.findAll({
+      attributes: { exclude: PRIVATE_USER_FIELDS },
+      order: [['name', 'ASC']]
+    });
+
+    const counts = await Task.findAll({
+      attributes: ['assignedToId', [fn('COUNT', col('id')), 'count']],
+      where: { ...OPEN_TASK_WHERE, assignedToId: { [Op.ne]: null } },
+      group: ['assignedToId'],
+      raw: true
+    }) as unknown as Array<{ assignedToId: number; count: string }>;
+    const openTasks = new Map(counts.map(row => [row.assignedToId, parseInt(row.count)]));
+
+    return res.status(200).json({
+      users: users.map(user => ({ ...user.toJSON(), openTaskCount: openTasks.get(user.id) || 0 }))
+    });
+  } catch (error) {
+    console.error('Get users error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Invite a user by email; they choose their password from the emailed link
+export const inviteUser = async (req: Request, res: Response) => {
+  try {
+    const adminId = (req as any).user.id;
+    const { name, email, role = 'operator' } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ message: 'name is required' });
+    }
+    if (typeof email !== 'string' || !EMAIL_PATTERN.test(email.trim())) {
+      return res.status(400).json({ message: 'A valid email is required' });
+    }
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ message: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
+
+    const existingUser = await User.findOne({ where: { email: email.trim() } });
+    if (existingUser) {
+      return res.status(400).json({ message: 'User with this email already exists' });
+    }
+
+    const admin = await User.findByPk(adminId);
+    if (!admin) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    // Nobody knows this password; the invitation link replaces it
+    const user = await User.create({
+      name: name.trim(),
+      email: email.trim(),
+      password: crypto.randomBytes(32).toString('base64url'),
+      role
+    });
+    console.log(`[ADMIN] ${admin.email} invited ${user.email} as ${role}`);
+
+    let emailSent = true;
+    try {
+      await sendInvitation(user, admin);
+    } catch (error) {
+      emailSent = false;
+      console.error(`Failed to send invitation to user ${user.id}:`, error);
+    }
+
+    const invited = user.toJSON();
+    PRIVATE_USER_FIELDS.forEach(field => delete invited[field]);
+    return res.status(201).json({
+      message: emailSent
+        ? `Invitation sent to ${user.email}`
+        : 'User created, but the invitation email could not be sent. Use "Reset password" to send a new link.',
+      user: { ...invited, openTaskCount: 0 },
+      emailSent
+    });
+  } catch (error) {
+    console.error('Invite user error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Change a user's role; their open sockets reconnect with the new permissions
+export const updateUserRole = async (req: Request, res: Response) => {
+  try {
+    const adminEmail = (req as any).user.email;
+    const userId = parseInt(req.params.id);
+    const { role } = req.body;
+
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ message: `role must be one of: ${USER_ROLES.join(', ')}` });
+    }
+
+    const user = await User.findByPk(userId, { attributes: { exclude: PRIVATE_USER_FIELDS } });
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.isServiceAccount && !SERVICE_ACCOUNT_ROLES.includes(role)) {
+      return res.status(400).json({ message: 'Service accounts cannot be admins' });
+    }
+
+    if (role !== user.role && await isLastActiveAdmin(user)) {
+      return res.status(400).json({ message: 'At least one active admin is required' });
+    }
+
+    const previousRole = user.role;
+    await user.update({ role: role as UserRole });
+
+    if (role !== previousRole) {
+      console.log(`[ADMIN] ${adminEmail} changed the role of ${user.email} from ${previousRole} to ${role}`);
+      reconnectUser(user.id, 'role_changed', { role, permissions: getPermissions(role) });
+    }
+
+    return res.status(200).json({ message: 'Role updated successfully', user });
+  } catch (error) {
+    console.error('Update user role error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Deactivate a user: they are signed out everywhere, their access tokens are revoked, their pending
+// QA reviews go back to the unassigned pool and they cannot sign in again
+export const deactivateUser = async (req: Request, res: Response) => {
+  try {
+    const { id: adminId, email: adminEmail } = (req as any).user;
+    const userId = parseInt(req.params.id);
+
+    if (userId === adminId) {
+      return res.status(400).json({ message: 'You cannot deactivate your own account' });
+    }
+
+    const user = await User.findByPk(userId, { attributes: { exclude: PRIVATE_USER_FIELDS } });
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.deactivatedAt) {
+      return res.status(400).json({ message: 'User is already deactivated' });
+    }
+
+    if (await isLastActiveAdmin(user)) {
+      return res.status(400).json({ message: 'At least one active admin is required' });
+    }
+
+    const releasedReviews = await sequelize.transaction(async (transaction) => {
+      await user.update({ deactivatedAt: new Date() }, { transaction });
+      const [released] = await QAReview.update({ reviewerId: null, assignedAt: null }, {
+        where: { reviewerId: user.id, status: 'pending' },
+        transaction
+      });
+      return released;
+    });
+    await revokeUserSessions(user.id);
+    await revokeUserAccessTokens(user.id);
+    console.log(`[ADMIN] ${adminEmail} deactivated ${user.email} and released ${releasedReviews} pending QA review(s)`);
+
+    return res.status(200).json({ message: 'User deactivated successfully', user, releasedReviews });
+  } catch (error) {
+    console.error('Deactivate user error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Reactivate a deactivated user
+export const reactivateUser = async (req: Request, res: Response) => {
+  try {
+    const adminEmail = (req as any).user.email;
+    const userId = parseInt(req.params.id);
+
+    const user = await User.findByPk(userId, { attributes: { exclude: PRIVATE_USER_FIELDS } });
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!user.deactivatedAt) {
+      return res.status(400).json({ message: 'User is not deactivated' });
+    }
+
+    await user.update({ deactivatedAt: null });
+    console.log(`[ADMIN] ${adminEmail} reactivated ${user.email}`);
+
+    return res.status(200).json({ message: 'User reactivated successfully', user });
+  } catch (error) {
+    console.error('Reactivate user error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Move a user's open tasks to another user (or unassign them with toUserId: null)
+export const reassignUserTasks = async (req: Request, res: Response) => {
+  try {
+    const adminEmail = (req as any).user.email;
+    const userId = parseInt(req.params.id);
+    const { toUserId } = req.body;
+
+    if (toUserId !== null && !Number.isInteger(toUserId)) {
+      return res.status(400).json({ message: 'toUserId must be a user ID or null' });
+    }
+    if (toUserId === userId) {
+      return res.status(400).json({ message: 'Choose a different user to take over the tasks' });
+    }
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (toUserId !== null) {
+      const target = await User.findByPk(toUserId);
+      if (!target) {
+        return res.status(404).json({ message: 'Target user not found' });
+      }
+      if (target.deactivatedAt) {
+        return res.status(400).json({ message: 'Cannot assign tasks to a deactivated user' });
+      }
+    }
+
+    const tasks = await Task.findAll({ where: { ...OPEN_TASK_WHERE, assignedToId: userId } });
+
+    // One update per task, so each reassignment is audited and notified like a manual one
+    for (const task of tasks) {
+      await task.update({ assignedToId: toUserId }, auditOptions(req));
+    }
+    console.log(`[ADMIN] ${adminEmail} reassigned ${tasks.length} open task(s) of ${user.email} to ${toUserId ?? 'nobody'}`);
+
+    return res.status(200).json({
+      message: `${tasks.length} open task(s) reassigned`,
+      reassigned: tasks.length
+    });
+  } catch (error) {
+    console.error('Reassign user tasks error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Force a password reset: the current password stops working and a reset link is emailed
+export const resetUserPassword = async (req: Request, res: Response) => {
+  try {
+    const adminEmail = (req as any).user.email;
+    const userId = parseInt(req.params.id);
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (user.deactivatedAt) {
+      return res.status(400).json({ message: 'Reactivate the user before resetting their password' });
+    }
+
+    if (user.isServiceAccount) {
+      return res.status(400).json({ message: 'Service accounts have no password; manage their access tokens instead' });
+    }
+
+    await forcePasswordReset(user);
+    console.log(`[ADMIN] ${adminEmail} forced a password reset for ${user.email}`);
+
+    return res.status(200).json({ message: `Password reset. A link to choose a new one was sent to ${user.email}` });
+  } catch (error) {
+    console.error('Reset user password error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Turn off a user's 2FA, e.g. after they lost their device; they are signed out everywhere
+export const resetUserTwoFactor = async (req: Request, res: Response) => {
+  try {
+    const adminEmail = (req as any).user.email;
+    const userId = parseInt(req.params.id);
+
+    const user = await User.findByPk(userId);
+    if (!user) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    if (!user.twoFactorEnabledAt) {
+      return res.status(400).json({ message: 'Two-factor authentication is not enabled for this user' });
+    }
+
+    await disableTwoFactor(user);
+    await revokeUserSessions(user.id);
+    console.log(`[ADMIN] ${adminEmail} reset two-factor authentication for ${user.email}`);
+
+    return res.status(200).json({ message: `Two-factor authentication reset for ${user.email}` });
+  } catch (error) {
+    console.error('Reset user two-factor error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get the roles whose members must use 2FA
+export const getTwoFactorPolicy = async (req: Request, res: Response) => {
+  try {
+    return res.status(200).json({ requiredRoles: await getRequiredRoles() });
+  } catch (error) {
+    console.error('Get two-factor policy error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Set the roles whose members must use 2FA; members without it enroll at their next sign-in
+export const updateTwoFactorPolicy = async (req: Request, res: Response) => {
+  try {
+    const { id: adminId, email: adminEmail } = (req as any).user;
+    const { requiredRoles } = req.body;
+
+    if (!Array.isArray(requiredRoles) || requiredRoles.some(role => !USER_ROLES.includes(role))) {
+      return res.status(400).json({ message: `requiredRoles must be a list of: ${USER_ROLES.join(', ')}` });
+    }
+
+    const admin = await User.findByPk(adminId);
+    if (!admin) {
+      return res.status(404).json({ message: 'User not found' });
+    }
+
+    const roles = await setRequiredRoles(requiredRoles, admin);
+    console.log(`[ADMIN] ${adminEmail} required two-factor authentication for: ${roles.join(', ') || 'nobody'}`);
+
+    return res.status(200).json({ message: 'Two-factor policy updated', requiredRoles: roles });
+  } catch (error) {
+    console.error('Update two-factor policy error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Create a service account: a user for an integration, which can only act through access tokens
+export const createServiceAccount = async (req: Request, res: Response) => {
+  try {
+    const adminEmail = (req as any).user.email;
+    const { name, role = 'operator' } = req.body;
+
+    if (typeof name !== 'string' || !name.trim()) {
+      return res.status(400).json({ message: 'name is required' });
+    }
+    if (!SERVICE_ACCOUNT_ROLES.includes(role)) {
+      return res.status(400).json({ message: `role must be one of: ${SERVICE_ACCOUNT_ROLES.join(', ')}` });
+    }
+
+    // Nobody knows this password, so the account cannot sign in
+    const user = await User.create({
+      name: name.trim(),
+      email: serviceAccountEmail(name.trim()),
+      password: crypto.randomBytes(32).toString('base64url'),
+      role,
+      isServiceAccount: true
+    });
+    console.log(`[ADMIN] ${adminEmail} created service account ${user.email} as ${role}`);
+
+    const created = user.toJSON();
+    PRIVATE_USER_FIELDS.forEach(field => delete created[field]);
+    return res.status(201).json({
+      message: `Service account ${user.name} created`,
+      user: { ...created, openTaskCount: 0 }
+    });
+  } catch (error) {
+    console.error('Create service account error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Get a service account's access tokens
+export const getServiceAccountTokens = async (req: Request, res: Response) => {
+  try {
+    const user = await findServiceAccount(req, res);
+    if (!user) {
+      return;
+    }
+
+    return res.status(200).json({
+      tokens: await listAccessTokens(user.id),
+      scopes: TOKEN_SCOPES,
+      maxExpiresInDays: authConfig.personalAccessTokenMaxTtlDays
+    });
+  } catch (error) {
+    console.error('Get service account tokens error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Create an access token for a service account; the raw token is only returned in this response
+export const createServiceAccountToken = async (req: Request, res: Response) => {
+  try {
+    const { id: adminId, email: adminEmail } = (req as any).user;
+
+    const user = await findServiceAccount(req, res);
+    if (!user) {
+      return;
+    }
+    if (user.deactivatedAt) {
+      return res.status(400).json({ message: 'Reactivate the service account before creating tokens' });
+    }
+
+    const { input, error } = parseAccessTokenInput(req.body);
+    if (!input) {
+      return res.status(400).json({ message: error });
+    }
+
+    const { token, accessToken } = await createAccessToken(user.id, input, adminId);
+    console.log(`[ADMIN] ${adminEmail} created access token #${accessToken.id} "${accessToken.name}" for ${user.email} (${input.scopes.join(', ')})`);
+
+    return res.status(201).json({ message: 'Access token created', token, accessToken });
+  } catch (error) {
+    console.error('Create service account token error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
+
+// Revoke one of a service account's access tokens
+export const revokeServiceAccountToken = async (req: Request, res: Response) => {
+  try {
+    const adminEmail = (req as any).user.email;
+    const tokenId = parseInt(req.params.tokenId);
+
+    const user = await findServiceAccount(req, res);
+    if (!user) {
+      return;
+    }
+
+    if (!(await revokeAccessToken(user.id, tokenId))) {
+      return res.status(404).json({ message: 'Access token not found' });
+    }
+    console.log(`[ADMIN] ${adminEmail} revoked access token #${tokenId} of ${user.email}`);
+
+    return res.status(200).json({ message: 'Access token revoked' });
+  } catch (error) {
+    console.error('Revoke service account token error:', error);
+    return res.status(500).json({ message: 'Server error', error: (error as Error).message });
+  }
+};
@@ -7,7 +7,9 @@ import dotenv from 'dotenv';
 import path from 'path';
 import rateLimit from 'express-rate-limit';
 import { sequelize } from './models';
-import { User } from './models';
+import { assertSchemaUpToDate } from './services/migrationService';
+import { startJobWorker } from './services/jobService';
+import { registerJobHandlers } from './services/jobHandlers';
 
 // Import routes
 import authRoutes from './routes/authRoutes';
@@ -16,6 +18,11 @@ import messageRoutes from './routes/messageRoutes';
 import summaryRoutes from './routes/summaryRoutes';
 import qaRoutes from './routes/qaRoutes';
 import attachmentsRoutes from './routes/attachments';
+import notificationRoutes from './routes/notificationRoutes';
+import searchRoutes from './routes/searchRoutes';
+import jobRoutes from './routes/jobRoutes';
+import userRoutes from './routes/userRoutes';
+import tokenRoutes from './routes/tokenRoutes';
 
 // Import WebSocket handlers
 import setupWebSocketHandlers from './socket';
@@ -54,6 +61,27 @@ const uploadLimiter = rateLimit({
   message: 'Too many file uploads from this IP, please try again after an hour'
 });
 
+// Rate limiting for endpoints that send email, so they cannot be used to flood inboxes
+const mailLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000, // 1 hour
+  max: 5, // limit each IP to 5 emails per hour
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many email requests from this IP, please try again after an hour'
+});
+
+// Rate limiting for the second login step, so authentication codes cannot be guessed
+const twoFactorLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutes
+  max: 10, // limit each IP to 10 code attempts per windowMs
+  standardHeaders: true,
+  legacyHeaders: false,
+  message: 'Too many authentication code attempts from this IP, please try again after 15 minutes'
+});
+
+// Request body fields that are never written to the log
+const REDACTED_FIELDS = ['password', 'currentPassword', 'newPassword', 'token', 'refreshToken', 'challengeToken', 'code'];
+
 // Request logging middleware
 app.use((req, res, next) => {
   const start = Date.now();
@@ -63,7 +91,9 @@ app.use((req, res, next) => {
   
   // Log request body if it exists and isn't a file upload
   if (req.body && Object.keys(req.body).length > 0 && !req.is('multipart/form-data')) {
-    console.log('Request Body:', JSON.stringify(req.body, null, 2));
+    const body = { ...req.body };
+    REDACTED_FIELDS.filter(field => field in body).forEach(field => { body[field] = '[redacted]'; });
+    console.log('Request Body:', JSON.stringify(body, null, 2));
   }
   
   // Log request headers (optional, can be verbose)
@@ -96,6 +126,13 @@ app.use('/api/', apiLimiter);
 app.use('/api/messages', uploadLimiter);
 app.use('/api/attachments', uploadLimiter);
 
+// Apply mail rate limiting to routes that send email
+app.use('/api/auth/forgot-password', mailLimiter);
+app.use('/api/auth/verify-email/resend', mailLimiter);
+
+// Apply code rate limiting to the second login step
+app.use('/api/auth/login/2fa', twoFactorLimiter);
+
 // Serve static files from the uploads directory
 app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
 
@@ -106,30 +143,17 @@ app.use('/api/messages', messageRoutes);
 app.use('/api/summaries', summaryRoutes);
 app.use('/api/qa', qaRoutes);
 app.use('/api/attachments', attachmentsRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/search', searchRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/users', userRoutes);
+app.use('/api/tokens', tokenRoutes);
 
 // Health check route
 app.get('/health', (req, res) => {
   res.status(200).json({ status: 'ok', message: 'Server is running' });
 });
 
-// Debug route to check user count
-app.get('/debug/users', async (req, res) => {
-  try {
-    const userCount = await User.count();
-    const users = await User.findAll({
-      attributes: ['id', 'name', 'email', 'role', 'createdAt'],
-      order: [['createdAt', 'DESC']]
-    });
-    res.status(200).json({ 
-      count: userCount, 
-      users: users,
-      message: `Found ${userCount} users in database`
-    });
-  } catch (error) {
-    res.status(500).json({ error: (error as Error).message });
-  }
-});
-
 // Set up WebSocket handlers
 setupWebSocketHandlers(io);
 
@@ -153,35 +177,13 @@ const startServer = async () => {
     await sequelize.authenticate();
     console.log('Database connection has been established successfully.');
     
-    // Sync database models safely - only create tables if they don't exist
-    // try {
-    //   // Use sync without force to avoid deleting existing data
-    //   await sequelize.sync({ alter: false });
-    //   console.log('Database models synchronized successfully (safe mode).');
-      
-    //   // Log current user count to help track deletions
-    //   const userCount = await User.count();
-    //   console.log(`[DATABASE] Current user count: ${userCount}`);
-      
-    //   // Create a test user if none exist (for debugging)
-    //   if (userCount === 0) {
-    //     console.log('[DATABASE] No users found. Creating test user...');
-    //     try {
-    //       const testUser = await User.create({
-    //         name: 'Test User',
-    //         email: 'test@example.com',
-    //         password: 'password123',
-    //         role: 'admin'
-    //       });
-    //       console.log(`[DATABASE] Test user created: ${testUser.email} (ID: ${testUser.id})`);
-    //     } catch (createError) {
-    //       console.error('[DATABASE] Failed to create test user:', createError);
-    //     }
-    //   }
-    // } catch (syncError) {
-    //   console.error('Database sync error:', syncError);
-    //   console.log('Note: Some tables may already exist. This is normal.');
-    // }
+    // Refuse to serve traffic until every migration has been applied
+    await assertSchemaUpToDate();
+    console.log('Database schema is up to date.');
+    
+    // Process queued AI and file jobs
+    registerJobHandlers();
+    startJobWorker();
     
     // Start server
     server.listen(PORT, () => {
@@ -1,6 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { User } from '../models';
+import { resolveAccessToken } from '../services/sessionService';
+import { isPersonalAccessToken, resolvePersonalAccessToken } from '../services/accessTokenService';
+import { Permission, getPermissions, getTokenPermissions } from '../config/permissions';
+import { AuditOptions } from '../models/TaskEvent';
 
 export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -11,20 +13,40 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
       return res.status(401).json({ message: 'No authentication token provided' });
     }
 
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'faff_secret_key') as any;
-    
-    // Check if user exists
-    const user = await User.findByPk(decoded.id);
-    if (!user) {
+    // Personal access tokens act as their user, limited to the token's scopes
+    if (isPersonalAccessToken(token)) {
+      const resolved = await resolvePersonalAccessToken(token, req.ip);
+      if (!resolved) {
+        return res.status(401).json({ message: 'Invalid, expired or revoked access token' });
+      }
+      const { user, accessToken } = resolved;
+
+      (req as any).user = {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        permissions: getTokenPermissions(user.role, accessToken.scopes),
+        accessToken: { id: accessToken.id, name: accessToken.name }
+      };
+      console.log(`[TOKEN] ${req.method} ${req.originalUrl} by ${user.email} with access token #${accessToken.id} "${accessToken.name}"`);
+
+      return next();
+    }
+
+    // Verify token, and that its session was not revoked and its user still exists
+    const resolved = await resolveAccessToken(token);
+    if (!resolved) {
       return res.status(401).json({ message: 'Invalid authentication token' });
     }
+    const { user, session } = resolved;
 
     // Attach user to request object
     (req as any).user = {
       id: user.id,
       email: user.email,
-      role: user.role
+      role: user.role,
+      permissions: getPermissions(user.role),
+      sessionId: session.id
     };
 
     next();
@@ -34,12 +56,38 @@ export const authenticate = async (req: Request, res: Response, next: NextFuncti
   }
 };
 
-export const isAdmin = (req: Request, res: Response, next: NextFunction) => {
-  const userRole = (req as any).user?.role;
-  
-  if (userRole !== 'admin') {
-    return res.status(403).json({ message: 'Access denied. Admin role required.' });
+// Refuse personal access tokens, for account routes that need a signed-in user; use after authenticate
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (!(req as any).user?.sessionId) {
+    return res.status(403).json({ message: 'This endpoint cannot be used with an access token' });
   }
-  
+
   next();
-}; 
\ No newline at end of file
+};
+
+/**
+ * Whether the authenticated request has a permission
+ * Prefer this over checking the role, since access tokens only get some of their user's permissions.
+ * @param req Request that passed authenticate
+ * @param permission Permission to check
+ */
+export const requestHasPermission = (req: Request, permission: Permission): boolean =>
+  ((req as any).user?.permissions || []).includes(permission);
+
+// Audit options attributing a change to the authenticated user, and to the access token when one was used
+export const auditOptions = (req: Request): AuditOptions => {
+  const { id, accessToken } = (req as any).user;
+  return { actorId: id, ...(accessToken && { accessToken }) };
+};
+
+// Allow the request only if the user's role grants the permission; use after authenticate
+export const requirePermission = (permission: Permission) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const permissions: Permission[] = (req as any).user?.permissions || [];
+
+    if (!permissions.includes(permission)) {
+      return res.status(403).json({ message: `Access denied. The ${permission} permission is required.` });
+    }
+
+    next();
+  };
@@ -0,0 +1,45 @@
+import { sequelize } from './models';
+import { getMigrationStatus, migrateUp, migrateDown } from './services/migrationService';
+
+// Usage: migrate <up|down|status> [steps]
+const run = async () => {
+  const [command = 'status', stepsArg] = process.argv.slice(2);
+  const steps = stepsArg !== undefined ? parseInt(stepsArg) : undefined;
+
+  if (steps !== undefined && (isNaN(steps) || steps < 1)) {
+    throw new Error(`Invalid step count: ${stepsArg}`);
+  }
+
+  await sequelize.authenticate();
+
+  switch (command) {
+    case 'up': {
+      const applied = await migrateUp(steps);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'Database is already up to date.');
+      break;
+    }
+    case 'down': {
+      const reverted = await migrateDown(steps);
+      console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s).` : 'No migrations to revert.');
+      break;
+    }
+    case 'status': {
+      const status = await getMigrationStatus();
+      status.forEach(migration => {
+        const state = migration.appliedAt ? `applied ${new Date(migration.appliedAt).toISOString()}` : 'pending';
+        console.log(`${migration.name.padEnd(40)} ${state}`);
+      });
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}". Expected one of: up, down, status`);
+  }
+};
+
+run()
+  .then(() => sequelize.close())
+  .catch(async (error) => {
+    console.error('Migration error:', (error as Error).message);
+    await sequelize.close();
+    process.exit(1);
+  });
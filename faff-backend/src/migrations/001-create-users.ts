@@ -0,0 +1,49 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '001-create-users',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('faffs', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      email: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        unique: true
+      },
+      password: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      role: {
+        type: DataTypes.ENUM('admin', 'operator'),
+        allowNull: false,
+        defaultValue: 'operator'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('faffs', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_faffs_role";', { transaction });
+  }
+};
+
+export default migration;
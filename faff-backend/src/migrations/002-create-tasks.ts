@@ -0,0 +1,85 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '002-create-tasks',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('tasks', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      title: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      description: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+        defaultValue: ''
+      },
+      stepsToReproduce: {
+        type: DataTypes.ARRAY(DataTypes.STRING),
+        allowNull: false,
+        defaultValue: []
+      },
+      requestedById: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE'
+      },
+      assignedToId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      status: {
+        type: DataTypes.ENUM('Logged', 'Ongoing', 'Reviewed', 'Done', 'Blocked'),
+        allowNull: false,
+        defaultValue: 'Logged'
+      },
+      priority: {
+        type: DataTypes.ENUM('low', 'medium', 'high', 'urgent'),
+        allowNull: false,
+        defaultValue: 'medium'
+      },
+      tags: {
+        type: DataTypes.ARRAY(DataTypes.STRING),
+        allowNull: false,
+        defaultValue: []
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('tasks', ['status'], { transaction });
+    await queryInterface.addIndex('tasks', ['assignedToId'], { transaction });
+    await queryInterface.addIndex('tasks', ['requestedById'], { transaction });
+    await queryInterface.addIndex('tasks', ['priority'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('tasks', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_tasks_status";', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_tasks_priority";', { transaction });
+  }
+};
+
+export default migration;
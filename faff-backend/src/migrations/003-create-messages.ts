@@ -0,0 +1,72 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '003-create-messages',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('messages', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      taskId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'tasks',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      senderId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE'
+      },
+      content: {
+        type: DataTypes.TEXT,
+        allowNull: false
+      },
+      replyToId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'messages',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      attachments: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('messages', ['taskId'], { transaction });
+    await queryInterface.addIndex('messages', ['senderId'], { transaction });
+    await queryInterface.addIndex('messages', ['replyToId'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('messages', { transaction });
+  }
+};
+
+export default migration;
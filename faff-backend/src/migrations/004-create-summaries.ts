@@ -0,0 +1,61 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '004-create-summaries',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('summaries', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      taskId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'tasks',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      createdById: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE'
+      },
+      content: {
+        type: DataTypes.TEXT,
+        allowNull: false
+      },
+      entities: {
+        type: DataTypes.ARRAY(DataTypes.STRING),
+        allowNull: false,
+        defaultValue: []
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('summaries', ['taskId'], { transaction });
+    await queryInterface.addIndex('summaries', ['createdById'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('summaries', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,63 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '005-create-qa-reviews',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('qa_reviews', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      messageId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'messages',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      reviewerId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE'
+      },
+      status: {
+        type: DataTypes.ENUM('pending', 'approved', 'rejected'),
+        allowNull: false,
+        defaultValue: 'pending'
+      },
+      feedback: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('qa_reviews', ['messageId'], { transaction });
+    await queryInterface.addIndex('qa_reviews', ['reviewerId'], { transaction });
+    await queryInterface.addIndex('qa_reviews', ['status'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('qa_reviews', { transaction });
+    await queryInterface.sequelize.query('DROP TYPE IF EXISTS "enum_qa_reviews_status";', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '006-add-task-blocked-reason',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.addColumn('tasks', 'blockedReason', {
+      type: DataTypes.TEXT,
+      allowNull: true
+    }, { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn('tasks', 'blockedReason', { transaction });
+  }
+};
+
+export default migration;
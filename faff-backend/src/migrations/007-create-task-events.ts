@@ -0,0 +1,63 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '007-create-task-events',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('task_events', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      taskId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'tasks',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      actorId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      type: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      changes: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {}
+      },
+      metadata: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {}
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('task_events', ['taskId', 'createdAt'], { transaction });
+    await queryInterface.addIndex('task_events', ['actorId'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('task_events', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '009-add-message-mentions',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.addColumn('messages', 'mentionedUserIds', {
+      type: DataTypes.ARRAY(DataTypes.INTEGER),
+      allowNull: false,
+      defaultValue: []
+    }, { transaction });
+
+    await queryInterface.addIndex('messages', ['mentionedUserIds'], { using: 'gin', transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeIndex('messages', ['mentionedUserIds'], { transaction });
+    await queryInterface.removeColumn('messages', 'mentionedUserIds', { transaction });
+  }
+};
+
+export default migration;
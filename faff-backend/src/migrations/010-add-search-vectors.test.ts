@@ -0,0 +1,85 @@
+import { PGlite } from '@electric-sql/pglite';
+import { QueryInterface, Transaction } from 'sequelize';
+import addSearchVectors from './010-add-search-vectors';
+import fixTaskSearchVector from './024-fix-task-search-vector';
+
+// Only the columns the search triggers read, as created by migrations 002 and 003
+const SCHEMA = `
+  CREATE TABLE "tasks" (
+    "id" SERIAL PRIMARY KEY,
+    "title" VARCHAR(255) NOT NULL,
+    "description" TEXT DEFAULT '',
+    "stepsToReproduce" VARCHAR(255)[] NOT NULL DEFAULT ARRAY[]::VARCHAR(255)[],
+    "tags" VARCHAR(255)[] NOT NULL DEFAULT ARRAY[]::VARCHAR(255)[]
+  );
+  CREATE TABLE "messages" (
+    "id" SERIAL PRIMARY KEY,
+    "content" TEXT NOT NULL,
+    "attachments" JSONB DEFAULT '[]'
+  );
+`;
+
+// Starting PGlite compiles Postgres from WebAssembly, which takes several seconds
+jest.setTimeout(60000);
+
+describe('010-add-search-vectors', () => {
+  let db: PGlite;
+  let queryInterface: QueryInterface;
+  const transaction = {} as Transaction;
+
+  const matches = async (query: string): Promise<string[]> => {
+    const result = await db.query<{ title: string }>(
+      `SELECT title FROM "tasks" WHERE "searchVector" @@ plainto_tsquery('english', $1) ORDER BY id`,
+      [query]
+    );
+    return result.rows.map(row => row.title);
+  };
+
+  beforeEach(async () => {
+    db = new PGlite();
+    await db.exec(SCHEMA);
+    queryInterface = { sequelize: { query: (sql: string) => db.exec(sql) } } as unknown as QueryInterface;
+  });
+
+  afterEach(async () => {
+    await db.close();
+  });
+
+  it('backfills existing tasks and indexes new and updated ones', async () => {
+    await db.query(`INSERT INTO "tasks" (title, "stepsToReproduce") VALUES ('Printer offline', ARRAY['Restart the spooler'])`);
+
+    await addSearchVectors.up(queryInterface, transaction);
+
+    await db.query(`INSERT INTO "tasks" (title, tags) VALUES ('VPN drops', ARRAY['network'])`);
+    await db.query(`INSERT INTO "tasks" (title, "stepsToReproduce") VALUES ('Laptop slow', ARRAY['Open the browser', 'Wait a minute'])`);
+
+    expect(await matches('spooler')).toEqual(['Printer offline']);
+    expect(await matches('network')).toEqual(['VPN drops']);
+    expect(await matches('browser')).toEqual(['Laptop slow']);
+
+    await db.query(`UPDATE "tasks" SET "stepsToReproduce" = ARRAY['Reinstall the driver'] WHERE title = 'Laptop slow'`);
+    await db.query(`UPDATE "tasks" SET description = 'Drops every hour' WHERE title = 'VPN drops'`);
+
+    expect(await matches('browser')).toEqual([]);
+    expect(await matches('driver')).toEqual(['Laptop slow']);
+    expect(await matches('hour')).toEqual(['VPN drops']);
+  });
+
+  it('repairs the trigger function installed by the unfixed 010', async () => {
+    await addSearchVectors.up(queryInterface, transaction);
+    await db.exec(`
+      CREATE OR REPLACE FUNCTION tasks_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW."searchVector" := to_tsvector('english', coalesce(NEW."stepsToReproduce", ''));
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql;
+    `);
+    await expect(db.query(`INSERT INTO "tasks" (title) VALUES ('Broken')`)).rejects.toThrow('malformed array literal');
+
+    await fixTaskSearchVector.up(queryInterface, transaction);
+
+    await db.query(`INSERT INTO "tasks" (title, "stepsToReproduce") VALUES ('Printer offline', ARRAY['Restart the spooler'])`);
+    expect(await matches('spooler')).toEqual(['Printer offline']);
+  });
+});
@@ -0,0 +1,76 @@
+import { Migration } from './index';
+
+// Search vectors are maintained by triggers rather than generated columns because
+// tags and attachment names need array/JSONB functions that are not immutable.
+// Weights: A = primary text, B = supporting text, C = long-form detail.
+const TASKS_FUNCTION = `
+  CREATE OR REPLACE FUNCTION tasks_search_vector_update() RETURNS trigger AS $$
+  BEGIN
+    NEW."searchVector" :=
+      setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(array_to_string(NEW."stepsToReproduce", ' '), '')), 'C');
+    RETURN NEW;
+  END
+  $$ LANGUAGE plpgsql;
+`;
+
+const MESSAGES_FUNCTION = `
+  CREATE OR REPLACE FUNCTION messages_search_vector_update() RETURNS trigger AS $$
+  BEGIN
+    NEW."searchVector" :=
+      setweight(to_tsvector('english', coalesce(NEW.content, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce((
+        SELECT string_agg(attachment->>'originalName', ' ')
+        FROM jsonb_array_elements(coalesce(NEW.attachments, '[]'::jsonb)) AS attachment
+      ), '')), 'B');
+    RETURN NEW;
+  END
+  $$ LANGUAGE plpgsql;
+`;
+
+const migration: Migration = {
+  name: '010-add-search-vectors',
+
+  up: async (queryInterface, transaction) => {
+    const query = (sql: string) => queryInterface.sequelize.query(sql, { transaction });
+
+    await query('ALTER TABLE "tasks" ADD COLUMN "searchVector" tsvector;');
+    await query(TASKS_FUNCTION);
+    await query(`
+      CREATE TRIGGER tasks_search_vector_trigger
+      BEFORE INSERT OR UPDATE OF title, description, "stepsToReproduce", tags ON "tasks"
+      FOR EACH ROW EXECUTE FUNCTION tasks_search_vector_update();
+    `);
+    // Touch every row so the trigger backfills existing tasks
+    await query('UPDATE "tasks" SET title = title;');
+    await query('CREATE INDEX "tasks_search_vector" ON "tasks" USING gin ("searchVector");');
+
+    await query('ALTER TABLE "messages" ADD COLUMN "searchVector" tsvector;');
+    await query(MESSAGES_FUNCTION);
+    await query(`
+      CREATE TRIGGER messages_search_vector_trigger
+      BEFORE INSERT OR UPDATE OF content, attachments ON "messages"
+      FOR EACH ROW EXECUTE FUNCTION messages_search_vector_update();
+    `);
+    await query('UPDATE "messages" SET content = content;');
+    await query('CREATE INDEX "messages_search_vector" ON "messages" USING gin ("searchVector");');
+  },
+
+  down: async (queryInterface, transaction) => {
+    const query = (sql: string) => queryInterface.sequelize.query(sql, { transaction });
+
+    await query('DROP TRIGGER IF EXISTS messages_search_vector_trigger ON "messages";');
+    await query('DROP FUNCTION IF EXISTS messages_search_vector_update();');
+    await query('DROP INDEX IF EXISTS "messages_search_vector";');
+    await query('ALTER TABLE "messages" DROP COLUMN IF EXISTS "searchVector";');
+
+    await query('DROP TRIGGER IF EXISTS tasks_search_vector_trigger ON "tasks";');
+    await query('DROP FUNCTION IF EXISTS tasks_search_vector_update();');
+    await query('DROP INDEX IF EXISTS "tasks_search_vector";');
+    await query('ALTER TABLE "tasks" DROP COLUMN IF EXISTS "searchVector";');
+  }
+};
+
+export default migration;
@@ -0,0 +1,64 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '011-add-structured-summaries',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.addColumn('summaries', 'issue', {
+      type: DataTypes.TEXT,
+      allowNull: true
+    }, { transaction });
+    await queryInterface.addColumn('summaries', 'investigation', {
+      type: DataTypes.TEXT,
+      allowNull: true
+    }, { transaction });
+    await queryInterface.addColumn('summaries', 'nextSteps', {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: false,
+      defaultValue: []
+    }, { transaction });
+    await queryInterface.addColumn('summaries', 'keyPoints', {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: false,
+      defaultValue: []
+    }, { transaction });
+
+    // Entities become typed { type, value } objects; existing plain strings are kept as "other"
+    await queryInterface.addColumn('summaries', 'typedEntities', {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    }, { transaction });
+    await queryInterface.sequelize.query(`
+      UPDATE "summaries" SET "typedEntities" = coalesce((
+        SELECT jsonb_agg(jsonb_build_object('type', 'other', 'value', entity))
+        FROM unnest("entities") AS entity
+      ), '[]'::jsonb);
+    `, { transaction });
+    await queryInterface.removeColumn('summaries', 'entities', { transaction });
+    await queryInterface.renameColumn('summaries', 'typedEntities', 'entities', { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.addColumn('summaries', 'plainEntities', {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: []
+    }, { transaction });
+    await queryInterface.sequelize.query(`
+      UPDATE "summaries" SET "plainEntities" = ARRAY(
+        SELECT entity->>'value' FROM jsonb_array_elements("entities") AS entity
+      );
+    `, { transaction });
+    await queryInterface.removeColumn('summaries', 'entities', { transaction });
+    await queryInterface.renameColumn('summaries', 'plainEntities', 'entities', { transaction });
+
+    await queryInterface.removeColumn('summaries', 'keyPoints', { transaction });
+    await queryInterface.removeColumn('summaries', 'nextSteps', { transaction });
+    await queryInterface.removeColumn('summaries', 'investigation', { transaction });
+    await queryInterface.removeColumn('summaries', 'issue', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,121 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '012-create-summary-versions',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('summary_versions', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      summaryId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'summaries',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      taskId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'tasks',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      version: {
+        type: DataTypes.INTEGER,
+        allowNull: false
+      },
+      createdById: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      source: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      model: {
+        type: DataTypes.STRING,
+        allowNull: true
+      },
+      fromMessageId: {
+        type: DataTypes.INTEGER,
+        allowNull: true
+      },
+      toMessageId: {
+        type: DataTypes.INTEGER,
+        allowNull: true
+      },
+      messageCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0
+      },
+      content: {
+        type: DataTypes.TEXT,
+        allowNull: false
+      },
+      issue: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      investigation: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      nextSteps: {
+        type: DataTypes.ARRAY(DataTypes.TEXT),
+        allowNull: false,
+        defaultValue: []
+      },
+      keyPoints: {
+        type: DataTypes.ARRAY(DataTypes.TEXT),
+        allowNull: false,
+        defaultValue: []
+      },
+      entities: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('summary_versions', ['taskId', 'version'], { unique: true, transaction });
+    await queryInterface.addIndex('summary_versions', ['summaryId'], { transaction });
+
+    // Keep existing summaries as their first version; how they were produced is unknown
+    await queryInterface.sequelize.query(`
+      INSERT INTO "summary_versions"
+        ("summaryId", "taskId", "version", "createdById", "source", "content", "issue", "investigation",
+         "nextSteps", "keyPoints", "entities", "createdAt")
+      SELECT "id", "taskId", 1, "createdById", 'ai', "content", "issue", "investigation",
+        "nextSteps", "keyPoints", "entities", "updatedAt"
+      FROM "summaries";
+    `, { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('summary_versions', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '013-add-task-auto-summary',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.addColumn('tasks', 'autoSummary', {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    }, { transaction });
+
+    // Background refreshes are not attributed to a user
+    await queryInterface.changeColumn('summaries', 'createdById', {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    }, { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    // Attribute system-generated summaries to the task's requester before restoring NOT NULL
+    await queryInterface.sequelize.query(`
+      UPDATE "summaries" s SET "createdById" = t."requestedById"
+      FROM "tasks" t
+      WHERE s."taskId" = t."id" AND s."createdById" IS NULL;
+    `, { transaction });
+
+    await queryInterface.changeColumn('summaries', 'createdById', {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    }, { transaction });
+
+    await queryInterface.removeColumn('tasks', 'autoSummary', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,102 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '014-create-jobs',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('jobs', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      type: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      payload: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: {}
+      },
+      status: {
+        type: DataTypes.STRING,
+        allowNull: false,
+        defaultValue: 'pending'
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0
+      },
+      maxAttempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false
+      },
+      runAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      lockedAt: {
+        type: DataTypes.DATE,
+        allowNull: true
+      },
+      lockedBy: {
+        type: DataTypes.STRING,
+        allowNull: true
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      result: {
+        type: DataTypes.JSONB,
+        allowNull: true
+      },
+      createdById: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      taskId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'tasks',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      completedAt: {
+        type: DataTypes.DATE,
+        allowNull: true
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    // Workers poll for due pending jobs
+    await queryInterface.addIndex('jobs', ['status', 'runAt'], { transaction });
+    await queryInterface.addIndex('jobs', ['createdById'], { transaction });
+    await queryInterface.addIndex('jobs', ['taskId'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('jobs', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,119 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+// The standards QA checks used before rubrics, kept as the default rubric
+const defaultCriteria = [
+  { key: 'tone', name: 'Tone', description: 'Professional and courteous tone', weight: 1, passThreshold: 6 },
+  { key: 'completeness', name: 'Completeness', description: 'Addresses all points in the conversation', weight: 1, passThreshold: 6 },
+  { key: 'clarity', name: 'Clarity', description: 'Provides clear information without ambiguity', weight: 1, passThreshold: 6 },
+  { key: 'grammar', name: 'Grammar', description: 'Free of grammatical errors', weight: 1, passThreshold: 6 },
+  { key: 'accuracy', name: 'Accuracy', description: 'Contains accurate information based on the context', weight: 1, passThreshold: 6 }
+];
+
+const migration: Migration = {
+  name: '015-create-qa-rubrics',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('qa_rubrics', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      description: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      criteria: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      passThreshold: {
+        type: DataTypes.FLOAT,
+        allowNull: false
+      },
+      tags: {
+        type: DataTypes.ARRAY(DataTypes.STRING),
+        allowNull: false,
+        defaultValue: []
+      },
+      isDefault: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false
+      },
+      active: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true
+      },
+      createdById: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('qa_rubrics', ['tags'], { using: 'gin', transaction });
+
+    await queryInterface.bulkInsert('qa_rubrics', [{
+      name: 'Default',
+      description: 'General quality standards for support messages',
+      criteria: JSON.stringify(defaultCriteria),
+      passThreshold: 7,
+      isDefault: true,
+      active: true,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }], { transaction });
+
+    await queryInterface.addColumn('qa_reviews', 'rubricId', {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'qa_rubrics',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    }, { transaction });
+    await queryInterface.addColumn('qa_reviews', 'scores', {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    }, { transaction });
+    await queryInterface.addColumn('qa_reviews', 'overallScore', {
+      type: DataTypes.FLOAT,
+      allowNull: true
+    }, { transaction });
+
+    await queryInterface.addIndex('qa_reviews', ['rubricId'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn('qa_reviews', 'overallScore', { transaction });
+    await queryInterface.removeColumn('qa_reviews', 'scores', { transaction });
+    await queryInterface.removeColumn('qa_reviews', 'rubricId', { transaction });
+    await queryInterface.dropTable('qa_rubrics', { transaction });
+  }
+};
+
+export default migration;
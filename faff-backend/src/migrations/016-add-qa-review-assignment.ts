@@ -0,0 +1,78 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '016-add-qa-review-assignment',
+
+  up: async (queryInterface, transaction) => {
+    // Roles are validated by the model so new ones do not need an enum migration
+    await queryInterface.sequelize.query(`
+      ALTER TABLE "faffs" ALTER COLUMN "role" DROP DEFAULT;
+      ALTER TABLE "faffs" ALTER COLUMN "role" TYPE VARCHAR(255) USING "role"::text;
+      ALTER TABLE "faffs" ALTER COLUMN "role" SET DEFAULT 'operator';
+      DROP TYPE IF EXISTS "enum_faffs_role";
+    `, { transaction });
+
+    // Reviews can wait in the unassigned pool until a reviewer claims them
+    await queryInterface.changeColumn('qa_reviews', 'reviewerId', {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    }, { transaction });
+
+    await queryInterface.addColumn('qa_reviews', 'requestedById', {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      },
+      onUpdate: 'CASCADE',
+      onDelete: 'SET NULL'
+    }, { transaction });
+    await queryInterface.addColumn('qa_reviews', 'assignedAt', {
+      type: DataTypes.DATE,
+      allowNull: true
+    }, { transaction });
+    await queryInterface.addColumn('qa_reviews', 'dueAt', {
+      type: DataTypes.DATE,
+      allowNull: true
+    }, { transaction });
+
+    // Until now the requester was recorded as the reviewer
+    await queryInterface.sequelize.query(`
+      UPDATE "qa_reviews" SET "requestedById" = "reviewerId", "assignedAt" = "createdAt";
+    `, { transaction });
+
+    await queryInterface.addIndex('qa_reviews', ['reviewerId', 'status'], { transaction });
+    await queryInterface.addIndex('qa_reviews', ['dueAt'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeIndex('qa_reviews', ['dueAt'], { transaction });
+    await queryInterface.removeIndex('qa_reviews', ['reviewerId', 'status'], { transaction });
+
+    // Unassigned reviews go back to whoever requested them
+    await queryInterface.sequelize.query(`
+      UPDATE "qa_reviews" SET "reviewerId" = "requestedById" WHERE "reviewerId" IS NULL;
+      DELETE FROM "qa_reviews" WHERE "reviewerId" IS NULL;
+    `, { transaction });
+
+    await queryInterface.removeColumn('qa_reviews', 'dueAt', { transaction });
+    await queryInterface.removeColumn('qa_reviews', 'assignedAt', { transaction });
+    await queryInterface.removeColumn('qa_reviews', 'requestedById', { transaction });
+    await queryInterface.changeColumn('qa_reviews', 'reviewerId', {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    }, { transaction });
+
+    await queryInterface.sequelize.query(`
+      UPDATE "faffs" SET "role" = 'operator' WHERE "role" NOT IN ('admin', 'operator');
+      CREATE TYPE "enum_faffs_role" AS ENUM ('admin', 'operator');
+      ALTER TABLE "faffs" ALTER COLUMN "role" DROP DEFAULT;
+      ALTER TABLE "faffs" ALTER COLUMN "role" TYPE "enum_faffs_role" USING "role"::"enum_faffs_role";
+      ALTER TABLE "faffs" ALTER COLUMN "role" SET DEFAULT 'operator';
+    `, { transaction });
+  }
+};
+
+export default migration;
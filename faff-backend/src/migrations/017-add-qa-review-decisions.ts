@@ -0,0 +1,42 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '017-add-qa-review-decisions',
+
+  up: async (queryInterface, transaction) => {
+    // When and by what (the QA model or a person) the review was last decided
+    await queryInterface.addColumn('qa_reviews', 'decidedAt', {
+      type: DataTypes.DATE,
+      allowNull: true
+    }, { transaction });
+    await queryInterface.addColumn('qa_reviews', 'decisionSource', {
+      type: DataTypes.STRING,
+      allowNull: true
+    }, { transaction });
+    // The QA model's verdict, kept when a reviewer overrides it
+    await queryInterface.addColumn('qa_reviews', 'aiStatus', {
+      type: DataTypes.STRING,
+      allowNull: true
+    }, { transaction });
+
+    // Only AI reviews store scores; a later human decision cannot be told apart, so it counts as AI
+    await queryInterface.sequelize.query(`
+      UPDATE "qa_reviews"
+      SET "decidedAt" = "updatedAt",
+        "decisionSource" = CASE WHEN "overallScore" IS NULL THEN 'human' ELSE 'ai' END,
+        "aiStatus" = CASE WHEN "overallScore" IS NULL THEN NULL ELSE "status"::text END
+      WHERE "status" <> 'pending';
+    `, { transaction });
+
+    await queryInterface.addIndex('qa_reviews', ['decidedAt'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn('qa_reviews', 'aiStatus', { transaction });
+    await queryInterface.removeColumn('qa_reviews', 'decisionSource', { transaction });
+    await queryInterface.removeColumn('qa_reviews', 'decidedAt', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,108 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '018-create-draft-checks',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('draft_checks', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      taskId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'tasks',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      content: {
+        type: DataTypes.TEXT,
+        allowNull: false
+      },
+      rubricId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'qa_rubrics',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      scores: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      overallScore: {
+        type: DataTypes.FLOAT,
+        allowNull: false
+      },
+      passed: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false
+      },
+      feedback: {
+        type: DataTypes.TEXT,
+        allowNull: false
+      },
+      suggestedRewrite: {
+        type: DataTypes.TEXT,
+        allowNull: true
+      },
+      // accepted | edited | sent_anyway; null until a message is sent after the check
+      outcome: {
+        type: DataTypes.STRING,
+        allowNull: true
+      },
+      messageId: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'messages',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      resolvedAt: {
+        type: DataTypes.DATE,
+        allowNull: true
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('draft_checks', ['taskId'], { transaction });
+    await queryInterface.addIndex('draft_checks', ['userId', 'createdAt'], { transaction });
+    await queryInterface.addIndex('draft_checks', ['outcome'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('draft_checks', { transaction });
+  }
+};
+
+export default migration;
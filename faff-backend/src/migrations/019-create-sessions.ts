@@ -0,0 +1,68 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '019-create-sessions',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.createTable('sessions', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      // SHA-256 of the current refresh token; replaced on every refresh
+      refreshTokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+      },
+      userAgent: {
+        type: DataTypes.STRING(512),
+        allowNull: true
+      },
+      ipAddress: {
+        type: DataTypes.STRING,
+        allowNull: true
+      },
+      lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('sessions', ['userId', 'revokedAt'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('sessions', { transaction });
+  }
+};
+
+export default migration;
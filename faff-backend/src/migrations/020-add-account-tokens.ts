@@ -0,0 +1,72 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '020-add-account-tokens',
+
+  up: async (queryInterface, transaction) => {
+    // Null until the user follows a verification link
+    await queryInterface.addColumn('faffs', 'emailVerifiedAt', {
+      type: DataTypes.DATE,
+      allowNull: true
+    }, { transaction });
+
+    await queryInterface.createTable('account_tokens', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      purpose: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      // SHA-256 of the token sent by email
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+      },
+      // Email address the token was sent to; verification only counts for this address
+      email: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      usedAt: {
+        type: DataTypes.DATE,
+        allowNull: true
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('account_tokens', ['userId', 'purpose'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('account_tokens', { transaction });
+    await queryInterface.removeColumn('faffs', 'emailVerifiedAt', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '021-add-user-deactivation',
+
+  up: async (queryInterface, transaction) => {
+    // Set while an admin has deactivated the account; the user cannot sign in
+    await queryInterface.addColumn('faffs', 'deactivatedAt', {
+      type: DataTypes.DATE,
+      allowNull: true
+    }, { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeColumn('faffs', 'deactivatedAt', { transaction });
+  }
+};
+
+export default migration;
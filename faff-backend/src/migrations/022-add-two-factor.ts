@@ -0,0 +1,72 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '022-add-two-factor',
+
+  up: async (queryInterface, transaction) => {
+    // TOTP secret, encrypted; set during enrollment and kept once 2FA is enabled
+    await queryInterface.addColumn('faffs', 'twoFactorSecret', {
+      type: DataTypes.TEXT,
+      allowNull: true
+    }, { transaction });
+
+    await queryInterface.addColumn('faffs', 'twoFactorEnabledAt', {
+      type: DataTypes.DATE,
+      allowNull: true
+    }, { transaction });
+
+    // SHA-256 hashes of the unused recovery codes
+    await queryInterface.addColumn('faffs', 'twoFactorRecoveryCodes', {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    }, { transaction });
+
+    // Time step of the last accepted code, so a code cannot be replayed
+    await queryInterface.addColumn('faffs', 'twoFactorLastStep', {
+      type: DataTypes.BIGINT,
+      allowNull: true
+    }, { transaction });
+
+    // Instance-wide settings managed by admins
+    await queryInterface.createTable('settings', {
+      key: {
+        type: DataTypes.STRING,
+        primaryKey: true
+      },
+      value: {
+        type: DataTypes.JSONB,
+        allowNull: false
+      },
+      updatedById: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('settings', { transaction });
+    await queryInterface.removeColumn('faffs', 'twoFactorLastStep', { transaction });
+    await queryInterface.removeColumn('faffs', 'twoFactorRecoveryCodes', { transaction });
+    await queryInterface.removeColumn('faffs', 'twoFactorEnabledAt', { transaction });
+    await queryInterface.removeColumn('faffs', 'twoFactorSecret', { transaction });
+  }
+};
+
+export default migration;
@@ -0,0 +1,97 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '023-create-personal-access-tokens',
+
+  up: async (queryInterface, transaction) => {
+    // Service accounts are users for scripts and integrations; they only authenticate with tokens
+    await queryInterface.addColumn('faffs', 'isServiceAccount', {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    }, { transaction });
+
+    await queryInterface.createTable('personal_access_tokens', {
+      id: {
+        type: DataTypes.INTEGER,
+        autoIncrement: true,
+        primaryKey: true
+      },
+      userId: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'CASCADE'
+      },
+      name: {
+        type: DataTypes.STRING,
+        allowNull: false
+      },
+      // SHA-256 of the token; the token itself is only shown when it is created
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+        unique: true
+      },
+      // Start of the token, so users can tell their tokens apart
+      tokenPrefix: {
+        type: DataTypes.STRING(16),
+        allowNull: false
+      },
+      scopes: {
+        type: DataTypes.JSONB,
+        allowNull: false,
+        defaultValue: []
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: true
+      },
+      lastUsedIp: {
+        type: DataTypes.STRING,
+        allowNull: true
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true
+      },
+      // Admin who created the token for a service account; null when users create their own
+      createdById: {
+        type: DataTypes.INTEGER,
+        allowNull: true,
+        references: {
+          model: 'faffs',
+          key: 'id'
+        },
+        onUpdate: 'CASCADE',
+        onDelete: 'SET NULL'
+      },
+      createdAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      },
+      updatedAt: {
+        type: DataTypes.DATE,
+        allowNull: false
+      }
+    }, { transaction });
+
+    await queryInterface.addIndex('personal_access_tokens', ['userId', 'revokedAt'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.dropTable('personal_access_tokens', { transaction });
+    await queryInterface.removeColumn('faffs', 'isServiceAccount', { transaction });
+  }
+};
+
+export default migration;
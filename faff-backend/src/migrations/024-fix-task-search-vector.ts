@@ -0,0 +1,34 @@
+import { Migration } from './index';
+
+// Databases that ran 010 before it was fixed have a trigger function that passes the
+// "stepsToReproduce" array to coalesce() with a text default, which makes every task
+// insert and every update of the indexed columns fail with "malformed array literal".
+const TASKS_FUNCTION = `
+  CREATE OR REPLACE FUNCTION tasks_search_vector_update() RETURNS trigger AS $$
+  BEGIN
+    NEW."searchVector" :=
+      setweight(to_tsvector('english', coalesce(NEW.title, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(array_to_string(NEW.tags, ' '), '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(NEW.description, '')), 'B') ||
+      setweight(to_tsvector('english', coalesce(array_to_string(NEW."stepsToReproduce", ' '), '')), 'C');
+    RETURN NEW;
+  END
+  $$ LANGUAGE plpgsql;
+`;
+
+const migration: Migration = {
+  name: '024-fix-task-search-vector',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.sequelize.query(TASKS_FUNCTION, { transaction });
+    await queryInterface.sequelize.query(
+      'UPDATE "tasks" SET title = title WHERE "searchVector" IS NULL;',
+      { transaction }
+    );
+  },
+
+  // The broken function is not restored: 010's down removes the trigger and function
+  down: async () => {}
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+import { DataTypes } from 'sequelize';
+import { Migration } from './index';
+
+const migration: Migration = {
+  name: '025-add-job-dedupe-key',
+
+  up: async (queryInterface, transaction) => {
+    await queryInterface.addColumn('jobs', 'dedupeKey', {
+      type: DataTypes.STRING,
+      allowNull: true
+    }, { transaction });
+
+    await queryInterface.addIndex('jobs', ['dedupeKey', 'status'], { transaction });
+  },
+
+  down: async (queryInterface, transaction) => {
+    await queryInterface.removeIndex('jobs', ['dedupeKey', 'status'], { transaction });
+    await queryInterface.removeColumn('jobs', 'dedupeKey', { transaction });
+  }
+};
+
+export default migration;
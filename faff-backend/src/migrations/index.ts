@@ -0,0 +1,64 @@
+import { QueryInterface, Transaction } from 'sequelize';
+import createUsers from './001-create-users';
+import createTasks from './002-create-tasks';
+import createMessages from './003-create-messages';
+import createSummaries from './004-create-summaries';
+import createQAReviews from './005-create-qa-reviews';
+import addTaskBlockedReason from './006-add-task-blocked-reason';
+import createTaskEvents from './007-create-task-events';
+import createNotifications from './008-create-notifications';
+import addMessageMentions from './009-add-message-mentions';
+import addSearchVectors from './010-add-search-vectors';
+import addStructuredSummaries from './011-add-structured-summaries';
+import createSummaryVersions from './012-create-summary-versions';
+import addTaskAutoSummary from './013-add-task-auto-summary';
+import createJobs from './014-create-jobs';
+import createQARubrics from './015-create-qa-rubrics';
+import addQAReviewAssignment from './016-add-qa-review-assignment';
+import addQAReviewDecisions from './017-add-qa-review-decisions';
+import createDraftChecks from './018-create-draft-checks';
+import createSessions from './019-create-sessions';
+import addAccountTokens from './020-add-account-tokens';
+import addUserDeactivation from './021-add-user-deactivation';
+import addTwoFactor from './022-add-two-factor';
+import createPersonalAccessTokens from './023-create-personal-access-tokens';
+import fixTaskSearchVector from './024-fix-task-search-vector';
+import addJobDedupeKey from './025-add-job-dedupe-key';
+
+export interface Migration {
+  name: string;
+  up: (queryInterface: QueryInterface, transaction: Transaction) => Promise<void>;
+  down: (queryInterface: QueryInterface, transaction: Transaction) => Promise<void>;
+}
+
+// Migrations run in array order and are rolled back in reverse.
+// Never reorder or rename an entry once it has been applied anywhere.
+const migrations: Migration[] = [
+  createUsers,
+  createTasks,
+  createMessages,
+  createSummaries,
+  createQAReviews,
+  addTaskBlockedReason,
+  createTaskEvents,
+  createNotifications,
+  addMessageMentions,
+  addSearchVectors,
+  addStructuredSummaries,
+  createSummaryVersions,
+  addTaskAutoSummary,
+  createJobs,
+  createQARubrics,
+  addQAReviewAssignment,
+  addQAReviewDecisions,
+  createDraftChecks,
+  createSessions,
+  addAccountTokens,
+  addUserDeactivation,
+  addTwoFactor,
+  createPersonalAccessTokens,
+  fixTaskSearchVector,
+  addJobDedupeKey
+];
+
+export default migrations;
@@ -0,0 +1,73 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+// Invitations work like password resets: following the link sets the first password
+export type AccountTokenPurpose = 'password_reset' | 'email_verification' | 'invitation';
+
+// A single-use token mailed to a user. Only its hash is stored; usedAt is set
+// when the link is followed, after which the token no longer works.
+class AccountToken extends Model {
+  public id!: number;
+  public userId!: number;
+  public purpose!: AccountTokenPurpose;
+  public tokenHash!: string;
+  public email!: string; // Address the token was sent to
+  public expiresAt!: Date;
+  public usedAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+AccountToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    purpose: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    email: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    usedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  },
+  {
+    sequelize,
+    tableName: 'account_tokens',
+    indexes: [
+      {
+        fields: ['userId', 'purpose']
+      }
+    ]
+  }
+);
+
+// Define associations
+AccountToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default AccountToken;
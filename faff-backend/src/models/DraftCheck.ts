@@ -0,0 +1,130 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import Task from './Task';
+import Message from './Message';
+import QARubric from './QARubric';
+import { QACriterionScore } from './QAReview';
+
+// What the sender did after a pre-send check: sent the suggested rewrite as is,
+// sent something else (an edited rewrite or draft), or sent the checked draft unchanged
+export type DraftCheckOutcome = 'accepted' | 'edited' | 'sent_anyway';
+
+class DraftCheck extends Model {
+  public id!: number;
+  public taskId!: number;
+  public userId!: number;
+  public content!: string; // The checked draft
+  public rubricId!: number | null;
+  public scores!: QACriterionScore[];
+  public overallScore!: number;
+  public passed!: boolean;
+  public feedback!: string;
+  public suggestedRewrite!: string | null;
+  public outcome!: DraftCheckOutcome | null; // Null until a message is sent after the check
+  public messageId!: number | null;
+  public resolvedAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+DraftCheck.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    taskId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'tasks',
+        key: 'id'
+      }
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    content: {
+      type: DataTypes.TEXT,
+      allowNull: false
+    },
+    rubricId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'qa_rubrics',
+        key: 'id'
+      }
+    },
+    scores: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    overallScore: {
+      type: DataTypes.FLOAT,
+      allowNull: false
+    },
+    passed: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false
+    },
+    feedback: {
+      type: DataTypes.TEXT,
+      allowNull: false
+    },
+    suggestedRewrite: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    outcome: {
+      type: DataTypes.STRING,
+      allowNull: true,
+      validate: {
+        isIn: [['accepted', 'edited', 'sent_anyway']]
+      }
+    },
+    messageId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'messages',
+        key: 'id'
+      }
+    },
+    resolvedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  },
+  {
+    sequelize,
+    tableName: 'draft_checks',
+    indexes: [
+      {
+        fields: ['taskId']
+      },
+      {
+        fields: ['userId', 'createdAt']
+      },
+      {
+        fields: ['outcome']
+      }
+    ]
+  }
+);
+
+// Define associations
+DraftCheck.belongsTo(Task, { foreignKey: 'taskId', as: 'task' });
+DraftCheck.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+DraftCheck.belongsTo(Message, { foreignKey: 'messageId', as: 'message' });
+DraftCheck.belongsTo(QARubric, { foreignKey: 'rubricId', as: 'rubric' });
+
+export default DraftCheck;
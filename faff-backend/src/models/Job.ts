@@ -0,0 +1,135 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import Task from './Task';
+
+export type JobType =
+  | 'summary.generate'
+  | 'qa.ai_review'
+  | 'qa.sweep'
+  | 'attachments.delete';
+
+// pending jobs (new or waiting to retry) are picked up once runAt has passed;
+// dead jobs exhausted their attempts and stay until retried by hand
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+class Job extends Model {
+  public id!: number;
+  public type!: JobType;
+  public payload!: Record<string, unknown>;
+  public status!: JobStatus;
+  public attempts!: number;
+  public maxAttempts!: number;
+  public runAt!: Date;
+  public lockedAt!: Date | null;
+  public lockedBy!: string | null; // Worker that claimed the job
+  public lastError!: string | null;
+  public result!: Record<string, unknown> | null;
+  public createdById!: number | null;
+  public taskId!: number | null;
+  public completedAt!: Date | null;
+  public dedupeKey!: string | null; // At most one pending and one running job share a key
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Job.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    payload: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    },
+    status: {
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'pending'
+    },
+    attempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    maxAttempts: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    runAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    lockedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    lockedBy: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    lastError: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    result: {
+      type: DataTypes.JSONB,
+      allowNull: true
+    },
+    createdById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    taskId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'tasks',
+        key: 'id'
+      }
+    },
+    completedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    dedupeKey: {
+      type: DataTypes.STRING,
+      allowNull: true
+    }
+  },
+  {
+    sequelize,
+    tableName: 'jobs',
+    indexes: [
+      {
+        fields: ['status', 'runAt']
+      },
+      {
+        fields: ['createdById']
+      },
+      {
+        fields: ['taskId']
+      },
+      {
+        fields: ['dedupeKey', 'status']
+      }
+    ]
+  }
+);
+
+// Define associations
+Job.belongsTo(User, { foreignKey: 'createdById', as: 'createdBy' });
+Job.belongsTo(Task, { foreignKey: 'taskId', as: 'task' });
+
+export default Job;
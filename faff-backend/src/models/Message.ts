@@ -21,6 +21,7 @@ class Message extends Model {
   public content!: string;
   public replyToId!: number | null;
   public attachments!: Attachment[]; 
+  public mentionedUserIds!: number[];
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -64,6 +65,11 @@ Message.init(
       type: DataTypes.JSONB,
       allowNull: false,
       defaultValue: []
+    },
+    mentionedUserIds: {
+      type: DataTypes.ARRAY(DataTypes.INTEGER),
+      allowNull: false,
+      defaultValue: []
     }
   },
   {
@@ -78,6 +84,10 @@ Message.init(
       },
       {
         fields: ['replyToId']
+      },
+      {
+        fields: ['mentionedUserIds'],
+        using: 'gin'
       }
     ]
   }
@@ -0,0 +1,96 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import Task from './Task';
+
+export type NotificationType =
+  | 'task_assigned'
+  | 'new_message'
+  | 'mention'
+  | 'qa_assigned'
+  | 'qa_approved'
+  | 'qa_rejected'
+  | 'status_changed';
+
+class Notification extends Model {
+  public id!: number;
+  public userId!: number;
+  public actorId!: number | null;
+  public taskId!: number | null;
+  public type!: NotificationType;
+  public content!: string;
+  public metadata!: Record<string, unknown>;
+  public readAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Notification.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    taskId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'tasks',
+        key: 'id'
+      }
+    },
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    content: {
+      type: DataTypes.TEXT,
+      allowNull: false
+    },
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    },
+    readAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  },
+  {
+    sequelize,
+    tableName: 'notifications',
+    indexes: [
+      {
+        fields: ['userId', 'readAt']
+      },
+      {
+        fields: ['taskId']
+      }
+    ]
+  }
+);
+
+// Define associations
+Notification.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+Notification.belongsTo(User, { foreignKey: 'actorId', as: 'actor' });
+Notification.belongsTo(Task, { foreignKey: 'taskId', as: 'task' });
+
+export default Notification;
@@ -0,0 +1,101 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import { TokenScope } from '../config/permissions';
+
+// A long-lived, scoped token for scripts and integrations calling the REST API.
+// Only a hash is stored; requests made with it act as its user, limited to its scopes.
+class PersonalAccessToken extends Model {
+  public id!: number;
+  public userId!: number;
+  public name!: string;
+  public tokenHash!: string;
+  public tokenPrefix!: string;
+  public scopes!: TokenScope[];
+  public expiresAt!: Date;
+  public lastUsedAt!: Date | null;
+  public lastUsedIp!: string | null;
+  public revokedAt!: Date | null;
+  public createdById!: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  public isActive(): boolean {
+    return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+  }
+}
+
+PersonalAccessToken.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    tokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    tokenPrefix: {
+      type: DataTypes.STRING(16),
+      allowNull: false
+    },
+    scopes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    lastUsedIp: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    createdById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    }
+  },
+  {
+    sequelize,
+    tableName: 'personal_access_tokens',
+    indexes: [
+      {
+        fields: ['userId', 'revokedAt']
+      }
+    ]
+  }
+);
+
+// Define associations
+PersonalAccessToken.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+PersonalAccessToken.belongsTo(User, { foreignKey: 'createdById', as: 'createdBy' });
+
+export default PersonalAccessToken;
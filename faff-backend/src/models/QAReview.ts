@@ -2,13 +2,37 @@ import { Model, DataTypes } from 'sequelize';
 import sequelize from '../config/database';
 import Message from './Message';
 import User from './User';
+import QARubric from './QARubric';
+
+// Per-criterion result of an AI review; name and weight are copied from the rubric
+// so the review still reads correctly after the rubric changes
+export interface QACriterionScore {
+  key: string;
+  name: string;
+  weight: number;
+  score: number;
+  passed: boolean;
+  explanation: string;
+}
+
+// Whether the current verdict came from the QA model or a reviewer
+export type QADecisionSource = 'ai' | 'human';
 
 class QAReview extends Model {
   public id!: number;
   public messageId!: number;
-  public reviewerId!: number;
+  public reviewerId!: number | null; // Null while the review waits in the unassigned pool
+  public requestedById!: number | null;
   public status!: 'pending' | 'approved' | 'rejected';
   public feedback!: string | null;
+  public rubricId!: number | null; // Rubric used by the AI review
+  public scores!: QACriterionScore[];
+  public overallScore!: number | null; // Weighted average of the criterion scores
+  public assignedAt!: Date | null;
+  public dueAt!: Date | null; // SLA deadline, counted from the request
+  public decidedAt!: Date | null;
+  public decisionSource!: QADecisionSource | null;
+  public aiStatus!: 'approved' | 'rejected' | null; // QA model's verdict, kept when a reviewer overrides it
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -30,7 +54,15 @@ QAReview.init(
     },
     reviewerId: {
       type: DataTypes.INTEGER,
-      allowNull: false,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    requestedById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
       references: {
         model: 'faffs',
         key: 'id'
@@ -44,6 +76,43 @@ QAReview.init(
     feedback: {
       type: DataTypes.TEXT,
       allowNull: true
+    },
+    rubricId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'qa_rubrics',
+        key: 'id'
+      }
+    },
+    scores: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    overallScore: {
+      type: DataTypes.FLOAT,
+      allowNull: true
+    },
+    assignedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    dueAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    decidedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    decisionSource: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    aiStatus: {
+      type: DataTypes.STRING,
+      allowNull: true
     }
   },
   {
@@ -58,6 +127,18 @@ QAReview.init(
       },
       {
         fields: ['status']
+      },
+      {
+        fields: ['rubricId']
+      },
+      {
+        fields: ['reviewerId', 'status']
+      },
+      {
+        fields: ['dueAt']
+      },
+      {
+        fields: ['decidedAt']
       }
     ]
   }
@@ -66,5 +147,7 @@ QAReview.init(
 // Define associations
 QAReview.belongsTo(Message, { foreignKey: 'messageId', as: 'message' });
 QAReview.belongsTo(User, { foreignKey: 'reviewerId', as: 'reviewer' });
+QAReview.belongsTo(User, { foreignKey: 'requestedById', as: 'requestedBy' });
+QAReview.belongsTo(QARubric, { foreignKey: 'rubricId', as: 'rubric' });
 
 export default QAReview; 
\ No newline at end of file
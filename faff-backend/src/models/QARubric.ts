@@ -0,0 +1,94 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+// Scores given by the model run from 0 to 10
+export const QA_SCORE_MAX = 10;
+
+export interface QACriterion {
+  key: string; // Stable identifier, used to aggregate scores across reviews
+  name: string;
+  description: string;
+  weight: number;
+  // Minimum score for the criterion to pass
+  passThreshold: number;
+}
+
+class QARubric extends Model {
+  public id!: number;
+  public name!: string;
+  public description!: string | null;
+  public criteria!: QACriterion[];
+  public passThreshold!: number; // Minimum weighted average score for approval
+  public tags!: string[]; // Used for tasks with any of these tags
+  public isDefault!: boolean; // Used when no rubric matches a task's tags
+  public active!: boolean;
+  public createdById!: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+QARubric.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    name: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    description: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    criteria: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    passThreshold: {
+      type: DataTypes.FLOAT,
+      allowNull: false
+    },
+    tags: {
+      type: DataTypes.ARRAY(DataTypes.STRING),
+      allowNull: false,
+      defaultValue: []
+    },
+    isDefault: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
+    },
+    active: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: true
+    },
+    createdById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    }
+  },
+  {
+    sequelize,
+    tableName: 'qa_rubrics',
+    indexes: [
+      {
+        fields: ['tags'],
+        using: 'gin'
+      }
+    ]
+  }
+);
+
+// Define associations
+QARubric.belongsTo(User, { foreignKey: 'createdById', as: 'createdBy' });
+
+export default QARubric;
@@ -0,0 +1,79 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+// A signed-in device. Access tokens carry the session id, so revoking the session
+// rejects them immediately, and the refresh token rotates on every use.
+class Session extends Model {
+  public id!: number;
+  public userId!: number;
+  public refreshTokenHash!: string;
+  public userAgent!: string | null;
+  public ipAddress!: string | null;
+  public lastUsedAt!: Date;
+  public expiresAt!: Date; // Pushed back on every refresh
+  public revokedAt!: Date | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+
+  public isActive(): boolean {
+    return !this.revokedAt && this.expiresAt.getTime() > Date.now();
+  }
+}
+
+Session.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    userId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    refreshTokenHash: {
+      type: DataTypes.STRING(64),
+      allowNull: false,
+      unique: true
+    },
+    userAgent: {
+      type: DataTypes.STRING(512),
+      allowNull: true
+    },
+    ipAddress: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    lastUsedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    expiresAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    },
+    revokedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    }
+  },
+  {
+    sequelize,
+    tableName: 'sessions',
+    indexes: [
+      {
+        fields: ['userId', 'revokedAt']
+      }
+    ]
+  }
+);
+
+// Define associations
+Session.belongsTo(User, { foreignKey: 'userId', as: 'user' });
+
+export default Session;
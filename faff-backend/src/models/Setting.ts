@@ -0,0 +1,42 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+
+// An instance-wide setting managed by admins, stored as JSON under a key
+class Setting extends Model {
+  public key!: string;
+  public value!: unknown;
+  public updatedById!: number | null;
+  public readonly createdAt!: Date;
+  public readonly updatedAt!: Date;
+}
+
+Setting.init(
+  {
+    key: {
+      type: DataTypes.STRING,
+      primaryKey: true
+    },
+    value: {
+      type: DataTypes.JSONB,
+      allowNull: false
+    },
+    updatedById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    }
+  },
+  {
+    sequelize,
+    tableName: 'settings'
+  }
+);
+
+// Define associations
+Setting.belongsTo(User, { foreignKey: 'updatedById', as: 'updatedBy' });
+
+export default Setting;
@@ -3,12 +3,25 @@ import sequelize from '../config/database';
 import Task from './Task';
 import User from './User';
 
+export type SummaryEntityType = 'url' | 'email' | 'phone' | 'person' | 'organization' | 'identifier' | 'other';
+
+export const SUMMARY_ENTITY_TYPES: SummaryEntityType[] = ['url', 'email', 'phone', 'person', 'organization', 'identifier', 'other'];
+
+export interface SummaryEntity {
+  type: SummaryEntityType;
+  value: string;
+}
+
 class Summary extends Model {
   public id!: number;
   public taskId!: number;
-  public createdById!: number;
-  public content!: string;
-  public entities!: string[]; // Extracted entities (contact numbers, links, etc.)
+  public createdById!: number | null; // Null for background refreshes
+  public content!: string; // Short overview of the discussion
+  public issue!: string | null;
+  public investigation!: string | null;
+  public nextSteps!: string[];
+  public keyPoints!: string[];
+  public entities!: SummaryEntity[]; // Extracted entities (contact numbers, links, etc.)
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -30,7 +43,7 @@ Summary.init(
     },
     createdById: {
       type: DataTypes.INTEGER,
-      allowNull: false,
+      allowNull: true,
       references: {
         model: 'faffs',
         key: 'id'
@@ -40,8 +53,26 @@ Summary.init(
       type: DataTypes.TEXT,
       allowNull: false
     },
+    issue: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    investigation: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    nextSteps: {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: false,
+      defaultValue: []
+    },
+    keyPoints: {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: false,
+      defaultValue: []
+    },
     entities: {
-      type: DataTypes.ARRAY(DataTypes.STRING),
+      type: DataTypes.JSONB,
       allowNull: false,
       defaultValue: []
     }
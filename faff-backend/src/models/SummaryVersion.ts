@@ -0,0 +1,137 @@
+import { Model, DataTypes } from 'sequelize';
+import sequelize from '../config/database';
+import Summary, { SummaryEntity } from './Summary';
+import Task from './Task';
+import User from './User';
+
+export type SummarySource = 'ai' | 'manual';
+
+// Immutable snapshot of a summary; a new row is written for every generation or edit
+class SummaryVersion extends Model {
+  public id!: number;
+  public summaryId!: number;
+  public taskId!: number;
+  public version!: number;
+  public createdById!: number | null;
+  public source!: SummarySource;
+  public model!: string | null;
+  // Range of message IDs the summary was generated from
+  public fromMessageId!: number | null;
+  public toMessageId!: number | null;
+  public messageCount!: number;
+  public content!: string;
+  public issue!: string | null;
+  public investigation!: string | null;
+  public nextSteps!: string[];
+  public keyPoints!: string[];
+  public entities!: SummaryEntity[];
+  public readonly createdAt!: Date;
+}
+
+SummaryVersion.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    summaryId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'summaries',
+        key: 'id'
+      }
+    },
+    taskId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'tasks',
+        key: 'id'
+      }
+    },
+    version: {
+      type: DataTypes.INTEGER,
+      allowNull: false
+    },
+    createdById: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    source: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    model: {
+      type: DataTypes.STRING,
+      allowNull: true
+    },
+    fromMessageId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    toMessageId: {
+      type: DataTypes.INTEGER,
+      allowNull: true
+    },
+    messageCount: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      defaultValue: 0
+    },
+    content: {
+      type: DataTypes.TEXT,
+      allowNull: false
+    },
+    issue: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    investigation: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    nextSteps: {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: false,
+      defaultValue: []
+    },
+    keyPoints: {
+      type: DataTypes.ARRAY(DataTypes.TEXT),
+      allowNull: false,
+      defaultValue: []
+    },
+    entities: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    }
+  },
+  {
+    sequelize,
+    tableName: 'summary_versions',
+    updatedAt: false,
+    indexes: [
+      {
+        unique: true,
+        fields: ['taskId', 'version']
+      },
+      {
+        fields: ['summaryId']
+      }
+    ]
+  }
+);
+
+// Define associations
+SummaryVersion.belongsTo(Summary, { foreignKey: 'summaryId', as: 'summary' });
+SummaryVersion.belongsTo(Task, { foreignKey: 'taskId', as: 'task' });
+SummaryVersion.belongsTo(User, { foreignKey: 'createdById', as: 'createdBy' });
+Summary.hasMany(SummaryVersion, { foreignKey: 'summaryId', as: 'versions' });
+
+export default SummaryVersion;
@@ -14,6 +14,8 @@ class Task extends Model {
   public status!: TaskStatus;
   public priority!: 'low' | 'medium' | 'high' | 'urgent';
   public tags!: string[];
+  public blockedReason!: string | null;
+  public autoSummary!: boolean; // Refresh the summary in the background as the discussion grows
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 }
@@ -69,6 +71,15 @@ Task.init(
       type: DataTypes.ARRAY(DataTypes.STRING),
       allowNull: false,
       defaultValue: []
+    },
+    blockedReason: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    autoSummary: {
+      type: DataTypes.BOOLEAN,
+      allowNull: false,
+      defaultValue: false
     }
   },
   {
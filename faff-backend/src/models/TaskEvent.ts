@@ -0,0 +1,287 @@
+import { Model, DataTypes, Transaction, Transactionable } from 'sequelize';
+import sequelize from '../config/database';
+import User from './User';
+import Task from './Task';
+import Message from './Message';
+import Summary from './Summary';
+import QAReview from './QAReview';
+import { notifyTaskEvent } from '../services/notificationService';
+import { handleTaskEventForSummary } from '../services/autoSummaryService';
+
+export type TaskEventType =
+  | 'task_created'
+  | 'task_updated'
+  | 'message_posted'
+  | 'message_edited'
+  | 'message_deleted'
+  | 'qa_requested'
+  | 'qa_reviewed'
+  | 'summary_updated';
+
+export interface FieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+// Extra option read by the audit hooks below to attribute a change to a user,
+// e.g. task.update(values, { actorId: userId } as AuditOptions)
+export interface AuditOptions extends Transactionable {
+  actorId?: number | null;
+  // Personal access token the change was made with; recorded in the event metadata
+  accessToken?: { id: number; name: string };
+}
+
+class TaskEvent extends Model {
+  public id!: number;
+  public taskId!: number;
+  public actorId!: number | null;
+  public type!: TaskEventType;
+  public changes!: Record<string, FieldChange>;
+  public metadata!: Record<string, unknown>;
+  public readonly createdAt!: Date;
+}
+
+TaskEvent.init(
+  {
+    id: {
+      type: DataTypes.INTEGER,
+      autoIncrement: true,
+      primaryKey: true
+    },
+    taskId: {
+      type: DataTypes.INTEGER,
+      allowNull: false,
+      references: {
+        model: 'tasks',
+        key: 'id'
+      }
+    },
+    actorId: {
+      type: DataTypes.INTEGER,
+      allowNull: true,
+      references: {
+        model: 'faffs',
+        key: 'id'
+      }
+    },
+    type: {
+      type: DataTypes.STRING,
+      allowNull: false
+    },
+    changes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    },
+    metadata: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: {}
+    }
+  },
+  {
+    sequelize,
+    tableName: 'task_events',
+    updatedAt: false,
+    indexes: [
+      {
+        fields: ['taskId', 'createdAt']
+      },
+      {
+        fields: ['actorId']
+      }
+    ]
+  }
+);
+
+// Define associations
+TaskEvent.belongsTo(Task, { foreignKey: 'taskId', as: 'task' });
+TaskEvent.belongsTo(User, { foreignKey: 'actorId', as: 'actor' });
+Task.hasMany(TaskEvent, { foreignKey: 'taskId', as: 'events' });
+
+// Task fields whose changes are recorded in the history
+const TRACKED_TASK_FIELDS = [
+  'title',
+  'description',
+  'stepsToReproduce',
+  'status',
+  'priority',
+  'assignedToId',
+  'tags',
+  'blockedReason'
+];
+
+const recordEvent = async (
+  values: {
+    taskId: number;
+    actorId: number | null | undefined;
+    type: TaskEventType;
+    changes?: Record<string, FieldChange>;
+    metadata?: Record<string, unknown>;
+  },
+  options: AuditOptions
+) => {
+  const create = (transaction?: Transaction) => TaskEvent.create(
+    {
+      taskId: values.taskId,
+      actorId: values.actorId ?? null,
+      type: values.type,
+      changes: values.changes || {},
+      metadata: { ...values.metadata, ...(options.accessToken && { accessToken: options.accessToken }) }
+    },
+    { transaction }
+  );
+
+  let event: TaskEvent;
+  try {
+    // Inside the caller's transaction the insert gets its own savepoint, since a failed statement
+    // would otherwise abort the whole transaction
+    event = options.transaction
+      ? await sequelize.transaction({ transaction: options.transaction }, create)
+      : await create();
+  } catch (error) {
+    // History is best-effort: never fail the mutation that triggered it
+    console.error(`[AUDIT] Failed to record ${values.type} for task ${values.taskId}:`, error);
+    return;
+  }
+
+  const publish = async () => {
+    await notifyTaskEvent(event);
+    await handleTaskEventForSummary(event);
+  };
+
+  if (!options.transaction) {
+    await publish();
+    return;
+  }
+
+  // Only notify and trigger summaries for changes that were committed
+  options.transaction.afterCommit(() =>
+    publish().catch(error => console.error(`[AUDIT] Failed to publish ${values.type} for task ${values.taskId}:`, error))
+  );
+};
+
+const collectChanges = (instance: Model, fields: string[]): Record<string, FieldChange> => {
+  const changes: Record<string, FieldChange> = {};
+  const changedFields = instance.changed() || [];
+
+  fields
+    .filter(field => changedFields.includes(field))
+    .forEach(field => {
+      const from = instance.previous(field);
+      const to = instance.get(field);
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    });
+
+  return changes;
+};
+
+// Task hooks
+Task.addHook('afterCreate', 'taskEvents', async (task: Task, options: AuditOptions) => {
+  await recordEvent({
+    taskId: task.id,
+    actorId: options.actorId ?? task.requestedById,
+    type: 'task_created',
+    metadata: { title: task.title, status: task.status }
+  }, options);
+});
+
+Task.addHook('afterUpdate', 'taskEvents', async (task: Task, options: AuditOptions) => {
+  const changes = collectChanges(task, TRACKED_TASK_FIELDS);
+  if (Object.keys(changes).length === 0) {
+    return;
+  }
+
+  await recordEvent({ taskId: task.id, actorId: options.actorId, type: 'task_updated', changes }, options);
+});
+
+// Message hooks
+Message.addHook('afterCreate', 'taskEvents', async (message: Message, options: AuditOptions) => {
+  await recordEvent({
+    taskId: message.taskId,
+    actorId: message.senderId,
+    type: 'message_posted',
+    metadata: {
+      messageId: message.id,
+      attachmentCount: message.attachments?.length || 0,
+      mentionedUserIds: message.mentionedUserIds || []
+    }
+  }, options);
+});
+
+Message.addHook('afterUpdate', 'taskEvents', async (message: Message, options: AuditOptions) => {
+  const changedFields = message.changed() || [];
+  if (!changedFields.includes('content') && !changedFields.includes('attachments')) {
+    return;
+  }
+
+  await recordEvent({
+    taskId: message.taskId,
+    actorId: options.actorId ?? message.senderId,
+    type: 'message_edited',
+    metadata: { messageId: message.id }
+  }, options);
+});
+
+Message.addHook('afterDestroy', 'taskEvents', async (message: Message, options: AuditOptions) => {
+  await recordEvent({
+    taskId: message.taskId,
+    actorId: options.actorId,
+    type: 'message_deleted',
+    metadata: { messageId: message.id, senderId: message.senderId }
+  }, options);
+});
+
+// QA review hooks
+const getReviewTaskId = async (review: QAReview, options: AuditOptions): Promise<number | null> => {
+  const message = await Message.findByPk(review.messageId, {
+    attributes: ['id', 'taskId'],
+    transaction: options.transaction
+  });
+  return message ? message.taskId : null;
+};
+
+QAReview.addHook('afterCreate', 'taskEvents', async (review: QAReview, options: AuditOptions) => {
+  const taskId = await getReviewTaskId(review, options);
+  if (!taskId) return;
+
+  await recordEvent({
+    taskId,
+    actorId: options.actorId ?? review.requestedById,
+    type: 'qa_requested',
+    metadata: { reviewId: review.id, messageId: review.messageId, reviewerId: review.reviewerId }
+  }, options);
+});
+
+QAReview.addHook('afterUpdate', 'taskEvents', async (review: QAReview, options: AuditOptions) => {
+  const changes = collectChanges(review, ['status']);
+  if (!changes.status) return;
+
+  const taskId = await getReviewTaskId(review, options);
+  if (!taskId) return;
+
+  await recordEvent({
+    taskId,
+    actorId: options.actorId,
+    type: 'qa_reviewed',
+    changes,
+    metadata: { reviewId: review.id, messageId: review.messageId }
+  }, options);
+});
+
+// Summary hooks
+const recordSummaryEvent = async (summary: Summary, options: AuditOptions) => {
+  await recordEvent({
+    taskId: summary.taskId,
+    actorId: options.actorId ?? summary.createdById,
+    type: 'summary_updated',
+    metadata: { summaryId: summary.id }
+  }, options);
+};
+
+Summary.addHook('afterCreate', 'taskEvents', recordSummaryEvent);
+Summary.addHook('afterUpdate', 'taskEvents', recordSummaryEvent);
+
+export default TaskEvent;
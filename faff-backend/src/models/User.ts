@@ -2,19 +2,30 @@ import { Model, DataTypes } from 'sequelize';
 import sequelize from '../config/database';
 import bcrypt from 'bcrypt';
 
+export const USER_ROLES = ['admin', 'lead', 'operator', 'qa_reviewer', 'requester'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Columns that must never be sent to clients
+export const PRIVATE_USER_FIELDS = ['password', 'twoFactorSecret', 'twoFactorRecoveryCodes', 'twoFactorLastStep'];
+
 class User extends Model {
   public id!: number;
   public name!: string;
   public email!: string;
   public password!: string;
-  public role!: 'admin' | 'operator';
+  public role!: UserRole;
+  public emailVerifiedAt!: Date | null;
+  public deactivatedAt!: Date | null; // Deactivated users cannot sign in
+  public twoFactorSecret!: string | null; // Encrypted TOTP secret
+  public twoFactorEnabledAt!: Date | null;
+  public twoFactorRecoveryCodes!: string[]; // Hashes of unused recovery codes
+  public twoFactorLastStep!: number | null; // Time step of the last accepted code
+  public isServiceAccount!: boolean; // Service accounts only authenticate with access tokens
   public readonly createdAt!: Date;
   public readonly updatedAt!: Date;
 
   // Method to validate password
   public async validatePassword(password: string): Promise<boolean> {
-    console.log("password", password);
-    console.log("this.password", this.password);
     return bcrypt.compare(password, this.password);
   }
 }
@@ -43,9 +54,47 @@ User.init(
       allowNull: false
     },
     role: {
-      type: DataTypes.ENUM('admin', 'operator'),
+      type: DataTypes.STRING,
+      allowNull: false,
+      defaultValue: 'operator',
+      validate: {
+        isIn: [USER_ROLES as unknown as string[]]
+      }
+    },
+    emailVerifiedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    deactivatedAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    twoFactorSecret: {
+      type: DataTypes.TEXT,
+      allowNull: true
+    },
+    twoFactorEnabledAt: {
+      type: DataTypes.DATE,
+      allowNull: true
+    },
+    twoFactorRecoveryCodes: {
+      type: DataTypes.JSONB,
+      allowNull: false,
+      defaultValue: []
+    },
+    twoFactorLastStep: {
+      type: DataTypes.BIGINT,
+      allowNull: true,
+      // pg returns BIGINT as a string; time steps fit in a number
+      get() {
+        const value = this.getDataValue('twoFactorLastStep');
+        return value === null ? null : Number(value);
+      }
+    },
+    isServiceAccount: {
+      type: DataTypes.BOOLEAN,
       allowNull: false,
-      defaultValue: 'operator'
+      defaultValue: false
     }
   },
   {
@@ -2,7 +2,17 @@ import User from './User';
 import Task from './Task';
 import Message from './Message';
 import Summary from './Summary';
+import SummaryVersion from './SummaryVersion';
+import QARubric from './QARubric';
 import QAReview from './QAReview';
+import DraftCheck from './DraftCheck';
+import TaskEvent from './TaskEvent';
+import Notification from './Notification';
+import Job from './Job';
+import Session from './Session';
+import AccountToken from './AccountToken';
+import Setting from './Setting';
+import PersonalAccessToken from './PersonalAccessToken';
 import sequelize from '../config/database';
 
 // Initialize models in order
@@ -11,7 +21,17 @@ const models = [
   Task,   // Depends on User
   Message, // Depends on User and Task
   Summary, // Depends on User and Task
-  QAReview // Depends on User and Message
+  SummaryVersion, // Depends on Summary, Task and User
+  QARubric, // Depends on User
+  QAReview, // Depends on User, Message and QARubric
+  DraftCheck, // Depends on User, Task, Message and QARubric
+  TaskEvent, // Depends on User and Task; registers audit hooks on the models above
+  Notification, // Depends on User and Task
+  Job, // Depends on User and Task
+  Session, // Depends on User
+  AccountToken, // Depends on User
+  Setting, // Depends on User
+  PersonalAccessToken // Depends on User
 ];
 
 export {
@@ -19,6 +39,16 @@ export {
   Task,
   Message,
   Summary,
+  SummaryVersion,
+  QARubric,
   QAReview,
+  DraftCheck,
+  TaskEvent,
+  Notification,
+  Job,
+  Session,
+  AccountToken,
+  Setting,
+  PersonalAccessToken,
   sequelize
 }; 
\ No newline at end of file
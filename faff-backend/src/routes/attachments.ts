@@ -1,6 +1,6 @@
 import express from 'express';
 import { uploadAttachments } from '../controllers/attachmentsController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission } from '../middleware/auth';
 import multer from 'multer';
 import path from 'path';
 
@@ -23,6 +23,6 @@ const upload = multer({
 });
 
 // Routes
-router.post('/upload', authenticate, upload.array('files', 5), uploadAttachments);
+router.post('/upload', authenticate, requirePermission('message.send'), upload.array('files', 5), uploadAttachments);
 
 export default router; 
\ No newline at end of file
@@ -5,9 +5,26 @@ import {
   getCurrentUser, 
   updateProfile, 
   changePassword,
-  getAllUsers
+  getAllUsers,
+  refresh,
+  logout,
+  getSessions,
+  deleteSession,
+  deleteOtherSessions,
+  forgotPassword,
+  resetPassword,
+  verifyEmail,
+  resendVerification,
+  loginTwoFactor,
+  loginTwoFactorSetup,
+  loginTwoFactorEnable,
+  getTwoFactor,
+  setupTwoFactor,
+  enableTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor
 } from '../controllers/authController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, requirePermission, requireSession } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -17,16 +34,67 @@ router.post('/register', register);
 // Login user
 router.post('/login', login);
 
+// Second login step: enter an authenticator or recovery code
+router.post('/login/2fa', loginTwoFactor);
+
+// Set up 2FA during login when the user's role requires it
+router.post('/login/2fa/setup', loginTwoFactorSetup);
+router.post('/login/2fa/enable', loginTwoFactorEnable);
+
+// Exchange a refresh token for new tokens
+router.post('/refresh', refresh);
+
+// Account routes use requireSession: access tokens cannot manage the account they belong to
+
+// Log out of the current session
+router.post('/logout', authenticate, requireSession, logout);
+
+// Get the current user's active sessions
+router.get('/sessions', authenticate, requireSession, getSessions);
+
+// Sign out every other device
+router.delete('/sessions', authenticate, requireSession, deleteOtherSessions);
+
+// Sign out one device
+router.delete('/sessions/:id', authenticate, requireSession, deleteSession);
+
+// Email a password reset link
+router.post('/forgot-password', forgotPassword);
+
+// Set a new password from a reset link
+router.post('/reset-password', resetPassword);
+
+// Verify an email address from a verification link
+router.post('/verify-email', verifyEmail);
+
+// Send a new verification link to the current user
+router.post('/verify-email/resend', authenticate, requireSession, resendVerification);
+
+// Get the current user's 2FA status
+router.get('/2fa', authenticate, requireSession, getTwoFactor);
+
+// Start 2FA enrollment (returns the secret and QR code)
+router.post('/2fa/setup', authenticate, requireSession, setupTwoFactor);
+
+// Confirm enrollment with a code and turn 2FA on
+router.post('/2fa/enable', authenticate, requireSession, enableTwoFactor);
+
+// Replace the recovery codes
+router.post('/2fa/recovery-codes', authenticate, requireSession, regenerateRecoveryCodes);
+
+// Turn 2FA off
+router.post('/2fa/disable', authenticate, requireSession, disableTwoFactor);
+
 // Get current user
 router.get('/me', authenticate, getCurrentUser);
 
-// Get all users
-router.get('/users', authenticate, getAllUsers);
+// Get all active users
+router.get('/users', authenticate, requirePermission('task.view'), getAllUsers);
 
 // Update profile
-router.put('/profile', authenticate, updateProfile);
+router.put('/profile', authenticate, requireSession, updateProfile);
 
 // Change password
-router.put('/password', authenticate, changePassword);
+router.put('/password', authenticate, requireSession, changePassword);
 
 export default router; 
\ No newline at end of file
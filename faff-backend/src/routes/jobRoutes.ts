@@ -0,0 +1,19 @@
+import express from 'express';
+import { getJobs, getJob, retryDeadJob } from '../controllers/jobController';
+import { authenticate, requirePermission } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication middleware to all job routes
+router.use(authenticate);
+
+// Get background jobs
+router.get('/', requirePermission('task.view'), getJobs);
+
+// Get a job's status and result
+router.get('/:id', requirePermission('task.view'), getJob);
+
+// Requeue a dead job
+router.post('/:id/retry', requirePermission('job.retry'), retryDeadJob);
+
+export default router;
@@ -1,6 +1,6 @@
 import express from 'express';
-import { createMessage, getTaskMessages, getMessageThread, updateMessage, deleteMessage, removeAttachment } from '../controllers/messageController';
-import { authenticate } from '../middleware/auth';
+import { createMessage, getTaskMessages, getMessageThread, updateMessage, deleteMessage, removeAttachment, getMentions } from '../controllers/messageController';
+import { authenticate, requirePermission } from '../middleware/auth';
 import { messageUpload } from '../config/upload';
 
 const router = express.Router();
@@ -9,21 +9,24 @@ const router = express.Router();
 router.use(authenticate);
 
 // Create a new message with file attachments
-router.post('/', messageUpload.array('files', 5), createMessage);
+router.post('/', requirePermission('message.send'), messageUpload.array('files', 5), createMessage);
+
+// Get messages mentioning the current user across all tasks
+router.get('/mentions', requirePermission('task.view'), getMentions);
 
 // Get messages for a task
-router.get('/task/:taskId', getTaskMessages);
+router.get('/task/:taskId', requirePermission('task.view'), getTaskMessages);
 
 // Get message thread (message and its replies)
-router.get('/thread/:id', getMessageThread);
+router.get('/thread/:id', requirePermission('task.view'), getMessageThread);
 
 // Update a message, optionally adding more attachments
-router.put('/:id', messageUpload.array('files', 5), updateMessage);
+router.put('/:id', requirePermission('message.send'), messageUpload.array('files', 5), updateMessage);
 
 // Delete a message and its attachments
-router.delete('/:id', deleteMessage);
+router.delete('/:id', requirePermission('message.send'), deleteMessage);
 
 // Remove a specific attachment from a message
-router.delete('/:id/attachment', removeAttachment);
+router.delete('/:id/attachment', requirePermission('message.send'), removeAttachment);
 
 export default router; 
\ No newline at end of file
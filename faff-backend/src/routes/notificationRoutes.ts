@@ -0,0 +1,19 @@
+import express from 'express';
+import { getNotifications, getNotificationCount, updateNotificationsReadState } from '../controllers/notificationController';
+import { authenticate, requireSession } from '../middleware/auth';
+
+const router = express.Router();
+
+// Notifications are for people signed in to the app, not access tokens
+router.use(authenticate, requireSession);
+
+// Get notifications for the current user
+router.get('/', getNotifications);
+
+// Get unread notification count
+router.get('/unread-count', getNotificationCount);
+
+// Mark notifications as read/unread
+router.put('/read', updateNotificationsReadState);
+
+export default router;
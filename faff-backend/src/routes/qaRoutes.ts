@@ -1,6 +1,17 @@
 import express from 'express';
-import { requestQAReview, getQAReviews, updateQAReview, getTaskQAReviews } from '../controllers/qaController';
-import { authenticate } from '../middleware/auth';
+import {
+  requestQAReview,
+  checkDraftMessage,
+  sweepQAReviews,
+  getQAReviews,
+  updateQAReview,
+  claimQAReview,
+  unclaimQAReview,
+  getTaskQAReviews
+} from '../controllers/qaController';
+import { getQARubrics, createQARubric, updateQARubric, deleteQARubric } from '../controllers/qaRubricController';
+import { getQAStats } from '../controllers/qaStatsController';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -8,15 +19,42 @@ const router = express.Router();
 router.use(authenticate);
 
 // Request a QA review
-router.post('/', requestQAReview);
+router.post('/', requirePermission('qa.request'), requestQAReview);
+
+// Check a draft against the QA rubric before sending it
+router.post('/draft-check', requirePermission('message.send'), checkDraftMessage);
+
+// Review every unreviewed outgoing message of a task, sender or date range with AI
+router.post('/sweep', requirePermission('qa.manage'), sweepQAReviews);
+
+// Get QA quality metrics
+router.get('/stats', requirePermission('qa.review'), getQAStats);
+
+// Get QA rubrics
+router.get('/rubrics', requirePermission('task.view'), getQARubrics);
+
+// Create a QA rubric
+router.post('/rubrics', requirePermission('qa.manage'), createQARubric);
+
+// Update a QA rubric
+router.put('/rubrics/:id', requirePermission('qa.manage'), updateQARubric);
+
+// Delete an unused QA rubric
+router.delete('/rubrics/:id', requirePermission('qa.manage'), deleteQARubric);
 
 // Get all QA reviews
-router.get('/', getQAReviews);
+router.get('/', requirePermission('task.view'), getQAReviews);
 
 // Get QA reviews for a task
-router.get('/task/:taskId', getTaskQAReviews);
+router.get('/task/:taskId', requirePermission('task.view'), getTaskQAReviews);
+
+// Claim a review from the unassigned pool
+router.post('/:id/claim', requirePermission('qa.review'), claimQAReview);
+
+// Release a claimed review back to the pool
+router.post('/:id/unclaim', requirePermission('qa.review'), unclaimQAReview);
 
 // Update a QA review (approve/reject)
-router.put('/:id', updateQAReview);
+router.put('/:id', requirePermission('qa.review'), updateQAReview);
 
 export default router; 
\ No newline at end of file
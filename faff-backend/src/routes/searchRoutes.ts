@@ -0,0 +1,13 @@
+import express from 'express';
+import { searchAll } from '../controllers/searchController';
+import { authenticate, requirePermission } from '../middleware/auth';
+
+const router = express.Router();
+
+// Apply authentication middleware to all search routes
+router.use(authenticate);
+
+// Search tasks and messages
+router.get('/', requirePermission('task.view'), searchAll);
+
+export default router;
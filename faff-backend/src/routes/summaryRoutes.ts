@@ -1,6 +1,6 @@
 import express from 'express';
-import { createSummary, getTaskSummary, generateSummary } from '../controllers/summaryController';
-import { authenticate } from '../middleware/auth';
+import { createSummary, getTaskSummary, generateSummary, getSummaryVersions } from '../controllers/summaryController';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -8,12 +8,15 @@ const router = express.Router();
 router.use(authenticate);
 
 // Create or update a summary
-router.post('/', createSummary);
+router.post('/', requirePermission('summary.edit'), createSummary);
 
 // Get summary for a task
-router.get('/task/:taskId', getTaskSummary);
+router.get('/task/:taskId', requirePermission('task.view'), getTaskSummary);
+
+// Get the version history of a task's summary
+router.get('/task/:taskId/versions', requirePermission('task.view'), getSummaryVersions);
 
 // Generate a summary automatically
-router.post('/generate/:taskId', generateSummary);
+router.post('/generate/:taskId', requirePermission('summary.edit'), generateSummary);
 
 export default router; 
\ No newline at end of file
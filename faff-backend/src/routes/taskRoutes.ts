@@ -1,6 +1,6 @@
 import express from 'express';
-import { createTask, getTasks, getTaskById, updateTask, deleteTask } from '../controllers/taskController';
-import { authenticate, isAdmin } from '../middleware/auth';
+import { createTask, getTasks, getTaskById, updateTask, deleteTask, getTaskTransitions, getTaskHistory } from '../controllers/taskController';
+import { authenticate, requirePermission } from '../middleware/auth';
 
 const router = express.Router();
 
@@ -8,18 +8,24 @@ const router = express.Router();
 router.use(authenticate);
 
 // Create a new task
-router.post('/', createTask);
+router.post('/', requirePermission('task.create'), createTask);
 
 // Get all tasks
-router.get('/', getTasks);
+router.get('/', requirePermission('task.view'), getTasks);
 
 // Get task by ID
-router.get('/:id', getTaskById);
+router.get('/:id', requirePermission('task.view'), getTaskById);
+
+// Get status transitions available to the current user
+router.get('/:id/transitions', requirePermission('task.view'), getTaskTransitions);
+
+// Get task activity history
+router.get('/:id/history', requirePermission('task.view'), getTaskHistory);
 
 // Update task
-router.put('/:id', updateTask);
+router.put('/:id', requirePermission('task.update'), updateTask);
 
-// Delete task (admin only)
-router.delete('/:id', isAdmin, deleteTask);
+// Delete task
+router.delete('/:id', requirePermission('task.delete'), deleteTask);
 
 export default router; 
\ No newline at end of file
@@ -0,0 +1,19 @@
+import express from 'express';
+import { getTokens, createToken, revokeToken } from '../controllers/tokenController';
+import { authenticate, requireSession } from '../middleware/auth';
+
+const router = express.Router();
+
+// Tokens are managed from a signed-in session, so a leaked token cannot mint more
+router.use(authenticate, requireSession);
+
+// Get the current user's personal access tokens
+router.get('/', getTokens);
+
+// Create a personal access token
+router.post('/', createToken);
+
+// Revoke a personal access token
+router.delete('/:id', revokeToken);
+
+export default router;
@@ -0,0 +1,61 @@
+import express from 'express';
+import {
+  getUsers,
+  inviteUser,
+  updateUserRole,
+  deactivateUser,
+  reactivateUser,
+  reassignUserTasks,
+  resetUserPassword,
+  resetUserTwoFactor,
+  getTwoFactorPolicy,
+  updateTwoFactorPolicy,
+  createServiceAccount,
+  getServiceAccountTokens,
+  createServiceAccountToken,
+  revokeServiceAccountToken
+} from '../controllers/userController';
+import { authenticate, requirePermission } from '../middleware/auth';
+
+const router = express.Router();
+
+// User management is for admins only
+router.use(authenticate, requirePermission('user.manage'));
+
+// Get every user, including deactivated ones
+router.get('/', getUsers);
+
+// Get and set the roles that must use 2FA
+router.get('/two-factor-policy', getTwoFactorPolicy);
+router.put('/two-factor-policy', updateTwoFactorPolicy);
+
+// Invite a user by email
+router.post('/invite', inviteUser);
+
+// Create a service account for an integration
+router.post('/service-accounts', createServiceAccount);
+
+// Change a user's role
+router.put('/:id/role', updateUserRole);
+
+// Deactivate a user
+router.post('/:id/deactivate', deactivateUser);
+
+// Reactivate a user
+router.post('/:id/reactivate', reactivateUser);
+
+// Move a user's open tasks to someone else
+router.post('/:id/reassign-tasks', reassignUserTasks);
+
+// Force a password reset
+router.post('/:id/reset-password', resetUserPassword);
+
+// Turn off a user's 2FA so they can enroll again
+router.post('/:id/reset-two-factor', resetUserTwoFactor);
+
+// Manage a service account's access tokens
+router.get('/:id/tokens', getServiceAccountTokens);
+router.post('/:id/tokens', createServiceAccountToken);
+router.delete('/:id/tokens/:tokenId', revokeServiceAccountToken);
+
+export default router;
@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import { PersonalAccessToken, User } from '../models';
+import { authConfig } from '../config/auth';
+import { TOKEN_SCOPES, TokenScope } from '../config/permissions';
+import { hashToken } from './sessionService';
+
+// Personal access tokens start with this, so authenticate can tell them from session JWTs
+// and secret scanners can recognise leaked ones
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'faff_pat_';
+
+// Length of the token's public part shown in lists, so users can tell their tokens apart
+const DISPLAY_PREFIX_LENGTH = 8;
+
+// lastUsedAt is written at most this often per token, so busy scripts do not write on every request
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+export interface AccessTokenInput {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays: number;
+}
+
+export interface CreatedAccessToken {
+  // Raw token, shown to the user once
+  token: string;
+  accessToken: PersonalAccessToken;
+}
+
+export const isPersonalAccessToken = (token: string): boolean => token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+
+/**
+ * Check the name, scopes and lifetime of a token about to be created
+ * @param body Request body
+ * @returns The cleaned input, or an error message
+ */
+export const parseAccessTokenInput = (body: any): { input?: AccessTokenInput; error?: string } => {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > 100) {
+    return { error: 'Token name is required and must be at most 100 characters' };
+  }
+
+  const scopes = body?.scopes;
+  if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some(scope => !TOKEN_SCOPES.includes(scope))) {
+    return { error: `Choose at least one scope from: ${TOKEN_SCOPES.join(', ')}` };
+  }
+
+  const maxDays = authConfig.personalAccessTokenMaxTtlDays;
+  const expiresInDays = Number(body?.expiresInDays);
+  if (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > maxDays) {
+    return { error: `Expiry must be a whole number of days between 1 and ${maxDays}` };
+  }
+
+  return { input: { name, scopes: [...new Set(scopes as TokenScope[])], expiresInDays } };
+};
+
+/**
+ * Create a personal access token for a user
+ * @param userId User the token acts as
+ * @param input Name, scopes and lifetime
+ * @param createdById User creating the token; an admin when it belongs to a service account
+ * @returns The raw token and its record
+ */
+export const createAccessToken = async (
+  userId: number,
+  input: AccessTokenInput,
+  createdById: number
+): Promise<CreatedAccessToken> => {
+  const secret = crypto.randomBytes(32).toString('base64url');
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${secret}`;
+
+  const created = await PersonalAccessToken.create({
+    userId,
+    name: input.name,
+    tokenHash: hashToken(token),
+    tokenPrefix: secret.slice(0, DISPLAY_PREFIX_LENGTH),
+    scopes: input.scopes,
+    expiresAt: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000),
+    createdById
+  });
+
+  // Reloaded without the hash, since the record is sent back to the client
+  const accessToken = await PersonalAccessToken.findByPk(created.id, { attributes: { exclude: ['tokenHash'] } });
+
+  return { token, accessToken: accessToken! };
+};
+
+/**
+ * Look up a personal access token and record that it was used
+ * @param token Raw token from the Authorization header
+ * @param ipAddress Address the request came from
+ * @returns The token and its user, or null when the token is unknown, expired or revoked, or the user is deactivated
+ */
+export const resolvePersonalAccessToken = async (
+  token: string,
+  ipAddress?: string | null
+): Promise<{ user: User; accessToken: PersonalAccessToken } | null> => {
+  const accessToken = await PersonalAccessToken.findOne({ where: { tokenHash: hashToken(token) } });
+  if (!accessToken || !accessToken.isActive()) {
+    return null;
+  }
+
+  const user = await User.findByPk(accessToken.userId);
+  if (!user || user.deactivatedAt) {
+    return null;
+  }
+
+  const now = new Date();
+  const stale = !accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_INTERVAL_MS;
+  if (stale || accessToken.lastUsedIp !== (ipAddress || null)) {
+    await accessToken.update({ lastUsedAt: now, lastUsedIp: ipAddress || null });
+  }
+
+  return { user, accessToken };
+};
+
+/**
+ * List a user's tokens that have not been revoked, newest first
+ * Expired tokens are included so users can see why a script stopped working.
+ * @param userId Owner of the tokens
+ */
+export const listAccessTokens = async (userId: number): Promise<PersonalAccessToken[]> =>
+  PersonalAccessToken.findAll({
+    where: { userId, revokedAt: null },
+    attributes: { exclude: ['tokenHash'] },
+    order: [['createdAt', 'DESC']]
+  });
+
+/**
+ * Revoke one of a user's tokens
+ * @param userId Owner of the token
+ * @param tokenId Token to revoke
+ * @returns Whether a token was revoked
+ */
+export const revokeAccessToken = async (userId: number, tokenId: number): Promise<boolean> => {
+  const [updated] = await PersonalAccessToken.update({ revokedAt: new Date() }, {
+    where: { id: tokenId, userId, revokedAt: null }
+  });
+  return updated > 0;
+};
+
+/**
+ * Revoke every token of a user
+ * @param userId Owner of the tokens
+ * @returns Number of tokens revoked
+ */
+export const revokeUserAccessTokens = async (userId: number): Promise<number> => {
+  const [updated] = await PersonalAccessToken.update({ revokedAt: new Date() }, {
+    where: { userId, revokedAt: null }
+  });
+  return updated;
+};
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import { Op } from 'sequelize';
+import { AccountToken, User } from '../models';
+import { AccountTokenPurpose } from '../models/AccountToken';
+import { authConfig } from '../config/auth';
+import { mailConfig } from '../config/mail';
+import { sendMail } from './mailService';
+import { hashToken, revokeUserSessions } from './sessionService';
+
+/**
+ * Issue a token for a user, replacing any unused token with the same purpose
+ * Only the most recently mailed link works.
+ * @param user Recipient
+ * @param purpose What the token allows
+ * @param ttlMs How long the token stays valid
+ * @returns The raw token, to be put in the emailed link
+ */
+const issueToken = async (user: User, purpose: AccountTokenPurpose, ttlMs: number): Promise<string> => {
+  const token = crypto.randomBytes(32).toString('base64url');
+
+  await AccountToken.destroy({ where: { userId: user.id, purpose, usedAt: null } });
+  await AccountToken.create({
+    userId: user.id,
+    purpose,
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(Date.now() + ttlMs)
+  });
+
+  return token;
+};
+
+/**
+ * Mark a token as used
+ * @param token Raw token from the link
+ * @param purposes Purposes the token may have been issued for
+ * @returns The token record, or null when it is unknown, expired or already used
+ */
+const consumeToken = async (token: string, purposes: AccountTokenPurpose[]): Promise<AccountToken | null> => {
+  const record = await AccountToken.findOne({
+    where: { tokenHash: hashToken(token), purpose: purposes, usedAt: null, expiresAt: { [Op.gt]: new Date() } }
+  });
+  if (!record) {
+    return null;
+  }
+
+  // Only the first of two concurrent uses wins
+  const [updated] = await AccountToken.update({ usedAt: new Date() }, {
+    where: { id: record.id, usedAt: null }
+  });
+
+  return updated === 0 ? null : record;
+};
+
+/**
+ * Email a user a link to verify their email address
+ * @param user User whose current address is verified
+ */
+export const sendEmailVerification = async (user: User): Promise<void> => {
+  const token = await issueToken(user, 'email_verification', authConfig.emailVerificationTtlHours * 60 * 60 * 1000);
+  const link = `${mailConfig.appUrl}/verify-email?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Verify your Faff email address',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Confirm that this is your email address by opening the link below:',
+      '',
+      link,
+      '',
+      `The link expires in ${authConfig.emailVerificationTtlHours} hours.`,
+      "If you didn't create a Faff account or change your email, you can ignore this message."
+    ].join('\n')
+  });
+};
+
+/**
+ * Mark a user's email as verified
+ * @param token Token from the verification link
+ * @returns The verified user, or null when the token is invalid or was sent to a previous address
+ */
+export const verifyEmail = async (token: string): Promise<User | null> => {
+  const record = await consumeToken(token, ['email_verification']);
+  if (!record) {
+    return null;
+  }
+
+  const user = await User.findByPk(record.userId);
+  if (!user || user.email !== record.email) {
+    return null;
+  }
+
+  if (!user.emailVerifiedAt) {
+    await user.update({ emailVerifiedAt: new Date() });
+  }
+  return user;
+};
+
+/**
+ * Email a password reset link to the account with this address, if there is one
+ * Callers respond the same way either way, so the endpoint does not reveal which emails have accounts.
+ * @param email Address entered on the forgot password form
+ */
+export const sendPasswordReset = async (email: string): Promise<void> => {
+  const user = await User.findOne({ where: { email } });
+  // Service accounts have no mailbox and never sign in with a password
+  if (!user || user.deactivatedAt || user.isServiceAccount) {
+    return;
+  }
+
+  const token = await issueToken(user, 'password_reset', authConfig.passwordResetTtlMinutes * 60 * 1000);
+  const link = `${mailConfig.appUrl}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Reset your Faff password',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'Someone asked to reset the password for your Faff account. Choose a new password here:',
+      '',
+      link,
+      '',
+      `The link expires in ${authConfig.passwordResetTtlMinutes} minutes and can be used once.`,
+      "If you didn't ask for this, you can ignore this message; your password stays the same."
+    ].join('\n')
+  });
+};
+
+/**
+ * Set a new password from a reset or invitation link and sign the user out everywhere
+ * @param token Token from the link
+ * @param password New password
+ * @returns The user, or null when the token is invalid, expired or already used, or the user is deactivated
+ */
+export const resetPassword = async (token: string, password: string): Promise<User | null> => {
+  const record = await consumeToken(token, ['password_reset', 'invitation']);
+  if (!record) {
+    return null;
+  }
+
+  const user = await User.findByPk(record.userId);
+  if (!user || user.deactivatedAt) {
+    return null;
+  }
+
+  // Following the link proves the user reads mail at this address
+  await user.update({
+    password,
+    ...(!user.emailVerifiedAt && user.email === record.email && { emailVerifiedAt: new Date() })
+  });
+  await revokeUserSessions(user.id);
+
+  return user;
+};
+
+/**
+ * Email an invited user a link to choose their password and sign in
+ * @param user Invited user
+ * @param invitedBy Admin who sent the invitation
+ */
+export const sendInvitation = async (user: User, invitedBy: User): Promise<void> => {
+  const token = await issueToken(user, 'invitation', authConfig.invitationTtlDays * 24 * 60 * 60 * 1000);
+  const link = `${mailConfig.appUrl}/reset-password?token=${token}&invite=1`;
+
+  await sendMail({
+    to: user.email,
+    subject: `${invitedBy.name} invited you to Faff`,
+    text: [
+      `Hi ${user.name},`,
+      '',
+      `${invitedBy.name} invited you to join Faff. Choose a password to activate your account:`,
+      '',
+      link,
+      '',
+      `The link expires in ${authConfig.invitationTtlDays} days.`
+    ].join('\n')
+  });
+};
+
+/**
+ * Make a user choose a new password: the current one stops working, every session
+ * is signed out and a reset link is emailed
+ * @param user User whose password is reset
+ */
+export const forcePasswordReset = async (user: User): Promise<void> => {
+  // A random password nobody knows, so only the emailed link gets the user back in
+  await user.update({ password: crypto.randomBytes(32).toString('base64url') });
+  await revokeUserSessions(user.id);
+
+  const token = await issueToken(user, 'password_reset', authConfig.passwordResetTtlMinutes * 60 * 1000);
+  const link = `${mailConfig.appUrl}/reset-password?token=${token}`;
+
+  await sendMail({
+    to: user.email,
+    subject: 'Your Faff password was reset',
+    text: [
+      `Hi ${user.name},`,
+      '',
+      'An administrator reset your Faff password and signed you out. Choose a new password here:',
+      '',
+      link,
+      '',
+      `The link expires in ${authConfig.passwordResetTtlMinutes} minutes and can be used once.`,
+      'If it expires, use "Forgot password?" on the login page to get a new one.'
+    ].join('\n')
+  });
+};
@@ -0,0 +1,321 @@
+import { stripMarkdown } from './markdownService';
+import { completeJSON, mapWithConcurrency } from './llmService';
+import { StructuredSummary, validateStructuredSummary, extractEntities } from './summaryService';
+import { SUMMARY_ENTITY_TYPES } from '../models/Summary';
+import { QACriterion, QA_SCORE_MAX } from '../models/QARubric';
+import { aiConfig } from '../config/ai';
+
+export interface SummaryMessage {
+  id: number;
+  content: string;
+  sender: { name: string };
+  createdAt: Date;
+}
+
+const SUMMARY_SYSTEM_PROMPT = 'You are a helpful assistant that summarizes task discussions and extracts important entities.';
+
+const SUMMARY_FORMAT = `
+    Format your response as a JSON object with these fields:
+    - "summary": A concise 2-3 sentence overview of the discussion and current status
+    - "issue": What the problem or request is, in 1-2 sentences
+    - "investigation": What has been tried or found so far (empty string if nothing yet)
+    - "nextSteps": An array of short, actionable next steps
+    - "keyPoints": An array of the most important facts or decisions from the discussion
+    - "entities": An array of objects { "type": "...", "value": "..." } for contact information, URLs, emails,
+      phone numbers, people, organizations or identifiers (order numbers, ticket IDs) mentioned.
+      "type" must be one of: ${SUMMARY_ENTITY_TYPES.join(', ')}
+    `;
+
+// Rough token estimate (~4 characters per token for English text)
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const formatMessage = (msg: SummaryMessage): string =>
+  `${msg.sender.name} (${new Date(msg.createdAt).toLocaleString()}): ${msg.content}`;
+
+// Split messages into consecutive chunks that each fit the token budget.
+// A single message larger than the budget is truncated into a chunk of its own.
+const chunkMessages = (messages: SummaryMessage[], budget: number): SummaryMessage[][] => {
+  const chunks: SummaryMessage[][] = [];
+  let current: SummaryMessage[] = [];
+  let currentTokens = 0;
+
+  messages.forEach(msg => {
+    let message = msg;
+    let tokens = estimateTokens(formatMessage(message));
+    if (tokens > budget) {
+      message = { ...msg, content: msg.content.slice(0, budget * 4) + ' [truncated]' };
+      tokens = budget;
+    }
+    if (current.length > 0 && currentTokens + tokens > budget) {
+      chunks.push(current);
+      current = [];
+      currentTokens = 0;
+    }
+    current.push(message);
+    currentTokens += tokens;
+  });
+
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+};
+
+const requestSummary = async (prompt: string): Promise<StructuredSummary> => {
+  const result = await completeJSON('summary', SUMMARY_SYSTEM_PROMPT, prompt);
+
+  const { summary, errors } = validateStructuredSummary(result);
+  if (!summary) {
+    throw new Error(`Invalid summary from model: ${errors.join('; ')}`);
+  }
+  return summary;
+};
+
+// Summarize messages, optionally folding them into an earlier summary
+const summarizeChunk = (messages: SummaryMessage[], taskStatus: string, previous?: StructuredSummary | null) => {
+  const previousSection = previous
+    ? `
+    Existing summary of the earlier discussion (JSON):
+    ${JSON.stringify(previous)}
+
+    Update it with the new messages below. Keep facts that still hold, drop next steps that are done,
+    and add anything new.
+    `
+    : '';
+
+  return requestSummary(`
+    Please summarize the following task discussion.
+    Task Status: ${taskStatus}
+    ${previousSection}
+    ${previous ? 'New messages' : 'Discussion'}:
+    ${messages.map(formatMessage).join('\n\n')}
+    ${SUMMARY_FORMAT}`);
+};
+
+// Reduce step: merge partial summaries (oldest first) into one, in groups that fit the budget
+const mergeSummaries = async (
+  summaries: StructuredSummary[],
+  taskStatus: string,
+  budget: number
+): Promise<StructuredSummary> => {
+  if (summaries.length === 1) {
+    return summaries[0];
+  }
+
+  let groups: StructuredSummary[][] = [];
+  summaries.forEach(summary => {
+    const group = groups[groups.length - 1];
+    const fits = group && estimateTokens(JSON.stringify([...group, summary])) <= budget;
+    if (fits) {
+      group.push(summary);
+    } else {
+      groups.push([summary]);
+    }
+  });
+
+  // Summaries too large to group still have to shrink, so merge them in pairs over budget
+  if (groups.length === summaries.length) {
+    groups = [];
+    for (let i = 0; i < summaries.length; i += 2) {
+      groups.push(summaries.slice(i, i + 2));
+    }
+  }
+
+  const merged = await mapWithConcurrency(groups, aiConfig.maxConcurrency, group => group.length === 1
+    ? Promise.resolve(group[0])
+    : requestSummary(`
+    The following JSON summaries cover consecutive parts of one task discussion, oldest first.
+    Task Status: ${taskStatus}
+
+    ${group.map((summary, index) => `Part ${index + 1}:\n${JSON.stringify(summary)}`).join('\n\n')}
+
+    Combine them into a single summary of the whole discussion. Later parts take precedence where they conflict.
+    ${SUMMARY_FORMAT}`));
+
+  return mergeSummaries(merged, taskStatus, budget);
+};
+
+/**
+ * Generate a structured summary of a task discussion
+ * With a previous summary only the new messages are sent and folded into it.
+ * Discussions larger than the summary token budget are summarized chunk by chunk
+ * (map) and the partial summaries merged (reduce). The model output is validated;
+ * regex-extracted entities are merged in so URLs, emails and phone numbers are never lost.
+ * @param messages Messages to summarize (only the new ones when previous is given), oldest first
+ * @param taskStatus Current status of the task
+ * @param previous Summary of the messages before these, if any
+ * @returns Structured summary (overview, issue, investigation, next steps, key points, entities)
+ * @throws Error when the model response does not match the summary schema
+ */
+export const generateTaskSummary = async (
+  messages: SummaryMessage[],
+  taskStatus: string,
+  previous?: StructuredSummary | null
+): Promise<StructuredSummary> => {
+  if (messages.length === 0) {
+    return previous || {
+      content: "No messages to summarize.",
+      issue: "No messages to summarize.",
+      investigation: '',
+      nextSteps: [],
+      keyPoints: [],
+      entities: []
+    };
+  }
+
+  // Prepare the messages for the model (markdown stripped to plain text)
+  const plainMessages = messages.map(msg => ({ ...msg, content: stripMarkdown(msg.content) }));
+
+  const budget = aiConfig.features.summary.inputTokenBudget;
+  const previousTokens = previous ? estimateTokens(JSON.stringify(previous)) : 0;
+  const chunks = chunkMessages(plainMessages, Math.max(budget - previousTokens, Math.floor(budget / 2)));
+
+  let summary: StructuredSummary;
+  if (chunks.length === 1) {
+    summary = await summarizeChunk(chunks[0], taskStatus, previous);
+  } else {
+    // Map: summarize each chunk independently, then reduce onto the previous summary
+    const partials = await mapWithConcurrency(chunks, aiConfig.maxConcurrency, chunk => summarizeChunk(chunk, taskStatus));
+    summary = await mergeSummaries(previous ? [previous, ...partials] : partials, taskStatus, budget);
+  }
+
+  const regexEntities = extractEntities(plainMessages.map(msg => msg.content));
+  const knownEntities = [...summary.entities, ...(previous?.entities || [])];
+  const known = new Set<string>();
+  const entities = [...knownEntities, ...regexEntities].filter(entity => {
+    const key = entity.value.toLowerCase();
+    if (known.has(key)) {
+      return false;
+    }
+    known.add(key);
+    return true;
+  });
+
+  return { ...summary, entities };
+};
+
+export interface QualityCheckResult {
+  feedback: string;
+  // Score and explanation per criterion key
+  scores: Record<string, { score: number; explanation: string }>;
+}
+
+export interface DraftCheckResult extends QualityCheckResult {
+  // Improved version of the draft; null when the model had nothing to change
+  suggestedRewrite: string | null;
+}
+
+const QA_SYSTEM_PROMPT = 'You are a quality assurance specialist reviewing customer support messages.';
+
+const formatCriteria = (criteria: QACriterion[]): string =>
+  criteria.map(criterion => `- [${criterion.key}] ${criterion.name}${criterion.description ? `: ${criterion.description}` : ''}`).join('\n  ');
+
+/**
+ * Read the feedback and per-criterion scores from a QA model response
+ * @param result Parsed model response
+ * @param criteria Rubric criteria the model was asked to score
+ * @returns Feedback and clamped scores
+ * @throws When a criterion is left unscored
+ */
+const parseQualityResult = (result: any, criteria: QACriterion[]): QualityCheckResult => {
+  const scores: QualityCheckResult['scores'] = {};
+  const missing: string[] = [];
+  criteria.forEach(criterion => {
+    const entry = result.scores?.[criterion.key];
+    const score = Number(entry?.score);
+    if (!entry || entry.score === null || !Number.isFinite(score)) {
+      missing.push(criterion.key);
+      return;
+    }
+    scores[criterion.key] = {
+      score: Math.min(Math.max(score, 0), QA_SCORE_MAX),
+      explanation: typeof entry.explanation === 'string' ? entry.explanation.trim() : ''
+    };
+  });
+
+  if (missing.length > 0) {
+    throw new Error(`QA model did not score: ${missing.join(', ')}`);
+  }
+
+  return {
+    feedback: typeof result.feedback === 'string' && result.feedback.trim()
+      ? result.feedback.trim()
+      : 'Quality check failed to provide feedback.',
+    scores
+  };
+};
+
+/**
+ * Score a message against the criteria of a QA rubric
+ * @param message The message content to check
+ * @param taskContext The context of the task (previous messages)
+ * @param criteria Rubric criteria to score the message on
+ * @returns Overall feedback and a score from 0 to 10 with an explanation per criterion
+ * @throws When the provider fails or leaves a criterion unscored, so callers can retry
+ */
+export const checkMessageQuality = async (
+  message: string,
+  taskContext: string,
+  criteria: QACriterion[]
+): Promise<QualityCheckResult> => {
+  // Generate the prompt
+  const prompt = `
+  Please review the following message for quality assurance in a customer support context.
+  Score it from 0 (fails completely) to ${QA_SCORE_MAX} (excellent) on each of these criteria:
+  ${formatCriteria(criteria)}
+  
+  Task Context:
+  ${taskContext}
+  
+  Message to Review:
+  ${message}
+  
+  Format your response as JSON with two fields:
+  1. "feedback": Overall feedback on the message, with specific suggestions for improvement where it falls short
+  2. "scores": An object with an entry for every criterion key in brackets above, each of the form { "score": number, "explanation": "why the message got this score" }
+  `;
+
+  const result = await completeJSON('qa', QA_SYSTEM_PROMPT, prompt);
+
+  return parseQualityResult(result, criteria);
+};
+
+/**
+ * Score an unsent draft against a QA rubric and suggest a rewrite
+ * @param draft The draft message content
+ * @param taskContext The context of the task (the discussion so far)
+ * @param criteria Rubric criteria to score the draft on
+ * @returns Feedback, a score per criterion and the suggested rewrite
+ * @throws When the provider fails or leaves a criterion unscored
+ */
+export const checkDraftQuality = async (
+  draft: string,
+  taskContext: string,
+  criteria: QACriterion[]
+): Promise<DraftCheckResult> => {
+  const prompt = `
+  A support agent is about to send the following draft reply. Check it before it is sent.
+  Score it from 0 (fails completely) to ${QA_SCORE_MAX} (excellent) on each of these criteria:
+  ${formatCriteria(criteria)}
+  
+  Task Context:
+  ${taskContext}
+  
+  Draft:
+  ${draft}
+  
+  Format your response as JSON with three fields:
+  1. "feedback": The main issues with the draft, or a short confirmation that it is ready to send
+  2. "scores": An object with an entry for every criterion key in brackets above, each of the form { "score": number, "explanation": "why the draft got this score" }
+  3. "suggestedRewrite": The draft rewritten to fix its issues, keeping its meaning, facts and Markdown formatting,
+     or an empty string if it needs no changes
+  `;
+
+  const result = await completeJSON('qa', QA_SYSTEM_PROMPT, prompt);
+  const rewrite = typeof result.suggestedRewrite === 'string' ? result.suggestedRewrite.trim() : '';
+
+  return {
+    ...parseQualityResult(result, criteria),
+    suggestedRewrite: rewrite && rewrite !== draft.trim() ? rewrite : null
+  };
+};
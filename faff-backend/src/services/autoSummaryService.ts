@@ -0,0 +1,80 @@
+import { Op } from 'sequelize';
+import Task, { TaskStatus } from '../models/Task';
+import Message from '../models/Message';
+import SummaryVersion from '../models/SummaryVersion';
+import TaskEvent from '../models/TaskEvent';
+import { aiConfig } from '../config/ai';
+import { enqueueJob, hasPendingJob } from './jobService';
+
+export const SUMMARY_UPDATED_EVENT = 'summary_updated';
+
+// Status changes that mark a checkpoint worth summarizing
+const CHECKPOINT_STATUSES: TaskStatus[] = ['Reviewed', 'Done'];
+
+/**
+ * Dedupe key of a task's summary.generate jobs, shared by background refreshes and manual requests
+ * @param taskId Task ID
+ */
+export const summaryJobKey = (taskId: number): string => `summary.generate:${taskId}`;
+
+/**
+ * Count the messages of a task not yet covered by its latest summary version
+ * @param taskId Task ID
+ * @returns Number of unsummarized messages
+ */
+const countUnsummarizedMessages = async (taskId: number): Promise<number> => {
+  const latest = await SummaryVersion.findOne({
+    where: { taskId },
+    attributes: ['toMessageId'],
+    order: [['version', 'DESC']]
+  });
+
+  return Message.count({
+    where: latest?.toMessageId
+      ? { taskId, id: { [Op.gt]: latest.toMessageId } }
+      : { taskId }
+  });
+};
+
+/**
+ * Queue a background summary refresh, restarting the debounce window if one is pending
+ * The refresh runs as a summary.generate job, so it survives restarts and never overlaps
+ * another summary job of the task.
+ * @param taskId Task ID
+ */
+export const scheduleSummaryRefresh = async (taskId: number): Promise<void> => {
+  await enqueueJob('summary.generate', { taskId, auto: true }, {
+    taskId,
+    delayMs: aiConfig.autoSummary.debounceMs,
+    dedupeKey: summaryJobKey(taskId)
+  });
+};
+
+/**
+ * Schedule a summary refresh when a task event calls for one
+ * Applies to tasks with autoSummary enabled, once enough new messages have been
+ * posted or when the task moves to Reviewed or Done.
+ * @param event Recorded task event
+ */
+export const handleTaskEventForSummary = async (event: TaskEvent): Promise<void> => {
+  const statusChange = event.type === 'task_updated' && event.changes.status
+    && CHECKPOINT_STATUSES.includes(event.changes.status.to as TaskStatus);
+  if (event.type !== 'message_posted' && !statusChange) {
+    return;
+  }
+
+  try {
+    const task = await Task.findByPk(event.taskId, { attributes: ['id', 'autoSummary'] });
+    if (!task || !task.autoSummary) return;
+
+    // A pending refresh is pushed back by every new message until the discussion goes quiet
+    if (event.type === 'message_posted' && !(await hasPendingJob(summaryJobKey(task.id)))) {
+      const unsummarized = await countUnsummarizedMessages(task.id);
+      if (unsummarized < aiConfig.autoSummary.messageThreshold) return;
+    }
+
+    await scheduleSummaryRefresh(task.id);
+  } catch (error) {
+    console.error(`[AUTO SUMMARY] Failed to handle ${event.type} for task ${event.taskId}:`, error);
+  }
+};
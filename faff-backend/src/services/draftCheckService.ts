@@ -0,0 +1,69 @@
+import { DraftCheck, Message, Task } from '../models';
+import { DraftCheckOutcome } from '../models/DraftCheck';
+import { checkDraftQuality } from './aiService';
+import { evaluateScores, selectRubric } from './qaRubricService';
+import { getContextBudget, getTaskContext } from './qaService';
+
+/**
+ * Check a draft against the task's QA rubric before it is sent, and store the check
+ * @param task Task the draft will be posted on
+ * @param userId Author of the draft
+ * @param content Draft content
+ * @returns The stored check with scores, issues and the suggested rewrite
+ * @throws When the QA model fails
+ */
+export const checkDraft = async (task: Task, userId: number, content: string): Promise<DraftCheck> => {
+  const rubric = await selectRubric(task.tags || []);
+  const result = await checkDraftQuality(content, await getTaskContext(task.id, getContextBudget(content)), rubric.criteria);
+  const { scores, overallScore, passed } = evaluateScores(rubric, result.scores);
+
+  return DraftCheck.create({
+    taskId: task.id,
+    userId,
+    content,
+    rubricId: rubric.id,
+    scores,
+    overallScore,
+    passed,
+    feedback: result.feedback,
+    suggestedRewrite: result.suggestedRewrite
+  });
+};
+
+/**
+ * Work out what the sender did with a check from the message they sent
+ * @param check Pre-send check
+ * @param content Content of the sent message
+ * @returns The outcome to log
+ */
+const getOutcome = (check: DraftCheck, content: string): DraftCheckOutcome => {
+  const sent = content.trim();
+  if (check.suggestedRewrite && sent === check.suggestedRewrite.trim()) {
+    return 'accepted';
+  }
+  return sent === check.content.trim() ? 'sent_anyway' : 'edited';
+};
+
+/**
+ * Log the sender's choice on a pre-send check once the message is sent
+ * Only the author's own unresolved checks on the same task are resolved. Logging is
+ * best-effort and never fails sending the message.
+ * @param draftCheckId Check the message was sent after
+ * @param message The sent message
+ */
+export const recordDraftCheckOutcome = async (draftCheckId: number, message: Message): Promise<void> => {
+  try {
+    const check = await DraftCheck.findOne({
+      where: { id: draftCheckId, userId: message.senderId, taskId: message.taskId, outcome: null }
+    });
+    if (!check) return;
+
+    await check.update({
+      outcome: getOutcome(check, message.content),
+      messageId: message.id,
+      resolvedAt: new Date()
+    });
+  } catch (error) {
+    console.error(`[DRAFT CHECK] Failed to record the outcome of check ${draftCheckId}:`, error);
+  }
+};
@@ -48,6 +48,23 @@ export const deleteAttachmentFiles = async (attachments: Attachment[]): Promise<
   await Promise.all(deletePromises);
 };
 
+/**
+ * Delete files from disk, failing if any of them could not be removed
+ * Files that are already gone count as deleted, so the call can be retried.
+ * @param paths File paths
+ */
+export const removeFiles = async (paths: string[]): Promise<void> => {
+  const results = await Promise.allSettled(paths.map(filePath => fs.promises.unlink(filePath)));
+  const failures = results.filter(
+    (result): result is PromiseRejectedResult =>
+      result.status === 'rejected' && (result.reason as NodeJS.ErrnoException).code !== 'ENOENT'
+  );
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to delete ${failures.length} of ${paths.length} files: ${(failures[0].reason as Error).message}`);
+  }
+};
+
 /**
  * Check if a file is an image
  * @param mimetype File MIME type
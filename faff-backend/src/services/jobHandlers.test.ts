@@ -0,0 +1,67 @@
+import Job from '../models/Job';
+import { QAReview } from '../models';
+import { JobHandler, registerJobHandler } from './jobService';
+import { registerJobHandlers } from './jobHandlers';
+import { applyAIReview } from './qaService';
+
+jest.mock('../models', () => ({
+  QAReview: { findByPk: jest.fn() },
+  Message: {},
+  Summary: {},
+  Task: {},
+  User: {}
+}));
+
+jest.mock('./jobService', () => ({
+  PermanentJobError: class PermanentJobError extends Error {},
+  registerJobHandler: jest.fn()
+}));
+
+jest.mock('./qaService', () => ({
+  applyAIReview: jest.fn(),
+  runQASweep: jest.fn()
+}));
+
+jest.mock('./summaryGenerationService', () => ({ refreshTaskSummary: jest.fn() }));
+jest.mock('./autoSummaryService', () => ({ SUMMARY_UPDATED_EVENT: 'summary_updated' }));
+jest.mock('./fileService', () => ({ removeFiles: jest.fn() }));
+jest.mock('./socketEmitter', () => ({ emitToTask: jest.fn() }));
+
+const findReview = QAReview.findByPk as unknown as jest.Mock;
+const applyReview = applyAIReview as unknown as jest.Mock;
+
+const handlerFor = (type: string): JobHandler => {
+  const call = (registerJobHandler as jest.Mock).mock.calls.find(([registered]) => registered === type);
+  return call[1];
+};
+
+describe('qa.ai_review job', () => {
+  const job = { payload: { reviewId: 3 }, createdById: 5 } as unknown as Job;
+  const message = { id: 9 };
+  const review = { id: 3, status: 'approved', get: () => message };
+
+  beforeAll(() => {
+    registerJobHandlers();
+  });
+
+  beforeEach(() => {
+    findReview.mockReset().mockResolvedValue(review);
+    applyReview.mockReset();
+  });
+
+  it('completes without changes when the review is no longer pending', async () => {
+    applyReview.mockResolvedValue(false);
+
+    await expect(handlerFor('qa.ai_review')(job)).resolves.toEqual({ skipped: true });
+
+    expect(applyReview).toHaveBeenCalledWith(review, message, 5);
+    expect(findReview).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns the updated review once the verdict is stored', async () => {
+    applyReview.mockResolvedValue(true);
+    findReview.mockResolvedValueOnce(review).mockResolvedValueOnce({ toJSON: () => ({ id: 3, status: 'approved' }) });
+
+    await expect(handlerFor('qa.ai_review')(job)).resolves.toEqual({ review: { id: 3, status: 'approved' } });
+  });
+});
@@ -0,0 +1,96 @@
+import { Message, QAReview, Summary, Task, User } from '../models';
+import { PermanentJobError, registerJobHandler } from './jobService';
+import { refreshTaskSummary } from './summaryGenerationService';
+import { SUMMARY_UPDATED_EVENT } from './autoSummaryService';
+import { applyAIReview, runQASweep } from './qaService';
+import { removeFiles } from './fileService';
+import { emitToTask } from './socketEmitter';
+
+/**
+ * Register the handlers for every job type
+ * Called once at startup, before the worker starts.
+ */
+export const registerJobHandlers = (): void => {
+  // Generate or incrementally update a task's summary
+  registerJobHandler('summary.generate', async (job) => {
+    const { taskId, full, auto } = job.payload as { taskId: number; full?: boolean; auto?: boolean };
+
+    const task = await Task.findByPk(taskId);
+    if (!task) {
+      throw new PermanentJobError('Task not found');
+    }
+    // Background refreshes are dropped if the task opted out after they were queued
+    if (auto && !task.autoSummary) {
+      return { skipped: true };
+    }
+
+    const result = await refreshTaskSummary(task, job.createdById, { full });
+    if (result.upToDate && !result.summary) {
+      throw new PermanentJobError('No messages found to generate summary');
+    }
+
+    const summary = await Summary.findByPk(result.summary!.id, {
+      include: [{ model: User, as: 'createdBy', attributes: ['id', 'name', 'email'] }]
+    });
+    const payload = {
+      summary: summary!.toJSON(),
+      version: result.version?.version ?? null,
+      coverage: result.coverage
+    };
+
+    // Refresh every open page of the task, not only the requester's
+    if (!result.upToDate) {
+      emitToTask(taskId, SUMMARY_UPDATED_EVENT, payload);
+    }
+
+    return { ...payload, upToDate: result.upToDate };
+  });
+
+  // Review a message with the QA model and store the verdict
+  registerJobHandler('qa.ai_review', async (job) => {
+    const { reviewId } = job.payload as { reviewId: number };
+
+    const review = await QAReview.findByPk(reviewId, {
+      include: [{ model: Message, as: 'message' }]
+    });
+    const message = review?.get('message') as Message | undefined;
+    if (!review || !message) {
+      throw new PermanentJobError('QA review or its message no longer exists');
+    }
+
+    // A reviewer may have decided the review since the job was queued; their decision stands
+    if (!(await applyAIReview(review, message, job.createdById))) {
+      return { skipped: true };
+    }
+
+    const updatedReview = await QAReview.findByPk(reviewId, {
+      include: [
+        { model: User, as: 'reviewer', attributes: ['id', 'name', 'email'] },
+        { model: User, as: 'requestedBy', attributes: ['id', 'name', 'email'] },
+        {
+          model: Message,
+          as: 'message',
+          include: [
+            { model: User, as: 'sender', attributes: ['id', 'name', 'email'] },
+            { model: Task, as: 'task' }
+          ]
+        }
+      ]
+    });
+
+    return { review: updatedReview!.toJSON() };
+  });
+
+  // Review every message picked up by a QA sweep and report the outcome
+  registerJobHandler('qa.sweep', async (job) => {
+    const { reviewIds } = job.payload as { reviewIds: number[] };
+    return { report: await runQASweep(reviewIds, job.createdById) };
+  });
+
+  // Delete files of removed attachments
+  registerJobHandler('attachments.delete', async (job) => {
+    const { paths } = job.payload as { paths: string[] };
+    await removeFiles(paths);
+    return { deleted: paths.length };
+  });
+};
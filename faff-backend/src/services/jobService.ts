@@ -0,0 +1,338 @@
+import os from 'os';
+import { Transaction } from 'sequelize';
+import sequelize from '../config/database';
+import { jobConfig } from '../config/jobs';
+import Job, { JobType } from '../models/Job';
+import { emitToUser } from './socketEmitter';
+
+export const JOB_UPDATED_EVENT = 'job_updated';
+
+// Handlers return the job's result; throwing schedules a retry
+export type JobHandler = (job: Job) => Promise<Record<string, unknown> | void>;
+
+/**
+ * Thrown by a handler when retrying cannot help (e.g. the task was deleted);
+ * the job goes straight to the dead-letter state
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+interface EnqueueOptions {
+  createdById?: number | null;
+  taskId?: number | null;
+  maxAttempts?: number;
+  // Wait this long before the first attempt
+  delayMs?: number;
+  // Merge with a pending job of the same key instead of queueing another (see enqueueJob)
+  dedupeKey?: string;
+  // Enqueue inside a caller's transaction; the job becomes visible on commit
+  transaction?: Transaction;
+}
+
+const handlers = new Map<JobType, JobHandler>();
+const workerId = `${os.hostname()}:${process.pid}`;
+
+let workerRunning = false;
+let polling = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let activeJobs = 0;
+let lastRecoveryAt = 0;
+
+/**
+ * Register the function that runs jobs of a type
+ * @param type Job type
+ * @param handler Job handler
+ */
+export const registerJobHandler = (type: JobType, handler: JobHandler): void => {
+  handlers.set(type, handler);
+};
+
+/**
+ * Push a job's current state to the user who queued it
+ * @param job Job
+ */
+const publishJob = (job: Job): void => {
+  if (job.createdById) {
+    emitToUser(job.createdById, JOB_UPDATED_EVENT, { job });
+  }
+};
+
+/**
+ * Delay before the next attempt of a failed job (exponential backoff)
+ * @param attempt Number of the attempt that just failed, starting at 1
+ * @returns Delay in milliseconds
+ */
+export const getRetryDelay = (attempt: number): number =>
+  Math.min(jobConfig.backoffBaseMs * 2 ** (attempt - 1), jobConfig.backoffMaxMs);
+
+/**
+ * Add a job to the queue
+ * With a dedupe key, an automatic (ownerless) pending job of the same key takes the new payload,
+ * owner and run time instead of a second job being queued. A pending job a user queued absorbs
+ * automatic jobs, but another user's job is queued separately so each can follow their own.
+ * Workers never run two jobs of the same key at once.
+ * @param type Job type
+ * @param payload Handler input; must be JSON serializable
+ * @param options Owner, related task, attempt limit, delay, dedupe key and transaction
+ * @returns The queued job, or the pending job it was merged into
+ */
+export const enqueueJob = async (
+  type: JobType,
+  payload: Record<string, unknown>,
+  options: EnqueueOptions = {}
+): Promise<Job> => {
+  const values = {
+    type,
+    payload,
+    status: 'pending',
+    maxAttempts: options.maxAttempts ?? jobConfig.maxAttempts,
+    runAt: new Date(Date.now() + (options.delayMs ?? 0)),
+    createdById: options.createdById ?? null,
+    taskId: options.taskId ?? null,
+    dedupeKey: options.dedupeKey ?? null
+  };
+
+  const enqueue = async (transaction?: Transaction): Promise<Job> => {
+    if (!options.dedupeKey) {
+      return Job.create(values, { transaction });
+    }
+
+    // Serializes enqueues of the same key, so two callers cannot both find no pending job
+    await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key));', {
+      replacements: { key: options.dedupeKey },
+      transaction
+    });
+    const pending = await Job.findOne({
+      where: { dedupeKey: options.dedupeKey, status: 'pending' },
+      transaction
+    });
+    if (!pending || (pending.createdById !== null && values.createdById !== null)) {
+      return Job.create(values, { transaction });
+    }
+
+    if (pending.createdById === null) {
+      await pending.update({
+        payload: values.payload,
+        runAt: values.runAt,
+        createdById: values.createdById,
+        maxAttempts: values.maxAttempts
+      }, { transaction });
+    }
+    return pending;
+  };
+
+  const job = options.transaction || !options.dedupeKey
+    ? await enqueue(options.transaction)
+    : await sequelize.transaction(transaction => enqueue(transaction));
+
+  // Delayed jobs are picked up by the regular poll once they are due
+  if (!options.transaction && !options.delayMs) {
+    schedulePoll(0);
+  }
+
+  return job;
+};
+
+/**
+ * Check whether a job of a dedupe key is waiting to run
+ * @param dedupeKey Dedupe key the job was queued with
+ */
+export const hasPendingJob = async (dedupeKey: string): Promise<boolean> =>
+  (await Job.count({ where: { dedupeKey, status: 'pending' } })) > 0;
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ * @param job Dead job
+ * @returns The requeued job
+ */
+export const retryJob = async (job: Job): Promise<Job> => {
+  await job.update({ status: 'pending', attempts: 0, runAt: new Date(), completedAt: null });
+  publishJob(job);
+  schedulePoll(0);
+  return job;
+};
+
+/**
+ * Claim the next due job, skipping rows other workers have locked
+ * @returns The claimed job, or null when nothing is due
+ */
+const claimNextJob = async (): Promise<Job | null> => {
+  const jobs = await sequelize.query(`
+    UPDATE "jobs"
+    SET "status" = 'running', "attempts" = "attempts" + 1, "lockedAt" = NOW(), "lockedBy" = :workerId, "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT j."id" FROM "jobs" j
+      WHERE j."status" = 'pending' AND j."runAt" <= NOW()
+        AND (j."dedupeKey" IS NULL OR NOT EXISTS (
+          SELECT 1 FROM "jobs" r WHERE r."dedupeKey" = j."dedupeKey" AND r."status" = 'running'
+        ))
+      ORDER BY j."runAt", j."id"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *;
+  `, {
+    replacements: { workerId },
+    model: Job,
+    mapToModel: true
+  });
+
+  return jobs[0] || null;
+};
+
+/**
+ * Requeue jobs whose worker stopped while running them
+ * Jobs that have used all their attempts are moved to the dead-letter state instead.
+ */
+const recoverStaleJobs = async (): Promise<void> => {
+  await sequelize.query(`
+    UPDATE "jobs"
+    SET "status" = CASE WHEN "attempts" >= "maxAttempts" THEN 'dead' ELSE 'pending' END,
+      "lastError" = 'Worker stopped before the job finished',
+      "lockedAt" = NULL, "lockedBy" = NULL, "runAt" = NOW(), "updatedAt" = NOW()
+    WHERE "status" = 'running' AND "lockedAt" < :cutoff;
+  `, {
+    replacements: { cutoff: new Date(Date.now() - jobConfig.lockTimeoutMs) }
+  });
+};
+
+/**
+ * Keep refreshing a running job's lock, so recoverStaleJobs does not requeue it while it is still running
+ * @param job Claimed job
+ * @returns Function that stops the heartbeat
+ */
+const startHeartbeat = (job: Job): (() => void) => {
+  const timer = setInterval(() => {
+    Job.update({ lockedAt: new Date() }, {
+      where: { id: job.id, lockedBy: workerId, status: 'running' }
+    }).catch(error => console.error(`[JOBS] Failed to refresh the lock of job #${job.id}:`, error));
+  }, jobConfig.lockTimeoutMs / 3);
+
+  return () => clearInterval(timer);
+};
+
+/**
+ * Record the outcome of a job, unless this worker lost its lock
+ * A job whose lock expired may have been requeued and claimed again; the newer attempt owns it then.
+ * @param job Claimed job
+ * @param values Outcome fields
+ * @returns Whether the outcome was recorded
+ */
+const finishJob = async (job: Job, values: Record<string, unknown>): Promise<boolean> => {
+  const [updated] = await Job.update(values, {
+    where: { id: job.id, lockedBy: workerId, status: 'running' }
+  });
+  if (updated === 0) {
+    console.warn(`[JOBS] ${job.type} #${job.id} lost its lock before finishing; its outcome was dropped`);
+    return false;
+  }
+
+  job.set(values);
+  return true;
+};
+
+/**
+ * Run a claimed job and record its outcome
+ * Failures are retried with exponential backoff until maxAttempts is reached.
+ * @param job Claimed job
+ */
+const runJob = async (job: Job): Promise<void> => {
+  publishJob(job);
+  const stopHeartbeat = startHeartbeat(job);
+  let recorded: boolean;
+
+  try {
+    const handler = handlers.get(job.type);
+    if (!handler) {
+      throw new PermanentJobError(`No handler registered for job type "${job.type}"`);
+    }
+
+    const result = await handler(job);
+    stopHeartbeat();
+    recorded = await finishJob(job, {
+      status: 'completed',
+      result: result || null,
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+      completedAt: new Date()
+    });
+  } catch (error) {
+    stopHeartbeat();
+    const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+    console.error(
+      `[JOBS] ${job.type} #${job.id} failed (attempt ${job.attempts}/${job.maxAttempts})${dead ? ', moved to dead letter' : ''}:`,
+      error
+    );
+
+    recorded = await finishJob(job, {
+      status: dead ? 'dead' : 'pending',
+      lastError: (error as Error).message,
+      lockedAt: null,
+      lockedBy: null,
+      runAt: dead ? job.runAt : new Date(Date.now() + getRetryDelay(job.attempts))
+    });
+  }
+
+  if (recorded) {
+    publishJob(job);
+  }
+};
+
+const schedulePoll = (delayMs: number): void => {
+  if (!workerRunning) return;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+  }
+  pollTimer = setTimeout(poll, delayMs);
+};
+
+const poll = async (): Promise<void> => {
+  pollTimer = null;
+  if (!workerRunning || polling) return;
+  polling = true;
+
+  try {
+    if (Date.now() - lastRecoveryAt >= jobConfig.lockTimeoutMs / 2) {
+      lastRecoveryAt = Date.now();
+      await recoverStaleJobs();
+    }
+
+    while (workerRunning && activeJobs < jobConfig.concurrency) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      activeJobs++;
+      runJob(job)
+        .catch(error => console.error(`[JOBS] Failed to record outcome of job #${job.id}:`, error))
+        .finally(() => {
+          activeJobs--;
+          schedulePoll(0);
+        });
+    }
+  } catch (error) {
+    console.error('[JOBS] Polling failed:', error);
+  } finally {
+    polling = false;
+  }
+
+  if (!pollTimer) {
+    schedulePoll(jobConfig.pollIntervalMs);
+  }
+};
+
+/**
+ * Start processing queued jobs in this process
+ * Any number of processes may run a worker; jobs are claimed with row locks.
+ */
+export const startJobWorker = (): void => {
+  if (!jobConfig.workerEnabled || workerRunning) return;
+
+  workerRunning = true;
+  console.log(`Job worker ${workerId} started (concurrency ${jobConfig.concurrency}).`);
+  schedulePoll(0);
+};
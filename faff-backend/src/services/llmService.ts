@@ -0,0 +1,216 @@
+import OpenAI from 'openai';
+import { aiConfig, AIConfig, AIFeature } from '../config/ai';
+
+export interface LLMCompletionRequest {
+  feature: AIFeature;
+  system: string;
+  prompt: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  // Ask the model for a single JSON object
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  name: string;
+  complete(request: LLMCompletionRequest): Promise<string>;
+}
+
+/**
+ * Create a provider for the OpenAI chat completions API
+ * Also used for OpenAI-compatible local servers by passing their base URL.
+ * @param options API key, optional base URL and whether JSON mode is supported
+ * @returns LLM provider
+ */
+export const createOpenAIProvider = (options: {
+  name?: string;
+  apiKey?: string;
+  baseURL?: string;
+  jsonMode?: boolean;
+}): LLMProvider => {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  const jsonMode = options.jsonMode ?? true;
+
+  return {
+    name: options.name || 'openai',
+    complete: async (request) => {
+      const response = await client.chat.completions.create({
+        model: request.model,
+        messages: [
+          { role: 'system', content: request.system },
+          { role: 'user', content: request.prompt }
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json && jsonMode ? { response_format: { type: 'json_object' as const } } : {})
+      });
+
+      return response.choices[0].message.content || '';
+    }
+  };
+};
+
+// Canned responses per feature; the mock never calls out, so the same prompt
+// always produces the same answer
+const mockResponders: Record<AIFeature, (request: LLMCompletionRequest) => unknown> = {
+  // Entities are left to the regex extraction that runs on every summary
+  summary: () => ({
+    summary: 'Mock summary of the task discussion.',
+    issue: 'Mock issue description.',
+    investigation: 'Mock investigation notes.',
+    nextSteps: ['Review the discussion', 'Reply to the requester'],
+    keyPoints: ['Mock key point'],
+    entities: []
+  }),
+  // Scores every criterion listed in the prompt as "- [key] Name"; pre-send checks also get a rewrite
+  qa: (request) => ({
+    feedback: 'Mock review: the message meets the QA standards.',
+    scores: Object.fromEntries(
+      [...request.prompt.matchAll(/^\s*- \[([a-z0-9_-]+)\]/gm)].map(([, key]) => [
+        key,
+        { score: 8, explanation: 'Mock score.' }
+      ])
+    ),
+    ...(request.prompt.includes('"suggestedRewrite"') && { suggestedRewrite: 'Mock rewrite of the draft.' })
+  })
+};
+
+/**
+ * Create a deterministic provider that answers without any network access
+ * Intended for local development and tests.
+ * @returns LLM provider
+ */
+export const createMockProvider = (): LLMProvider => ({
+  name: 'mock',
+  complete: async (request) => {
+    const response = mockResponders[request.feature](request);
+    return typeof response === 'string' ? response : JSON.stringify(response);
+  }
+});
+
+/**
+ * Create the provider selected in the AI config
+ * @param config AI configuration
+ * @returns LLM provider
+ */
+export const createProvider = (config: AIConfig): LLMProvider => {
+  switch (config.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'local':
+      return createOpenAIProvider({
+        name: 'local',
+        apiKey: config.local.apiKey,
+        baseURL: config.local.baseURL,
+        jsonMode: config.local.jsonMode
+      });
+    case 'openai':
+    default:
+      return createOpenAIProvider({ apiKey: config.openai.apiKey });
+  }
+};
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Get the configured provider, creating it on first use
+ * @returns LLM provider
+ */
+export const getProvider = (): LLMProvider => {
+  if (!provider) {
+    provider = createProvider(aiConfig);
+    console.log(`[AI] Using ${provider.name} LLM provider`);
+  }
+  return provider;
+};
+
+/**
+ * Replace the active provider (e.g. with a mock in tests)
+ * @param replacement Provider to use from now on
+ */
+export const setProvider = (replacement: LLMProvider): void => {
+  provider = replacement;
+};
+
+/**
+ * Name of the model a feature runs on, as recorded alongside generated content
+ * @param feature AI feature
+ * @returns Model name, or "mock" when the mock provider is active
+ */
+export const getModelName = (feature: AIFeature): string => {
+  const active = getProvider();
+  return active.name === 'mock' ? 'mock' : aiConfig.features[feature].model;
+};
+
+/**
+ * Parse a model response as JSON
+ * Tolerates models that wrap the object in prose or a markdown code fence.
+ * @param text Raw completion text
+ * @returns Parsed object
+ */
+export const parseJSONResponse = <T = any>(text: string): T => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const start = text.indexOf('{');
+    const end = text.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new Error('Model response did not contain JSON');
+    }
+    return JSON.parse(text.slice(start, end + 1));
+  }
+};
+
+/**
+ * Run a completion for a feature using its configured model settings and parse the JSON result
+ * @param feature AI feature whose model, temperature and token limit apply
+ * @param system System prompt
+ * @param prompt User prompt
+ * @returns Parsed JSON response
+ */
+export const completeJSON = async <T = any>(
+  feature: AIFeature,
+  system: string,
+  prompt: string
+): Promise<T> => {
+  const settings = aiConfig.features[feature];
+  const text = await getProvider().complete({
+    feature,
+    system,
+    prompt,
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    json: true
+  });
+
+  return parseJSONResponse<T>(text);
+};
+
+/**
+ * Map over items with at most `limit` calls in flight
+ * Keeps bursts of LLM requests under provider rate limits.
+ * @param items Items to process
+ * @param limit Maximum concurrent calls
+ * @param fn Async function applied to each item
+ * @returns Results in the same order as the items
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker));
+  return results;
+};
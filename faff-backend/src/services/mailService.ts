@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { mailConfig, MailConfig } from '../config/mail';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+// Header values come from user input (names, addresses), so line breaks are dropped
+const headerValue = (value: string): string => value.replace(/[\r\n]+/g, ' ').trim();
+
+// Non-ASCII header text is sent as an RFC 2047 encoded word
+const encodeHeader = (value: string): string =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+
+// Bare address from 'Name <address>' or 'address'
+const envelopeAddress = (address: string): string => {
+  const match = address.match(/<([^>]+)>/);
+  return headerValue(match ? match[1] : address);
+};
+
+/**
+ * Render a message as an RFC 5322 email
+ * The body is base64 encoded, so no line of it can be mistaken for SMTP's end-of-data marker.
+ * @param message Message with sender
+ * @returns Email source with CRLF line endings
+ */
+export const buildMessage = (message: MailMessage & { from: string }): string => {
+  const domain = envelopeAddress(message.from).split('@')[1] || os.hostname();
+  const body = Buffer.from(message.text).toString('base64').match(/.{1,76}/g) || [];
+
+  return [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    `Subject: ${encodeHeader(headerValue(message.subject))}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    ...body
+  ].join('\r\n');
+};
+
+interface SMTPResponse {
+  code: number;
+  lines: string[];
+}
+
+// Collects the server's replies; multi-line replies ("250-...") are joined into one response
+const createReplyReader = (socket: net.Socket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  let failure: Error | null = null;
+  const replies: SMTPResponse[] = [];
+  const waiting: Array<{ resolve: (reply: SMTPResponse) => void; reject: (error: Error) => void }> = [];
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      lines.push(line.slice(4));
+      if (line[3] === '-') {
+        continue;
+      }
+
+      const reply = { code: parseInt(line.slice(0, 3)), lines };
+      lines = [];
+      const waiter = waiting.shift();
+      if (waiter) {
+        waiter.resolve(reply);
+      } else {
+        replies.push(reply);
+      }
+    }
+  };
+
+  const onError = (error: Error) => {
+    failure = error;
+    waiting.splice(0).forEach(waiter => waiter.reject(error));
+  };
+  const onClose = () => onError(new Error('SMTP connection closed'));
+
+  socket.on('data', onData);
+  socket.on('error', onError);
+  socket.on('close', onClose);
+
+  return {
+    read: (): Promise<SMTPResponse> => {
+      const reply = replies.shift();
+      if (reply) {
+        return Promise.resolve(reply);
+      }
+      if (failure) {
+        return Promise.reject(failure);
+      }
+      return new Promise((resolve, reject) => waiting.push({ resolve, reject }));
+    },
+    // Stop reading from the socket, e.g. before it is wrapped in TLS
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', onError);
+      socket.off('close', onClose);
+    }
+  };
+};
+
+const connectSocket = (connect: (onConnect: () => void) => net.Socket, timeoutMs: number): Promise<net.Socket> =>
+  new Promise((resolve, reject) => {
+    const socket = connect(() => {
+      socket.off('error', reject);
+      resolve(socket);
+    });
+    socket.setTimeout(timeoutMs, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.once('error', reject);
+  });
+
+/**
+ * Create a transport that delivers through an SMTP server
+ * Speaks just enough SMTP for relays and local catchers such as MailHog:
+ * implicit TLS or STARTTLS, and AUTH PLAIN when credentials are given.
+ * @param options Server settings
+ * @returns Mail transport
+ */
+export const createSmtpTransport = (options: MailConfig['smtp']): MailTransport => ({
+  name: 'smtp',
+  send: async (message) => {
+    const connectOptions = { host: options.host, port: options.port };
+    let socket = await connectSocket(
+      onConnect => options.secure
+        ? tls.connect({ ...connectOptions, servername: options.host }, onConnect)
+        : net.connect(connectOptions, onConnect),
+      options.timeoutMs
+    );
+    let reader = createReplyReader(socket);
+
+    const command = async (line: string | null, expected: number): Promise<SMTPResponse> => {
+      if (line !== null) {
+        socket.write(`${line}\r\n`);
+      }
+      const reply = await reader.read();
+      if (Math.floor(reply.code / 100) !== Math.floor(expected / 100)) {
+        // Only the verb is reported, so credentials never end up in logs
+        const verb = line === null ? 'greeting' : line.split(' ')[0];
+        throw new Error(`SMTP ${verb} failed: ${reply.code} ${reply.lines.join(' ')}`);
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, 220);
+      let capabilities = (await command(`EHLO ${os.hostname()}`, 250)).lines;
+
+      if (!options.secure && capabilities.some(line => /^STARTTLS\b/i.test(line))) {
+        await command('STARTTLS', 220);
+        reader.detach();
+        const plain = socket;
+        socket = await connectSocket(
+          onConnect => tls.connect({ socket: plain, servername: options.host }, onConnect),
+          options.timeoutMs
+        );
+        reader = createReplyReader(socket);
+        capabilities = (await command(`EHLO ${os.hostname()}`, 250)).lines;
+      }
+
+      if (options.user) {
+        if (!capabilities.some(line => /^AUTH\b.*\bPLAIN\b/i.test(line))) {
+          throw new Error('SMTP server does not offer AUTH PLAIN');
+        }
+        const credentials = Buffer.from(`\0${options.user}\0${options.password || ''}`).toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, 235);
+      }
+
+      await command(`MAIL FROM:<${envelopeAddress(message.from)}>`, 250);
+      await command(`RCPT TO:<${envelopeAddress(message.to)}>`, 250);
+      await command('DATA', 354);
+      await command(`${buildMessage(message)}\r\n.`, 250);
+      await command('QUIT', 221).catch(() => undefined);
+    } finally {
+      reader.detach();
+      socket.destroy();
+    }
+  }
+});
+
+/**
+ * Create a transport that writes each email to a .eml file instead of sending it
+ * Intended for tests and local development.
+ * @param dir Directory for the files
+ * @returns Mail transport
+ */
+export const createFileTransport = (dir: string): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.mkdir(dir, { recursive: true });
+    const file = path.join(dir, `${Date.now()}-${crypto.randomUUID()}.eml`);
+    await fs.writeFile(file, buildMessage(message));
+    console.log(`[Mail] Wrote "${message.subject}" for ${message.to} to ${file}`);
+  }
+});
+
+/**
+ * Create a transport that prints emails to the console
+ * @returns Mail transport
+ */
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+  }
+});
+
+/**
+ * Create the transport selected in the mail config
+ * @param config Mail configuration
+ * @returns Mail transport
+ */
+export const createTransport = (config: MailConfig): MailTransport => {
+  switch (config.transport) {
+    case 'smtp':
+      return createSmtpTransport(config.smtp);
+    case 'file':
+      return createFileTransport(config.fileDir);
+    case 'console':
+    default:
+      return createConsoleTransport();
+  }
+};
+
+let transport: MailTransport | null = null;
+
+/**
+ * Get the configured transport, creating it on first use
+ * @returns Mail transport
+ */
+export const getTransport = (): MailTransport => {
+  if (!transport) {
+    transport = createTransport(mailConfig);
+    console.log(`[Mail] Using ${transport.name} mail transport`);
+  }
+  return transport;
+};
+
+/**
+ * Replace the active transport (e.g. with one that records messages in tests)
+ * @param replacement Transport to use from now on
+ */
+export const setTransport = (replacement: MailTransport): void => {
+  transport = replacement;
+};
+
+/**
+ * Send an email from the configured sender
+ * @param message Recipient, subject and plain-text body
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await getTransport().send({ ...message, from: mailConfig.from });
+};
@@ -0,0 +1,32 @@
+/**
+ * Convert message markdown to plain text
+ * Keeps the words and drops the formatting so prompts and previews are not
+ * cluttered with markup. Links become "text (url)" so URLs are still available
+ * for entity extraction, and code blocks keep their contents.
+ * @param text Markdown source
+ * @returns Plain text
+ */
+export const stripMarkdown = (text: string): string => {
+  if (!text) {
+    return '';
+  }
+
+  return text
+    // Fenced code blocks: keep the code, drop the fences and language tag
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, (_match, code: string) => code.trimEnd())
+    // Inline code
+    .replace(/`([^`\n]+)`/g, '$1')
+    // Images and links
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, '$1 ($2)')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, '$1 ($2)')
+    // Bold, italics and strikethrough
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w_])_(?=\S)([^_\n]*?\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1')
+    // Line prefixes: headings, blockquotes and list bullets
+    .replace(/^[ \t]*#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]*(>[ \t]?)+/gm, '')
+    .replace(/^([ \t]*)[*+-][ \t]+/gm, '$1- ')
+    .trim();
+};
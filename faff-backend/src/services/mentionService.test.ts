@@ -0,0 +1,32 @@
+import { User } from '../models';
+import { resolveMentions } from './mentionService';
+
+jest.mock('../models', () => ({
+  User: { findAll: jest.fn() }
+}));
+
+const findUsers = User.findAll as unknown as jest.Mock;
+
+describe('resolveMentions', () => {
+  beforeEach(() => {
+    findUsers.mockReset().mockResolvedValue([
+      { id: 1, name: 'Ann' },
+      { id: 2, name: 'Ann Lee' },
+      { id: 3, name: 'Bo' }
+    ]);
+  });
+
+  it('resolves the longest matching name', async () => {
+    await expect(resolveMentions('Thanks @ann lee, and @Bo too')).resolves.toEqual([2, 3]);
+  });
+
+  it('ignores email addresses and partial words', async () => {
+    await expect(resolveMentions('Mail bo@Bo.com or @Bob')).resolves.toEqual([]);
+  });
+
+  it('only looks up active users', async () => {
+    await resolveMentions('@Ann');
+
+    expect(findUsers).toHaveBeenCalledWith(expect.objectContaining({ where: { deactivatedAt: null } }));
+  });
+});
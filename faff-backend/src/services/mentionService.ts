@@ -0,0 +1,34 @@
+import { User } from '../models';
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Resolve @name mentions in message content to user IDs
+ * Names are matched case-insensitively against user names, longest first,
+ * so "@Ann Lee" wins over "@Ann" when both users exist. Deactivated users cannot be mentioned.
+ * @param content Message content
+ * @returns Array of mentioned user IDs (deduplicated)
+ */
+export const resolveMentions = async (content: string): Promise<number[]> => {
+  if (!content || !content.includes('@')) {
+    return [];
+  }
+
+  const users = await User.findAll({ where: { deactivatedAt: null }, attributes: ['id', 'name'] });
+  const mentioned: number[] = [];
+  let remaining = content;
+
+  [...users]
+    .filter(user => user.name)
+    .sort((a, b) => b.name.length - a.name.length)
+    .forEach(user => {
+      const pattern = new RegExp(`(^|[^\\w@])@${escapeRegExp(user.name)}(?![\\w])`, 'gi');
+      if (pattern.test(remaining)) {
+        mentioned.push(user.id);
+        // Blank out matched mentions so shorter names don't match inside them
+        remaining = remaining.replace(pattern, '$1');
+      }
+    });
+
+  return [...new Set(mentioned)];
+};
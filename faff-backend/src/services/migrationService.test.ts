@@ -0,0 +1,108 @@
+import migrations from '../migrations';
+import { assertSchemaUpToDate, getMigrationStatus, migrateDown, migrateUp } from './migrationService';
+
+interface MigrationRow {
+  name: string;
+  appliedAt: Date;
+}
+
+// Rows of schema_migrations; a transaction only adds its rows once its callback succeeds
+const mockApplied: MigrationRow[] = [];
+
+jest.mock('../config/database', () => {
+  const queryInterface = {
+    createTable: jest.fn(),
+    bulkInsert: jest.fn(async (_table: string, rows: MigrationRow[], { transaction }) => {
+      transaction.inserted.push(...rows);
+    }),
+    bulkDelete: jest.fn(async (_table: string, { name }: { name: string }, { transaction }) => {
+      transaction.deleted.push(name);
+    })
+  };
+
+  return {
+    __esModule: true,
+    default: {
+      getQueryInterface: () => queryInterface,
+      query: jest.fn(async () => [...mockApplied].sort((a, b) => a.name.localeCompare(b.name))),
+      transaction: jest.fn(async (callback: (transaction: unknown) => Promise<unknown>) => {
+        const transaction = { inserted: [] as MigrationRow[], deleted: [] as string[] };
+        const result = await callback(transaction);
+        mockApplied.push(...transaction.inserted);
+        transaction.deleted.forEach(name => mockApplied.splice(mockApplied.findIndex(row => row.name === name), 1));
+        return result;
+      })
+    }
+  };
+});
+
+jest.mock('../migrations', () => ({
+  __esModule: true,
+  default: ['001-first', '002-second', '003-third'].map(name => ({ name, up: jest.fn(), down: jest.fn() }))
+}));
+
+const [first, second, third] = migrations as unknown as { name: string; up: jest.Mock; down: jest.Mock }[];
+
+const appliedNames = () => mockApplied.map(row => row.name);
+
+describe('migrationService', () => {
+  beforeEach(() => {
+    mockApplied.length = 0;
+    [first, second, third].forEach(migration => {
+      migration.up.mockReset().mockResolvedValue(undefined);
+      migration.down.mockReset().mockResolvedValue(undefined);
+    });
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('applies pending migrations in order and records each one', async () => {
+    await expect(migrateUp()).resolves.toEqual(['001-first', '002-second', '003-third']);
+
+    expect(first.up.mock.invocationCallOrder[0]).toBeLessThan(second.up.mock.invocationCallOrder[0]);
+    expect(second.up.mock.invocationCallOrder[0]).toBeLessThan(third.up.mock.invocationCallOrder[0]);
+    expect(appliedNames()).toEqual(['001-first', '002-second', '003-third']);
+    await expect(assertSchemaUpToDate()).resolves.toBeUndefined();
+  });
+
+  it('skips migrations that were already applied', async () => {
+    mockApplied.push({ name: '001-first', appliedAt: new Date('2026-01-01') });
+
+    await expect(migrateUp()).resolves.toEqual(['002-second', '003-third']);
+    expect(first.up).not.toHaveBeenCalled();
+
+    await expect(migrateUp()).resolves.toEqual([]);
+    expect(second.up).toHaveBeenCalledTimes(1);
+  });
+
+  it('applies only the requested number of steps', async () => {
+    await expect(migrateUp(1)).resolves.toEqual(['001-first']);
+
+    const status = await getMigrationStatus();
+    expect(status.map(migration => migration.appliedAt !== null)).toEqual([true, false, false]);
+  });
+
+  it('stops at a failing migration and keeps the ones before it', async () => {
+    second.up.mockRejectedValue(new Error('column already exists'));
+
+    await expect(migrateUp()).rejects.toThrow('column already exists');
+    expect(third.up).not.toHaveBeenCalled();
+    expect(appliedNames()).toEqual(['001-first']);
+    await expect(assertSchemaUpToDate()).rejects.toThrow('Pending migrations: 002-second, 003-third');
+
+    second.up.mockResolvedValue(undefined);
+    await expect(migrateUp()).resolves.toEqual(['002-second', '003-third']);
+    expect(first.up).toHaveBeenCalledTimes(1);
+  });
+
+  it('rolls back the most recently applied migrations', async () => {
+    await migrateUp();
+
+    await expect(migrateDown(2)).resolves.toEqual(['003-third', '002-second']);
+    expect(first.down).not.toHaveBeenCalled();
+    expect(appliedNames()).toEqual(['001-first']);
+  });
+});
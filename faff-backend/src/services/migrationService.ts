@@ -0,0 +1,126 @@
+import { DataTypes, QueryTypes } from 'sequelize';
+import sequelize from '../config/database';
+import migrations, { Migration } from '../migrations';
+
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+export interface MigrationStatus {
+  name: string;
+  appliedAt: Date | null;
+}
+
+/**
+ * Create the bookkeeping table that records applied migrations
+ */
+const ensureMigrationsTable = async (): Promise<void> => {
+  await sequelize.getQueryInterface().createTable(MIGRATIONS_TABLE, {
+    name: {
+      type: DataTypes.STRING,
+      primaryKey: true
+    },
+    appliedAt: {
+      type: DataTypes.DATE,
+      allowNull: false
+    }
+  });
+};
+
+/**
+ * Get the names of all applied migrations, keyed to when they ran
+ * @returns Map of migration name to application time
+ */
+const getAppliedMigrations = async (): Promise<Map<string, Date>> => {
+  await ensureMigrationsTable();
+
+  const rows = await sequelize.query<{ name: string; appliedAt: Date }>(
+    `SELECT "name", "appliedAt" FROM "${MIGRATIONS_TABLE}" ORDER BY "name" ASC`,
+    { type: QueryTypes.SELECT }
+  );
+
+  return new Map(rows.map(row => [row.name, row.appliedAt]));
+};
+
+/**
+ * Get the status of every known migration
+ * @returns Array of migrations in order with their application time (null if pending)
+ */
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  const applied = await getAppliedMigrations();
+
+  return migrations.map(migration => ({
+    name: migration.name,
+    appliedAt: applied.get(migration.name) || null
+  }));
+};
+
+/**
+ * Get migrations that have not been applied yet
+ * @returns Array of pending migrations in the order they must run
+ */
+export const getPendingMigrations = async (): Promise<Migration[]> => {
+  const applied = await getAppliedMigrations();
+  return migrations.filter(migration => !applied.has(migration.name));
+};
+
+/**
+ * Apply pending migrations, each in its own transaction
+ * @param steps Maximum number of migrations to apply (all pending if omitted)
+ * @returns Names of the migrations that were applied
+ */
+export const migrateUp = async (steps?: number): Promise<string[]> => {
+  const pending = await getPendingMigrations();
+  const toApply = steps !== undefined ? pending.slice(0, steps) : pending;
+  const queryInterface = sequelize.getQueryInterface();
+
+  for (const migration of toApply) {
+    await sequelize.transaction(async (transaction) => {
+      await migration.up(queryInterface, transaction);
+      await queryInterface.bulkInsert(
+        MIGRATIONS_TABLE,
+        [{ name: migration.name, appliedAt: new Date() }],
+        { transaction }
+      );
+    });
+    console.log(`[MIGRATION] Applied ${migration.name}`);
+  }
+
+  return toApply.map(migration => migration.name);
+};
+
+/**
+ * Roll back the most recently applied migrations, each in its own transaction
+ * @param steps Number of migrations to roll back (defaults to 1)
+ * @returns Names of the migrations that were rolled back
+ */
+export const migrateDown = async (steps = 1): Promise<string[]> => {
+  const applied = await getAppliedMigrations();
+  const toRevert = migrations
+    .filter(migration => applied.has(migration.name))
+    .reverse()
+    .slice(0, steps);
+  const queryInterface = sequelize.getQueryInterface();
+
+  for (const migration of toRevert) {
+    await sequelize.transaction(async (transaction) => {
+      await migration.down(queryInterface, transaction);
+      await queryInterface.bulkDelete(MIGRATIONS_TABLE, { name: migration.name }, { transaction });
+    });
+    console.log(`[MIGRATION] Reverted ${migration.name}`);
+  }
+
+  return toRevert.map(migration => migration.name);
+};
+
+/**
+ * Throw if the database schema is behind the migrations bundled with this build
+ */
+export const assertSchemaUpToDate = async (): Promise<void> => {
+  const pending = await getPendingMigrations();
+
+  if (pending.length > 0) {
+    throw new Error(
+      `Database schema is out of date. Pending migrations: ${pending.map(m => m.name).join(', ')}. ` +
+      'Run "npm run migrate" before starting the server.'
+    );
+  }
+};
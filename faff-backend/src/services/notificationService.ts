@@ -0,0 +1,200 @@
+import { Op } from 'sequelize';
+import Notification, { NotificationType } from '../models/Notification';
+import Task from '../models/Task';
+import User from '../models/User';
+import Message from '../models/Message';
+import TaskEvent from '../models/TaskEvent';
+import { emitToUser } from './socketEmitter';
+
+export const NOTIFICATION_EVENT = 'notification';
+export const NOTIFICATIONS_READ_EVENT = 'notifications_read';
+
+interface NotificationValues {
+  type: NotificationType;
+  actorId: number | null;
+  taskId: number | null;
+  content: string;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Get the number of unread notifications for a user
+ * @param userId User ID
+ * @returns Unread notification count
+ */
+export const getUnreadCount = async (userId: number): Promise<number> => {
+  return Notification.count({ where: { userId, readAt: null } });
+};
+
+/**
+ * Create a notification for each recipient and push it to their sockets
+ * @param recipientIds Users to notify; the actor and duplicates are skipped
+ * @param values Notification type, content and context
+ * @returns The created notifications
+ */
+export const createNotifications = async (
+  recipientIds: (number | null | undefined)[],
+  values: NotificationValues
+): Promise<Notification[]> => {
+  const userIds = [...new Set(recipientIds)].filter(
+    (id): id is number => typeof id === 'number' && id !== values.actorId
+  );
+
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const notifications = await Notification.bulkCreate(userIds.map(userId => ({
+    userId,
+    actorId: values.actorId,
+    taskId: values.taskId,
+    type: values.type,
+    content: values.content,
+    metadata: values.metadata || {}
+  })));
+
+  const withDetails = await Notification.findAll({
+    where: { id: { [Op.in]: notifications.map(notification => notification.id) } },
+    include: [
+      { model: User, as: 'actor', attributes: ['id', 'name', 'email'] },
+      { model: Task, as: 'task', attributes: ['id', 'title'] }
+    ]
+  });
+
+  await Promise.all(withDetails.map(async notification => {
+    emitToUser(notification.userId, NOTIFICATION_EVENT, {
+      notification,
+      unreadCount: await getUnreadCount(notification.userId)
+    });
+  }));
+
+  return withDetails;
+};
+
+/**
+ * Mark notifications of a user as read or unread
+ * @param userId Owner of the notifications
+ * @param ids Notification IDs to update (all of the user's notifications if omitted)
+ * @param read Whether to mark them read (true) or unread (false)
+ * @returns Number of notifications updated and the new unread count
+ */
+export const markNotifications = async (
+  userId: number,
+  ids: number[] | undefined,
+  read: boolean
+): Promise<{ updated: number; unreadCount: number }> => {
+  const where: any = { userId, readAt: read ? null : { [Op.ne]: null } };
+  if (ids) {
+    where.id = { [Op.in]: ids };
+  }
+
+  const [updated] = await Notification.update({ readAt: read ? new Date() : null }, { where });
+  const unreadCount = await getUnreadCount(userId);
+
+  // Keep the badge in sync across the user's other tabs
+  emitToUser(userId, NOTIFICATIONS_READ_EVENT, { unreadCount });
+
+  return { updated, unreadCount };
+};
+
+/**
+ * Turn a task history event into notifications for the people involved
+ * @param event The recorded task event
+ */
+export const notifyTaskEvent = async (event: TaskEvent): Promise<void> => {
+  try {
+    const task = await Task.findByPk(event.taskId);
+    if (!task) return;
+
+    const actor = event.actorId ? await User.findByPk(event.actorId, { attributes: ['id', 'name'] }) : null;
+    const actorName = actor ? actor.name : 'Someone';
+    const taskLabel = `#${task.id} ${task.title}`;
+    const base = { actorId: event.actorId, taskId: task.id };
+
+    switch (event.type) {
+      case 'task_created':
+        await createNotifications([task.assignedToId], {
+          ...base,
+          type: 'task_assigned',
+          content: `${actorName} assigned you to ${taskLabel}`
+        });
+        break;
+
+      case 'task_updated':
+        if (event.changes.assignedToId) {
+          await createNotifications([event.changes.assignedToId.to as number | null], {
+            ...base,
+            type: 'task_assigned',
+            content: `${actorName} assigned you to ${taskLabel}`
+          });
+        }
+        if (event.changes.status) {
+          await createNotifications([task.requestedById, task.assignedToId], {
+            ...base,
+            type: 'status_changed',
+            content: `${actorName} moved ${taskLabel} from ${event.changes.status.from} to ${event.changes.status.to}`,
+            metadata: { from: event.changes.status.from, to: event.changes.status.to }
+          });
+        }
+        break;
+
+      case 'message_posted': {
+        const mentionedUserIds = (event.metadata.mentionedUserIds as number[] | undefined) || [];
+
+        await createNotifications(mentionedUserIds, {
+          ...base,
+          type: 'mention',
+          content: `${actorName} mentioned you on ${taskLabel}`,
+          metadata: { messageId: event.metadata.messageId }
+        });
+
+        // Mentioned users already got a more specific notification
+        await createNotifications(
+          [task.requestedById, task.assignedToId].filter(id => !id || !mentionedUserIds.includes(id)),
+          {
+            ...base,
+            type: 'new_message',
+            content: `${actorName} posted a new message on ${taskLabel}`,
+            metadata: { messageId: event.metadata.messageId }
+          }
+        );
+        break;
+      }
+
+      case 'qa_requested': {
+        const reviewerId = event.metadata.reviewerId as number | null | undefined;
+        if (!reviewerId) break;
+
+        await createNotifications([reviewerId], {
+          ...base,
+          type: 'qa_assigned',
+          content: `${actorName} requested your QA review of a message on ${taskLabel}`,
+          metadata: { messageId: event.metadata.messageId, reviewId: event.metadata.reviewId }
+        });
+        break;
+      }
+
+      case 'qa_reviewed': {
+        const status = event.changes.status?.to;
+        if (status !== 'approved' && status !== 'rejected') break;
+
+        const message = await Message.findByPk(event.metadata.messageId as number, { attributes: ['id', 'senderId'] });
+        if (!message) break;
+
+        await createNotifications([message.senderId], {
+          ...base,
+          type: status === 'approved' ? 'qa_approved' : 'qa_rejected',
+          content: `${actorName} ${status} your message on ${taskLabel} in QA review`,
+          metadata: { messageId: message.id, reviewId: event.metadata.reviewId }
+        });
+        break;
+      }
+
+      default:
+        break;
+    }
+  } catch (error) {
+    // Notifications are best-effort: never fail the mutation that triggered them
+    console.error(`[NOTIFY] Failed to send notifications for task event ${event.id}:`, error);
+  }
+};
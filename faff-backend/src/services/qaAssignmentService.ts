@@ -0,0 +1,54 @@
+import { QueryTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { qaConfig } from '../config/qa';
+
+export interface QAAssignment {
+  reviewerId: number | null;
+  assignedAt: Date | null;
+}
+
+/**
+ * SLA deadline of a review requested at the given time
+ * @param requestedAt When the review was requested
+ * @returns The due date
+ */
+export const computeDueAt = (requestedAt: Date = new Date()): Date =>
+  new Date(requestedAt.getTime() + qaConfig.reviewSlaHours * 60 * 60 * 1000);
+
+/**
+ * Pick the reviewer for a new review with the configured strategy
+ * Only active human users with the qa_reviewer role are eligible (never service accounts), and never the author of the message.
+ * Ties go to the reviewer assigned longest ago, then the lowest id.
+ * @param senderId Author of the message under review
+ * @returns The reviewer's ID, or null when nobody is eligible
+ */
+export const pickReviewer = async (senderId: number): Promise<number | null> => {
+  const order = qaConfig.assignmentStrategy === 'least_loaded'
+    ? `COUNT(r."id") FILTER (WHERE r."status" = 'pending'), MAX(r."assignedAt") NULLS FIRST, u."id"`
+    : `MAX(r."assignedAt") NULLS FIRST, u."id"`;
+
+  const rows = await sequelize.query<{ id: number }>(`
+    SELECT u."id"
+    FROM "faffs" u
+    LEFT JOIN "qa_reviews" r ON r."reviewerId" = u."id"
+    WHERE u."role" = 'qa_reviewer' AND u."id" <> :senderId AND u."deactivatedAt" IS NULL AND NOT u."isServiceAccount"
+    GROUP BY u."id"
+    ORDER BY ${order}
+    LIMIT 1;
+  `, {
+    replacements: { senderId },
+    type: QueryTypes.SELECT
+  });
+
+  return rows.length > 0 ? rows[0].id : null;
+};
+
+/**
+ * Assignment fields for a new review of a message
+ * @param senderId Author of the message under review
+ * @returns The picked reviewer and assignment time, both null when the review goes to the unassigned pool
+ */
+export const assignReviewer = async (senderId: number): Promise<QAAssignment> => {
+  const reviewerId = await pickReviewer(senderId);
+  return { reviewerId, assignedAt: reviewerId ? new Date() : null };
+};
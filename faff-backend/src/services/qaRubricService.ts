@@ -0,0 +1,196 @@
+import { Op } from 'sequelize';
+import { QARubric } from '../models';
+import { QACriterion, QA_SCORE_MAX } from '../models/QARubric';
+import { QACriterionScore } from '../models/QAReview';
+
+// What an AI review needs from a rubric; id is null for the built-in fallback
+export interface RubricDefinition {
+  id: number | null;
+  name: string;
+  criteria: QACriterion[];
+  passThreshold: number;
+}
+
+export interface RubricValues {
+  name: string;
+  description: string | null;
+  criteria: QACriterion[];
+  passThreshold: number;
+  tags: string[];
+  isDefault: boolean;
+  active: boolean;
+}
+
+// Used when no rubric is configured at all; matches the rubric seeded by migration 015
+export const FALLBACK_QA_RUBRIC: RubricDefinition = {
+  id: null,
+  name: 'Default',
+  criteria: [
+    { key: 'tone', name: 'Tone', description: 'Professional and courteous tone', weight: 1, passThreshold: 6 },
+    { key: 'completeness', name: 'Completeness', description: 'Addresses all points in the conversation', weight: 1, passThreshold: 6 },
+    { key: 'clarity', name: 'Clarity', description: 'Provides clear information without ambiguity', weight: 1, passThreshold: 6 },
+    { key: 'grammar', name: 'Grammar', description: 'Free of grammatical errors', weight: 1, passThreshold: 6 },
+    { key: 'accuracy', name: 'Accuracy', description: 'Contains accurate information based on the context', weight: 1, passThreshold: 6 }
+  ],
+  passThreshold: 7
+};
+
+const CRITERION_KEY_PATTERN = /^[a-z0-9_-]{1,50}$/;
+
+const isScore = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= QA_SCORE_MAX;
+
+const cleanString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Validate and normalise rubric fields sent by an admin
+ * With an existing rubric, omitted fields keep their current values.
+ * @param raw Request body
+ * @param existing Rubric being updated, if any
+ * @returns The rubric values, or the list of problems found
+ */
+export const validateRubric = (
+  raw: any,
+  existing?: QARubric
+): { values: RubricValues | null; errors: string[] } => {
+  const errors: string[] = [];
+  const pick = <K extends keyof RubricValues>(key: K): unknown =>
+    raw[key] !== undefined ? raw[key] : existing?.[key];
+
+  const name = cleanString(pick('name'));
+  if (!name) {
+    errors.push('name is required');
+  }
+
+  const description = pick('description');
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    errors.push('description must be a string');
+  }
+
+  const passThreshold = pick('passThreshold') ?? 7;
+  if (!isScore(passThreshold)) {
+    errors.push(`passThreshold must be a number from 0 to ${QA_SCORE_MAX}`);
+  }
+
+  const tags = pick('tags') ?? [];
+  if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) {
+    errors.push('tags must be an array of strings');
+  }
+
+  const rawCriteria = pick('criteria');
+  const criteria: QACriterion[] = [];
+  if (!Array.isArray(rawCriteria) || rawCriteria.length === 0) {
+    errors.push('criteria must be a non-empty array');
+  } else {
+    rawCriteria.forEach((criterion: any, index: number) => {
+      const key = cleanString(criterion?.key).toLowerCase();
+      const criterionName = cleanString(criterion?.name);
+      const weight = criterion?.weight ?? 1;
+      const threshold = criterion?.passThreshold ?? 0;
+
+      if (!CRITERION_KEY_PATTERN.test(key)) {
+        errors.push(`criteria[${index}].key must be 1-50 lowercase letters, digits, "_" or "-"`);
+      } else if (criteria.some(existingCriterion => existingCriterion.key === key)) {
+        errors.push(`criteria[${index}].key "${key}" is used more than once`);
+      }
+      if (!criterionName) {
+        errors.push(`criteria[${index}].name is required`);
+      }
+      if (typeof weight !== 'number' || weight <= 0) {
+        errors.push(`criteria[${index}].weight must be a positive number`);
+      }
+      if (!isScore(threshold)) {
+        errors.push(`criteria[${index}].passThreshold must be a number from 0 to ${QA_SCORE_MAX}`);
+      }
+
+      criteria.push({
+        key,
+        name: criterionName,
+        description: cleanString(criterion?.description),
+        weight,
+        passThreshold: threshold
+      });
+    });
+  }
+
+  if (errors.length > 0) {
+    return { values: null, errors };
+  }
+
+  return {
+    values: {
+      name,
+      description: description ? (description as string).trim() : null,
+      criteria,
+      passThreshold: passThreshold as number,
+      tags: [...new Set((tags as string[]).map(tag => tag.trim()).filter(Boolean))],
+      isDefault: Boolean(pick('isDefault')),
+      active: pick('active') === undefined ? true : Boolean(pick('active'))
+    },
+    errors
+  };
+};
+
+/**
+ * Pick the rubric for a task
+ * An active rubric sharing the most tags with the task wins (oldest first on ties),
+ * then the default rubric, then the built-in fallback.
+ * @param taskTags Tags of the reviewed message's task
+ * @returns The rubric to review with
+ */
+export const selectRubric = async (taskTags: string[]): Promise<RubricDefinition> => {
+  if (taskTags.length > 0) {
+    const tagged = await QARubric.findAll({
+      where: { active: true, tags: { [Op.overlap]: taskTags } },
+      order: [['id', 'ASC']]
+    });
+
+    const matchCount = (rubric: QARubric) => rubric.tags.filter(tag => taskTags.includes(tag)).length;
+    const best = tagged.reduce<QARubric | null>(
+      (current, rubric) => (!current || matchCount(rubric) > matchCount(current) ? rubric : current),
+      null
+    );
+    if (best) {
+      return best;
+    }
+  }
+
+  const fallback = await QARubric.findOne({ where: { active: true, isDefault: true } });
+  return fallback || FALLBACK_QA_RUBRIC;
+};
+
+/**
+ * Turn the model's criterion scores into a verdict
+ * A message is approved when the weighted average reaches the rubric's threshold
+ * and every criterion reaches its own.
+ * @param rubric Rubric the message was reviewed with
+ * @param rawScores Score and explanation per criterion key
+ * @returns Scores with pass/fail per criterion, the weighted average and the verdict
+ */
+export const evaluateScores = (
+  rubric: RubricDefinition,
+  rawScores: Record<string, { score: number; explanation: string }>
+): { scores: QACriterionScore[]; overallScore: number; passed: boolean } => {
+  const scores = rubric.criteria.map(criterion => {
+    const { score, explanation } = rawScores[criterion.key];
+    return {
+      key: criterion.key,
+      name: criterion.name,
+      weight: criterion.weight,
+      score,
+      passed: score >= criterion.passThreshold,
+      explanation
+    };
+  });
+
+  const totalWeight = scores.reduce((sum, score) => sum + score.weight, 0);
+  const overallScore = Math.round(
+    (scores.reduce((sum, score) => sum + score.score * score.weight, 0) / totalWeight) * 100
+  ) / 100;
+
+  return {
+    scores,
+    overallScore,
+    passed: overallScore >= rubric.passThreshold && scores.every(score => score.passed)
+  };
+};
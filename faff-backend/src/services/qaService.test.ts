@@ -0,0 +1,115 @@
+import { Message, QAReview } from '../models';
+import { checkMessageQuality } from './aiService';
+import { applyAIReview, getTaskContext } from './qaService';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    transaction: jest.fn((callback: (transaction: unknown) => Promise<unknown>) =>
+      callback({ LOCK: { UPDATE: 'UPDATE' } }))
+  }
+}));
+
+jest.mock('../models', () => ({
+  QAReview: { findByPk: jest.fn() },
+  Message: { findAll: jest.fn().mockResolvedValue([]) },
+  Task: { findByPk: jest.fn().mockResolvedValue({ id: 4, tags: [] }) },
+  User: {}
+}));
+
+jest.mock('./aiService', () => ({
+  checkMessageQuality: jest.fn(),
+  estimateTokens: (text: string) => Math.ceil(text.length / 4)
+}));
+
+jest.mock('./qaRubricService', () => ({
+  selectRubric: jest.fn().mockResolvedValue({ id: 2, criteria: [] }),
+  evaluateScores: jest.fn().mockReturnValue({ scores: [], overallScore: 8.5, passed: true })
+}));
+
+jest.mock('./llmService', () => ({ mapWithConcurrency: jest.fn() }));
+
+jest.mock('./qaAssignmentService', () => ({ computeDueAt: jest.fn() }));
+
+const findReview = QAReview.findByPk as unknown as jest.Mock;
+const findMessages = Message.findAll as unknown as jest.Mock;
+const checkQuality = checkMessageQuality as unknown as jest.Mock;
+
+const message = { id: 9, taskId: 4, content: 'Restarted the spooler, printing works again.' } as Message;
+
+const reviewWith = (status: QAReview['status']) => ({
+  id: 3,
+  status,
+  update: jest.fn(),
+  set: jest.fn()
+});
+
+describe('applyAIReview', () => {
+  beforeEach(() => {
+    findReview.mockReset();
+    checkQuality.mockReset().mockResolvedValue({ scores: [], feedback: 'Clear and complete' });
+  });
+
+  it('stores the verdict on a pending review', async () => {
+    const review = reviewWith('pending');
+    const current = reviewWith('pending');
+    findReview.mockResolvedValue(current);
+
+    await expect(applyAIReview(review as unknown as QAReview, message, 5)).resolves.toBe(true);
+
+    expect(current.update).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'approved', decisionSource: 'ai', feedback: 'Clear and complete' }),
+      expect.objectContaining({ actorId: 5 })
+    );
+  });
+
+  it('leaves a review a reviewer already decided untouched', async () => {
+    const review = reviewWith('rejected');
+
+    await expect(applyAIReview(review as unknown as QAReview, message, 5)).resolves.toBe(false);
+
+    expect(checkQuality).not.toHaveBeenCalled();
+    expect(review.update).not.toHaveBeenCalled();
+  });
+
+  it('drops the verdict when a reviewer decided while the model was running', async () => {
+    const review = reviewWith('pending');
+    const current = reviewWith('rejected');
+    findReview.mockResolvedValue(current);
+
+    await expect(applyAIReview(review as unknown as QAReview, message, 5)).resolves.toBe(false);
+
+    expect(findReview).toHaveBeenCalledWith(3, expect.objectContaining({ lock: 'UPDATE' }));
+    expect(current.update).not.toHaveBeenCalled();
+    expect(review.set).not.toHaveBeenCalled();
+  });
+});
+
+describe('getTaskContext', () => {
+  // Newest first, as queried; each paragraph is "Sam: " plus 36 characters, about 10 tokens
+  const messages = ['a', 'b', 'c', 'd'].map(letter => ({
+    content: letter.repeat(36),
+    get: () => ({ id: 1, name: 'Sam' })
+  }));
+
+  beforeEach(() => {
+    findMessages.mockResolvedValue(messages);
+  });
+
+  it('keeps the whole discussion when it fits the budget', async () => {
+    const context = await getTaskContext(4, 100);
+
+    expect(context.split('\n\n')).toHaveLength(4);
+    expect(context.startsWith(`Sam: ${'d'.repeat(36)}`)).toBe(true);
+  });
+
+  it('keeps the most recent messages that fit and notes the omitted ones', async () => {
+    const context = await getTaskContext(4, 25);
+
+    expect(context.split('\n\n')).toEqual([
+      '[2 earlier message(s) omitted]',
+      `Sam: ${'b'.repeat(36)}`,
+      `Sam: ${'a'.repeat(36)}`
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+import { Op, WhereOptions } from 'sequelize';
+import sequelize from '../config/database';
+import { aiConfig } from '../config/ai';
+import { Message, QAReview, Task, User } from '../models';
+import { QACriterionScore } from '../models/QAReview';
+import { AuditOptions } from '../models/TaskEvent';
+import { checkMessageQuality, estimateTokens } from './aiService';
+import { evaluateScores, selectRubric } from './qaRubricService';
+import { mapWithConcurrency } from './llmService';
+import { computeDueAt } from './qaAssignmentService';
+
+export interface QASweepFilters {
+  taskId?: number;
+  senderId?: number;
+  from?: Date;
+  to?: Date;
+  // Maximum messages picked up by one sweep
+  limit: number;
+}
+
+export interface QASweepReport {
+  total: number;
+  approved: number;
+  rejected: number;
+  // Reviews the model could not complete; they stay pending
+  failed: number;
+  // Share of reviewed messages that were approved (null when none were reviewed)
+  passRate: number | null;
+  // Criteria most often failed, by key
+  topFailureReasons: { criterion: string; name: string; count: number }[];
+}
+
+/**
+ * Tokens of QA context that fit in the QA prompt next to the content under review
+ * @param content Message or draft under review
+ * @returns QA_INPUT_TOKEN_BUDGET less the content's own estimated tokens
+ */
+export const getContextBudget = (content: string): number =>
+  Math.max(0, aiConfig.features.qa.inputTokenBudget - estimateTokens(content));
+
+/**
+ * Build a task's conversation as QA context
+ * The most recent messages are kept; older ones that do not fit the token budget are left out.
+ * @param taskId Task ID
+ * @param tokenBudget Estimated tokens the context may use
+ * @param beforeMessageId Only include messages older than this one
+ * @returns Messages of the task as "Sender: content" paragraphs
+ */
+export const getTaskContext = async (taskId: number, tokenBudget: number, beforeMessageId?: number): Promise<string> => {
+  const previousMessages = await Message.findAll({
+    where: {
+      taskId,
+      ...(beforeMessageId !== undefined && { id: { [Op.lt]: beforeMessageId } })
+    },
+    include: [{ model: User, as: 'sender', attributes: ['id', 'name'] }],
+    order: [['createdAt', 'DESC']]
+  });
+
+  const paragraphs: string[] = [];
+  let tokens = 0;
+  for (const msg of previousMessages) {
+    const sender = msg.get('sender') as { id: number; name: string };
+    const paragraph = `${sender.name}: ${msg.content}`;
+    tokens += estimateTokens(paragraph);
+    if (tokens > tokenBudget) break;
+    paragraphs.unshift(paragraph);
+  }
+
+  const omitted = previousMessages.length - paragraphs.length;
+  if (omitted > 0) {
+    paragraphs.unshift(`[${omitted} earlier message(s) omitted]`);
+  }
+  return paragraphs.join('\n\n');
+};
+
+/**
+ * Build the conversation leading up to a message, used as QA context
+ * @param message Message under review
+ * @returns Earlier messages of the task as "Sender: content" paragraphs, trimmed to the QA token budget
+ */
+export const getMessageContext = (message: Message): Promise<string> =>
+  getTaskContext(message.taskId, getContextBudget(message.content), message.id);
+
+export interface AIReviewResult {
+  status: 'approved' | 'rejected';
+  aiStatus: 'approved' | 'rejected';
+  decisionSource: 'ai';
+  decidedAt: Date;
+  feedback: string;
+  rubricId: number | null;
+  scores: QACriterionScore[];
+  overallScore: number;
+}
+
+/**
+ * Review a message with the QA model, using the rubric selected by its task's tags
+ * @param message Message under review
+ * @returns Verdict, feedback and rubric scores to store on the QAReview
+ */
+export const reviewMessageWithAI = async (message: Message): Promise<AIReviewResult> => {
+  const task = await Task.findByPk(message.taskId, { attributes: ['id', 'tags'] });
+  const rubric = await selectRubric(task?.tags || []);
+
+  const result = await checkMessageQuality(message.content, await getMessageContext(message), rubric.criteria);
+  const { scores, overallScore, passed } = evaluateScores(rubric, result.scores);
+
+  const status = passed ? 'approved' : 'rejected';
+
+  return {
+    status,
+    aiStatus: status,
+    decisionSource: 'ai',
+    decidedAt: new Date(),
+    feedback: result.feedback,
+    rubricId: rubric.id,
+    scores,
+    overallScore
+  };
+};
+
+/**
+ * Review a pending review's message with the QA model and store the verdict
+ * The verdict is dropped when a reviewer decided the review first, including while the model ran.
+ * @param review Review to decide
+ * @param message Message under review
+ * @param actorId User the verdict is attributed to
+ * @returns Whether the verdict was stored
+ */
+export const applyAIReview = async (review: QAReview, message: Message, actorId: number | null): Promise<boolean> => {
+  if (review.status !== 'pending') {
+    return false;
+  }
+
+  const result = await reviewMessageWithAI(message);
+
+  return sequelize.transaction(async transaction => {
+    const current = await QAReview.findByPk(review.id, { transaction, lock: transaction.LOCK.UPDATE });
+    if (!current || current.status !== 'pending') {
+      return false;
+    }
+
+    await current.update(result, { transaction, actorId } as AuditOptions);
+    review.set(result);
+    return true;
+  });
+};
+
+/**
+ * Create pending reviews for outgoing messages that have never been reviewed
+ * Outgoing messages are the ones not written by the task's requester.
+ * The reviews are left unassigned: the sweep's AI pass decides them, and any it
+ * cannot complete wait in the unassigned pool for a reviewer to claim.
+ * @param filters Task, sender and creation date range to sweep
+ * @param requestedById User running the sweep
+ * @returns The created reviews and how many messages matched in total
+ */
+export const createSweepReviews = async (
+  filters: QASweepFilters,
+  requestedById: number
+): Promise<{ reviews: QAReview[]; matched: number }> => {
+  const where: WhereOptions = {
+    [Op.and]: [
+      sequelize.literal('NOT EXISTS (SELECT 1 FROM "qa_reviews" r WHERE r."messageId" = "Message"."id")'),
+      sequelize.literal('"Message"."senderId" <> "task"."requestedById"')
+    ]
+  };
+  if (filters.taskId) {
+    Object.assign(where, { taskId: filters.taskId });
+  }
+  if (filters.senderId) {
+    Object.assign(where, { senderId: filters.senderId });
+  }
+  if (filters.from || filters.to) {
+    Object.assign(where, {
+      createdAt: {
+        ...(filters.from && { [Op.gte]: filters.from }),
+        ...(filters.to && { [Op.lte]: filters.to })
+      }
+    });
+  }
+
+  const { count, rows } = await Message.findAndCountAll({
+    where,
+    attributes: ['id'],
+    include: [{ model: Task, as: 'task', attributes: [], required: true }],
+    limit: filters.limit,
+    order: [['id', 'ASC']]
+  });
+
+  const dueAt = computeDueAt();
+  const reviews = await QAReview.bulkCreate(rows.map(message => ({
+    messageId: message.id,
+    reviewerId: null,
+    requestedById,
+    status: 'pending',
+    feedback: null,
+    dueAt
+  })), { individualHooks: true, actorId: requestedById } as AuditOptions);
+
+  return { reviews, matched: count };
+};
+
+/**
+ * Review pending sweep reviews with the QA model and aggregate the outcome
+ * At most LLM_MAX_CONCURRENCY reviews run at once. A failed review is counted and
+ * left pending rather than failing the sweep.
+ * @param reviewIds Reviews created by the sweep
+ * @param actorId User the verdicts are attributed to
+ * @returns Aggregate report over every review of the sweep
+ */
+export const runQASweep = async (reviewIds: number[], actorId: number | null): Promise<QASweepReport> => {
+  const pending = await QAReview.findAll({
+    where: { id: { [Op.in]: reviewIds }, status: 'pending' },
+    include: [{ model: Message, as: 'message' }]
+  });
+
+  // Reviews already decided (e.g. by an earlier attempt of the sweep) are only counted
+  await mapWithConcurrency(pending, aiConfig.maxConcurrency, async review => {
+    const message = review.get('message') as Message | undefined;
+    if (!message) {
+      return;
+    }
+
+    try {
+      await applyAIReview(review, message, actorId);
+    } catch (error) {
+      console.error(`[QA SWEEP] Failed to review message ${message.id}:`, error);
+    }
+  });
+
+  // Aggregate from the stored reviews, so a retried sweep reports every attempt's verdicts
+  const reviews = await QAReview.findAll({
+    where: { id: { [Op.in]: reviewIds } },
+    attributes: ['id', 'status', 'scores']
+  });
+
+  const failureCounts = new Map<string, { name: string; count: number }>();
+  reviews
+    .filter(review => review.status !== 'pending')
+    .flatMap(review => review.scores || [])
+    .filter(score => !score.passed)
+    .forEach(score => failureCounts.set(score.key, {
+      name: score.name,
+      count: (failureCounts.get(score.key)?.count || 0) + 1
+    }));
+
+  const approved = reviews.filter(review => review.status === 'approved').length;
+  const rejected = reviews.filter(review => review.status === 'rejected').length;
+
+  return {
+    total: reviews.length,
+    approved,
+    rejected,
+    failed: reviews.length - approved - rejected,
+    passRate: approved + rejected > 0 ? Math.round((approved / (approved + rejected)) * 1000) / 1000 : null,
+    topFailureReasons: [...failureCounts.entries()]
+      .map(([criterion, { name, count }]) => ({ criterion, name, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 5)
+  };
+};
@@ -0,0 +1,254 @@
+import { QueryTypes } from 'sequelize';
+import sequelize from '../config/database';
+import { User } from '../models';
+
+export type QAStatsInterval = 'day' | 'week' | 'month';
+
+export const QA_STATS_INTERVALS: QAStatsInterval[] = ['day', 'week', 'month'];
+
+export interface QAStatsFilters {
+  // Decision time range; from is inclusive, to exclusive
+  from: Date;
+  to: Date;
+  // Only reviews of messages on tasks with any of these tags
+  tags: string[];
+  interval: QAStatsInterval;
+}
+
+export interface ApprovalCounts {
+  approved: number;
+  rejected: number;
+  // Share of decided reviews that were approved (null when there are none)
+  approvalRate: number | null;
+}
+
+export interface ApprovalPeriod extends ApprovalCounts {
+  // Start of the period (ISO date)
+  period: string;
+}
+
+export interface TurnaroundStats {
+  count: number;
+  // Hours from the review request to its decision
+  averageHours: number | null;
+  medianHours: number | null;
+  p90Hours: number | null;
+  // Decisions made after the review's due date
+  slaBreaches: number;
+}
+
+export interface QAStats {
+  range: { from: string; to: string; interval: QAStatsInterval; tags: string[] };
+  totals: ApprovalCounts;
+  approvalOverTime: ApprovalPeriod[];
+  approvalBySender: (ApprovalCounts & {
+    sender: { id: number; name: string } | null;
+    series: ApprovalPeriod[];
+  })[];
+  // Reviews decided by a person after the QA model gave its own verdict
+  aiHumanAgreement: {
+    compared: number;
+    agreed: number;
+    rate: number | null;
+    // The model approved what the reviewer rejected
+    aiApprovedHumanRejected: number;
+    // The model rejected what the reviewer approved
+    aiRejectedHumanApproved: number;
+  };
+  turnaround: {
+    overall: TurnaroundStats;
+    human: TurnaroundStats;
+    ai: TurnaroundStats;
+  };
+  topRejectionReasons: { criterion: string; name: string; count: number }[];
+  // Rejections without a failed rubric criterion (reviewer feedback only)
+  unscoredRejections: number;
+}
+
+const rate = (part: number, total: number): number | null =>
+  total > 0 ? Math.round((part / total) * 1000) / 1000 : null;
+
+const toCounts = (approved: number, rejected: number): ApprovalCounts => ({
+  approved,
+  rejected,
+  approvalRate: rate(approved, approved + rejected)
+});
+
+const roundHours = (value: number | null): number | null =>
+  value === null ? null : Math.round(value * 100) / 100;
+
+/**
+ * Build the joins and conditions selecting decided reviews that match the filters
+ * Queries alias the reviews r, their messages m and the messages' tasks t.
+ * @param filters Date range and tags
+ * @returns FROM clause, WHERE conditions and their replacements
+ */
+const decidedReviews = (filters: QAStatsFilters) => {
+  const conditions = [
+    `r."status" <> 'pending'`,
+    `r."decidedAt" >= :from`,
+    `r."decidedAt" < :to`
+  ];
+  if (filters.tags.length > 0) {
+    conditions.push(`t."tags" && ARRAY[:tags]::varchar[]`);
+  }
+
+  return {
+    from: `
+      FROM "qa_reviews" r
+      JOIN "messages" m ON m."id" = r."messageId"
+      JOIN "tasks" t ON t."id" = m."taskId"
+    `,
+    where: conditions.join(' AND '),
+    replacements: { from: filters.from, to: filters.to, tags: filters.tags, interval: filters.interval }
+  };
+};
+
+/**
+ * Compute QA quality metrics over reviews decided in a date range
+ * @param filters Date range, task tags and the period used for time series
+ * @returns Approval rates overall and per sender, AI vs human agreement, turnaround and rejection reasons
+ */
+export const getQAStats = async (filters: QAStatsFilters): Promise<QAStats> => {
+  const { from, where, replacements } = decidedReviews(filters);
+
+  const approvalRows = await sequelize.query<{
+    senderId: number;
+    period: Date;
+    approved: number;
+    rejected: number;
+  }>(`
+    SELECT m."senderId", date_trunc(:interval, r."decidedAt") AS "period",
+      COUNT(*) FILTER (WHERE r."status" = 'approved')::int AS "approved",
+      COUNT(*) FILTER (WHERE r."status" = 'rejected')::int AS "rejected"
+    ${from}
+    WHERE ${where}
+    GROUP BY m."senderId", "period"
+    ORDER BY "period";
+  `, { replacements, type: QueryTypes.SELECT });
+
+  const [agreement] = await sequelize.query<{
+    compared: number;
+    agreed: number;
+    aiApprovedHumanRejected: number;
+    aiRejectedHumanApproved: number;
+  }>(`
+    SELECT COUNT(*)::int AS "compared",
+      COUNT(*) FILTER (WHERE r."status"::text = r."aiStatus")::int AS "agreed",
+      COUNT(*) FILTER (WHERE r."aiStatus" = 'approved' AND r."status" = 'rejected')::int AS "aiApprovedHumanRejected",
+      COUNT(*) FILTER (WHERE r."aiStatus" = 'rejected' AND r."status" = 'approved')::int AS "aiRejectedHumanApproved"
+    ${from}
+    WHERE ${where} AND r."decisionSource" = 'human' AND r."aiStatus" IS NOT NULL;
+  `, { replacements, type: QueryTypes.SELECT });
+
+  // The row with GROUPING = 1 covers every decision source
+  const turnaroundRows = await sequelize.query<TurnaroundStats & { source: string | null; overall: boolean }>(`
+    SELECT r."decisionSource" AS "source",
+      GROUPING(r."decisionSource") = 1 AS "overall",
+      COUNT(*)::int AS "count",
+      (AVG(EXTRACT(EPOCH FROM r."decidedAt" - r."createdAt")) / 3600)::float AS "averageHours",
+      (percentile_cont(0.5) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r."decidedAt" - r."createdAt")) / 3600)::float AS "medianHours",
+      (percentile_cont(0.9) WITHIN GROUP (ORDER BY EXTRACT(EPOCH FROM r."decidedAt" - r."createdAt")) / 3600)::float AS "p90Hours",
+      COUNT(*) FILTER (WHERE r."dueAt" IS NOT NULL AND r."decidedAt" > r."dueAt")::int AS "slaBreaches"
+    ${from}
+    WHERE ${where}
+    GROUP BY GROUPING SETS ((r."decisionSource"), ());
+  `, { replacements, type: QueryTypes.SELECT });
+
+  const reasonRows = await sequelize.query<{ criterion: string; name: string; count: number }>(`
+    SELECT s."criterion"->>'key' AS "criterion", MAX(s."criterion"->>'name') AS "name", COUNT(*)::int AS "count"
+    ${from}
+    CROSS JOIN LATERAL jsonb_array_elements(r."scores") AS s("criterion")
+    WHERE ${where} AND r."status" = 'rejected' AND (s."criterion"->>'passed')::boolean = false
+    GROUP BY s."criterion"->>'key'
+    ORDER BY "count" DESC, "criterion"
+    LIMIT 10;
+  `, { replacements, type: QueryTypes.SELECT });
+
+  const [unscored] = await sequelize.query<{ count: number }>(`
+    SELECT COUNT(*)::int AS "count"
+    ${from}
+    WHERE ${where} AND r."status" = 'rejected'
+      AND NOT EXISTS (
+        SELECT 1 FROM jsonb_array_elements(r."scores") AS s("criterion")
+        WHERE (s."criterion"->>'passed')::boolean = false
+      );
+  `, { replacements, type: QueryTypes.SELECT });
+
+  // Fold the per sender and period counts into the overall, per period and per sender views
+  const overTime = new Map<string, { approved: number; rejected: number }>();
+  const bySender = new Map<number, { approved: number; rejected: number; series: ApprovalPeriod[] }>();
+  let approved = 0;
+  let rejected = 0;
+
+  approvalRows.forEach(row => {
+    const period = new Date(row.period).toISOString();
+    approved += row.approved;
+    rejected += row.rejected;
+
+    const periodCounts = overTime.get(period) || { approved: 0, rejected: 0 };
+    periodCounts.approved += row.approved;
+    periodCounts.rejected += row.rejected;
+    overTime.set(period, periodCounts);
+
+    const senderCounts = bySender.get(row.senderId) || { approved: 0, rejected: 0, series: [] };
+    senderCounts.approved += row.approved;
+    senderCounts.rejected += row.rejected;
+    senderCounts.series.push({ period, ...toCounts(row.approved, row.rejected) });
+    bySender.set(row.senderId, senderCounts);
+  });
+
+  const senders = await User.findAll({
+    where: { id: [...bySender.keys()] },
+    attributes: ['id', 'name']
+  });
+
+  const emptyTurnaround: TurnaroundStats = { count: 0, averageHours: null, medianHours: null, p90Hours: null, slaBreaches: 0 };
+  const turnaroundFor = (match: (row: typeof turnaroundRows[number]) => boolean): TurnaroundStats => {
+    const row = turnaroundRows.find(match);
+    return row
+      ? {
+        count: row.count,
+        averageHours: roundHours(row.averageHours),
+        medianHours: roundHours(row.medianHours),
+        p90Hours: roundHours(row.p90Hours),
+        slaBreaches: row.slaBreaches
+      }
+      : emptyTurnaround;
+  };
+
+  return {
+    range: {
+      from: filters.from.toISOString(),
+      to: filters.to.toISOString(),
+      interval: filters.interval,
+      tags: filters.tags
+    },
+    totals: toCounts(approved, rejected),
+    approvalOverTime: [...overTime.entries()].map(([period, counts]) => ({
+      period,
+      ...toCounts(counts.approved, counts.rejected)
+    })),
+    approvalBySender: [...bySender.entries()]
+      .map(([senderId, counts]) => {
+        const sender = senders.find(user => user.id === senderId);
+        return {
+          sender: sender ? { id: sender.id, name: sender.name } : null,
+          ...toCounts(counts.approved, counts.rejected),
+          series: counts.series
+        };
+      })
+      .sort((a, b) => (b.approved + b.rejected) - (a.approved + a.rejected)),
+    aiHumanAgreement: {
+      ...agreement,
+      rate: rate(agreement.agreed, agreement.compared)
+    },
+    turnaround: {
+      overall: turnaroundFor(row => row.overall),
+      human: turnaroundFor(row => !row.overall && row.source === 'human'),
+      ai: turnaroundFor(row => !row.overall && row.source === 'ai')
+    },
+    topRejectionReasons: reasonRows,
+    unscoredRejections: unscored.count
+  };
+};
@@ -0,0 +1,151 @@
+import { QueryTypes } from 'sequelize';
+import sequelize from '../config/database';
+
+export type SearchScope = 'all' | 'tasks' | 'messages';
+
+export interface TaskSearchResult {
+  id: number;
+  title: string;
+  status: string;
+  priority: string;
+  tags: string[];
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+  updatedAt: Date;
+}
+
+export interface MessageSearchResult {
+  id: number;
+  taskId: number;
+  taskTitle: string;
+  senderId: number;
+  senderName: string | null;
+  rank: number;
+  snippet: string;
+  createdAt: Date;
+}
+
+export interface SearchResults {
+  query: string;
+  tasks: { results: TaskSearchResult[]; totalCount: number };
+  messages: { results: MessageSearchResult[]; totalCount: number };
+}
+
+// Matches are wrapped in <mark> tags; clients must treat everything else in a
+// snippet as plain text since it comes straight from user content
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+const TITLE_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+
+/**
+ * Full-text search over task titles, descriptions, steps to reproduce and tags
+ * Results are ranked with ts_rank_cd against the weighted search vector and only
+ * the requested page is highlighted.
+ * @param query Search text (websearch syntax: quotes, OR, -exclusions)
+ * @param limit Maximum number of results
+ * @param offset Number of results to skip
+ * @returns Ranked task results and the total match count
+ */
+export const searchTasks = async (
+  query: string,
+  limit: number,
+  offset: number
+): Promise<{ results: TaskSearchResult[]; totalCount: number }> => {
+  const replacements = { query, limit, offset };
+
+  const results = await sequelize.query<TaskSearchResult>(
+    `SELECT ranked.id, ranked.title, ranked.status, ranked.priority, ranked.tags, ranked.rank, ranked."updatedAt",
+       ts_headline('english', ranked.title, ranked.q, '${TITLE_HEADLINE_OPTIONS}') AS "titleHighlight",
+       ts_headline('english',
+         concat_ws(' ', ranked.description, ranked."stepsToReproduce", array_to_string(ranked.tags, ' ')),
+         ranked.q, '${HEADLINE_OPTIONS}') AS snippet
+     FROM (
+       SELECT t.*, q, ts_rank_cd(t."searchVector", q) AS rank
+       FROM tasks t, websearch_to_tsquery('english', :query) q
+       WHERE t."searchVector" @@ q
+       ORDER BY rank DESC, t."updatedAt" DESC
+       LIMIT :limit OFFSET :offset
+     ) ranked
+     ORDER BY ranked.rank DESC, ranked."updatedAt" DESC`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+
+  const [{ count }] = await sequelize.query<{ count: string }>(
+    `SELECT COUNT(*) AS count
+     FROM tasks t, websearch_to_tsquery('english', :query) q
+     WHERE t."searchVector" @@ q`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+
+  return { results, totalCount: parseInt(count) };
+};
+
+/**
+ * Full-text search over message content and attachment names
+ * @param query Search text (websearch syntax: quotes, OR, -exclusions)
+ * @param limit Maximum number of results
+ * @param offset Number of results to skip
+ * @returns Ranked message results with their task and sender, and the total match count
+ */
+export const searchMessages = async (
+  query: string,
+  limit: number,
+  offset: number
+): Promise<{ results: MessageSearchResult[]; totalCount: number }> => {
+  const replacements = { query, limit, offset };
+
+  const results = await sequelize.query<MessageSearchResult>(
+    `SELECT ranked.id, ranked."taskId", ranked."senderId", ranked.rank, ranked."createdAt",
+       t.title AS "taskTitle", u.name AS "senderName",
+       ts_headline('english',
+         concat_ws(' ', ranked.content, (
+           SELECT string_agg(attachment->>'originalName', ' ')
+           FROM jsonb_array_elements(ranked.attachments) AS attachment
+         )),
+         ranked.q, '${HEADLINE_OPTIONS}') AS snippet
+     FROM (
+       SELECT m.*, q, ts_rank_cd(m."searchVector", q) AS rank
+       FROM messages m, websearch_to_tsquery('english', :query) q
+       WHERE m."searchVector" @@ q
+       ORDER BY rank DESC, m."createdAt" DESC
+       LIMIT :limit OFFSET :offset
+     ) ranked
+     JOIN tasks t ON t.id = ranked."taskId"
+     LEFT JOIN faffs u ON u.id = ranked."senderId"
+     ORDER BY ranked.rank DESC, ranked."createdAt" DESC`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+
+  const [{ count }] = await sequelize.query<{ count: string }>(
+    `SELECT COUNT(*) AS count
+     FROM messages m, websearch_to_tsquery('english', :query) q
+     WHERE m."searchVector" @@ q`,
+    { replacements, type: QueryTypes.SELECT }
+  );
+
+  return { results, totalCount: parseInt(count) };
+};
+
+/**
+ * Search tasks and messages, grouped by type
+ * @param query Search text
+ * @param scope Which groups to search
+ * @param limit Maximum results per group
+ * @param offset Results to skip per group
+ * @returns Grouped search results
+ */
+export const search = async (
+  query: string,
+  scope: SearchScope,
+  limit: number,
+  offset: number
+): Promise<SearchResults> => {
+  const empty = { results: [], totalCount: 0 };
+
+  const [tasks, messages] = await Promise.all([
+    scope === 'messages' ? empty : searchTasks(query, limit, offset),
+    scope === 'tasks' ? empty : searchMessages(query, limit, offset)
+  ]);
+
+  return { query, tasks, messages };
+};
@@ -0,0 +1,94 @@
+import { Session, User } from '../models';
+import { hashToken, rotateRefreshToken } from './sessionService';
+
+jest.mock('../models', () => ({
+  Session: { findOne: jest.fn(), update: jest.fn() },
+  User: { findByPk: jest.fn() }
+}));
+
+jest.mock('./socketEmitter', () => ({ disconnectSession: jest.fn() }));
+
+jest.mock('./twoFactorService', () => ({ isTwoFactorRequired: jest.fn().mockResolvedValue(false) }));
+
+const findSession = Session.findOne as unknown as jest.Mock;
+const updateSession = Session.update as unknown as jest.Mock;
+const findUser = User.findByPk as unknown as jest.Mock;
+
+const user = { id: 3, email: 'alex@example.com', role: 'operator', deactivatedAt: null, twoFactorEnabledAt: null };
+
+// One stored session, looked up and updated by refresh token hash like the sessions table
+const storeSession = (refreshToken: string) => {
+  const session = {
+    id: 11,
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    revokedAt: null as Date | null,
+    isActive: () => !session.revokedAt
+  };
+
+  findSession.mockImplementation(async ({ where }) =>
+    where.refreshTokenHash === session.refreshTokenHash ? session : null);
+  updateSession.mockImplementation(async (values, { where }) => {
+    if (where.refreshTokenHash !== session.refreshTokenHash || session.revokedAt) {
+      return [0];
+    }
+    Object.assign(session, values);
+    return [1];
+  });
+
+  return session;
+};
+
+describe('rotateRefreshToken', () => {
+  beforeEach(() => {
+    findUser.mockReset().mockResolvedValue(user);
+  });
+
+  it('issues a new refresh token and stops accepting the old one', async () => {
+    const session = storeSession('first-token');
+
+    const tokens = await rotateRefreshToken('first-token');
+
+    expect(tokens).not.toBeNull();
+    expect(tokens!.refreshToken).not.toBe('first-token');
+    expect(session.refreshTokenHash).toBe(hashToken(tokens!.refreshToken));
+    await expect(rotateRefreshToken('first-token')).resolves.toBeNull();
+  });
+
+  it('keeps the session usable with the rotated token', async () => {
+    storeSession('first-token');
+
+    const first = await rotateRefreshToken('first-token');
+    const second = await rotateRefreshToken(first!.refreshToken);
+
+    expect(second).not.toBeNull();
+    expect(second!.session.id).toBe(11);
+  });
+
+  it('lets only one of two concurrent refreshes with the same token win', async () => {
+    storeSession('first-token');
+
+    const results = await Promise.all([rotateRefreshToken('first-token'), rotateRefreshToken('first-token')]);
+
+    expect(results.filter(result => result !== null)).toHaveLength(1);
+  });
+
+  it('only rotates a session whose hash still matches and that is not revoked', async () => {
+    storeSession('first-token');
+
+    await rotateRefreshToken('first-token');
+
+    const [, { where }] = updateSession.mock.calls[0];
+    expect(where).toEqual({ id: 11, refreshTokenHash: hashToken('first-token'), revokedAt: null });
+  });
+
+  it('refuses tokens of revoked sessions and deactivated users', async () => {
+    const session = storeSession('first-token');
+    session.revokedAt = new Date();
+    await expect(rotateRefreshToken('first-token')).resolves.toBeNull();
+
+    storeSession('second-token');
+    findUser.mockResolvedValue({ ...user, deactivatedAt: new Date() });
+    await expect(rotateRefreshToken('second-token')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { Op } from 'sequelize';
+import { Session, User } from '../models';
+import { authConfig } from '../config/auth';
+import { disconnectSession } from './socketEmitter';
+import { isTwoFactorRequired } from './twoFactorService';
+
+interface AccessTokenPayload {
+  id: number;
+  email: string;
+  role: string;
+  // Session the token was issued for
+  sid: number;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  session: Session;
+}
+
+// Where a session was started from, shown in the sessions list
+export interface SessionClient {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+// Refresh tokens are only stored hashed, so a database leak does not leak sessions
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const generateRefreshToken = (): string => crypto.randomBytes(32).toString('base64url');
+
+const refreshExpiry = (): Date => new Date(Date.now() + authConfig.refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+
+/**
+ * Sign a short-lived access token for a session
+ * @param user Signed-in user
+ * @param sessionId Session the token belongs to
+ * @returns The JWT
+ */
+export const signAccessToken = (user: User, sessionId: number): string => {
+  const payload: AccessTokenPayload = {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    sid: sessionId
+  };
+
+  return jwt.sign(payload, authConfig.jwtSecret, { expiresIn: authConfig.accessTokenTtl } as SignOptions);
+};
+
+/**
+ * Start a session for a user who just signed in
+ * @param user Signed-in user
+ * @param client Device the user signed in from
+ * @returns Access token, refresh token and the session
+ */
+export const createSession = async (user: User, client: SessionClient): Promise<SessionTokens> => {
+  const refreshToken = generateRefreshToken();
+  const now = new Date();
+
+  const session = await Session.create({
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: client.userAgent?.slice(0, 512) || null,
+    ipAddress: client.ipAddress || null,
+    lastUsedAt: now,
+    expiresAt: refreshExpiry()
+  });
+
+  return { token: signAccessToken(user, session.id), refreshToken, session };
+};
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * The presented refresh token stops working, so each one can be used once.
+ * @param refreshToken Refresh token issued by createSession or a previous refresh
+ * @returns New tokens, or null when the token is unknown, used, expired or revoked, the user is deactivated,
+ * or the user's role requires 2FA and they have not set it up
+ */
+export const rotateRefreshToken = async (refreshToken: string): Promise<SessionTokens | null> => {
+  const currentHash = hashToken(refreshToken);
+  const session = await Session.findOne({ where: { refreshTokenHash: currentHash } });
+  if (!session || !session.isActive()) {
+    return null;
+  }
+
+  const user = await User.findByPk(session.userId);
+  if (!user || user.deactivatedAt) {
+    return null;
+  }
+
+  // Sessions started before the admin required 2FA end, so the user enrolls at their next sign-in
+  if (!user.twoFactorEnabledAt && await isTwoFactorRequired(user)) {
+    return null;
+  }
+
+  // Only the first of two concurrent refreshes with the same token wins
+  const nextToken = generateRefreshToken();
+  const [updated] = await Session.update({
+    refreshTokenHash: hashToken(nextToken),
+    lastUsedAt: new Date(),
+    expiresAt: refreshExpiry()
+  }, {
+    where: { id: session.id, refreshTokenHash: currentHash, revokedAt: null }
+  });
+  if (updated === 0) {
+    return null;
+  }
+
+  return { token: signAccessToken(user, session.id), refreshToken: nextToken, session };
+};
+
+/**
+ * Verify an access token and check that its session is still active
+ * @param token Access token from the Authorization header or socket handshake
+ * @returns The token's user and session, or null when the session ended or the user is gone or deactivated
+ * @throws When the token is malformed, badly signed or expired
+ */
+export const resolveAccessToken = async (token: string): Promise<{ user: User; session: Session } | null> => {
+  const decoded = jwt.verify(token, authConfig.jwtSecret) as AccessTokenPayload;
+
+  // Tokens issued before sessions existed cannot be revoked, so they are refused
+  if (!decoded.sid) {
+    return null;
+  }
+
+  const session = await Session.findByPk(decoded.sid);
+  if (!session || !session.isActive() || session.userId !== decoded.id) {
+    return null;
+  }
+
+  const user = await User.findByPk(decoded.id);
+  if (!user || user.deactivatedAt) {
+    return null;
+  }
+
+  return { user, session };
+};
+
+/**
+ * Revoke sessions and disconnect their sockets
+ * @param where Sessions to revoke (only active ones are touched)
+ * @returns Number of sessions revoked
+ */
+const revokeWhere = async (where: Record<string, unknown>): Promise<number> => {
+  const sessions = await Session.findAll({
+    where: { ...where, revokedAt: null },
+    attributes: ['id']
+  });
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  const ids = sessions.map(session => session.id);
+  await Session.update({ revokedAt: new Date() }, { where: { id: ids } });
+  ids.forEach(disconnectSession);
+
+  return ids.length;
+};
+
+/**
+ * Revoke one of a user's sessions
+ * @param userId Owner of the session
+ * @param sessionId Session to revoke
+ * @returns Whether an active session was revoked
+ */
+export const revokeSession = async (userId: number, sessionId: number): Promise<boolean> =>
+  (await revokeWhere({ id: sessionId, userId })) > 0;
+
+/**
+ * Revoke every session of a user, optionally keeping one
+ * @param userId User whose sessions end
+ * @param exceptSessionId Session to keep, usually the caller's own
+ * @returns Number of sessions revoked
+ */
+export const revokeUserSessions = async (userId: number, exceptSessionId?: number): Promise<number> =>
+  revokeWhere(exceptSessionId ? { userId, id: { [Op.ne]: exceptSessionId } } : { userId });
+
+/**
+ * List a user's active sessions, most recently used first
+ * @param userId User ID
+ */
+export const getActiveSessions = async (userId: number): Promise<Session[]> =>
+  Session.findAll({
+    where: { userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } },
+    attributes: { exclude: ['refreshTokenHash'] },
+    order: [['lastUsedAt', 'DESC']]
+  });
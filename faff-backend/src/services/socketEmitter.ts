@@ -0,0 +1,71 @@
+import { Server as SocketServer } from 'socket.io';
+
+// Lets controllers and services push events without importing the socket handlers
+let io: SocketServer | null = null;
+
+/**
+ * Register the socket.io server used for outgoing events
+ * @param server The socket.io server instance
+ */
+export const setSocketServer = (server: SocketServer): void => {
+  io = server;
+};
+
+/**
+ * Room joined by every socket of a user
+ * @param userId User ID
+ */
+export const userRoom = (userId: number): string => `user_${userId}`;
+
+/**
+ * Room joined by sockets viewing a task
+ * @param taskId Task ID
+ */
+export const taskRoom = (taskId: number): string => `task_${taskId}`;
+
+/**
+ * Emit an event to all sockets of a user
+ * @param userId Recipient user ID
+ * @param event Event name
+ * @param payload Event payload
+ */
+export const emitToUser = (userId: number, event: string, payload: unknown): void => {
+  io?.to(userRoom(userId)).emit(event, payload);
+};
+
+/**
+ * Emit an event to all sockets viewing a task
+ * @param taskId Task ID
+ * @param event Event name
+ * @param payload Event payload
+ */
+export const emitToTask = (taskId: number, event: string, payload: unknown): void => {
+  io?.to(taskRoom(taskId)).emit(event, payload);
+};
+
+/**
+ * Room joined by the sockets of a sign-in session
+ * @param sessionId Session ID
+ */
+export const sessionRoom = (sessionId: number): string => `session_${sessionId}`;
+
+/**
+ * Tell the sockets of a revoked session and disconnect them
+ * @param sessionId Revoked session ID
+ */
+export const disconnectSession = (sessionId: number): void => {
+  io?.to(sessionRoom(sessionId)).emit('session_revoked', { sessionId });
+  io?.in(sessionRoom(sessionId)).disconnectSockets();
+};
+
+/**
+ * Tell every socket of a user that their account changed, then disconnect them
+ * Sockets keep the role they authenticated with, so clients reconnect to pick up the change.
+ * @param userId User ID
+ * @param event Event name
+ * @param payload Event payload
+ */
+export const reconnectUser = (userId: number, event: string, payload: unknown): void => {
+  io?.to(userRoom(userId)).emit(event, payload);
+  io?.in(userRoom(userId)).disconnectSockets();
+};
@@ -0,0 +1,106 @@
+import { Op } from 'sequelize';
+import { Message, Summary, SummaryVersion, Task, User } from '../models';
+import { generateTaskSummary } from './aiService';
+import { getModelName } from './llmService';
+import { saveSummaryVersion, StructuredSummary } from './summaryService';
+
+export interface SummaryCoverage {
+  mode: 'full' | 'incremental';
+  fromMessageId: number | null;
+  toMessageId: number | null;
+  messageCount: number;
+  // Messages sent to the model in this run
+  newMessageCount: number;
+}
+
+export interface SummaryRefreshResult {
+  summary: Summary | null;
+  version: SummaryVersion | null;
+  coverage: SummaryCoverage;
+  // True when there were no new messages and nothing was generated
+  upToDate: boolean;
+}
+
+const toStructured = (version: SummaryVersion): StructuredSummary => ({
+  content: version.content,
+  issue: version.issue || '',
+  investigation: version.investigation || '',
+  nextSteps: version.nextSteps,
+  keyPoints: version.keyPoints,
+  entities: version.entities
+});
+
+/**
+ * Bring a task's AI summary up to date
+ * By default only messages after the last covered message are summarized and
+ * folded into the latest version; `full` re-summarizes the whole discussion
+ * (e.g. after messages were edited or deleted).
+ * @param task Task to summarize
+ * @param createdById User the new version is attributed to (null for background refreshes)
+ * @param options Set full to ignore the previous summary
+ * @returns The summary, the version written (if any) and the covered message range
+ */
+export const refreshTaskSummary = async (
+  task: Task,
+  createdById: number | null,
+  options: { full?: boolean } = {}
+): Promise<SummaryRefreshResult> => {
+  const previous = options.full
+    ? null
+    : await SummaryVersion.findOne({ where: { taskId: task.id }, order: [['version', 'DESC']] });
+  // Versions without a recorded range (pre-versioning summaries) can't be extended
+  const incremental = !!previous && previous.toMessageId !== null;
+
+  const messages = await Message.findAll({
+    where: incremental
+      ? { taskId: task.id, id: { [Op.gt]: previous!.toMessageId } }
+      : { taskId: task.id },
+    include: [{ model: User, as: 'sender', attributes: ['id', 'name'] }],
+    order: [['id', 'ASC']]
+  });
+
+  if (messages.length === 0) {
+    return {
+      summary: incremental ? await Summary.findOne({ where: { taskId: task.id } }) : null,
+      version: incremental ? previous : null,
+      coverage: {
+        mode: incremental ? 'incremental' : 'full',
+        fromMessageId: incremental ? previous!.fromMessageId : null,
+        toMessageId: incremental ? previous!.toMessageId : null,
+        messageCount: incremental ? previous!.messageCount : 0,
+        newMessageCount: 0
+      },
+      upToDate: true
+    };
+  }
+
+  const aiSummary = await generateTaskSummary(
+    messages.map(msg => ({
+      id: msg.id,
+      content: msg.content,
+      sender: msg.get('sender') as { id: number; name: string },
+      createdAt: msg.createdAt
+    })),
+    task.status,
+    incremental ? toStructured(previous!) : null
+  );
+
+  const coverage: SummaryCoverage = {
+    mode: incremental ? 'incremental' : 'full',
+    fromMessageId: incremental ? previous!.fromMessageId ?? messages[0].id : messages[0].id,
+    toMessageId: messages[messages.length - 1].id,
+    messageCount: (incremental ? previous!.messageCount : 0) + messages.length,
+    newMessageCount: messages.length
+  };
+
+  const { summary, version } = await saveSummaryVersion(task.id, aiSummary, {
+    createdById,
+    source: 'ai',
+    model: getModelName('summary'),
+    fromMessageId: coverage.fromMessageId,
+    toMessageId: coverage.toMessageId,
+    messageCount: coverage.messageCount
+  });
+
+  return { summary, version, coverage, upToDate: false };
+};
@@ -0,0 +1,197 @@
+import { Summary, SummaryVersion, sequelize } from '../models';
+import { SummaryEntity, SummaryEntityType, SUMMARY_ENTITY_TYPES } from '../models/Summary';
+import { SummarySource } from '../models/SummaryVersion';
+import { AuditOptions } from '../models/TaskEvent';
+
+export interface StructuredSummary {
+  // Short overview of the discussion, stored as Summary.content
+  content: string;
+  issue: string;
+  investigation: string;
+  nextSteps: string[];
+  keyPoints: string[];
+  entities: SummaryEntity[];
+}
+
+export interface SummaryVersionInfo {
+  // Null for background refreshes
+  createdById: number | null;
+  source: SummarySource;
+  model?: string | null;
+  fromMessageId?: number | null;
+  toMessageId?: number | null;
+  messageCount?: number;
+}
+
+const ENTITY_PATTERNS: { type: SummaryEntityType; pattern: RegExp; accept?: (value: string) => boolean }[] = [
+  { type: 'url', pattern: /https?:\/\/[^\s)<>]+/g },
+  { type: 'email', pattern: /[\w.+-]+@[\w-]+\.[\w.-]*\w/g },
+  {
+    type: 'phone',
+    pattern: /\+?\d[\d\s().-]{7,}\d/g,
+    // Skip dates and short number runs that the loose pattern also matches
+    accept: (value) => value.replace(/\D/g, '').length >= 9 && !/^\d{4}-\d{1,2}-\d{1,2}/.test(value)
+  }
+];
+
+const cleanString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+const cleanStringList = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.map(cleanString).filter(item => item.length > 0);
+};
+
+// Guess the type of an entity the model returned as a bare string
+const inferEntityType = (value: string): SummaryEntityType => {
+  const match = ENTITY_PATTERNS.find(({ pattern }) => new RegExp(`^${pattern.source}$`).test(value));
+  return match ? match.type : 'other';
+};
+
+const cleanEntities = (value: unknown): SummaryEntity[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const entities = value
+    .map((entity): SummaryEntity | null => {
+      if (typeof entity === 'string') {
+        const text = entity.trim();
+        return text ? { type: inferEntityType(text), value: text } : null;
+      }
+      if (entity && typeof entity === 'object') {
+        const text = cleanString((entity as any).value);
+        const type = cleanString((entity as any).type).toLowerCase() as SummaryEntityType;
+        if (!text) {
+          return null;
+        }
+        return { type: SUMMARY_ENTITY_TYPES.includes(type) ? type : inferEntityType(text), value: text };
+      }
+      return null;
+    })
+    .filter((entity): entity is SummaryEntity => entity !== null);
+
+  return dedupeEntities(entities);
+};
+
+const dedupeEntities = (entities: SummaryEntity[]): SummaryEntity[] => {
+  const seen = new Set<string>();
+  return entities.filter(entity => {
+    const key = `${entity.type}:${entity.value.toLowerCase()}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Validate and normalise a structured summary produced by the model
+ * Strings are trimmed, non-string list items dropped and entity types checked
+ * against the known set. The issue is required; a missing overview falls back to it.
+ * @param raw Parsed model output
+ * @returns The normalised summary, or the list of problems found
+ */
+export const validateStructuredSummary = (
+  raw: unknown
+): { summary: StructuredSummary | null; errors: string[] } => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { summary: null, errors: ['Summary must be a JSON object'] };
+  }
+
+  const data = raw as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const issue = cleanString(data.issue);
+  if (!issue) {
+    errors.push('"issue" must be a non-empty string');
+  }
+  if (data.investigation !== undefined && typeof data.investigation !== 'string') {
+    errors.push('"investigation" must be a string');
+  }
+  ['nextSteps', 'keyPoints', 'entities'].forEach(field => {
+    if (data[field] !== undefined && !Array.isArray(data[field])) {
+      errors.push(`"${field}" must be an array`);
+    }
+  });
+
+  if (errors.length > 0) {
+    return { summary: null, errors };
+  }
+
+  return {
+    summary: {
+      content: cleanString(data.summary) || issue,
+      issue,
+      investigation: cleanString(data.investigation),
+      nextSteps: cleanStringList(data.nextSteps),
+      keyPoints: cleanStringList(data.keyPoints),
+      entities: cleanEntities(data.entities)
+    },
+    errors: []
+  };
+};
+
+/**
+ * Extract URLs, emails and phone numbers from text with regular expressions
+ * Used for manual summaries and as a supplement to model-extracted entities.
+ * @param texts Texts to scan
+ * @returns Typed, deduplicated entities
+ */
+export const extractEntities = (texts: string[]): SummaryEntity[] => {
+  const entities: SummaryEntity[] = [];
+
+  texts.forEach(text => {
+    ENTITY_PATTERNS.forEach(({ type, pattern, accept }) => {
+      (text.match(pattern) || [])
+        .map(value => value.trim())
+        .filter(value => !accept || accept(value))
+        .forEach(value => entities.push({ type, value }));
+    });
+  });
+
+  return dedupeEntities(entities);
+};
+
+/**
+ * Save a new summary for a task and record it as the next SummaryVersion
+ * The Summary row always holds the latest version; earlier versions stay in
+ * summary_versions so regenerating or editing never loses history.
+ * @param taskId Task the summary belongs to
+ * @param values Summary fields
+ * @param info Author, source, model and covered message range of this version
+ * @returns The updated Summary and the version that was written
+ */
+export const saveSummaryVersion = async (
+  taskId: number,
+  values: StructuredSummary,
+  info: SummaryVersionInfo
+): Promise<{ summary: Summary; version: SummaryVersion }> => {
+  return sequelize.transaction(async (transaction) => {
+    const options = { transaction, actorId: info.createdById } as AuditOptions;
+
+    const existingSummary = await Summary.findOne({ where: { taskId }, transaction, lock: transaction.LOCK.UPDATE });
+    const summary = existingSummary
+      ? await existingSummary.update({ ...values, createdById: info.createdById }, options)
+      : await Summary.create({ taskId, ...values, createdById: info.createdById }, options);
+
+    const latestVersion: number = (await SummaryVersion.max('version', { where: { taskId }, transaction })) || 0;
+
+    const version = await SummaryVersion.create({
+      summaryId: summary.id,
+      taskId,
+      version: latestVersion + 1,
+      createdById: info.createdById,
+      source: info.source,
+      model: info.model ?? null,
+      fromMessageId: info.fromMessageId ?? null,
+      toMessageId: info.toMessageId ?? null,
+      messageCount: info.messageCount ?? 0,
+      ...values
+    }, { transaction });
+
+    return { summary, version };
+  });
+};
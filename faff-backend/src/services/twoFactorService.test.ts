@@ -0,0 +1,134 @@
+import { User } from '../models';
+import { beginEnrollment, generateTotp, verifySecondFactor } from './twoFactorService';
+
+jest.mock('../models', () => ({
+  User: { update: jest.fn() },
+  Setting: { findByPk: jest.fn() },
+  sequelize: {}
+}));
+
+jest.mock('qrcode', () => ({ toDataURL: jest.fn().mockResolvedValue('data:image/png;base64,') }));
+
+const userUpdate = User.update as unknown as jest.Mock;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const base32Decode = (input: string): Buffer => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of input) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+const NOW = new Date('2026-01-01T12:00:10Z');
+const nowStep = Math.floor(NOW.getTime() / 1000 / 30);
+
+// User with 2FA enabled, whose last accepted step is kept like the twoFactorLastStep column
+const enrolledUser = async () => {
+  const user = {
+    id: 7,
+    email: 'sam@example.com',
+    twoFactorSecret: null as string | null,
+    twoFactorEnabledAt: new Date(),
+    twoFactorLastStep: null as number | null,
+    update: jest.fn(async (values: Record<string, unknown>): Promise<void> => {
+      Object.assign(user, values);
+    })
+  };
+  const { secret } = await beginEnrollment(user as unknown as User);
+
+  userUpdate.mockImplementation(async ({ twoFactorLastStep }: { twoFactorLastStep: number }) => {
+    if (user.twoFactorLastStep !== null && user.twoFactorLastStep >= twoFactorLastStep) {
+      return [0];
+    }
+    user.twoFactorLastStep = twoFactorLastStep;
+    return [1];
+  });
+
+  const codeFor = (step: number) => generateTotp(base32Decode(secret), step);
+  return { user: user as unknown as User, codeFor };
+};
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', () => {
+    const key = Buffer.from('12345678901234567890');
+
+    expect(generateTotp(key, 1)).toBe('287082');
+    expect(generateTotp(key, 37037036)).toBe('081804');
+    expect(generateTotp(key, 37037037)).toBe('050471');
+    expect(generateTotp(key, 41152263)).toBe('005924');
+  });
+});
+
+describe('verifySecondFactor', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+    userUpdate.mockReset();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts the current code', async () => {
+    const { user, codeFor } = await enrolledUser();
+
+    await expect(verifySecondFactor(user, codeFor(nowStep))).resolves.toBe('totp');
+  });
+
+  it('accepts codes from the neighbouring steps and ignores spaces', async () => {
+    const { user, codeFor } = await enrolledUser();
+    const code = codeFor(nowStep - 1);
+
+    await expect(verifySecondFactor(user, `${code.slice(0, 3)} ${code.slice(3)}`)).resolves.toBe('totp');
+  });
+
+  it('rejects a wrong or expired code without claiming a step', async () => {
+    const { user, codeFor } = await enrolledUser();
+    const wrong = String((parseInt(codeFor(nowStep)) + 1) % 1000000).padStart(6, '0');
+
+    await expect(verifySecondFactor(user, wrong)).resolves.toBeNull();
+    await expect(verifySecondFactor(user, codeFor(nowStep - 2))).resolves.toBeNull();
+    expect(userUpdate).not.toHaveBeenCalled();
+  });
+
+  it('rejects a code that was already used', async () => {
+    const { user, codeFor } = await enrolledUser();
+    const code = codeFor(nowStep);
+
+    await expect(verifySecondFactor(user, code)).resolves.toBe('totp');
+    await expect(verifySecondFactor(user, code)).resolves.toBeNull();
+  });
+
+  it('rejects a code older than the last one used', async () => {
+    const { user, codeFor } = await enrolledUser();
+
+    await expect(verifySecondFactor(user, codeFor(nowStep))).resolves.toBe('totp');
+    await expect(verifySecondFactor(user, codeFor(nowStep - 1))).resolves.toBeNull();
+  });
+
+  it('only claims a step newer than the last accepted one', async () => {
+    const { user, codeFor } = await enrolledUser();
+
+    await verifySecondFactor(user, codeFor(nowStep));
+
+    const [values, { where }] = userUpdate.mock.calls[0];
+    expect(values).toEqual({ twoFactorLastStep: nowStep });
+    expect(where.id).toBe(7);
+  });
+
+  it('rejects codes when 2FA is not enabled', async () => {
+    const { user, codeFor } = await enrolledUser();
+    user.twoFactorEnabledAt = null;
+
+    await expect(verifySecondFactor(user, codeFor(nowStep))).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,362 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import { Op } from 'sequelize';
+import { Setting, User, sequelize } from '../models';
+import { USER_ROLES, UserRole } from '../models/User';
+import { authConfig } from '../config/auth';
+
+// RFC 6238 defaults, which every authenticator app supports
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Codes from the neighbouring time steps are accepted, to allow for clock drift
+const TOTP_WINDOW = 1;
+
+const RECOVERY_CODE_COUNT = 10;
+
+const REQUIRED_ROLES_SETTING = 'twoFactor.requiredRoles';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// What a challenge token lets its holder do: enter a code, or enroll first
+export type ChallengePurpose = 'verify' | 'setup';
+
+interface ChallengePayload {
+  id: number;
+  typ: 'two_factor_challenge';
+  purpose: ChallengePurpose;
+}
+
+export interface TwoFactorSetup {
+  // Base32 secret, for apps that cannot scan the QR code
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URL
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  // The user's role is in the admin's policy, so 2FA cannot be turned off
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+};
+
+const base32Decode = (input: string): Buffer => {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+};
+
+// Recovery codes are only stored hashed, like refresh tokens
+const hashCode = (code: string): string => crypto.createHash('sha256').update(code).digest('hex');
+
+// Secrets must be readable to check codes, so they are encrypted rather than hashed
+const encryptionKey = (): Buffer => crypto.createHash('sha256').update(authConfig.twoFactor.encryptionKey).digest();
+
+const encryptSecret = (secret: string): string => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+};
+
+const decryptSecret = (stored: string): string => {
+  const [iv, tag, encrypted] = stored.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+};
+
+const currentStep = (): number => Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+/**
+ * Compute the TOTP code for a time step
+ * @param key Shared secret
+ * @param step Number of periods since the Unix epoch
+ * @returns Zero-padded code
+ */
+export const generateTotp = (key: Buffer, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+};
+
+/**
+ * Find the time step a code was generated for
+ * @param user User with a secret
+ * @param code Code entered by the user
+ * @returns The matching step, or null when the code is wrong or too old
+ */
+const matchTotp = (user: User, code: string): number | null => {
+  if (!user.twoFactorSecret || code.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(decryptSecret(user.twoFactorSecret));
+  const now = currentStep();
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (crypto.timingSafeEqual(Buffer.from(generateTotp(key, step)), Buffer.from(code))) {
+      return step;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Record a step as used, so its code cannot be entered a second time
+ * @returns Whether the step was newer than the last accepted one
+ */
+const claimStep = async (user: User, step: number): Promise<boolean> => {
+  // Only the first of two concurrent uses of the same code wins
+  const [updated] = await User.update({ twoFactorLastStep: step }, {
+    where: {
+      id: user.id,
+      [Op.or]: [{ twoFactorLastStep: null }, { twoFactorLastStep: { [Op.lt]: step } }]
+    }
+  });
+  return updated > 0;
+};
+
+// Codes look like "k3xq-7mzp"; spaces, dashes and case are ignored when they are entered
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(5)).toLowerCase();
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+  });
+
+/**
+ * Use up one of a user's recovery codes
+ * @returns Whether the code was valid and unused
+ */
+const consumeRecoveryCode = async (user: User, code: string): Promise<boolean> => {
+  const hash = hashCode(normalizeRecoveryCode(code));
+  if (!user.twoFactorRecoveryCodes.includes(hash)) {
+    return false;
+  }
+
+  // Removed in the database, so a code used twice at once only works once
+  const [updated] = await User.update({
+    twoFactorRecoveryCodes: sequelize.literal(`"twoFactorRecoveryCodes" - ${sequelize.escape(hash)}`)
+  }, {
+    where: {
+      id: user.id,
+      [Op.and]: [sequelize.literal(`"twoFactorRecoveryCodes" @> ${sequelize.escape(JSON.stringify([hash]))}::jsonb`)]
+    }
+  });
+  if (updated === 0) {
+    return false;
+  }
+
+  await user.reload();
+  return true;
+};
+
+/**
+ * Replace a user's recovery codes with a new set
+ * @param user User with 2FA enabled or being enabled
+ * @returns The new codes, shown to the user once
+ */
+const issueRecoveryCodes = async (user: User): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+  await user.update({ twoFactorRecoveryCodes: codes.map(code => hashCode(normalizeRecoveryCode(code))) });
+  return codes;
+};
+
+/**
+ * Get the roles whose members must use 2FA
+ */
+export const getRequiredRoles = async (): Promise<UserRole[]> => {
+  const setting = await Setting.findByPk(REQUIRED_ROLES_SETTING);
+  const roles = Array.isArray(setting?.value) ? setting.value : [];
+  return USER_ROLES.filter(role => roles.includes(role));
+};
+
+/**
+ * Set the roles whose members must use 2FA
+ * Members who have not enrolled yet are asked to at their next sign-in, and cannot
+ * refresh their current session.
+ * @param roles Roles to require 2FA for
+ * @param admin Admin changing the policy
+ * @returns The stored roles
+ */
+export const setRequiredRoles = async (roles: UserRole[], admin: User): Promise<UserRole[]> => {
+  const value = USER_ROLES.filter(role => roles.includes(role));
+  await Setting.upsert({ key: REQUIRED_ROLES_SETTING, value, updatedById: admin.id });
+  return value;
+};
+
+/**
+ * Check whether the admin's policy requires 2FA for a user
+ * @param user User to check
+ */
+export const isTwoFactorRequired = async (user: User): Promise<boolean> =>
+  (await getRequiredRoles()).includes(user.role);
+
+/**
+ * Describe a user's 2FA setup
+ * @param user User to describe
+ */
+export const getTwoFactorStatus = async (user: User): Promise<TwoFactorStatus> => ({
+  enabled: Boolean(user.twoFactorEnabledAt),
+  enabledAt: user.twoFactorEnabledAt,
+  required: await isTwoFactorRequired(user),
+  recoveryCodesRemaining: user.twoFactorEnabledAt ? user.twoFactorRecoveryCodes.length : 0
+});
+
+/**
+ * Sign a short-lived token proving the user passed the password step
+ * It is only accepted by the second login step, never as an access token.
+ * @param user User who entered their password
+ * @param purpose Whether the user enters a code or has to enroll first
+ * @returns The JWT
+ */
+export const signChallenge = (user: User, purpose: ChallengePurpose): string => {
+  const payload: ChallengePayload = { id: user.id, typ: 'two_factor_challenge', purpose };
+  return jwt.sign(payload, authConfig.jwtSecret, { expiresIn: `${authConfig.twoFactor.challengeTtlMinutes}m` });
+};
+
+/**
+ * Check a challenge token from the second login step
+ * @param token Token returned by the password step
+ * @param purpose Purpose the token must have been issued for
+ * @returns The user, or null when the token is invalid or expired or the user was deactivated
+ */
+export const resolveChallenge = async (token: string, purpose: ChallengePurpose): Promise<User | null> => {
+  let decoded: ChallengePayload;
+  try {
+    decoded = jwt.verify(token, authConfig.jwtSecret) as ChallengePayload;
+  } catch {
+    return null;
+  }
+  if (decoded.typ !== 'two_factor_challenge' || decoded.purpose !== purpose) {
+    return null;
+  }
+
+  const user = await User.findByPk(decoded.id);
+  return user && !user.deactivatedAt ? user : null;
+};
+
+/**
+ * Start enrolling a user: generate a new secret and the QR code to scan
+ * The secret only takes effect once enableTwoFactor confirms a code from it.
+ * @param user User without 2FA enabled
+ * @returns Secret, otpauth URL and QR code
+ */
+export const beginEnrollment = async (user: User): Promise<TwoFactorSetup> => {
+  const secret = base32Encode(crypto.randomBytes(20));
+  await user.update({ twoFactorSecret: encryptSecret(secret) });
+
+  const issuer = authConfig.twoFactor.issuer;
+  const label = encodeURIComponent(`${issuer}:${user.email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  const otpauthUrl = `otpauth://totp/${label}?${params.toString()}`;
+
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+};
+
+/**
+ * Finish enrolling a user once they enter a code from their app
+ * @param user User who called beginEnrollment
+ * @param code Code from the authenticator app
+ * @returns Recovery codes, or null when the code is wrong or enrollment was not started
+ */
+export const enableTwoFactor = async (user: User, code: string): Promise<string[] | null> => {
+  const step = matchTotp(user, code.replace(/\s/g, ''));
+  if (user.twoFactorEnabledAt || step === null || !(await claimStep(user, step))) {
+    return null;
+  }
+
+  await user.update({ twoFactorEnabledAt: new Date() });
+  return issueRecoveryCodes(user);
+};
+
+/**
+ * Check a user's second factor
+ * @param user User with 2FA enabled
+ * @param code Code from the authenticator app, or an unused recovery code
+ * @returns How the user proved it, or null when the code is wrong or was already used
+ */
+export const verifySecondFactor = async (user: User, code: string): Promise<'totp' | 'recovery' | null> => {
+  if (!user.twoFactorEnabledAt || typeof code !== 'string') {
+    return null;
+  }
+
+  const totp = code.replace(/\s/g, '');
+  if (/^\d+$/.test(totp)) {
+    const step = matchTotp(user, totp);
+    return step !== null && (await claimStep(user, step)) ? 'totp' : null;
+  }
+
+  return (await consumeRecoveryCode(user, code)) ? 'recovery' : null;
+};
+
+/**
+ * Replace a user's recovery codes, e.g. after they used most of them
+ * @param user User with 2FA enabled
+ * @returns The new codes
+ */
+export const regenerateRecoveryCodes = async (user: User): Promise<string[]> => issueRecoveryCodes(user);
+
+/**
+ * Turn off 2FA and forget the secret and recovery codes
+ * @param user User whose 2FA is removed
+ */
+export const disableTwoFactor = async (user: User): Promise<void> => {
+  await user.update({
+    twoFactorSecret: null,
+    twoFactorEnabledAt: null,
+    twoFactorRecoveryCodes: [],
+    twoFactorLastStep: null
+  });
+};
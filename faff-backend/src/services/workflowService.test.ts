@@ -0,0 +1,83 @@
+import { QAReview, Task } from '../models';
+import { getAvailableTransitions, validateTransition } from './workflowService';
+
+jest.mock('../models', () => ({
+  QAReview: { count: jest.fn() },
+  Message: {}
+}));
+
+const count = QAReview.count as unknown as jest.Mock;
+
+const taskIn = (status: Task['status']): Task => ({ id: 1, status } as Task);
+
+describe('validateTransition', () => {
+  beforeEach(() => {
+    count.mockReset().mockResolvedValue(0);
+  });
+
+  it('allows a transition of the workflow', async () => {
+    await expect(validateTransition(taskIn('Logged'), 'Ongoing', 'operator', {})).resolves.toEqual([]);
+  });
+
+  it('rejects a transition the workflow does not have', async () => {
+    const errors = await validateTransition(taskIn('Logged'), 'Done', 'admin', {});
+
+    expect(errors).toEqual([expect.objectContaining({ code: 'INVALID_TRANSITION' })]);
+  });
+
+  it('rejects a transition restricted to other roles', async () => {
+    const errors = await validateTransition(taskIn('Done'), 'Ongoing', 'operator', {});
+
+    expect(errors).toEqual([expect.objectContaining({ code: 'FORBIDDEN' })]);
+    await expect(validateTransition(taskIn('Done'), 'Ongoing', 'lead', {})).resolves.toEqual([]);
+  });
+
+  it('requires the fields of the transition to be non-empty', async () => {
+    for (const blockedReason of [undefined, null, '  ']) {
+      const errors = await validateTransition(taskIn('Ongoing'), 'Blocked', 'operator', { blockedReason });
+      expect(errors).toEqual([expect.objectContaining({ code: 'MISSING_FIELD', field: 'blockedReason' })]);
+    }
+
+    await expect(validateTransition(taskIn('Ongoing'), 'Blocked', 'operator', { blockedReason: 'Waiting on IT' }))
+      .resolves.toEqual([]);
+  });
+
+  it('runs the guards of the transition', async () => {
+    count.mockResolvedValue(2);
+
+    const errors = await validateTransition(taskIn('Reviewed'), 'Done', 'operator', {});
+
+    expect(errors).toEqual([expect.objectContaining({ code: 'GUARD_FAILED' })]);
+    expect(errors[0].message).toContain('2 QA review(s)');
+  });
+
+  it('passes the guards once no QA review is pending', async () => {
+    await expect(validateTransition(taskIn('Reviewed'), 'Done', 'operator', {})).resolves.toEqual([]);
+    expect(count).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  beforeEach(() => {
+    count.mockReset().mockResolvedValue(0);
+  });
+
+  it('lists only the transitions the role may perform', async () => {
+    const operator = await getAvailableTransitions(taskIn('Done'), 'operator');
+    const lead = await getAvailableTransitions(taskIn('Done'), 'lead');
+
+    expect(operator).toEqual([]);
+    expect(lead.map(transition => transition.to)).toEqual(['Ongoing']);
+  });
+
+  it('reports the guard failures blocking a transition', async () => {
+    count.mockResolvedValue(1);
+
+    const transitions = await getAvailableTransitions(taskIn('Reviewed'), 'operator');
+    const done = transitions.find(transition => transition.to === 'Done');
+    const reopen = transitions.find(transition => transition.to === 'Ongoing');
+
+    expect(done?.errors).toEqual([expect.objectContaining({ code: 'GUARD_FAILED' })]);
+    expect(reopen?.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,106 @@
+import { QAReview, Message, Task } from '../models';
+import { TaskStatus } from '../models/Task';
+import { taskWorkflow, WorkflowGuard, WorkflowTransition } from '../config/workflow';
+
+export interface TransitionError {
+  code: 'INVALID_TRANSITION' | 'FORBIDDEN' | 'MISSING_FIELD' | 'GUARD_FAILED';
+  message: string;
+  field?: string;
+}
+
+export interface AvailableTransition {
+  to: TaskStatus;
+  label: string;
+  requiredFields: string[];
+  // Guard failures that currently prevent the transition
+  errors: TransitionError[];
+}
+
+const guards: Record<WorkflowGuard, (task: Task) => Promise<TransitionError | null>> = {
+  noPendingQAReviews: async (task) => {
+    const pendingCount = await QAReview.count({
+      where: { status: 'pending' },
+      include: [{ model: Message, as: 'message', where: { taskId: task.id }, attributes: [] }]
+    });
+
+    return pendingCount > 0
+      ? { code: 'GUARD_FAILED', message: `${pendingCount} QA review(s) are still pending on this task` }
+      : null;
+  }
+};
+
+const findTransition = (from: TaskStatus, to: TaskStatus): WorkflowTransition | undefined => {
+  return taskWorkflow.transitions.find(transition => transition.from === from && transition.to === to);
+};
+
+const canPerform = (transition: WorkflowTransition, role: string): boolean => {
+  return !transition.roles || transition.roles.includes(role);
+};
+
+const runGuards = async (transition: WorkflowTransition, task: Task): Promise<TransitionError[]> => {
+  const results = await Promise.all((transition.guards || []).map(guard => guards[guard](task)));
+  return results.filter((result): result is TransitionError => result !== null);
+};
+
+/**
+ * Validate a status change against the task workflow
+ * @param task The task being updated
+ * @param to The requested status
+ * @param role Role of the user making the change
+ * @param fields Request body, checked for the transition's required fields
+ * @returns Array of errors (empty if the transition is allowed)
+ */
+export const validateTransition = async (
+  task: Task,
+  to: TaskStatus,
+  role: string,
+  fields: Record<string, unknown>
+): Promise<TransitionError[]> => {
+  const transition = findTransition(task.status, to);
+
+  if (!transition) {
+    return [{
+      code: 'INVALID_TRANSITION',
+      message: `Cannot move a task from '${task.status}' to '${to}'`
+    }];
+  }
+
+  if (!canPerform(transition, role)) {
+    return [{
+      code: 'FORBIDDEN',
+      message: `Role '${role}' is not allowed to move a task from '${task.status}' to '${to}'`
+    }];
+  }
+
+  const errors: TransitionError[] = (transition.requiredFields || [])
+    .filter(field => {
+      const value = fields[field];
+      return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+    })
+    .map(field => ({
+      code: 'MISSING_FIELD',
+      message: `'${field}' is required to move a task to '${to}'`,
+      field
+    }));
+
+  return [...errors, ...(await runGuards(transition, task))];
+};
+
+/**
+ * Get the transitions a user may perform from the task's current status
+ * @param task The task
+ * @param role Role of the current user
+ * @returns Array of transitions with any guard failures that currently block them
+ */
+export const getAvailableTransitions = async (task: Task, role: string): Promise<AvailableTransition[]> => {
+  const transitions = taskWorkflow.transitions.filter(
+    transition => transition.from === task.status && canPerform(transition, role)
+  );
+
+  return Promise.all(transitions.map(async transition => ({
+    to: transition.to,
+    label: transition.label,
+    requiredFields: transition.requiredFields || [],
+    errors: await runGuards(transition, task)
+  })));
+};
@@ -1,7 +1,11 @@
 import { Server as SocketServer, Socket } from 'socket.io';
-import jwt from 'jsonwebtoken';
 import { User, Message, Task } from './models';
 import { Attachment } from './models/Message';
+import { setSocketServer, userRoom, sessionRoom } from './services/socketEmitter';
+import { resolveMentions } from './services/mentionService';
+import { recordDraftCheckOutcome } from './services/draftCheckService';
+import { Permission, getPermissions } from './config/permissions';
+import { resolveAccessToken } from './services/sessionService';
 
 interface AuthenticatedSocket extends Socket {
   user?: {
@@ -9,9 +13,20 @@ interface AuthenticatedSocket extends Socket {
     email: string;
     role: string;
     name?: string;
+    permissions: Permission[];
+    sessionId: number;
   };
 }
 
+// Permission each client event requires
+const EVENT_PERMISSIONS: Record<string, Permission> = {
+  join_task: 'task.view',
+  send_message: 'message.send',
+  typing: 'message.send',
+  task_updated: 'task.update',
+  upload_progress: 'message.send'
+};
+
 // Handle socket authentication
 const authenticateSocket = async (socket: AuthenticatedSocket, next: Function) => {
   try {
@@ -21,21 +36,21 @@ const authenticateSocket = async (socket: AuthenticatedSocket, next: Function) =
       return next(new Error('Authentication error: No token provided'));
     }
     
-    // Verify token
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'faff_secret_key') as any;
-    
-    // Check if user exists
-    const user = await User.findByPk(decoded.id);
-    if (!user) {
+    // Verify token, and that its session was not revoked and its user still exists
+    const resolved = await resolveAccessToken(token);
+    if (!resolved) {
       return next(new Error('Authentication error: Invalid token'));
     }
+    const { user, session } = resolved;
     
     // Attach user to socket
     socket.user = {
       id: user.id,
       email: user.email,
       role: user.role,
-      name: user.name
+      name: user.name,
+      permissions: getPermissions(user.role),
+      sessionId: session.id
     };
     
     next();
@@ -46,11 +61,31 @@ const authenticateSocket = async (socket: AuthenticatedSocket, next: Function) =
 
 // Set up socket.io handlers
 const setupWebSocketHandlers = (io: SocketServer) => {
+  // Make the server available to services that push events
+  setSocketServer(io);
+
   // Apply authentication middleware
   io.use(authenticateSocket);
   
   io.on('connection', (socket: AuthenticatedSocket) => {
     console.log(`User connected: ${socket.user?.email} (${socket.id})`);
+
+    // Join the per-user room used for notifications, and the session room used to
+    // disconnect the socket when its session is revoked
+    if (socket.user) {
+      socket.join(userRoom(socket.user.id));
+      socket.join(sessionRoom(socket.user.sessionId));
+    }
+
+    // Drop events the user's role does not allow
+    socket.use(([event], next) => {
+      const permission = EVENT_PERMISSIONS[event];
+      if (permission && !socket.user?.permissions.includes(permission)) {
+        socket.emit('error', { message: `Not authorized: the ${permission} permission is required` });
+        return;
+      }
+      next();
+    });
     
     // Join task room
     socket.on('join_task', (taskId: number) => {
@@ -73,6 +108,8 @@ const setupWebSocketHandlers = (io: SocketServer) => {
       content: string;
       replyToId?: number;
       attachments?: Attachment[];
+      // Pre-send quality check the message was sent after
+      draftCheckId?: number;
     }) => {
       try {
         if (!socket.user) {
@@ -80,7 +117,7 @@ const setupWebSocketHandlers = (io: SocketServer) => {
           return;
         }
         
-        const { taskId, content, replyToId, attachments } = messageData;
+        const { taskId, content, replyToId, attachments, draftCheckId } = messageData;
         
         // Check if task exists
         const task = await Task.findByPk(taskId);
@@ -110,8 +147,14 @@ const setupWebSocketHandlers = (io: SocketServer) => {
           senderId: socket.user.id,
           content,
           replyToId: replyToId || null,
-          attachments: attachments || []
+          attachments: attachments || [],
+          mentionedUserIds: await resolveMentions(content)
         });
+
+        // Log what the sender did with a pre-send quality check
+        if (draftCheckId) {
+          await recordDraftCheckOutcome(draftCheckId, message);
+        }
         
         // Fetch the created message with sender info
         const messageWithDetails = await Message.findByPk(message.id, {
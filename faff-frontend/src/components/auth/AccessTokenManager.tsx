@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { KeyIcon, ClipboardDocumentIcon } from '@heroicons/react/24/outline';
+import type { AccessTokenList, CreateAccessTokenData, CreatedAccessToken, TokenScope } from '../../types';
+import { cn, formatDate, formatRelativeTime } from '../../utils';
+import toast from 'react-hot-toast';
+
+const SCOPE_DESCRIPTIONS: Record<TokenScope, string> = {
+  'tasks:read': 'Read tasks, messages and summaries',
+  'tasks:write': 'Create, update and assign tasks',
+  'messages:write': 'Post, edit and delete messages',
+};
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+interface AccessTokenManagerProps {
+  // Whose tokens are shown, e.g. the signed-in user's or a service account's; memoize it, since it is reloaded when it changes
+  load: () => Promise<AccessTokenList>;
+  create: (data: CreateAccessTokenData) => Promise<CreatedAccessToken>;
+  revoke: (tokenId: number) => Promise<void>;
+}
+
+// Lists, creates and revokes personal access tokens for the REST API
+export default function AccessTokenManager({ load, create, revoke }: AccessTokenManagerProps) {
+  const [list, setList] = useState<AccessTokenList | null>(null);
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<TokenScope[]>(['tasks:read']);
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const result = await load();
+      setList(result);
+      setExpiresInDays(prev => Math.min(prev, result.maxExpiresInDays));
+    } catch (error) {
+      console.error('Failed to load access tokens:', error);
+    }
+  }, [load]);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: TokenScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(item => item !== scope) : [...prev, scope]);
+  };
+
+  const createToken = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      const result = await create({ name: name.trim(), scopes, expiresInDays });
+      setCreatedToken(result.token);
+      setList(prev => prev && { ...prev, tokens: [result.accessToken, ...prev.tokens] });
+      setName('');
+    } catch (error) {
+      console.error('Failed to create access token:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const revokeToken = async (tokenId: number, tokenName: string) => {
+    if (!window.confirm(`Revoke "${tokenName}"? Anything using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      setRevokingId(tokenId);
+      await revoke(tokenId);
+      setList(prev => prev && { ...prev, tokens: prev.tokens.filter(token => token.id !== tokenId) });
+      toast.success('Access token revoked');
+    } catch (error) {
+      console.error('Failed to revoke access token:', error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const copyToken = async () => {
+    if (!createdToken) {
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast.success('Token copied');
+    } catch (error) {
+      console.error('Failed to copy access token:', error);
+      toast.error('Could not copy the token; select and copy it instead');
+    }
+  };
+
+  if (!list) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  const expiryOptions = [...EXPIRY_OPTIONS.filter(days => days < list.maxExpiresInDays), list.maxExpiresInDays];
+
+  return (
+    <div className="space-y-6">
+      {createdToken && (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4">
+          <p className="text-sm text-yellow-800">
+            Copy this token now. Only a hash of it is stored, so it won't be shown again.
+          </p>
+          <code className="mt-3 block break-all rounded bg-white px-2 py-1 font-mono text-sm text-gray-900 border border-yellow-100">
+            {createdToken}
+          </code>
+          <div className="mt-3 flex gap-2">
+            <button
+              type="button"
+              onClick={copyToken}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <ClipboardDocumentIcon className="h-4 w-4 mr-1.5" />
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => setCreatedToken(null)}
+              className="text-sm font-medium text-primary-600 hover:text-primary-500"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={createToken} className="space-y-4 rounded-lg border border-gray-200 p-4">
+        <div>
+          <label htmlFor="access-token-name" className="block text-sm font-medium text-gray-700 mb-2">
+            Token name
+          </label>
+          <input
+            id="access-token-name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            maxLength={100}
+            placeholder="e.g. Nightly export script"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          />
+        </div>
+
+        <fieldset>
+          <legend className="block text-sm font-medium text-gray-700 mb-2">Scopes</legend>
+          <div className="space-y-2">
+            {list.scopes.map((scope) => (
+              <label key={scope} className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={scopes.includes(scope)}
+                  onChange={() => toggleScope(scope)}
+                  className="mt-0.5 h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                />
+                <span>
+                  <span className="font-mono text-gray-900">{scope}</span>
+                  <span className="text-gray-500"> · {SCOPE_DESCRIPTIONS[scope]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div>
+          <label htmlFor="access-token-expiry" className="block text-sm font-medium text-gray-700 mb-2">
+            Expires after
+          </label>
+          <select
+            id="access-token-expiry"
+            value={expiresInDays}
+            onChange={(event) => setExpiresInDays(parseInt(event.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            {expiryOptions.map((days) => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          type="submit"
+          disabled={submitting || !name.trim() || scopes.length === 0}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Creating...' : 'Create token'}
+        </button>
+      </form>
+
+      {list.tokens.length === 0 ? (
+        <p className="text-sm text-gray-500">No access tokens yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {list.tokens.map((token) => {
+            const expired = new Date(token.expiresAt).getTime() <= Date.now();
+            return (
+              <li key={token.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="flex items-center min-w-0">
+                  <KeyIcon className="h-6 w-6 text-gray-400 shrink-0 mr-3" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {token.name}
+                      <span className="ml-2 font-mono text-xs text-gray-500">faff_pat_{token.tokenPrefix}…</span>
+                    </p>
+                    <p className="text-xs text-gray-500">{token.scopes.join(', ')}</p>
+                    <p className="text-xs text-gray-500">
+                      <span className={cn(expired && 'text-red-600 font-medium')}>
+                        {expired ? 'Expired' : 'Expires'} {formatDate(token.expiresAt)}
+                      </span>
+                      {' · '}
+                      {token.lastUsedAt
+                        ? `Last used ${formatRelativeTime(token.lastUsedAt)}${token.lastUsedIp ? ` from ${token.lastUsedIp}` : ''}`
+                        : 'Never used'}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => revokeToken(token.id, token.name)}
+                  disabled={revokingId !== null}
+                  className="shrink-0 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {revokingId === token.id ? 'Revoking...' : 'Revoke'}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
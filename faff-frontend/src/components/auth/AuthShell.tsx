@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react';
+
+interface AuthShellProps {
+  children: ReactNode;
+}
+
+// Branded frame around the signed-out pages (login, password reset, email verification)
+export default function AuthShell({ children }: AuthShellProps) {
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="text-center">
+          <h2 className="text-4xl font-display font-bold text-primary-600 mb-2">
+            Faff
+          </h2>
+          <p className="text-gray-600">Internal Ticketing & Chat System</p>
+        </div>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        {children}
+      </div>
+
+      <div className="mt-8 text-center">
+        <p className="text-xs text-gray-500">
+          © 2024 Faff. All rights reserved.
+        </p>
+      </div>
+    </div>
+  );
+}
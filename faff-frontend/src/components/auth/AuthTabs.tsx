@@ -1,16 +1,32 @@
 import { useState } from 'react';
 import { cn } from '../../utils';
+import { useAuth } from '../../contexts/AuthContext';
 import LoginForm from './LoginForm';
 import RegisterForm from './RegisterForm';
+import ForgotPasswordForm from './ForgotPasswordForm';
+import TwoFactorForm from './TwoFactorForm';
+import TwoFactorSetupForm from './TwoFactorSetupForm';
 
 export default function AuthTabs() {
-  const [activeTab, setActiveTab] = useState<'login' | 'register'>('login');
+  const { twoFactorChallenge } = useAuth();
+  const [activeTab, setActiveTab] = useState<'login' | 'register' | 'forgot'>('login');
+
+  // The password step passed; the second factor replaces the tabs until it is done or cancelled
+  if (twoFactorChallenge) {
+    return (
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-white shadow-lg rounded-lg p-8">
+          {twoFactorChallenge.twoFactorSetupRequired ? <TwoFactorSetupForm /> : <TwoFactorForm />}
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="w-full max-w-md mx-auto">
       <div className="bg-white shadow-lg rounded-lg p-8">
         {/* Tabs */}
-        <div className="flex border-b border-gray-200 mb-8">
+        <div className={cn('flex border-b border-gray-200 mb-8', activeTab === 'forgot' && 'hidden')}>
           <button
             onClick={() => setActiveTab('login')}
             className={cn(
@@ -40,12 +56,17 @@ export default function AuthTabs() {
         {/* Forms */}
         <LoginForm
           onToggleMode={() => setActiveTab('register')}
+          onForgotPassword={() => setActiveTab('forgot')}
           isActive={activeTab === 'login'}
         />
         <RegisterForm
           onToggleMode={() => setActiveTab('login')}
           isActive={activeTab === 'register'}
         />
+        <ForgotPasswordForm
+          onBack={() => setActiveTab('login')}
+          isActive={activeTab === 'forgot'}
+        />
       </div>
     </div>
   );
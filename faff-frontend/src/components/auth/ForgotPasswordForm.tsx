@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { EnvelopeIcon } from '@heroicons/react/24/outline';
+import apiService from '../../services/api';
+import { cn } from '../../utils';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email('Please enter a valid email address'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+interface ForgotPasswordFormProps {
+  onBack: () => void;
+  isActive: boolean;
+}
+
+export default function ForgotPasswordForm({ onBack, isActive }: ForgotPasswordFormProps) {
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      await apiService.forgotPassword(data.email);
+      setSentTo(data.email);
+    } catch (error) {
+      console.error('Failed to request password reset:', error);
+    }
+  };
+
+  const backToLogin = () => {
+    setSentTo(null);
+    reset();
+    onBack();
+  };
+
+  return (
+    <div className={cn('w-full', !isActive && 'hidden')}>
+      {sentTo ? (
+        <div className="text-center space-y-4">
+          <EnvelopeIcon className="mx-auto h-12 w-12 text-primary-600" />
+          <h3 className="text-lg font-semibold text-gray-900">Check your email</h3>
+          <p className="text-base text-gray-600">
+            If an account exists for <span className="font-medium">{sentTo}</span>, we've sent a link to reset
+            your password.
+          </p>
+          <button
+            type="button"
+            onClick={backToLogin}
+            className="text-base font-medium text-primary-600 hover:text-primary-500"
+          >
+            Back to login
+          </button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="text-left">
+            <h3 className="text-lg font-semibold text-gray-900">Reset your password</h3>
+            <p className="mt-1 text-base text-gray-600">
+              Enter your email and we'll send you a link to choose a new password.
+            </p>
+          </div>
+
+          <div>
+            <label htmlFor="forgot-email" className="block text-base text-gray-700 text-left">
+              Email
+            </label>
+            <input
+              {...register('email')}
+              type="email"
+              id="forgot-email"
+              className={cn(
+                'mt-2 w-full rounded-lg border px-4 py-3 text-base outline-none transition-colors',
+                'placeholder:text-gray-400',
+                'focus:border-primary-500 focus:ring-1 focus:ring-primary-500',
+                errors.email ? 'border-red-300' : 'border-gray-300'
+              )}
+              placeholder="you@example.com"
+            />
+            {errors.email && (
+              <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className={cn(
+              'w-full rounded-lg bg-primary-600 px-4 py-3 text-base font-semibold text-white',
+              'hover:bg-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2',
+              'disabled:opacity-50 disabled:cursor-not-allowed'
+            )}
+          >
+            {isSubmitting ? (
+              <div className="flex items-center justify-center">
+                <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                <span className="ml-2">Sending...</span>
+              </div>
+            ) : (
+              'Send reset link'
+            )}
+          </button>
+
+          <div className="text-center">
+            <button
+              type="button"
+              onClick={backToLogin}
+              className="text-base font-medium text-primary-600 hover:text-primary-500"
+            >
+              Back to login
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -16,10 +16,11 @@ type LoginFormData = z.infer<typeof loginSchema>;
 
 interface LoginFormProps {
   onToggleMode: () => void;
+  onForgotPassword: () => void;
   isActive: boolean;
 }
 
-export default function LoginForm({ onToggleMode, isActive }: LoginFormProps) {
+export default function LoginForm({ onToggleMode, onForgotPassword, isActive }: LoginFormProps) {
   const { login, state } = useAuth();
   const [showPassword, setShowPassword] = useState(false);
 
@@ -74,6 +75,7 @@ export default function LoginForm({ onToggleMode, isActive }: LoginFormProps) {
             </label>
             <button
               type="button"
+              onClick={onForgotPassword}
               className="text-base font-medium text-primary-600 hover:text-primary-500"
             >
               Forgot password?
@@ -0,0 +1,62 @@
+import { ClipboardDocumentIcon, ArrowDownTrayIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+
+interface RecoveryCodesProps {
+  codes: string[];
+}
+
+// Newly generated recovery codes; the server only keeps hashes, so this is the only time they are shown
+export default function RecoveryCodes({ codes }: RecoveryCodesProps) {
+  const copyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+      toast.error('Could not copy the codes; select and copy them instead');
+    }
+  };
+
+  const downloadCodes = () => {
+    const url = URL.createObjectURL(new Blob([`${codes.join('\n')}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'faff-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-4 text-left">
+      <p className="text-sm text-yellow-800">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose access to your
+        authenticator app. They won't be shown again.
+      </p>
+      <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900">
+        {codes.map((code) => (
+          <li key={code} className="rounded bg-white px-2 py-1 text-center border border-yellow-100">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 flex gap-2">
+        <button
+          type="button"
+          onClick={copyCodes}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          <ClipboardDocumentIcon className="h-4 w-4 mr-1.5" />
+          Copy
+        </button>
+        <button
+          type="button"
+          onClick={downloadCodes}
+          className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          <ArrowDownTrayIcon className="h-4 w-4 mr-1.5" />
+          Download
+        </button>
+      </div>
+    </div>
+  );
+}
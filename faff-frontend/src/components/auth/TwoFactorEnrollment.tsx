@@ -0,0 +1,71 @@
+import { useState, type FormEvent } from 'react';
+import type { TwoFactorSetup } from '../../types';
+import { cn } from '../../utils';
+
+interface TwoFactorEnrollmentProps {
+  setup: TwoFactorSetup;
+  // Confirms the first code from the app; rejects when the code is wrong
+  onConfirm: (code: string) => Promise<void>;
+}
+
+// QR code and secret of a new TOTP setup, with the code that turns it on
+export default function TwoFactorEnrollment({ setup, onConfirm }: TwoFactorEnrollmentProps) {
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      await onConfirm(code.trim());
+    } catch (error) {
+      console.error('Failed to enable two-factor authentication:', error);
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 text-left">
+      <ol className="list-decimal pl-5 space-y-1 text-sm text-gray-600">
+        <li>Scan the QR code with an authenticator app such as Google Authenticator, 1Password or Authy.</li>
+        <li>Enter the 6-digit code the app shows.</li>
+      </ol>
+
+      <div className="flex flex-col items-center gap-2">
+        <img src={setup.qrCode} alt="QR code for your authenticator app" className="h-48 w-48 border border-gray-200 rounded-lg" />
+        <p className="text-xs text-gray-500">Can't scan it? Enter this key instead:</p>
+        <code className="text-sm font-mono tracking-wider text-gray-900 break-all text-center">{setup.secret}</code>
+      </div>
+
+      <div>
+        <label htmlFor="two-factor-enroll-code" className="block text-sm font-medium text-gray-700 mb-2">
+          Authentication code
+        </label>
+        <input
+          id="two-factor-enroll-code"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          maxLength={6}
+          placeholder="123456"
+          className="w-full px-3 py-3 border border-gray-300 rounded-lg shadow-sm font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={submitting || !/^\d{6}$/.test(code.trim())}
+        className={cn(
+          'w-full rounded-lg bg-primary-600 px-4 py-3 text-sm font-semibold text-white',
+          'hover:bg-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2',
+          'disabled:opacity-50 disabled:cursor-not-allowed'
+        )}
+      >
+        {submitting ? 'Verifying...' : 'Turn on two-factor authentication'}
+      </button>
+    </form>
+  );
+}
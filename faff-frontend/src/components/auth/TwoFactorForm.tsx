@@ -0,0 +1,93 @@
+import { useState, type FormEvent } from 'react';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../../contexts/AuthContext';
+import { cn } from '../../utils';
+
+// Second login step: a code from the authenticator app, or a recovery code
+export default function TwoFactorForm() {
+  const { verifyTwoFactor, cancelTwoFactor } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      await verifyTwoFactor(code.trim());
+    } catch (error) {
+      console.error('Two-factor verification failed:', error);
+      setCode('');
+      setSubmitting(false);
+    }
+  };
+
+  const toggleRecoveryCode = () => {
+    setUseRecoveryCode(!useRecoveryCode);
+    setCode('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="text-center">
+        <ShieldCheckIcon className="mx-auto h-12 w-12 text-primary-600" />
+        <h3 className="mt-2 text-lg font-semibold text-gray-900">Two-factor authentication</h3>
+        <p className="mt-1 text-base text-gray-600">
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      <div>
+        <label htmlFor="two-factor-code" className="block text-base text-gray-700 text-left">
+          {useRecoveryCode ? 'Recovery code' : 'Authentication code'}
+        </label>
+        <input
+          id="two-factor-code"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          maxLength={useRecoveryCode ? 20 : 6}
+          placeholder={useRecoveryCode ? 'xxxx-xxxx' : '123456'}
+          className={cn(
+            'mt-2 w-full rounded-lg border border-gray-300 px-4 py-3 text-base font-mono tracking-widest outline-none transition-colors',
+            'placeholder:text-gray-400',
+            'focus:border-primary-500 focus:ring-1 focus:ring-primary-500'
+          )}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={submitting || !code.trim()}
+        className={cn(
+          'w-full rounded-lg bg-primary-600 px-4 py-3 text-base font-semibold text-white',
+          'hover:bg-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2',
+          'disabled:opacity-50 disabled:cursor-not-allowed'
+        )}
+      >
+        {submitting ? 'Verifying...' : 'Verify'}
+      </button>
+
+      <div className="flex justify-between">
+        <button
+          type="button"
+          onClick={toggleRecoveryCode}
+          className="text-base font-medium text-primary-600 hover:text-primary-500"
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={cancelTwoFactor}
+          className="text-base font-medium text-gray-500 hover:text-gray-700"
+        >
+          Back to login
+        </button>
+      </div>
+    </form>
+  );
+}
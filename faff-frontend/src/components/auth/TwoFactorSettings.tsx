@@ -0,0 +1,233 @@
+import { useState, useEffect, type FormEvent } from 'react';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../../contexts/AuthContext';
+import apiService from '../../services/api';
+import type { TwoFactorSetup, TwoFactorStatus } from '../../types';
+import { cn, formatDate } from '../../utils';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+import RecoveryCodes from './RecoveryCodes';
+import toast from 'react-hot-toast';
+
+interface TwoFactorSettingsProps {
+  // Called after 2FA is turned on, which signs out the user's other devices
+  onEnabled: () => void;
+}
+
+// Two-factor authentication section of the profile's security tab
+export default function TwoFactorSettings({ onEnabled }: TwoFactorSettingsProps) {
+  const { refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    apiService.getTwoFactorStatus()
+      .then(setStatus)
+      .catch((error) => console.error('Failed to load two-factor status:', error));
+  }, []);
+
+  const startSetup = async () => {
+    try {
+      setSubmitting(true);
+      setRecoveryCodes(null);
+      setSetup(await apiService.setupTwoFactor());
+    } catch (error) {
+      console.error('Failed to start two-factor setup:', error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const confirmSetup = async (setupCode: string) => {
+    const result = await apiService.enableTwoFactor(setupCode);
+    setStatus(result.status);
+    setRecoveryCodes(result.recoveryCodes);
+    setSetup(null);
+    await refreshUser();
+    onEnabled();
+    toast.success('Two-factor authentication is on');
+  };
+
+  const chooseAction = (next: 'disable' | 'regenerate' | null) => {
+    setAction(next);
+    setPassword('');
+    setCode('');
+  };
+
+  const submitAction = async (event: FormEvent) => {
+    event.preventDefault();
+    try {
+      setSubmitting(true);
+      if (action === 'disable') {
+        setStatus(await apiService.disableTwoFactor(password, code.trim()));
+        setRecoveryCodes(null);
+        await refreshUser();
+        toast.success('Two-factor authentication is off');
+      } else {
+        const result = await apiService.regenerateRecoveryCodes(code.trim());
+        setStatus(result.status);
+        setRecoveryCodes(result.recoveryCodes);
+        toast.success('New recovery codes generated');
+      }
+      chooseAction(null);
+    } catch (error) {
+      console.error('Two-factor update failed:', error);
+      setCode('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="mt-10 border-t border-gray-200 pt-8">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900">Two-factor authentication</h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Ask for a code from an authenticator app as well as your password when you sign in
+          </p>
+        </div>
+        {status?.enabled && (
+          <span className="shrink-0 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+            <ShieldCheckIcon className="h-4 w-4 mr-1" />
+            On
+          </span>
+        )}
+      </div>
+
+      {recoveryCodes && (
+        <div className="mb-6 space-y-3">
+          <RecoveryCodes codes={recoveryCodes} />
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes(null)}
+            className="text-sm font-medium text-primary-600 hover:text-primary-500"
+          >
+            I've saved my codes
+          </button>
+        </div>
+      )}
+
+      {!status ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : !status.enabled ? (
+        setup ? (
+          <div className="max-w-sm space-y-3">
+            <TwoFactorEnrollment setup={setup} onConfirm={confirmSetup} />
+            <button
+              type="button"
+              onClick={() => setSetup(null)}
+              className="text-sm font-medium text-gray-500 hover:text-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {status.required && (
+              <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">
+                Your role requires two-factor authentication. Set it up now to keep signing in.
+              </p>
+            )}
+            <button
+              type="button"
+              onClick={startSetup}
+              disabled={submitting}
+              className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Set up two-factor authentication
+            </button>
+          </div>
+        )
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            On since {status.enabledAt ? formatDate(status.enabledAt) : 'unknown'} ·{' '}
+            <span className={cn(status.recoveryCodesRemaining <= 2 && 'text-red-600 font-medium')}>
+              {status.recoveryCodesRemaining} recovery {status.recoveryCodesRemaining === 1 ? 'code' : 'codes'} left
+            </span>
+          </p>
+
+          {action ? (
+            <form onSubmit={submitAction} className="max-w-sm space-y-3">
+              {action === 'disable' && (
+                <div>
+                  <label htmlFor="two-factor-password" className="block text-sm font-medium text-gray-700 mb-2">
+                    Password
+                  </label>
+                  <input
+                    id="two-factor-password"
+                    type="password"
+                    value={password}
+                    onChange={(event) => setPassword(event.target.value)}
+                    autoComplete="current-password"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                  />
+                </div>
+              )}
+              <div>
+                <label htmlFor="two-factor-action-code" className="block text-sm font-medium text-gray-700 mb-2">
+                  Authentication or recovery code
+                </label>
+                <input
+                  id="two-factor-action-code"
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  autoComplete="one-time-code"
+                  placeholder="123456"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm font-mono tracking-widest focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={submitting || !code.trim() || (action === 'disable' && !password)}
+                  className={cn(
+                    'px-4 py-2 text-sm font-medium text-white rounded-lg disabled:opacity-50 disabled:cursor-not-allowed',
+                    action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-primary-600 hover:bg-primary-700'
+                  )}
+                >
+                  {action === 'disable' ? 'Turn off' : 'Generate new codes'}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => chooseAction(null)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={() => chooseAction('regenerate')}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Generate new recovery codes
+              </button>
+              {status.required ? (
+                <span className="text-sm text-gray-500">Required for your role, so it can't be turned off</span>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => chooseAction('disable')}
+                  className="px-3 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50"
+                >
+                  Turn off
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
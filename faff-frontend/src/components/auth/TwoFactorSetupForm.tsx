@@ -0,0 +1,93 @@
+import { useState, useEffect, useRef } from 'react';
+import { ShieldCheckIcon } from '@heroicons/react/24/outline';
+import { useAuth } from '../../contexts/AuthContext';
+import apiService from '../../services/api';
+import type { AuthResponse, TwoFactorSetup } from '../../types';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
+import RecoveryCodes from './RecoveryCodes';
+import toast from 'react-hot-toast';
+
+// Enrollment during login, for users whose role requires 2FA before they get a session
+export default function TwoFactorSetupForm() {
+  const { twoFactorChallenge, completeSignIn, cancelTwoFactor } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  // Held back until the user has seen their recovery codes, since signing in leaves this page
+  const [signIn, setSignIn] = useState<AuthResponse | null>(null);
+  // Each setup request generates a new secret, so it is only requested once
+  const requested = useRef(false);
+
+  const challengeToken = twoFactorChallenge?.challengeToken;
+
+  useEffect(() => {
+    if (!challengeToken || requested.current) {
+      return;
+    }
+    requested.current = true;
+
+    apiService.setupTwoFactorLogin(challengeToken)
+      .then(setSetup)
+      .catch((error) => {
+        console.error('Failed to start two-factor setup:', error);
+        cancelTwoFactor();
+      });
+  }, [challengeToken, cancelTwoFactor]);
+
+  const confirm = async (code: string) => {
+    if (!challengeToken) {
+      return;
+    }
+    setSignIn(await apiService.enableTwoFactorLogin(challengeToken, code));
+  };
+
+  const finish = () => {
+    if (signIn) {
+      completeSignIn(signIn);
+      toast.success('Logged in successfully');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="text-center">
+        <ShieldCheckIcon className="mx-auto h-12 w-12 text-primary-600" />
+        <h3 className="mt-2 text-lg font-semibold text-gray-900">Set up two-factor authentication</h3>
+        <p className="mt-1 text-base text-gray-600">
+          {signIn
+            ? 'Two-factor authentication is on.'
+            : 'Your administrator requires two-factor authentication for your role before you can sign in.'}
+        </p>
+      </div>
+
+      {signIn ? (
+        <>
+          <RecoveryCodes codes={signIn.recoveryCodes || []} />
+          <button
+            type="button"
+            onClick={finish}
+            className="w-full rounded-lg bg-primary-600 px-4 py-3 text-base font-semibold text-white hover:bg-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+          >
+            I've saved my codes, continue
+          </button>
+        </>
+      ) : setup ? (
+        <TwoFactorEnrollment setup={setup} onConfirm={confirm} />
+      ) : (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      )}
+
+      {!signIn && (
+        <div className="text-center">
+          <button
+            type="button"
+            onClick={cancelTwoFactor}
+            className="text-base font-medium text-gray-500 hover:text-gray-700"
+          >
+            Back to login
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
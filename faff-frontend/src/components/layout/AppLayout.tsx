@@ -1,6 +1,7 @@
 import { Outlet } from 'react-router-dom';
 import Sidebar from './Sidebar';
 import Header from './Header';
+import VerifyEmailBanner from './VerifyEmailBanner';
 
 export default function AppLayout() {
   return (
@@ -11,6 +12,7 @@ export default function AppLayout() {
       {/* Main Content */}
       <div className="flex-1 flex flex-col">
         <Header />
+        <VerifyEmailBanner />
         <main className="flex-1 overflow-y-auto bg-gray-50 p-8">
           <Outlet />
         </main>
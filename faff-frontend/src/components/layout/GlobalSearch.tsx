@@ -0,0 +1,174 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MagnifyingGlassIcon, ChatBubbleLeftIcon, DocumentTextIcon } from '@heroicons/react/24/outline';
+import type { SearchResults } from '../../types';
+import apiService from '../../services/api';
+import { formatRelativeTime, getStatusColor, cn } from '../../utils';
+
+// Render a search snippet, turning <mark> sections into highlights.
+// Everything else is rendered as text, so user content can never inject markup.
+function HighlightedText({ text }: { text: string }) {
+  const parts = text.split(/(<mark>[\s\S]*?<\/mark>)/g);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.startsWith('<mark>') && part.endsWith('</mark>') ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {part.slice('<mark>'.length, -'</mark>'.length)}
+          </mark>
+        ) : (
+          <span key={index}>{part}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function GlobalSearch() {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Debounce searches while typing
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        setLoading(true);
+        const data = await apiService.search({ q: trimmed, limit: 5 });
+        if (!cancelled) {
+          setResults(data);
+          setIsOpen(true);
+        }
+      } catch {
+        if (!cancelled) setResults(null);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  // Close results when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const goTo = (path: string) => {
+    setIsOpen(false);
+    setQuery('');
+    navigate(path);
+  };
+
+  const hasResults = results && (results.tasks.results.length > 0 || results.messages.results.length > 0);
+
+  return (
+    <div ref={containerRef} className="relative w-72">
+      <div className="relative">
+        <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onFocus={() => results && setIsOpen(true)}
+          onKeyDown={(e) => e.key === 'Escape' && setIsOpen(false)}
+          placeholder="Search tasks and messages..."
+          className="w-full pl-9 pr-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+        />
+      </div>
+
+      {isOpen && results && (
+        <div className="absolute right-0 mt-2 w-[28rem] max-h-[32rem] overflow-y-auto bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          {loading && (
+            <div className="px-4 py-2 text-xs text-gray-400">Searching...</div>
+          )}
+
+          {!hasResults ? (
+            <div className="px-4 py-6 text-sm text-gray-500 text-center">
+              No results for "{results.query}"
+            </div>
+          ) : (
+            <>
+              {results.tasks.results.length > 0 && (
+                <div className="py-2">
+                  <h3 className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                    Tasks ({results.tasks.totalCount})
+                  </h3>
+                  {results.tasks.results.map(task => (
+                    <button
+                      key={`task-${task.id}`}
+                      onClick={() => goTo(`/tasks/${task.id}`)}
+                      className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                    >
+                      <div className="flex items-center space-x-2">
+                        <DocumentTextIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                        <span className="text-sm font-medium text-gray-900 truncate">
+                          <HighlightedText text={task.titleHighlight} />
+                        </span>
+                        <span className={cn('px-2 py-0.5 rounded-full text-xs flex-shrink-0', getStatusColor(task.status))}>
+                          {task.status}
+                        </span>
+                      </div>
+                      {task.snippet && (
+                        <p className="mt-1 ml-6 text-xs text-gray-600 line-clamp-2">
+                          <HighlightedText text={task.snippet} />
+                        </p>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {results.messages.results.length > 0 && (
+                <div className="py-2 border-t border-gray-100">
+                  <h3 className="px-4 py-1 text-xs font-semibold text-gray-500 uppercase tracking-wide">
+                    Messages ({results.messages.totalCount})
+                  </h3>
+                  {results.messages.results.map(message => (
+                    <button
+                      key={`message-${message.id}`}
+                      onClick={() => goTo(`/tasks/${message.taskId}?message=${message.id}`)}
+                      className="w-full text-left px-4 py-2 hover:bg-gray-50"
+                    >
+                      <div className="flex items-center space-x-2 text-xs text-gray-500">
+                        <ChatBubbleLeftIcon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                        <span className="font-medium text-gray-700">{message.senderName || 'Unknown user'}</span>
+                        <span>in</span>
+                        <span className="truncate">{message.taskTitle}</span>
+                        <span className="flex-shrink-0">· {formatRelativeTime(message.createdAt)}</span>
+                      </div>
+                      <p className="mt-1 ml-6 text-sm text-gray-700 line-clamp-2">
+                        <HighlightedText text={message.snippet} />
+                      </p>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { Link, useLocation } from 'react-router-dom';
 import { BellIcon, UserCircleIcon } from '@heroicons/react/24/outline';
 import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/useNotifications';
+import GlobalSearch from './GlobalSearch';
 
 // Map of route paths to their display names
 const routeTitles: Record<string, string> = {
@@ -8,12 +10,15 @@ const routeTitles: Record<string, string> = {
   '/tasks': 'Task Detail',
   '/profile': 'Profile',
   '/notifications': 'Notifications',
+  '/mentions': 'Mentions',
+  '/admin/users': 'Users',
   '/auth': 'Authentication'
 };
 
 export default function Header() {
   const location = useLocation();
   const { state, logout } = useAuth();
+  const { unreadCount } = useNotifications();
   
   // Get the current page title
   const currentTitle = routeTitles[location.pathname] || 'Dashboard';
@@ -29,12 +34,18 @@ export default function Header() {
           </div>
           
           <div className="flex items-center space-x-4">
+            <GlobalSearch />
+
             <Link 
               to="/notifications"
               className="p-2 text-gray-400 hover:text-gray-500 relative"
             >
               <BellIcon className="h-6 w-6" />
-              {/* Add notification badge here if needed */}
+              {unreadCount > 0 && (
+                <span className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-xs font-medium flex items-center justify-center">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
             </Link>
             
             <div className="relative">
@@ -6,10 +6,23 @@ import {
   KeyIcon,
   UserCircleIcon,
   BellIcon,
+  AtSymbolIcon,
+  ClipboardDocumentCheckIcon,
+  ChartBarIcon,
+  AdjustmentsHorizontalIcon,
+  UsersIcon,
 } from '@heroicons/react/24/outline';
 import { useAuth } from '../../contexts/AuthContext';
+import { useNotifications } from '../../contexts/useNotifications';
+import type { Permission } from '../../types';
 
-const navigation = [
+const navigation: {
+  name: string;
+  href: string;
+  icon: typeof Squares2X2Icon;
+  // Permission needed to see the link (everyone if omitted)
+  permission?: Permission;
+}[] = [
   {
     name: 'Dashboard',
     href: '/dashboard',
@@ -26,11 +39,41 @@ const navigation = [
     href: '/notifications',
     icon: BellIcon,
   },
+  {
+    name: 'Mentions',
+    href: '/mentions',
+    icon: AtSymbolIcon,
+  },
+  {
+    name: 'QA Inbox',
+    href: '/qa',
+    icon: ClipboardDocumentCheckIcon,
+    permission: 'qa.review',
+  },
+  {
+    name: 'QA Analytics',
+    href: '/qa/analytics',
+    icon: ChartBarIcon,
+    permission: 'qa.review',
+  },
+  {
+    name: 'QA Rubrics',
+    href: '/qa/rubrics',
+    icon: AdjustmentsHorizontalIcon,
+    permission: 'qa.manage',
+  },
+  {
+    name: 'Users',
+    href: '/admin/users',
+    icon: UsersIcon,
+    permission: 'user.manage',
+  },
 ];
 
 export default function Sidebar() {
   const location = useLocation();
-  const { state } = useAuth();
+  const { state, hasPermission } = useAuth();
+  const { unreadCount } = useNotifications();
   const user = state.user;
 
   return (
@@ -45,29 +88,36 @@ export default function Sidebar() {
 
       {/* Navigation */}
       <nav className="flex-1 space-y-1 px-4">
-        {navigation.map((item) => {
-          const isActive = location.pathname === item.href;
-          return (
-            <Link
-              key={item.name}
-              to={item.href}
-              className={cn(
-                'group flex items-center gap-3 rounded-lg px-4 py-3 text-base font-medium transition-colors',
-                isActive
-                  ? 'bg-gray-800 text-white'
-                  : 'text-gray-700 hover:bg-gray-50'
-              )}
-            >
-              <item.icon
+        {navigation
+          .filter((item) => !item.permission || hasPermission(item.permission))
+          .map((item) => {
+            const isActive = location.pathname === item.href;
+            return (
+              <Link
+                key={item.name}
+                to={item.href}
                 className={cn(
-                  'h-6 w-6',
-                  isActive ? 'text-white' : 'text-gray-400 group-hover:text-gray-500'
+                  'group flex items-center gap-3 rounded-lg px-4 py-3 text-base font-medium transition-colors',
+                  isActive
+                    ? 'bg-gray-800 text-white'
+                    : 'text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <item.icon
+                  className={cn(
+                    'h-6 w-6',
+                    isActive ? 'text-white' : 'text-gray-400 group-hover:text-gray-500'
+                  )}
+                />
+                {item.name}
+                {item.href === '/notifications' && unreadCount > 0 && (
+                  <span className="ml-auto rounded-full bg-red-500 px-2 py-0.5 text-xs font-medium text-white">
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </span>
                 )}
-              />
-              {item.name}
-            </Link>
-          );
-        })}
+              </Link>
+            );
+          })}
       </nav>
 
       {/* User Profile */}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import apiService from '../../services/api';
+
+// Reminds signed-in users with an unverified email to follow their verification link
+export default function VerifyEmailBanner() {
+  const { state } = useAuth();
+  const [sending, setSending] = useState(false);
+
+  if (!state.user || state.user.emailVerifiedAt) {
+    return null;
+  }
+
+  const resend = async () => {
+    try {
+      setSending(true);
+      toast.success(await apiService.resendVerification());
+    } catch (error) {
+      console.error('Failed to resend verification email:', error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200 px-8 py-2 flex items-center text-sm text-yellow-800">
+      <ExclamationTriangleIcon className="h-5 w-5 mr-2 shrink-0" />
+      <span>
+        Please verify your email address ({state.user.email}) using the link we sent you.
+      </span>
+      <button
+        type="button"
+        onClick={resend}
+        disabled={sending}
+        className="ml-2 font-medium underline hover:text-yellow-900 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {sending ? 'Sending...' : 'Resend email'}
+      </button>
+    </div>
+  );
+}
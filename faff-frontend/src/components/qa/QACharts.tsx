@@ -0,0 +1,122 @@
+import { format } from 'date-fns';
+import type { QAApprovalPeriod } from '../../types';
+
+const formatRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+interface ApprovalTrendChartProps {
+  series: QAApprovalPeriod[];
+  height?: number;
+}
+
+// Approval rate per period as a line, with the number of decided reviews as bars behind it
+export function ApprovalTrendChart({ series, height = 220 }: ApprovalTrendChartProps) {
+  if (series.length === 0) {
+    return <div className="py-12 text-center text-sm text-gray-500">No decided reviews in this range.</div>;
+  }
+
+  const width = 640;
+  const padding = { top: 12, right: 12, bottom: 28, left: 40 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const step = plotWidth / series.length;
+  const maxVolume = Math.max(...series.map(point => point.approved + point.rejected), 1);
+
+  const x = (index: number) => padding.left + step * index + step / 2;
+  const y = (rate: number) => padding.top + plotHeight * (1 - rate);
+
+  const linePoints = series
+    .map((point, index) => (point.approvalRate === null ? null : `${x(index)},${y(point.approvalRate)}`))
+    .filter(Boolean)
+    .join(' ');
+
+  // Label at most ~8 periods so the axis stays readable
+  const labelEvery = Math.ceil(series.length / 8);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Approval rate over time">
+      {[0, 0.25, 0.5, 0.75, 1].map(rate => (
+        <g key={rate}>
+          <line x1={padding.left} x2={width - padding.right} y1={y(rate)} y2={y(rate)} className="stroke-gray-100" />
+          <text x={padding.left - 6} y={y(rate) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">
+            {rate * 100}%
+          </text>
+        </g>
+      ))}
+
+      {series.map((point, index) => {
+        const volume = point.approved + point.rejected;
+        const barHeight = (volume / maxVolume) * plotHeight * 0.6;
+        return (
+          <g key={point.period}>
+            <rect
+              x={x(index) - step * 0.3}
+              y={padding.top + plotHeight - barHeight}
+              width={step * 0.6}
+              height={barHeight}
+              className="fill-gray-100"
+            >
+              <title>
+                {`${format(new Date(point.period), 'MMM d, yyyy')}: ${point.approved} approved, ${point.rejected} rejected (${formatRate(point.approvalRate)})`}
+              </title>
+            </rect>
+            {index % labelEvery === 0 && (
+              <text x={x(index)} y={height - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+                {format(new Date(point.period), 'MMM d')}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      <polyline points={linePoints} fill="none" className="stroke-primary-600" strokeWidth={2} />
+      {series.map((point, index) => point.approvalRate !== null && (
+        <circle key={point.period} cx={x(index)} cy={y(point.approvalRate)} r={3} className="fill-primary-600" />
+      ))}
+    </svg>
+  );
+}
+
+// Small approval rate trend for table rows
+export function ApprovalSparkline({ series }: { series: QAApprovalPeriod[] }) {
+  const points = series.filter(point => point.approvalRate !== null);
+  if (points.length < 2) {
+    return <span className="text-xs text-gray-400">–</span>;
+  }
+
+  const width = 96;
+  const height = 24;
+  const coordinates = points
+    .map((point, index) => `${(index / (points.length - 1)) * width},${height - 2 - (point.approvalRate as number) * (height - 4)}`)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} width={width} height={height} aria-hidden="true">
+      <polyline points={coordinates} fill="none" className="stroke-primary-500" strokeWidth={1.5} />
+    </svg>
+  );
+}
+
+interface BarListProps {
+  items: { key: string; label: string; value: number }[];
+}
+
+// Horizontal bars scaled to the largest value
+export function BarList({ items }: BarListProps) {
+  const max = Math.max(...items.map(item => item.value), 1);
+
+  return (
+    <ul className="space-y-2">
+      {items.map(item => (
+        <li key={item.key} className="text-sm">
+          <div className="flex justify-between mb-1">
+            <span className="text-gray-700">{item.label}</span>
+            <span className="font-medium text-gray-900">{item.value}</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100">
+            <div className="h-2 rounded-full bg-red-400" style={{ width: `${(item.value / max) * 100}%` }} />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,41 @@
+import type { QAReview } from '../../types';
+import { cn } from '../../utils';
+
+interface QAScoresProps {
+  review: QAReview;
+}
+
+// Per-criterion scores the QA model gave a message, with its overall verdict
+export default function QAScores({ review }: QAScoresProps) {
+  if (review.scores.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-3 rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-medium text-gray-700">AI review</span>
+        <span className="text-gray-600">
+          {review.overallScore !== null && <>{review.overallScore.toFixed(1)}/10</>}
+          {review.aiStatus && (
+            <span className={cn(
+              'ml-2 rounded-full px-2 py-0.5 text-xs font-medium',
+              review.aiStatus === 'approved' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+            )}>
+              {review.aiStatus === 'approved' ? 'Would approve' : 'Would reject'}
+            </span>
+          )}
+        </span>
+      </div>
+      <ul className="space-y-1">
+        {review.scores.map(score => (
+          <li key={score.key} className="text-gray-700">
+            <span className={cn('font-medium', !score.passed && 'text-red-700')}>{score.name}</span>
+            <span className="text-gray-500"> ({score.score}/10{score.weight !== 1 ? `, weight ${score.weight}` : ''})</span>
+            {score.explanation && <span>: {score.explanation}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import type { DraftCheck, User } from '../../types';
+import MessageContent from './MessageContent';
+import { cn } from '../../utils';
+
+interface DraftCheckPanelProps {
+  check: DraftCheck;
+  users: User[];
+  currentUserId?: number;
+  // True when the composer no longer holds the checked draft
+  draftChanged: boolean;
+  onSendRewrite: () => void;
+  onEditRewrite: () => void;
+  onSendDraft: () => void;
+  onDismiss: () => void;
+}
+
+// Result of a pre-send quality check, shown above the composer
+export default function DraftCheckPanel({
+  check,
+  users,
+  currentUserId,
+  draftChanged,
+  onSendRewrite,
+  onEditRewrite,
+  onSendDraft,
+  onDismiss,
+}: DraftCheckPanelProps) {
+  const issues = check.scores.filter(score => !score.passed);
+
+  return (
+    <div className={cn(
+      'mb-3 rounded-lg border p-3 text-sm',
+      check.passed ? 'border-green-200 bg-green-50' : 'border-amber-200 bg-amber-50'
+    )}>
+      <div className="flex items-center justify-between mb-1">
+        <span className={cn('font-medium', check.passed ? 'text-green-800' : 'text-amber-800')}>
+          {check.passed ? 'Looks good' : 'Worth another look'} · {check.overallScore.toFixed(1)}/10
+        </span>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600" title="Hide">
+          ×
+        </button>
+      </div>
+
+      {check.feedback && <p className="text-gray-700">{check.feedback}</p>}
+
+      {issues.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {issues.map(issue => (
+            <li key={issue.key} className="text-gray-700">
+              <span className="font-medium">{issue.name}</span>
+              <span className="text-gray-500"> ({issue.score}/10)</span>
+              {issue.explanation && <span>: {issue.explanation}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {check.suggestedRewrite && (
+        <div className="mt-3">
+          <p className="text-xs font-medium text-gray-500 mb-1">Suggested rewrite</p>
+          <div className="rounded-md border border-gray-200 bg-white px-3 py-2">
+            <MessageContent
+              content={check.suggestedRewrite}
+              mentionedUserIds={users.map(u => u.id)}
+              users={users}
+              currentUserId={currentUserId}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="mt-3 flex justify-end gap-2">
+        <button
+          onClick={onSendDraft}
+          className="px-3 py-1.5 rounded-md text-gray-700 hover:bg-white"
+        >
+          {draftChanged ? 'Send my edit' : 'Send draft anyway'}
+        </button>
+        {check.suggestedRewrite && (
+          <>
+            <button
+              onClick={onEditRewrite}
+              className="px-3 py-1.5 rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50"
+            >
+              Edit rewrite
+            </button>
+            <button
+              onClick={onSendRewrite}
+              className="px-3 py-1.5 rounded-md bg-primary-600 text-white hover:bg-primary-700"
+            >
+              Send rewrite
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
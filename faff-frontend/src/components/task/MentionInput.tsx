@@ -0,0 +1,109 @@
+import { useState, useRef, type KeyboardEvent } from 'react';
+import type { User } from '../../types';
+import { cn } from '../../utils';
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: User[];
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+}
+
+// Matches an in-progress "@query" right before the caret
+const MENTION_QUERY_PATTERN = /(^|[^\w@])@([\w.'-]*(?: [\w.'-]*)?)$/;
+const MAX_SUGGESTIONS = 6;
+
+export default function MentionInput({ value, onChange, users, placeholder, rows = 3, className }: MentionInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = query === null
+    ? []
+    : users
+        .filter(user => user.name.toLowerCase().startsWith(query.toLowerCase()) ||
+          user.name.toLowerCase().split(' ').some(part => part.startsWith(query.toLowerCase())))
+        .slice(0, MAX_SUGGESTIONS);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+    setQuery(match ? match[2] : null);
+    setActiveIndex(0);
+  };
+
+  const insertMention = (user: User) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+
+    const caret = textarea.selectionStart;
+    const before = value.slice(0, caret).replace(/@[^@]*$/, `@${user.name} `);
+    const after = value.slice(caret);
+    onChange(before + after);
+    setQuery(null);
+
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Enter' || event.key === 'Tab') {
+      event.preventDefault();
+      insertMention(suggestions[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+        placeholder={placeholder}
+        rows={rows}
+        className={className}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute bottom-full mb-1 left-0 w-64 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1">
+          {suggestions.map((user, index) => (
+            <li key={user.id}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(user);
+                }}
+                className={cn(
+                  'w-full text-left px-3 py-2 text-sm',
+                  index === activeIndex ? 'bg-primary-50 text-primary-700' : 'text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                <span className="font-medium">{user.name}</span>
+                <span className="ml-2 text-xs text-gray-500">{user.email}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeHighlight from 'rehype-highlight';
+import 'highlight.js/styles/github.css';
+import type { User } from '../../types';
+import { cn } from '../../utils';
+
+interface MessageContentProps {
+  content: string;
+  mentionedUserIds?: number[];
+  users: User[];
+  currentUserId?: number;
+  className?: string;
+}
+
+// Minimal hast shapes used by the mention plugin below
+interface HastText {
+  type: 'text';
+  value: string;
+}
+
+interface HastElement {
+  type: 'element';
+  tagName: string;
+  properties: Record<string, unknown>;
+  children: HastNode[];
+}
+
+type HastNode = HastText | HastElement | { type: string; children?: HastNode[] };
+
+// Only the markdown subset we support is allowed through; everything else
+// (raw HTML, images, tables, headings) is dropped before rendering
+const ALLOWED_ELEMENTS = [
+  'p', 'br', 'strong', 'em', 'del', 'a', 'code', 'pre', 'blockquote', 'ul', 'ol', 'li', 'span',
+];
+
+const sanitizeSchema = {
+  ...defaultSchema,
+  tagNames: ALLOWED_ELEMENTS,
+  attributes: {
+    ...defaultSchema.attributes,
+    // Keep "language-xyz" on code blocks so they can be highlighted
+    code: [['className', /^language-./]],
+  },
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// rehype plugin that wraps @mentions of the given users in styled spans,
+// skipping code so mentions inside snippets stay verbatim
+function rehypeMentions(options: { users: User[]; currentUserId?: number }) {
+  const { users, currentUserId } = options;
+
+  return (tree: HastNode) => {
+    if (users.length === 0) return;
+
+    const names = [...users]
+      .sort((a, b) => b.name.length - a.name.length)
+      .map(user => escapeRegExp(user.name));
+    const pattern = new RegExp(`@(${names.join('|')})(?![\\w])`, 'gi');
+
+    const splitText = (node: HastText): HastNode[] => {
+      const parts: HastNode[] = [];
+      let lastIndex = 0;
+      let match: RegExpExecArray | null;
+      pattern.lastIndex = 0;
+
+      while ((match = pattern.exec(node.value)) !== null) {
+        const name = match[1].toLowerCase();
+        const user = users.find(mentioned => mentioned.name.toLowerCase() === name);
+
+        if (match.index > lastIndex) {
+          parts.push({ type: 'text', value: node.value.slice(lastIndex, match.index) });
+        }
+        parts.push({
+          type: 'element',
+          tagName: 'span',
+          properties: {
+            className: user?.id === currentUserId
+              ? ['rounded', 'px-1', 'bg-yellow-100', 'text-yellow-900', 'font-medium']
+              : ['rounded', 'px-1', 'bg-primary-50', 'text-primary-700', 'font-medium'],
+          },
+          children: [{ type: 'text', value: match[0] }],
+        });
+        lastIndex = match.index + match[0].length;
+      }
+
+      if (lastIndex === 0) return [node];
+      if (lastIndex < node.value.length) {
+        parts.push({ type: 'text', value: node.value.slice(lastIndex) });
+      }
+      return parts;
+    };
+
+    const visit = (node: HastNode) => {
+      if (!('children' in node) || !node.children) return;
+      if (node.type === 'element' && ['code', 'pre', 'a'].includes((node as HastElement).tagName)) return;
+
+      node.children = node.children.flatMap(child =>
+        child.type === 'text' ? splitText(child as HastText) : (visit(child), [child])
+      );
+    };
+
+    visit(tree);
+  };
+}
+
+const markdownComponents: Components = {
+  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-primary-600 underline hover:text-primary-700">
+      {children}
+    </a>
+  ),
+  ul: ({ children }) => <ul className="list-disc pl-5 mb-2 space-y-1">{children}</ul>,
+  ol: ({ children }) => <ol className="list-decimal pl-5 mb-2 space-y-1">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-4 border-gray-300 pl-3 my-2 text-gray-600">{children}</blockquote>
+  ),
+  pre: ({ children }) => (
+    <pre className="my-2 overflow-x-auto rounded-lg bg-gray-50 border border-gray-200 p-3 text-sm">{children}</pre>
+  ),
+  code: ({ className, children }) => {
+    // Fenced blocks carry a language class or span several lines; the rest is inline code
+    const isBlock = Boolean(className) || String(children).includes('\n');
+    return isBlock
+      ? <code className={cn(className, 'font-mono')}>{children}</code>
+      : <code className="rounded bg-gray-100 px-1 py-0.5 font-mono text-sm text-gray-800">{children}</code>;
+  },
+};
+
+export default function MessageContent({ content, mentionedUserIds = [], users, currentUserId, className }: MessageContentProps) {
+  const mentionedUsers = users.filter(user => mentionedUserIds.includes(user.id));
+
+  return (
+    <div className={cn('text-gray-700 break-words', className)}>
+      <ReactMarkdown
+        skipHtml
+        allowedElements={ALLOWED_ELEMENTS}
+        unwrapDisallowed
+        rehypePlugins={[
+          [rehypeSanitize, sanitizeSchema],
+          [rehypeHighlight, { detect: false }],
+          [rehypeMentions, { users: mentionedUsers, currentUserId }],
+        ]}
+        components={markdownComponents}
+      >
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+}
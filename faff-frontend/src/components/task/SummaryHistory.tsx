@@ -0,0 +1,208 @@
+import { useState, useEffect } from 'react';
+import type { SummaryVersion } from '../../types';
+import apiService from '../../services/api';
+import { formatFullDate, cn } from '../../utils';
+
+interface SummaryHistoryProps {
+  taskId: number;
+  // Changes whenever the current summary changes, so the list reloads
+  summaryUpdatedAt?: string;
+}
+
+type DiffPart = { type: 'same' | 'added' | 'removed'; text: string };
+
+// Word-level diff (longest common subsequence); summaries are short enough for O(n*m)
+function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      parts.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+function TextDiff({ before, after }: { before: string; after: string }) {
+  if (before === after) {
+    return <p className="text-sm text-gray-500">{after || 'Empty'} <span className="text-xs">(unchanged)</span></p>;
+  }
+
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+      {diffWords(before, after).map((part, index) => (
+        <span
+          key={index}
+          className={cn(
+            part.type === 'added' && 'bg-green-100 text-green-800',
+            part.type === 'removed' && 'bg-red-100 text-red-800 line-through'
+          )}
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function ListDiff({ before, after }: { before: string[]; after: string[] }) {
+  const removed = before.filter(item => !after.includes(item));
+
+  if (before.length === 0 && after.length === 0) {
+    return <p className="text-sm text-gray-500">Empty</p>;
+  }
+
+  return (
+    <ul className="text-sm space-y-1">
+      {after.map((item, index) => (
+        <li
+          key={`after-${index}`}
+          className={cn('pl-2 border-l-2', before.includes(item) ? 'border-gray-200 text-gray-700' : 'border-green-400 bg-green-50 text-green-800')}
+        >
+          {item}
+        </li>
+      ))}
+      {removed.map((item, index) => (
+        <li key={`removed-${index}`} className="pl-2 border-l-2 border-red-400 bg-red-50 text-red-800 line-through">
+          {item}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+const describeVersion = (version: SummaryVersion) =>
+  `v${version.version} · ${version.source === 'ai' ? 'AI' : 'Manual'} · ${formatFullDate(version.createdAt)}`;
+
+export default function SummaryHistory({ taskId, summaryUpdatedAt }: SummaryHistoryProps) {
+  const [versions, setVersions] = useState<SummaryVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const [compareId, setCompareId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        setLoading(true);
+        const response = await apiService.getSummaryVersions(taskId, { limit: 50 });
+        setVersions(response.versions);
+        // Default to comparing the latest version with the one before it
+        setCompareId(response.versions[0]?.id ?? null);
+        setBaseId(response.versions[1]?.id ?? response.versions[0]?.id ?? null);
+      } catch {
+        setVersions([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadVersions();
+  }, [taskId, summaryUpdatedAt]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  if (versions.length === 0) {
+    return <p className="text-sm text-gray-500">No earlier versions.</p>;
+  }
+
+  const base = versions.find(version => version.id === baseId) || versions[0];
+  const compare = versions.find(version => version.id === compareId) || versions[0];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-500">Compare</span>
+        <select
+          value={base.id}
+          onChange={(e) => setBaseId(parseInt(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{describeVersion(version)}</option>
+          ))}
+        </select>
+        <span className="text-gray-500">with</span>
+        <select
+          value={compare.id}
+          onChange={(e) => setCompareId(parseInt(e.target.value))}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          {versions.map(version => (
+            <option key={version.id} value={version.id}>{describeVersion(version)}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="text-xs text-gray-500 space-y-1">
+        {[base, compare].map((version, index) => (
+          <p key={index}>
+            <span className="font-medium text-gray-700">v{version.version}</span>
+            {' '}by {version.createdBy?.name || 'System'}
+            {version.model && <> · model {version.model}</>}
+            {version.fromMessageId !== null && version.toMessageId !== null && (
+              <> · messages #{version.fromMessageId}–#{version.toMessageId} ({version.messageCount})</>
+            )}
+          </p>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Overview</h4>
+          <TextDiff before={base.content} after={compare.content} />
+        </div>
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Issue</h4>
+          <TextDiff before={base.issue || ''} after={compare.issue || ''} />
+        </div>
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Investigation</h4>
+          <TextDiff before={base.investigation || ''} after={compare.investigation || ''} />
+        </div>
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Key points</h4>
+          <ListDiff before={base.keyPoints} after={compare.keyPoints} />
+        </div>
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 uppercase mb-1">Next steps</h4>
+          <ListDiff before={base.nextSteps} after={compare.nextSteps} />
+        </div>
+      </div>
+    </div>
+  );
+}
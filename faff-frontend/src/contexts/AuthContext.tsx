@@ -1,5 +1,14 @@
-import { createContext, useContext, useReducer, useEffect, type ReactNode } from 'react';
-import type { User, AuthState, LoginCredentials, RegisterCredentials } from '../types';
+import { createContext, useContext, useReducer, useEffect, useRef, useCallback, useState, type ReactNode } from 'react';
+import axios from 'axios';
+import type {
+  User,
+  AuthState,
+  AuthResponse,
+  TwoFactorChallenge,
+  LoginCredentials,
+  RegisterCredentials,
+  Permission,
+} from '../types';
 import apiService from '../services/api';
 import socketService from '../services/socket';
 import toast from 'react-hot-toast';
@@ -8,8 +17,16 @@ interface AuthContextType {
   state: AuthState;
   login: (credentials: LoginCredentials) => Promise<void>;
   register: (credentials: RegisterCredentials) => Promise<void>;
-  logout: () => void;
+  // Set while login or register waits for a 2FA code or enrollment
+  twoFactorChallenge: TwoFactorChallenge | null;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
+  // Start the session from tokens fetched elsewhere, e.g. after enrolling in 2FA during login
+  completeSignIn: (response: AuthResponse) => void;
+  logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  // Whether the signed-in user's role grants the permission; use it to hide actions
+  hasPermission: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -56,8 +73,80 @@ interface AuthProviderProps {
   children: ReactNode;
 }
 
+const storeTokens = (token: string, refreshToken: string) => {
+  localStorage.setItem('token', token);
+  localStorage.setItem('refreshToken', refreshToken);
+};
+
 export function AuthProvider({ children }: AuthProviderProps) {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<TwoFactorChallenge | null>(null);
+  // Concurrent 401s share one refresh, since each refresh token works only once
+  const refreshPromise = useRef<Promise<string | null> | null>(null);
+
+  const endSession = useCallback((message?: string) => {
+    localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
+    socketService.disconnect();
+    dispatch({ type: 'LOGOUT' });
+    if (message) {
+      toast.error(message);
+    }
+  }, []);
+
+  // Trade the refresh token for a new access token; signs the user out if the session is over
+  const refreshSession = useCallback((): Promise<string | null> => {
+    if (!refreshPromise.current) {
+      refreshPromise.current = (async () => {
+        const refreshToken = localStorage.getItem('refreshToken');
+        if (!refreshToken) {
+          endSession();
+          return null;
+        }
+
+        try {
+          const tokens = await apiService.refreshSession(refreshToken);
+          storeTokens(tokens.token, tokens.refreshToken);
+          dispatch({ type: 'SET_TOKEN', payload: tokens.token });
+          return tokens.token;
+        } catch (error) {
+          // Another tab may have used the refresh token first and stored the new pair
+          if (localStorage.getItem('refreshToken') !== refreshToken) {
+            return localStorage.getItem('token');
+          }
+          // Keep the session through network errors; only a rejected token ends it
+          if (axios.isAxiosError(error) && error.response?.status === 401) {
+            endSession('Your session has expired. Please log in again.');
+          }
+          return null;
+        } finally {
+          refreshPromise.current = null;
+        }
+      })();
+    }
+    return refreshPromise.current;
+  }, [endSession]);
+
+  const refreshUser = useCallback(async () => {
+    try {
+      const user = await apiService.getCurrentUser();
+      dispatch({ type: 'SET_USER', payload: user });
+    } catch (error) {
+      console.error('Failed to refresh user:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    apiService.setRefreshHandler(refreshSession);
+    socketService.setAuthHandlers({
+      refreshToken: refreshSession,
+      onSessionRevoked: () => endSession('This device was signed out'),
+      onRoleChanged: () => {
+        refreshUser();
+        toast('Your role was changed by an administrator');
+      },
+    });
+  }, [refreshSession, endSession, refreshUser]);
 
   useEffect(() => {
     const initAuth = async () => {
@@ -72,8 +161,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
           // Connect to socket
           socketService.connect(token);
         } catch (error) {
-          localStorage.removeItem('token');
-          dispatch({ type: 'LOGOUT' });
+          endSession();
         }
       } else {
         dispatch({ type: 'SET_LOADING', payload: false });
@@ -81,6 +169,17 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
 
     initAuth();
+  }, [endSession]);
+
+  const completeSignIn = useCallback((response: AuthResponse) => {
+    storeTokens(response.token, response.refreshToken);
+    setTwoFactorChallenge(null);
+
+    dispatch({ type: 'SET_TOKEN', payload: response.token });
+    dispatch({ type: 'SET_USER', payload: response.user });
+
+    // Connect to socket
+    socketService.connect(response.token);
   }, []);
 
   const login = async (credentials: LoginCredentials) => {
@@ -88,15 +187,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
       dispatch({ type: 'SET_LOADING', payload: true });
       const response = await apiService.login(credentials);
       console.log("response", response);
-      
-      localStorage.setItem('token', response.token);
-
-      dispatch({ type: 'SET_TOKEN', payload: response.token });
-      dispatch({ type: 'SET_USER', payload: response.user });
-      
-      // Connect to socket
-      socketService.connect(response.token);
-      
+
+      // The password was right, but a second factor is needed before there is a session
+      if ('challengeToken' in response) {
+        setTwoFactorChallenge(response);
+        dispatch({ type: 'SET_LOADING', payload: false });
+        return;
+      }
+
+      completeSignIn(response);
       toast.success('Logged in successfully');
     } catch (error) {
       dispatch({ type: 'SET_LOADING', payload: false });
@@ -108,14 +207,16 @@ export function AuthProvider({ children }: AuthProviderProps) {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
       const response = await apiService.register(credentials);
-      
-      localStorage.setItem('token', response.token);
-      dispatch({ type: 'SET_TOKEN', payload: response.token });
-      dispatch({ type: 'SET_USER', payload: response.user });
-      
-      // Connect to socket
-      socketService.connect(response.token);
-      
+
+      // New accounts in a role that requires 2FA set it up before getting a session
+      if ('challengeToken' in response) {
+        setTwoFactorChallenge(response);
+        dispatch({ type: 'SET_LOADING', payload: false });
+        toast.success('Account created successfully');
+        return;
+      }
+
+      completeSignIn(response);
       toast.success('Account created successfully');
     } catch (error) {
       dispatch({ type: 'SET_LOADING', payload: false });
@@ -123,28 +224,47 @@ export function AuthProvider({ children }: AuthProviderProps) {
     }
   };
 
-  const logout = () => {
-    localStorage.removeItem('token');
-    socketService.disconnect();
-    dispatch({ type: 'LOGOUT' });
-    toast.success('Logged out successfully');
+  const verifyTwoFactor = async (code: string) => {
+    if (!twoFactorChallenge) {
+      return;
+    }
+
+    const response = await apiService.verifyTwoFactorLogin(twoFactorChallenge.challengeToken, code);
+    completeSignIn(response);
+    toast.success('Logged in successfully');
+
+    if (response.recoveryCodesRemaining !== undefined) {
+      toast(`You used a recovery code. ${response.recoveryCodesRemaining} left; generate new ones on your profile.`);
+    }
   };
 
-  const refreshUser = async () => {
+  const cancelTwoFactor = useCallback(() => setTwoFactorChallenge(null), []);
+
+  const logout = async () => {
     try {
-      const user = await apiService.getCurrentUser();
-      dispatch({ type: 'SET_USER', payload: user });
+      // Revoke the session so its refresh token cannot be used again
+      await apiService.logout();
     } catch (error) {
-      console.error('Failed to refresh user:', error);
+      console.error('Failed to revoke session:', error);
     }
+    endSession();
+    toast.success('Logged out successfully');
   };
 
+  const hasPermission = (permission: Permission) =>
+    !!state.user?.permissions?.includes(permission);
+
   const value: AuthContextType = {
     state,
     login,
     register,
+    twoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    completeSignIn,
     logout,
     refreshUser,
+    hasPermission,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -0,0 +1,55 @@
+import { useState, useEffect, type ReactNode } from 'react';
+import type { Notification } from '../types';
+import apiService from '../services/api';
+import socketService from '../services/socket';
+import { useAuth } from './AuthContext';
+import { NotificationContext, type NotificationContextType } from './useNotifications';
+import toast from 'react-hot-toast';
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+export function NotificationProvider({ children }: NotificationProviderProps) {
+  const { state: authState } = useAuth();
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [latestNotification, setLatestNotification] = useState<Notification | null>(null);
+
+  useEffect(() => {
+    if (!authState.isAuthenticated) {
+      setUnreadCount(0);
+      return;
+    }
+
+    apiService.getUnreadNotificationCount()
+      .then(setUnreadCount)
+      .catch((error) => console.error('Failed to load notification count:', error));
+
+    const handleNotification = (data: { notification: Notification; unreadCount: number }) => {
+      setUnreadCount(data.unreadCount);
+      setLatestNotification(data.notification);
+      toast(data.notification.content, { icon: '🔔' });
+    };
+
+    const handleNotificationsRead = (data: { unreadCount: number }) => {
+      setUnreadCount(data.unreadCount);
+    };
+
+    socketService.onNotification(handleNotification);
+    socketService.onNotificationsRead(handleNotificationsRead);
+
+    return () => {
+      socketService.offNotification(handleNotification);
+      socketService.offNotificationsRead(handleNotificationsRead);
+    };
+  }, [authState.isAuthenticated]);
+
+  const value: NotificationContextType = {
+    unreadCount,
+    setUnreadCount,
+    latestNotification,
+  };
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+}
+
@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { Notification } from '../types';
+
+export interface NotificationContextType {
+  unreadCount: number;
+  setUnreadCount: (count: number) => void;
+  // Latest notification pushed over the socket, so open pages can prepend it
+  latestNotification: Notification | null;
+}
+
+export const NotificationContext = createContext<NotificationContextType | undefined>(undefined);
+
+export function useNotifications() {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+}
@@ -0,0 +1,607 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import toast from 'react-hot-toast';
+import { UserPlusIcon, UsersIcon, MagnifyingGlassIcon, ShieldCheckIcon, CpuChipIcon } from '@heroicons/react/24/outline';
+import type { ManagedUser, UserRole, CreateAccessTokenData } from '../types';
+import apiService from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { cn, getRoleLabel, formatRelativeTime } from '../utils';
+import AccessTokenManager from '../components/auth/AccessTokenManager';
+
+const ROLES: UserRole[] = ['admin', 'lead', 'operator', 'qa_reviewer', 'requester'];
+
+// Service accounts act through scoped tokens, so they are never admins
+const SERVICE_ACCOUNT_ROLES = ROLES.filter(role => role !== 'admin');
+
+const inviteSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  email: z.string().email('Please enter a valid email address'),
+  role: z.enum(['admin', 'lead', 'operator', 'qa_reviewer', 'requester']),
+});
+
+type InviteFormData = z.infer<typeof inviteSchema>;
+
+const serviceAccountSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  role: z.enum(['lead', 'operator', 'qa_reviewer', 'requester']),
+});
+
+type ServiceAccountFormData = z.infer<typeof serviceAccountSchema>;
+
+// Access tokens of one service account
+function ServiceAccountTokens({ userId }: { userId: number }) {
+  const load = useCallback(() => apiService.getServiceAccountTokens(userId), [userId]);
+  const create = useCallback((data: CreateAccessTokenData) => apiService.createServiceAccountToken(userId, data), [userId]);
+  const revoke = useCallback((tokenId: number) => apiService.revokeServiceAccountToken(userId, tokenId), [userId]);
+
+  return <AccessTokenManager load={load} create={create} revoke={revoke} />;
+}
+
+export default function AdminUsersPage() {
+  const { state: authState, refreshUser } = useAuth();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [showDeactivated, setShowDeactivated] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const [showServiceAccount, setShowServiceAccount] = useState(false);
+  // Service account whose access tokens are open
+  const [tokensUserId, setTokensUserId] = useState<number | null>(null);
+  const [busyUserId, setBusyUserId] = useState<number | null>(null);
+  // User whose open tasks are being handed over, and who gets them ('' = unassign)
+  const [reassigningId, setReassigningId] = useState<number | null>(null);
+  const [reassignTo, setReassignTo] = useState('');
+  // Roles that must use 2FA: as saved, and as being edited
+  const [requiredRoles, setRequiredRoles] = useState<UserRole[]>([]);
+  const [policyDraft, setPolicyDraft] = useState<UserRole[] | null>(null);
+  const [savingPolicy, setSavingPolicy] = useState(false);
+
+  const inviteForm = useForm<InviteFormData>({
+    resolver: zodResolver(inviteSchema),
+    defaultValues: { role: 'operator' },
+  });
+
+  const serviceAccountForm = useForm<ServiceAccountFormData>({
+    resolver: zodResolver(serviceAccountSchema),
+    defaultValues: { role: 'operator' },
+  });
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setLoading(true);
+      setUsers(await apiService.getManagedUsers());
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+    apiService.getTwoFactorPolicy()
+      .then(setRequiredRoles)
+      .catch((error) => console.error('Failed to load two-factor policy:', error));
+  }, [loadUsers]);
+
+  const updateUser = (userId: number, changes: Partial<ManagedUser>) => {
+    setUsers(prev => prev.map(user => (user.id === userId ? { ...user, ...changes } : user)));
+  };
+
+  // Run an action on one user, disabling that row while it runs
+  const runAction = async (userId: number, action: () => Promise<void>) => {
+    try {
+      setBusyUserId(userId);
+      await action();
+    } catch (error) {
+      console.error('User action failed:', error);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const onInvite = async (data: InviteFormData) => {
+    try {
+      const { user, message, emailSent } = await apiService.inviteUser({
+        name: data.name,
+        email: data.email,
+        role: data.role,
+      });
+      setUsers(prev => [...prev, user].sort((a, b) => a.name.localeCompare(b.name)));
+      inviteForm.reset({ name: '', email: '', role: 'operator' });
+      setShowInvite(false);
+      if (emailSent) {
+        toast.success(message);
+      } else {
+        toast.error(message);
+      }
+    } catch (error) {
+      console.error('Failed to invite user:', error);
+    }
+  };
+
+  const onCreateServiceAccount = async (data: ServiceAccountFormData) => {
+    try {
+      const user = await apiService.createServiceAccount({ name: data.name, role: data.role });
+      setUsers(prev => [...prev, user].sort((a, b) => a.name.localeCompare(b.name)));
+      serviceAccountForm.reset({ name: '', role: 'operator' });
+      setShowServiceAccount(false);
+      // Straight to its tokens, since the account can do nothing without one
+      setTokensUserId(user.id);
+      toast.success(`Service account ${user.name} created`);
+    } catch (error) {
+      console.error('Failed to create service account:', error);
+    }
+  };
+
+  const changeRole = (user: ManagedUser, role: UserRole) =>
+    runAction(user.id, async () => {
+      const updated = await apiService.updateUserRole(user.id, role);
+      updateUser(user.id, { role: updated.role });
+      // Changing your own role changes what you can see here
+      if (user.id === authState.user?.id) {
+        await refreshUser();
+      }
+      toast.success(`${user.name} is now ${getRoleLabel(role)}`);
+    });
+
+  const deactivate = (user: ManagedUser) => {
+    const warning = user.openTaskCount > 0
+      ? ` They still have ${user.openTaskCount} open task(s); consider reassigning them first.`
+      : '';
+    if (!window.confirm(`Deactivate ${user.name}? They will be signed out everywhere, their access tokens revoked and they will be unable to log in.${warning}`)) {
+      return;
+    }
+
+    runAction(user.id, async () => {
+      const updated = await apiService.deactivateUser(user.id);
+      updateUser(user.id, { deactivatedAt: updated.deactivatedAt });
+      if (tokensUserId === user.id) {
+        setTokensUserId(null);
+      }
+      toast.success(`${user.name} was deactivated`);
+    });
+  };
+
+  const reactivate = (user: ManagedUser) =>
+    runAction(user.id, async () => {
+      const updated = await apiService.reactivateUser(user.id);
+      updateUser(user.id, { deactivatedAt: updated.deactivatedAt });
+      toast.success(`${user.name} was reactivated`);
+    });
+
+  const resetPassword = (user: ManagedUser) => {
+    if (!window.confirm(`Reset ${user.name}'s password? Their current password stops working and they will be signed out everywhere.`)) {
+      return;
+    }
+
+    runAction(user.id, async () => {
+      toast.success(await apiService.resetUserPassword(user.id));
+    });
+  };
+
+  const resetTwoFactor = (user: ManagedUser) => {
+    if (!window.confirm(`Turn off two-factor authentication for ${user.name}? They will be signed out everywhere and can sign in with just their password${requiredRoles.includes(user.role) ? ', then set it up again' : ''}.`)) {
+      return;
+    }
+
+    runAction(user.id, async () => {
+      toast.success(await apiService.resetUserTwoFactor(user.id));
+      updateUser(user.id, { twoFactorEnabledAt: null });
+    });
+  };
+
+  const togglePolicyRole = (role: UserRole) => {
+    setPolicyDraft(prev => {
+      const roles = prev || requiredRoles;
+      return roles.includes(role) ? roles.filter(other => other !== role) : [...roles, role];
+    });
+  };
+
+  const savePolicy = async () => {
+    if (!policyDraft) {
+      return;
+    }
+
+    try {
+      setSavingPolicy(true);
+      setRequiredRoles(await apiService.updateTwoFactorPolicy(policyDraft));
+      setPolicyDraft(null);
+      toast.success('Two-factor policy saved');
+    } catch (error) {
+      console.error('Failed to save two-factor policy:', error);
+    } finally {
+      setSavingPolicy(false);
+    }
+  };
+
+  const startReassign = (user: ManagedUser) => {
+    setReassigningId(reassigningId === user.id ? null : user.id);
+    setReassignTo('');
+  };
+
+  const reassign = (user: ManagedUser) =>
+    runAction(user.id, async () => {
+      const toUserId = reassignTo ? Number(reassignTo) : null;
+      const reassigned = await apiService.reassignUserTasks(user.id, toUserId);
+      setUsers(prev => prev.map(other => {
+        if (other.id === user.id) return { ...other, openTaskCount: 0 };
+        if (other.id === toUserId) return { ...other, openTaskCount: other.openTaskCount + reassigned };
+        return other;
+      }));
+      setReassigningId(null);
+      toast.success(`${reassigned} open task(s) ${toUserId ? 'reassigned' : 'unassigned'}`);
+    });
+
+  const query = search.trim().toLowerCase();
+  const visibleUsers = users.filter(user =>
+    (showDeactivated || !user.deactivatedAt) &&
+    (!query || user.name.toLowerCase().includes(query) || user.email.toLowerCase().includes(query))
+  );
+  const deactivatedCount = users.filter(user => user.deactivatedAt).length;
+
+  return (
+    <div className="max-w-[1100px] mx-auto">
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">Users</h2>
+            <p className="text-sm text-gray-500">Invite people, manage roles and offboard leavers</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setPolicyDraft(policyDraft ? null : requiredRoles)}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50"
+            >
+              <ShieldCheckIcon className="h-5 w-5" />
+              2FA policy
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowServiceAccount(!showServiceAccount)}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-medium hover:bg-gray-50"
+            >
+              <CpuChipIcon className="h-5 w-5" />
+              New service account
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowInvite(!showInvite)}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700"
+            >
+              <UserPlusIcon className="h-5 w-5" />
+              Invite user
+            </button>
+          </div>
+        </div>
+
+        {policyDraft && (
+          <div className="p-4 border-b border-gray-200 bg-gray-50 space-y-3">
+            <p className="text-sm text-gray-700">
+              Require two-factor authentication for these roles. Members who haven't set it up are asked to at
+              their next sign-in, and their current sessions end within minutes.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {ROLES.map(role => (
+                <label key={role} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={policyDraft.includes(role)}
+                    onChange={() => togglePolicyRole(role)}
+                    className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                  {getRoleLabel(role)}
+                </label>
+              ))}
+            </div>
+            <div className="flex items-center gap-3">
+              <button
+                type="button"
+                onClick={savePolicy}
+                disabled={savingPolicy}
+                className="px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {savingPolicy ? 'Saving...' : 'Save policy'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setPolicyDraft(null)}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showInvite && (
+          <form
+            onSubmit={inviteForm.handleSubmit(onInvite)}
+            className="p-4 border-b border-gray-200 bg-gray-50 grid grid-cols-1 md:grid-cols-4 gap-3 items-start"
+          >
+            <div>
+              <input
+                {...inviteForm.register('name')}
+                placeholder="Full name"
+                className={cn(
+                  'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500',
+                  inviteForm.formState.errors.name ? 'border-red-300' : 'border-gray-300'
+                )}
+              />
+              {inviteForm.formState.errors.name && (
+                <p className="mt-1 text-xs text-red-600">{inviteForm.formState.errors.name.message}</p>
+              )}
+            </div>
+            <div>
+              <input
+                {...inviteForm.register('email')}
+                type="email"
+                placeholder="Email"
+                className={cn(
+                  'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500',
+                  inviteForm.formState.errors.email ? 'border-red-300' : 'border-gray-300'
+                )}
+              />
+              {inviteForm.formState.errors.email && (
+                <p className="mt-1 text-xs text-red-600">{inviteForm.formState.errors.email.message}</p>
+              )}
+            </div>
+            <select
+              {...inviteForm.register('role')}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            >
+              {ROLES.map(role => (
+                <option key={role} value={role}>{getRoleLabel(role)}</option>
+              ))}
+            </select>
+            <button
+              type="submit"
+              disabled={inviteForm.formState.isSubmitting}
+              className="px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {inviteForm.formState.isSubmitting ? 'Sending...' : 'Send invitation'}
+            </button>
+          </form>
+        )}
+
+        {showServiceAccount && (
+          <form
+            onSubmit={serviceAccountForm.handleSubmit(onCreateServiceAccount)}
+            className="p-4 border-b border-gray-200 bg-gray-50 space-y-3"
+          >
+            <p className="text-sm text-gray-700">
+              A service account is a user for a script or integration. It cannot sign in; it calls the API with
+              access tokens you create for it, and its changes show up under its name.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-start">
+              <div>
+                <input
+                  {...serviceAccountForm.register('name')}
+                  placeholder="Name, e.g. Zendesk sync"
+                  className={cn(
+                    'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500',
+                    serviceAccountForm.formState.errors.name ? 'border-red-300' : 'border-gray-300'
+                  )}
+                />
+                {serviceAccountForm.formState.errors.name && (
+                  <p className="mt-1 text-xs text-red-600">{serviceAccountForm.formState.errors.name.message}</p>
+                )}
+              </div>
+              <select
+                {...serviceAccountForm.register('role')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              >
+                {SERVICE_ACCOUNT_ROLES.map(role => (
+                  <option key={role} value={role}>{getRoleLabel(role)}</option>
+                ))}
+              </select>
+              <button
+                type="submit"
+                disabled={serviceAccountForm.formState.isSubmitting}
+                className="px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {serviceAccountForm.formState.isSubmitting ? 'Creating...' : 'Create service account'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="p-4 border-b border-gray-200 flex items-center gap-4">
+          <div className="relative flex-1">
+            <MagnifyingGlassIcon className="h-5 w-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search by name or email"
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700 whitespace-nowrap">
+            <input
+              type="checkbox"
+              checked={showDeactivated}
+              onChange={(e) => setShowDeactivated(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Show deactivated ({deactivatedCount})
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        ) : visibleUsers.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <UsersIcon className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+            No users match.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {visibleUsers.map((user) => {
+              const busy = busyUserId === user.id;
+              const isSelf = user.id === authState.user?.id;
+
+              return (
+                <li key={user.id} className={cn('px-4 py-4', user.deactivatedAt && 'bg-gray-50')}>
+                  <div className="flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className={cn('font-medium', user.deactivatedAt ? 'text-gray-500' : 'text-gray-900')}>
+                          {user.name}
+                        </span>
+                        {isSelf && <span className="text-xs text-gray-500">(you)</span>}
+                        {user.isServiceAccount && (
+                          <span className="rounded-full bg-blue-100 px-2 py-0.5 text-xs font-medium text-blue-800">
+                            Service account
+                          </span>
+                        )}
+                        {user.deactivatedAt ? (
+                          <span className="rounded-full bg-gray-200 px-2 py-0.5 text-xs font-medium text-gray-700">
+                            Deactivated {formatRelativeTime(user.deactivatedAt)}
+                          </span>
+                        ) : !user.emailVerifiedAt && !user.isServiceAccount && (
+                          <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+                            Unverified
+                          </span>
+                        )}
+                        {user.twoFactorEnabledAt ? (
+                          <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800">
+                            2FA
+                          </span>
+                        ) : requiredRoles.includes(user.role) && !user.deactivatedAt && !user.isServiceAccount && (
+                          <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+                            2FA not set up
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-500 truncate">{user.email}</p>
+                    </div>
+
+                    <div className="text-sm text-gray-600 w-28 text-right">
+                      {user.openTaskCount} open task{user.openTaskCount === 1 ? '' : 's'}
+                    </div>
+
+                    <select
+                      value={user.role}
+                      disabled={busy || !!user.deactivatedAt}
+                      onChange={(e) => changeRole(user, e.target.value as UserRole)}
+                      className="w-40 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50"
+                    >
+                      {(user.isServiceAccount ? SERVICE_ACCOUNT_ROLES : ROLES).map(role => (
+                        <option key={role} value={role}>{getRoleLabel(role)}</option>
+                      ))}
+                    </select>
+
+                    <div className="flex items-center gap-3 text-sm font-medium">
+                      {user.openTaskCount > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => startReassign(user)}
+                          disabled={busy}
+                          className="text-primary-600 hover:text-primary-700 disabled:opacity-50"
+                        >
+                          Reassign
+                        </button>
+                      )}
+                      {user.isServiceAccount && !user.deactivatedAt && (
+                        <button
+                          type="button"
+                          onClick={() => setTokensUserId(tokensUserId === user.id ? null : user.id)}
+                          className="text-primary-600 hover:text-primary-700"
+                        >
+                          Tokens
+                        </button>
+                      )}
+                      {!user.deactivatedAt && !user.isServiceAccount && (
+                        <button
+                          type="button"
+                          onClick={() => resetPassword(user)}
+                          disabled={busy}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                        >
+                          Reset password
+                        </button>
+                      )}
+                      {user.twoFactorEnabledAt && (
+                        <button
+                          type="button"
+                          onClick={() => resetTwoFactor(user)}
+                          disabled={busy}
+                          className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                        >
+                          Reset 2FA
+                        </button>
+                      )}
+                      {user.deactivatedAt ? (
+                        <button
+                          type="button"
+                          onClick={() => reactivate(user)}
+                          disabled={busy}
+                          className="text-green-600 hover:text-green-700 disabled:opacity-50"
+                        >
+                          Reactivate
+                        </button>
+                      ) : !isSelf && (
+                        <button
+                          type="button"
+                          onClick={() => deactivate(user)}
+                          disabled={busy}
+                          className="text-red-600 hover:text-red-700 disabled:opacity-50"
+                        >
+                          Deactivate
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {tokensUserId === user.id && (
+                    <div className="mt-3 rounded-lg border border-gray-200 bg-gray-50 p-3">
+                      <ServiceAccountTokens userId={user.id} />
+                    </div>
+                  )}
+
+                  {reassigningId === user.id && (
+                    <div className="mt-3 flex items-center gap-3 rounded-lg border border-gray-200 bg-gray-50 p-3 text-sm">
+                      <span className="text-gray-700">Move {user.openTaskCount} open task(s) to</span>
+                      <select
+                        value={reassignTo}
+                        onChange={(e) => setReassignTo(e.target.value)}
+                        className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                      >
+                        <option value="">Nobody (unassign)</option>
+                        {users
+                          .filter(other => other.id !== user.id && !other.deactivatedAt)
+                          .map(other => (
+                            <option key={other.id} value={other.id}>{other.name}</option>
+                          ))}
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => reassign(user)}
+                        disabled={busy}
+                        className="px-3 py-1.5 rounded-lg bg-primary-600 text-white font-medium hover:bg-primary-700 disabled:opacity-50"
+                      >
+                        Reassign
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setReassigningId(null)}
+                        className="text-gray-500 hover:text-gray-700"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
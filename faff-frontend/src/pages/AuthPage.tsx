@@ -1,6 +1,7 @@
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import AuthTabs from '../components/auth/AuthTabs';
+import AuthShell from '../components/auth/AuthShell';
 
 export default function AuthPage() {
   const { state } = useAuth();
@@ -23,25 +24,8 @@ export default function AuthPage() {
   }
 
   return (
-    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
-      <div className="sm:mx-auto sm:w-full sm:max-w-md">
-        <div className="text-center">
-          <h2 className="text-4xl font-display font-bold text-primary-600 mb-2">
-            Faff
-          </h2>
-          <p className="text-gray-600">Internal Ticketing & Chat System</p>
-        </div>
-      </div>
-
-      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
-        <AuthTabs />
-      </div>
-
-      <div className="mt-8 text-center">
-        <p className="text-xs text-gray-500">
-          © 2024 Faff. All rights reserved.
-        </p>
-      </div>
-    </div>
+    <AuthShell>
+      <AuthTabs />
+    </AuthShell>
   );
-} 
\ No newline at end of file
+}
@@ -32,6 +32,7 @@ const priorityColors = {
 type Priority = 'low' | 'medium' | 'high' | 'urgent';
 
 export default function DashboardPage() {
+  const { hasPermission } = useAuth();
   const [tasks, setTasks] = useState<Task[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -104,7 +105,7 @@ export default function DashboardPage() {
     try {
       await apiService.createTask({
         ...newTicket,
-        assignedToId: parseInt(newTicket.assignedToId),
+        assignedToId: newTicket.assignedToId ? parseInt(newTicket.assignedToId) : undefined,
       });
       setIsNewTicketDialogOpen(false);
       setNewTicket({
@@ -280,25 +281,27 @@ export default function DashboardPage() {
                   </select>
                 </div>
 
-                <div>
-                  <label htmlFor="assignee" className="block text-sm font-medium text-gray-700 mb-1">
-                    Assignee
-                  </label>
-                  <select
-                    id="assignee"
-                    value={newTicket.assignedToId}
-                    onChange={(e) => setNewTicket({ ...newTicket, assignedToId: e.target.value })}
-                    className="w-full border border-gray-300 rounded-lg px-3 py-2"
-                    required
-                  >
-                    <option value="">Select Assignee</option>
-                    {users.map((user) => (
-                      <option key={user.id} value={user.id}>
-                        {user.name}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+                {hasPermission('task.assign') && (
+                  <div>
+                    <label htmlFor="assignee" className="block text-sm font-medium text-gray-700 mb-1">
+                      Assignee
+                    </label>
+                    <select
+                      id="assignee"
+                      value={newTicket.assignedToId}
+                      onChange={(e) => setNewTicket({ ...newTicket, assignedToId: e.target.value })}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2"
+                      required
+                    >
+                      <option value="">Select Assignee</option>
+                      {users.map((user) => (
+                        <option key={user.id} value={user.id}>
+                          {user.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
               </div>
 
               <div className="mt-6 flex justify-end space-x-3">
@@ -325,13 +328,15 @@ export default function DashboardPage() {
       <div className="bg-white rounded-lg shadow-sm">
         <div className="p-4 flex justify-between items-center">
           <h2 className="text-lg font-medium text-gray-900">Recent Tickets</h2>
-          <button 
-            onClick={() => setIsNewTicketDialogOpen(true)}
-            className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
-          >
-            <PlusIcon className="h-5 w-5 mr-2" />
-            New Ticket
-          </button>
+          {hasPermission('task.create') && (
+            <button 
+              onClick={() => setIsNewTicketDialogOpen(true)}
+              className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+            >
+              <PlusIcon className="h-5 w-5 mr-2" />
+              New Ticket
+            </button>
+          )}
         </div>
 
         {/* Table */}
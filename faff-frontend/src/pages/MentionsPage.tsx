@@ -0,0 +1,106 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import type { Message, User } from '../types';
+import apiService from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import MessageContent from '../components/task/MessageContent';
+import {
+  AtSymbolIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+} from '@heroicons/react/24/outline';
+import { formatFullDate } from '../utils';
+
+export default function MentionsPage() {
+  const { state: authState } = useAuth();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  useEffect(() => {
+    apiService.getUsers()
+      .then(setUsers)
+      .catch((error) => console.error('Failed to load users:', error));
+  }, []);
+
+  useEffect(() => {
+    const loadMentions = async () => {
+      try {
+        setLoading(true);
+        const response = await apiService.getMentions({ page: currentPage, limit: 20 });
+        setMessages(response.messages);
+        setTotalPages(Math.max(1, response.totalPages));
+      } catch (error) {
+        console.error('Failed to load mentions:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadMentions();
+  }, [currentPage]);
+
+  return (
+    <div className="max-w-[900px] mx-auto">
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">Messages mentioning me</h2>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <AtSymbolIcon className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+            Nobody has mentioned you yet.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {messages.map((message) => (
+              <li key={message.id} className="px-4 py-4">
+                <div className="flex items-center justify-between mb-1 text-sm">
+                  <div>
+                    <span className="font-medium text-gray-900">{message.sender.name}</span>
+                    <span className="text-gray-500"> on </span>
+                    <Link to={`/tasks/${message.taskId}?message=${message.id}`} className="text-primary-600 hover:text-primary-700 font-medium">
+                      #{message.taskId} {message.task?.title}
+                    </Link>
+                  </div>
+                  <span className="text-xs text-gray-500">{formatFullDate(message.createdAt)}</span>
+                </div>
+                <MessageContent
+                  content={message.content}
+                  mentionedUserIds={message.mentionedUserIds}
+                  users={users}
+                  currentUserId={authState.user?.id}
+                />
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-end gap-2 text-sm">
+          <button
+            onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+            disabled={currentPage === 1 || loading}
+            className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <span className="text-gray-600">Page {currentPage} of {totalPages}</span>
+          <button
+            onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+            disabled={currentPage === totalPages || loading}
+            className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
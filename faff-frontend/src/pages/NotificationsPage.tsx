@@ -0,0 +1,202 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Notification } from '../types';
+import apiService from '../services/api';
+import { useNotifications } from '../contexts/useNotifications';
+import {
+  BellIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+} from '@heroicons/react/24/outline';
+import { formatRelativeTime, cn } from '../utils';
+import toast from 'react-hot-toast';
+
+const PAGE_SIZE = 20;
+
+export default function NotificationsPage() {
+  const navigate = useNavigate();
+  const { setUnreadCount, latestNotification } = useNotifications();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unreadOnly, setUnreadOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+
+  useEffect(() => {
+    const loadNotifications = async () => {
+      try {
+        setLoading(true);
+        const response = await apiService.getNotifications({
+          page: currentPage,
+          limit: PAGE_SIZE,
+          unread: unreadOnly || undefined,
+        });
+        setNotifications(response.notifications);
+        setTotalPages(Math.max(1, response.totalPages));
+        setUnreadCount(response.unreadCount);
+        setSelectedIds([]);
+      } catch (error) {
+        console.error('Failed to load notifications:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadNotifications();
+  }, [currentPage, unreadOnly, setUnreadCount]);
+
+  // Prepend notifications pushed over the socket while on the first page
+  useEffect(() => {
+    if (latestNotification && currentPage === 1) {
+      setNotifications(prev =>
+        prev.some(notification => notification.id === latestNotification.id)
+          ? prev
+          : [latestNotification, ...prev].slice(0, PAGE_SIZE)
+      );
+    }
+  }, [latestNotification, currentPage]);
+
+  const markRead = async (ids: number[] | undefined, read = true) => {
+    try {
+      const result = await apiService.markNotificationsRead(ids, read);
+      const readAt = read ? new Date().toISOString() : null;
+      setNotifications(prev => prev.map(notification =>
+        !ids || ids.includes(notification.id) ? { ...notification, readAt } : notification
+      ));
+      setUnreadCount(result.unreadCount);
+      setSelectedIds([]);
+    } catch {
+      toast.error('Failed to update notifications');
+    }
+  };
+
+  const openNotification = async (notification: Notification) => {
+    if (!notification.readAt) {
+      await markRead([notification.id]);
+    }
+    if (notification.taskId) {
+      navigate(`/tasks/${notification.taskId}`);
+    }
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]);
+  };
+
+  const allSelected = notifications.length > 0 && selectedIds.length === notifications.length;
+
+  return (
+    <div className="max-w-[900px] mx-auto">
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="p-4 flex flex-wrap gap-3 justify-between items-center border-b border-gray-200">
+          <div className="flex items-center gap-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={allSelected}
+                onChange={() => setSelectedIds(allSelected ? [] : notifications.map(notification => notification.id))}
+                className="rounded border-gray-300"
+              />
+              Select all
+            </label>
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              <button
+                onClick={() => { setUnreadOnly(false); setCurrentPage(1); }}
+                className={cn('px-3 py-1', !unreadOnly ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-50')}
+              >
+                All
+              </button>
+              <button
+                onClick={() => { setUnreadOnly(true); setCurrentPage(1); }}
+                className={cn('px-3 py-1', unreadOnly ? 'bg-gray-800 text-white' : 'text-gray-600 hover:bg-gray-50')}
+              >
+                Unread
+              </button>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3 text-sm">
+            <button
+              onClick={() => markRead(selectedIds)}
+              disabled={selectedIds.length === 0}
+              className="text-primary-600 hover:text-primary-700 font-medium disabled:opacity-50"
+            >
+              Mark selected read
+            </button>
+            <button
+              onClick={() => markRead(selectedIds, false)}
+              disabled={selectedIds.length === 0}
+              className="text-gray-600 hover:text-gray-800 font-medium disabled:opacity-50"
+            >
+              Mark selected unread
+            </button>
+            <button
+              onClick={() => markRead(undefined)}
+              className="px-3 py-1.5 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
+            >
+              Mark all read
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        ) : notifications.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <BellIcon className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+            {unreadOnly ? 'No unread notifications.' : 'No notifications yet.'}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {notifications.map((notification) => (
+              <li
+                key={notification.id}
+                className={cn('flex items-start gap-3 px-4 py-3', !notification.readAt && 'bg-primary-50')}
+              >
+                <input
+                  type="checkbox"
+                  checked={selectedIds.includes(notification.id)}
+                  onChange={() => toggleSelected(notification.id)}
+                  className="mt-1 rounded border-gray-300"
+                />
+                <button
+                  onClick={() => openNotification(notification)}
+                  className="flex-1 text-left"
+                >
+                  <p className={cn('text-sm', notification.readAt ? 'text-gray-600' : 'text-gray-900 font-medium')}>
+                    {notification.content}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{formatRelativeTime(notification.createdAt)}</p>
+                </button>
+                {!notification.readAt && (
+                  <span className="mt-2 h-2 w-2 rounded-full bg-primary-600" title="Unread"></span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-end gap-2 text-sm">
+          <button
+            onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+            disabled={currentPage === 1 || loading}
+            className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <span className="text-gray-600">Page {currentPage} of {totalPages}</span>
+          <button
+            onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+            disabled={currentPage === totalPages || loading}
+            className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -10,9 +10,14 @@ import {
   UserCircleIcon,
   EyeIcon,
   EyeSlashIcon,
-  CheckCircleIcon
+  CheckCircleIcon,
+  ComputerDesktopIcon,
+  KeyIcon
 } from '@heroicons/react/24/outline';
-import { cn } from '../utils';
+import { cn, getRoleLabel, formatRelativeTime } from '../utils';
+import type { Session, CreateAccessTokenData } from '../types';
+import TwoFactorSettings from '../components/auth/TwoFactorSettings';
+import AccessTokenManager from '../components/auth/AccessTokenManager';
 import toast from 'react-hot-toast';
 
 const profileSchema = z.object({
@@ -34,12 +39,15 @@ type PasswordFormData = z.infer<typeof passwordSchema>;
 
 export default function ProfilePage() {
   const { state: authState, refreshUser } = useAuth();
-  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'preferences'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'security' | 'tokens' | 'preferences'>('profile');
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [profileLoading, setProfileLoading] = useState(false);
   const [passwordLoading, setPasswordLoading] = useState(false);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState<number | 'others' | null>(null);
 
   const profileForm = useForm<ProfileFormData>({
     resolver: zodResolver(profileSchema),
@@ -53,6 +61,49 @@ export default function ProfilePage() {
     resolver: zodResolver(passwordSchema),
   });
 
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessionsLoading(true);
+      setSessions(await apiService.getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTab === 'security') {
+      loadSessions();
+    }
+  }, [activeTab, loadSessions]);
+
+  const revokeSession = async (id: number) => {
+    try {
+      setRevokingId(id);
+      await apiService.revokeSession(id);
+      setSessions(prev => prev.filter(session => session.id !== id));
+      toast.success('Device signed out');
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const revokeOtherSessions = async () => {
+    try {
+      setRevokingId('others');
+      const revoked = await apiService.revokeOtherSessions();
+      setSessions(prev => prev.filter(session => session.current));
+      toast.success(`Signed out ${revoked} other ${revoked === 1 ? 'device' : 'devices'}`);
+    } catch (error) {
+      console.error('Failed to revoke sessions:', error);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
   const onProfileSubmit = async (data: ProfileFormData) => {
     try {
       setProfileLoading(true);
@@ -74,6 +125,8 @@ export default function ProfilePage() {
         newPassword: data.newPassword,
       });
       passwordForm.reset();
+      // Changing the password signs out every other device
+      await loadSessions();
       toast.success('Password changed successfully');
     } catch (error) {
       toast.error('Failed to change password');
@@ -82,9 +135,14 @@ export default function ProfilePage() {
     }
   };
 
+  const loadAccessTokens = useCallback(() => apiService.getAccessTokens(), []);
+  const createAccessToken = useCallback((data: CreateAccessTokenData) => apiService.createAccessToken(data), []);
+  const revokeAccessToken = useCallback((tokenId: number) => apiService.revokeAccessToken(tokenId), []);
+
   const tabs = [
     { id: 'profile', name: 'Personal Information', icon: UserCircleIcon },
     { id: 'security', name: 'Security', icon: CheckCircleIcon },
+    { id: 'tokens', name: 'API Tokens', icon: KeyIcon },
     { id: 'preferences', name: 'Preferences', icon: CheckCircleIcon },
   ] as const;
 
@@ -108,7 +166,7 @@ export default function ProfilePage() {
                 </h2>
                 <p className="text-gray-600">{authState.user?.email}</p>
                 <p className="text-sm text-gray-500 mt-1">
-                  Role: {authState.user?.role === 'admin' ? 'Administrator' : 'User'}
+                  Role: {authState.user ? getRoleLabel(authState.user.role) : ''}
                 </p>
               </div>
             </div>
@@ -341,6 +399,87 @@ export default function ProfilePage() {
                     </button>
                   </div>
                 </form>
+
+                {/* Turning 2FA on signs out the other devices */}
+                <TwoFactorSettings onEnabled={loadSessions} />
+
+                <div className="mt-10 border-t border-gray-200 pt-8">
+                  <div className="mb-6 flex items-start justify-between gap-4">
+                    <div>
+                      <h3 className="text-lg font-medium text-gray-900">Sessions</h3>
+                      <p className="text-sm text-gray-600 mt-1">
+                        Devices that are signed in to your account. Sign out any you don't recognise.
+                      </p>
+                    </div>
+                    {sessions.some(session => !session.current) && (
+                      <button
+                        type="button"
+                        onClick={revokeOtherSessions}
+                        disabled={revokingId !== null}
+                        className="shrink-0 px-3 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Sign out other devices
+                      </button>
+                    )}
+                  </div>
+
+                  {sessionsLoading && sessions.length === 0 ? (
+                    <div className="flex justify-center py-6">
+                      <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+                    </div>
+                  ) : (
+                    <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                      {sessions.map((session) => (
+                        <li key={session.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                          <div className="flex items-center min-w-0">
+                            <ComputerDesktopIcon className="h-6 w-6 text-gray-400 shrink-0 mr-3" />
+                            <div className="min-w-0">
+                              <p className="text-sm font-medium text-gray-900 truncate" title={session.userAgent || undefined}>
+                                {session.userAgent || 'Unknown device'}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {session.ipAddress || 'Unknown IP'} · Last active {formatRelativeTime(session.lastUsedAt)}
+                              </p>
+                            </div>
+                          </div>
+                          {session.current ? (
+                            <span className="shrink-0 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                              This device
+                            </span>
+                          ) : (
+                            <button
+                              type="button"
+                              onClick={() => revokeSession(session.id)}
+                              disabled={revokingId !== null}
+                              className="shrink-0 text-sm font-medium text-red-600 hover:text-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                              {revokingId === session.id ? 'Revoking...' : 'Revoke'}
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* API Tokens Tab */}
+            {activeTab === 'tokens' && (
+              <div className="max-w-2xl">
+                <div className="mb-6">
+                  <h3 className="text-lg font-medium text-gray-900">API Tokens</h3>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Let scripts and integrations call the Faff API as you, limited to the scopes you choose.
+                    Send the token as <code className="font-mono text-xs">Authorization: Bearer &lt;token&gt;</code>.
+                  </p>
+                </div>
+
+                <AccessTokenManager
+                  load={loadAccessTokens}
+                  create={createAccessToken}
+                  revoke={revokeAccessToken}
+                />
               </div>
             )}
 
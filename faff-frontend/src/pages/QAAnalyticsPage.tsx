@@ -0,0 +1,248 @@
+import { useState, useEffect } from 'react';
+import { format, subDays } from 'date-fns';
+import type { QAStats, QAStatsInterval, QATurnaroundStats } from '../types';
+import apiService from '../services/api';
+import { ApprovalTrendChart, ApprovalSparkline, BarList } from '../components/qa/QACharts';
+import { ChartBarIcon } from '@heroicons/react/24/outline';
+
+const formatRate = (rate: number | null) => (rate === null ? '–' : `${Math.round(rate * 100)}%`);
+
+const formatHours = (hours: number | null) => {
+  if (hours === null) return '–';
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} days`;
+};
+
+const inputClass = 'rounded-md border border-gray-300 px-3 py-1.5 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500';
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-4">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+      {detail && <p className="mt-1 text-xs text-gray-500">{detail}</p>}
+    </div>
+  );
+}
+
+function TurnaroundRow({ label, stats }: { label: string; stats: QATurnaroundStats }) {
+  return (
+    <tr>
+      <td className="py-2 pr-4 text-gray-700">{label}</td>
+      <td className="py-2 pr-4 text-right">{stats.count}</td>
+      <td className="py-2 pr-4 text-right">{formatHours(stats.averageHours)}</td>
+      <td className="py-2 pr-4 text-right">{formatHours(stats.medianHours)}</td>
+      <td className="py-2 pr-4 text-right">{formatHours(stats.p90Hours)}</td>
+      <td className="py-2 text-right">{stats.slaBreaches}</td>
+    </tr>
+  );
+}
+
+export default function QAAnalyticsPage() {
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [tags, setTags] = useState('');
+  // Tags are applied on submit rather than on every keystroke
+  const [appliedTags, setAppliedTags] = useState('');
+  const [statsInterval, setStatsInterval] = useState<QAStatsInterval>('week');
+  const [stats, setStats] = useState<QAStats | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadStats = async () => {
+      try {
+        setLoading(true);
+        // The end date is inclusive in the form, exclusive in the API
+        const end = new Date(`${to}T00:00:00`);
+        end.setDate(end.getDate() + 1);
+        setStats(await apiService.getQAStats({
+          from: new Date(`${from}T00:00:00`).toISOString(),
+          to: end.toISOString(),
+          tags: appliedTags || undefined,
+          interval: statsInterval,
+        }));
+      } catch (error) {
+        console.error('Failed to load QA stats:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (from && to) {
+      loadStats();
+    }
+  }, [from, to, appliedTags, statsInterval]);
+
+  return (
+    <div className="max-w-[1100px] mx-auto space-y-4">
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">QA analytics</h2>
+            <p className="text-sm text-gray-500">Quality of outgoing messages, by review decision date</p>
+          </div>
+          <form
+            className="flex flex-wrap items-end gap-3 text-sm"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setAppliedTags(tags.trim());
+            }}
+          >
+            <label className="flex flex-col gap-1 text-gray-600">
+              From
+              <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-gray-600">
+              To
+              <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1 text-gray-600">
+              Group by
+              <select value={statsInterval} onChange={(e) => setStatsInterval(e.target.value as QAStatsInterval)} className={inputClass}>
+                <option value="day">Day</option>
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-gray-600">
+              Task tags
+              <input
+                type="text"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                onBlur={() => setAppliedTags(tags.trim())}
+                placeholder="billing, refunds"
+                className={inputClass}
+              />
+            </label>
+          </form>
+        </div>
+      </div>
+
+      {loading && !stats ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+        </div>
+      ) : !stats ? (
+        <div className="bg-white rounded-lg shadow-sm text-center py-12 text-gray-500">
+          <ChartBarIcon className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+          QA stats could not be loaded.
+        </div>
+      ) : (
+        <div className={loading ? 'opacity-60 space-y-4' : 'space-y-4'}>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatCard
+              label="Approval rate"
+              value={formatRate(stats.totals.approvalRate)}
+              detail={`${stats.totals.approved} approved, ${stats.totals.rejected} rejected`}
+            />
+            <StatCard
+              label="AI vs reviewer agreement"
+              value={formatRate(stats.aiHumanAgreement.rate)}
+              detail={`${stats.aiHumanAgreement.agreed} of ${stats.aiHumanAgreement.compared} reviewer decisions`}
+            />
+            <StatCard
+              label="Median reviewer turnaround"
+              value={formatHours(stats.turnaround.human.medianHours)}
+              detail={`p90 ${formatHours(stats.turnaround.human.p90Hours)}`}
+            />
+            <StatCard
+              label="SLA breaches"
+              value={String(stats.turnaround.overall.slaBreaches)}
+              detail={`of ${stats.turnaround.overall.count} decided reviews`}
+            />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm p-4">
+            <h3 className="text-sm font-medium text-gray-900 mb-2">Approval rate over time</h3>
+            <ApprovalTrendChart series={stats.approvalOverTime} />
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Top rejection reasons</h3>
+              {stats.topRejectionReasons.length === 0 ? (
+                <p className="text-sm text-gray-500">No rubric criteria failed in this range.</p>
+              ) : (
+                <BarList items={stats.topRejectionReasons.map(reason => ({
+                  key: reason.criterion,
+                  label: reason.name,
+                  value: reason.count,
+                }))} />
+              )}
+              {stats.unscoredRejections > 0 && (
+                <p className="mt-3 text-xs text-gray-500">
+                  {stats.unscoredRejections} rejection{stats.unscoredRejections === 1 ? '' : 's'} with reviewer feedback only
+                </p>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-4">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">AI vs reviewer</h3>
+              <dl className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <dt className="text-gray-500">AI approved, reviewer rejected</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{stats.aiHumanAgreement.aiApprovedHumanRejected}</dd>
+                </div>
+                <div>
+                  <dt className="text-gray-500">AI rejected, reviewer approved</dt>
+                  <dd className="text-lg font-semibold text-gray-900">{stats.aiHumanAgreement.aiRejectedHumanApproved}</dd>
+                </div>
+              </dl>
+
+              <h3 className="text-sm font-medium text-gray-900 mt-5 mb-2">Turnaround</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500">
+                    <th className="pb-1 text-left font-normal"></th>
+                    <th className="pb-1 pr-4 text-right font-normal">Reviews</th>
+                    <th className="pb-1 pr-4 text-right font-normal">Average</th>
+                    <th className="pb-1 pr-4 text-right font-normal">Median</th>
+                    <th className="pb-1 pr-4 text-right font-normal">p90</th>
+                    <th className="pb-1 text-right font-normal">Late</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  <TurnaroundRow label="Reviewers" stats={stats.turnaround.human} />
+                  <TurnaroundRow label="AI" stats={stats.turnaround.ai} />
+                  <TurnaroundRow label="All" stats={stats.turnaround.overall} />
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm">
+            <h3 className="p-4 pb-2 text-sm font-medium text-gray-900">Approval rate by sender</h3>
+            {stats.approvalBySender.length === 0 ? (
+              <p className="px-4 pb-4 text-sm text-gray-500">No decided reviews in this range.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 border-b border-gray-200">
+                    <th className="px-4 py-2 text-left font-normal">Sender</th>
+                    <th className="px-4 py-2 text-right font-normal">Approved</th>
+                    <th className="px-4 py-2 text-right font-normal">Rejected</th>
+                    <th className="px-4 py-2 text-right font-normal">Approval rate</th>
+                    <th className="px-4 py-2 text-left font-normal">Trend</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {stats.approvalBySender.map((row, index) => (
+                    <tr key={row.sender?.id ?? `deleted-${index}`}>
+                      <td className="px-4 py-2 text-gray-900">{row.sender?.name || 'Deleted user'}</td>
+                      <td className="px-4 py-2 text-right">{row.approved}</td>
+                      <td className="px-4 py-2 text-right">{row.rejected}</td>
+                      <td className="px-4 py-2 text-right font-medium">{formatRate(row.approvalRate)}</td>
+                      <td className="px-4 py-2"><ApprovalSparkline series={row.series} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import toast from 'react-hot-toast';
+import type { QAReview, User } from '../types';
+import apiService from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import MessageContent from '../components/task/MessageContent';
+import QAScores from '../components/qa/QAScores';
+import {
+  ClipboardDocumentCheckIcon,
+  ChevronLeftIcon,
+  ChevronRightIcon,
+  ClockIcon,
+} from '@heroicons/react/24/outline';
+import { cn, formatFullDate, formatRelativeTime } from '../utils';
+
+type InboxTab = 'mine' | 'unassigned';
+
+const tabs: { id: InboxTab; name: string }[] = [
+  { id: 'mine', name: 'Assigned to me' },
+  { id: 'unassigned', name: 'Unassigned' },
+];
+
+const isOverdue = (review: QAReview) =>
+  review.dueAt !== null && new Date(review.dueAt).getTime() < Date.now();
+
+export default function QAInboxPage() {
+  const { state: authState } = useAuth();
+  const [activeTab, setActiveTab] = useState<InboxTab>('mine');
+  const [reviews, setReviews] = useState<QAReview[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [busyReviewId, setBusyReviewId] = useState<number | null>(null);
+  // Review whose rejection feedback is being written
+  const [rejectingId, setRejectingId] = useState<number | null>(null);
+  const [feedback, setFeedback] = useState('');
+
+  useEffect(() => {
+    apiService.getUsers()
+      .then(setUsers)
+      .catch((error) => console.error('Failed to load users:', error));
+  }, []);
+
+  const loadReviews = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getQAReviews({
+        status: 'pending',
+        assignee: activeTab === 'mine' ? 'me' : 'unassigned',
+        page: currentPage,
+        limit: 20,
+      });
+      setReviews(response.reviews);
+      setTotalPages(Math.max(1, response.totalPages));
+    } catch (error) {
+      console.error('Failed to load QA reviews:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [activeTab, currentPage]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  const changeTab = (tab: InboxTab) => {
+    setActiveTab(tab);
+    setCurrentPage(1);
+    setRejectingId(null);
+  };
+
+  // Every action takes the review out of the current list
+  const runAction = async (reviewId: number, action: () => Promise<QAReview>, successMessage: string) => {
+    try {
+      setBusyReviewId(reviewId);
+      await action();
+      setReviews(prev => prev.filter(review => review.id !== reviewId));
+      setRejectingId(null);
+      setFeedback('');
+      toast.success(successMessage);
+    } catch (error) {
+      console.error('QA review action failed:', error);
+    } finally {
+      setBusyReviewId(null);
+    }
+  };
+
+  const approve = (review: QAReview) =>
+    runAction(review.id, () => apiService.updateQAReview(review.id, { status: 'approved' }), 'Message approved');
+
+  const reject = (review: QAReview) => {
+    if (!feedback.trim()) {
+      toast.error('Explain why the message is rejected');
+      return;
+    }
+    runAction(
+      review.id,
+      () => apiService.updateQAReview(review.id, { status: 'rejected', feedback: feedback.trim() }),
+      'Message rejected'
+    );
+  };
+
+  const claim = (review: QAReview) =>
+    runAction(review.id, () => apiService.claimQAReview(review.id), 'Review claimed');
+
+  const release = (review: QAReview) =>
+    runAction(review.id, () => apiService.unclaimQAReview(review.id), 'Review released to the pool');
+
+  return (
+    <div className="max-w-[900px] mx-auto">
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="p-4 border-b border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900">QA inbox</h2>
+          <p className="text-sm text-gray-500">Pending reviews, most urgent first</p>
+        </div>
+
+        <div className="border-b border-gray-200">
+          <nav className="flex -mb-px">
+            {tabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => changeTab(tab.id)}
+                className={cn(
+                  'px-6 py-3 text-sm font-medium border-b-2',
+                  activeTab === tab.id
+                    ? 'border-primary-500 text-primary-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                )}
+              >
+                {tab.name}
+              </button>
+            ))}
+          </nav>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        ) : reviews.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <ClipboardDocumentCheckIcon className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+            {activeTab === 'mine' ? 'No reviews waiting for you.' : 'No unassigned reviews.'}
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {reviews.map((review) => {
+              const ownMessage = review.message.senderId === authState.user?.id;
+              const busy = busyReviewId === review.id;
+
+              return (
+                <li key={review.id} className="px-4 py-4">
+                  <div className="flex items-center justify-between mb-1 text-sm">
+                    <div>
+                      <span className="font-medium text-gray-900">{review.message.sender.name}</span>
+                      <span className="text-gray-500"> on </span>
+                      <Link
+                        to={`/tasks/${review.message.taskId}?message=${review.messageId}`}
+                        className="text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        #{review.message.taskId} {review.message.task?.title}
+                      </Link>
+                    </div>
+                    {review.dueAt && (
+                      <span
+                        title={formatFullDate(review.dueAt)}
+                        className={cn(
+                          'inline-flex items-center gap-1 text-xs',
+                          isOverdue(review) ? 'rounded-full bg-red-100 px-2 py-0.5 font-medium text-red-700' : 'text-gray-500'
+                        )}
+                      >
+                        <ClockIcon className="h-3.5 w-3.5" />
+                        {isOverdue(review) ? 'Overdue' : 'Due'} {formatRelativeTime(review.dueAt)}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mb-2">
+                    Requested by {review.requestedBy?.name || 'a QA sweep'} {formatRelativeTime(review.createdAt)}
+                  </p>
+
+                  <MessageContent
+                    content={review.message.content}
+                    mentionedUserIds={review.message.mentionedUserIds}
+                    users={users}
+                    currentUserId={authState.user?.id}
+                  />
+
+                  <QAScores review={review} />
+
+                  {rejectingId === review.id && (
+                    <textarea
+                      value={feedback}
+                      onChange={(e) => setFeedback(e.target.value)}
+                      rows={3}
+                      autoFocus
+                      placeholder="What should the sender fix?"
+                      className="mt-3 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:border-primary-500 focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    />
+                  )}
+
+                  <div className="mt-3 flex justify-end gap-2 text-sm">
+                    {activeTab === 'mine' ? (
+                      rejectingId === review.id ? (
+                        <>
+                          <button
+                            onClick={() => setRejectingId(null)}
+                            disabled={busy}
+                            className="px-3 py-1.5 rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() => reject(review)}
+                            disabled={busy}
+                            className="px-3 py-1.5 rounded-md bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+                          >
+                            Reject
+                          </button>
+                        </>
+                      ) : (
+                        <>
+                          <button
+                            onClick={() => release(review)}
+                            disabled={busy}
+                            className="px-3 py-1.5 rounded-md text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            Release
+                          </button>
+                          <button
+                            onClick={() => {
+                              setRejectingId(review.id);
+                              setFeedback('');
+                            }}
+                            disabled={busy}
+                            className="px-3 py-1.5 rounded-md border border-red-300 text-red-700 hover:bg-red-50 disabled:opacity-50"
+                          >
+                            Reject
+                          </button>
+                          <button
+                            onClick={() => approve(review)}
+                            disabled={busy}
+                            className="px-3 py-1.5 rounded-md bg-green-600 text-white hover:bg-green-700 disabled:opacity-50"
+                          >
+                            Approve
+                          </button>
+                        </>
+                      )
+                    ) : (
+                      <button
+                        onClick={() => claim(review)}
+                        disabled={busy || ownMessage}
+                        title={ownMessage ? 'You cannot review your own message' : undefined}
+                        className="px-3 py-1.5 rounded-md bg-primary-600 text-white hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Claim
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <div className="px-4 py-3 border-t border-gray-200 flex items-center justify-end gap-2 text-sm">
+          <button
+            onClick={() => setCurrentPage(p => Math.max(1, p - 1))}
+            disabled={currentPage === 1 || loading}
+            className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronLeftIcon className="h-5 w-5" />
+          </button>
+          <span className="text-gray-600">Page {currentPage} of {totalPages}</span>
+          <button
+            onClick={() => setCurrentPage(p => Math.min(totalPages, p + 1))}
+            disabled={currentPage === totalPages || loading}
+            className="p-1 rounded-md hover:bg-gray-100 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ChevronRightIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import toast from 'react-hot-toast';
+import { PlusIcon, TrashIcon, ClipboardDocumentCheckIcon } from '@heroicons/react/24/outline';
+import type { QARubric, QACriterion } from '../types';
+import apiService from '../services/api';
+import { cn } from '../utils';
+
+// Rubric as edited in the form; tags are typed as a comma-separated list
+interface RubricDraft {
+  name: string;
+  description: string;
+  tags: string;
+  passThreshold: number;
+  isDefault: boolean;
+  active: boolean;
+  criteria: QACriterion[];
+}
+
+const emptyCriterion = (): QACriterion => ({ key: '', name: '', description: '', weight: 1, passThreshold: 6 });
+
+const emptyDraft = (): RubricDraft => ({
+  name: '',
+  description: '',
+  tags: '',
+  passThreshold: 7,
+  isDefault: false,
+  active: true,
+  criteria: [emptyCriterion()],
+});
+
+const toDraft = (rubric: QARubric): RubricDraft => ({
+  name: rubric.name,
+  description: rubric.description || '',
+  tags: rubric.tags.join(', '),
+  passThreshold: rubric.passThreshold,
+  isDefault: rubric.isDefault,
+  active: rubric.active,
+  criteria: rubric.criteria.map(criterion => ({ ...criterion })),
+});
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export default function QARubricsPage() {
+  const [rubrics, setRubrics] = useState<QARubric[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Rubric being edited: its id, 'new', or null when the form is closed
+  const [editingId, setEditingId] = useState<number | 'new' | null>(null);
+  const [draft, setDraft] = useState<RubricDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const loadRubrics = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRubrics(await apiService.getQARubrics());
+    } catch (error) {
+      console.error('Failed to load QA rubrics:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRubrics();
+  }, [loadRubrics]);
+
+  const startEdit = (rubric: QARubric | null) => {
+    setEditingId(rubric ? rubric.id : 'new');
+    setDraft(rubric ? toDraft(rubric) : emptyDraft());
+  };
+
+  const updateCriterion = (index: number, changes: Partial<QACriterion>) => {
+    setDraft(prev => ({
+      ...prev,
+      criteria: prev.criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion)),
+    }));
+  };
+
+  const removeCriterion = (index: number) => {
+    setDraft(prev => ({ ...prev, criteria: prev.criteria.filter((_, i) => i !== index) }));
+  };
+
+  const save = async (event: FormEvent) => {
+    event.preventDefault();
+    const data = {
+      name: draft.name.trim(),
+      description: draft.description.trim() || null,
+      tags: draft.tags.split(',').map(tag => tag.trim()).filter(Boolean),
+      passThreshold: draft.passThreshold,
+      isDefault: draft.isDefault,
+      active: draft.active,
+      criteria: draft.criteria,
+    };
+
+    try {
+      setSaving(true);
+      if (editingId === 'new') {
+        await apiService.createQARubric(data);
+        toast.success('Rubric created');
+      } else if (editingId !== null) {
+        await apiService.updateQARubric(editingId, data);
+        toast.success('Rubric saved');
+      }
+      setEditingId(null);
+      // Saving a default clears the others, so reload the whole list
+      await loadRubrics();
+    } catch (error) {
+      console.error('Failed to save QA rubric:', error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (rubric: QARubric) => {
+    if (!window.confirm(`Delete the "${rubric.name}" rubric? Rubrics already used by reviews can only be deactivated.`)) {
+      return;
+    }
+
+    try {
+      await apiService.deleteQARubric(rubric.id);
+      setRubrics(prev => prev.filter(other => other.id !== rubric.id));
+      if (editingId === rubric.id) {
+        setEditingId(null);
+      }
+      toast.success('Rubric deleted');
+    } catch (error) {
+      console.error('Failed to delete QA rubric:', error);
+    }
+  };
+
+  const form = (
+    <form onSubmit={save} className="p-4 border-b border-gray-200 bg-gray-50 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="rubric-name" className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+          <input
+            id="rubric-name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label htmlFor="rubric-tags" className="block text-sm font-medium text-gray-700 mb-1">
+            Task tags <span className="font-normal text-gray-500">(comma separated; used for tasks with these tags)</span>
+          </label>
+          <input
+            id="rubric-tags"
+            value={draft.tags}
+            onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+            placeholder="billing, refunds"
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="rubric-description" className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+        <textarea
+          id="rubric-description"
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          rows={2}
+          className={inputClass}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-6 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Pass threshold
+          <input
+            type="number"
+            min={0}
+            max={10}
+            step={0.5}
+            value={draft.passThreshold}
+            onChange={(e) => setDraft({ ...draft, passThreshold: Number(e.target.value) })}
+            className="w-20 px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.isDefault}
+            onChange={(e) => setDraft({ ...draft, isDefault: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Default rubric
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={draft.active}
+            onChange={(e) => setDraft({ ...draft, active: e.target.checked })}
+            className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Active
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">Criteria (scored 0-10)</p>
+        {draft.criteria.map((criterion, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-start">
+            <input
+              value={criterion.key}
+              onChange={(e) => updateCriterion(index, { key: e.target.value })}
+              placeholder="key"
+              aria-label="Criterion key"
+              className={cn(inputClass, 'col-span-2 font-mono')}
+            />
+            <input
+              value={criterion.name}
+              onChange={(e) => updateCriterion(index, { name: e.target.value })}
+              placeholder="Name"
+              aria-label="Criterion name"
+              className={cn(inputClass, 'col-span-3')}
+            />
+            <input
+              value={criterion.description}
+              onChange={(e) => updateCriterion(index, { description: e.target.value })}
+              placeholder="What the model checks"
+              aria-label="Criterion description"
+              className={cn(inputClass, 'col-span-4')}
+            />
+            <input
+              type="number"
+              min={0.1}
+              step={0.1}
+              value={criterion.weight}
+              onChange={(e) => updateCriterion(index, { weight: Number(e.target.value) })}
+              title="Weight"
+              aria-label="Criterion weight"
+              className={cn(inputClass, 'col-span-1')}
+            />
+            <input
+              type="number"
+              min={0}
+              max={10}
+              step={0.5}
+              value={criterion.passThreshold}
+              onChange={(e) => updateCriterion(index, { passThreshold: Number(e.target.value) })}
+              title="Pass threshold"
+              aria-label="Criterion pass threshold"
+              className={cn(inputClass, 'col-span-1')}
+            />
+            <button
+              type="button"
+              onClick={() => removeCriterion(index)}
+              disabled={draft.criteria.length === 1}
+              title="Remove criterion"
+              className="col-span-1 p-2 text-gray-400 hover:text-red-600 disabled:opacity-30"
+            >
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setDraft(prev => ({ ...prev, criteria: [...prev.criteria, emptyCriterion()] }))}
+          className="inline-flex items-center gap-1 text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          <PlusIcon className="h-4 w-4" />
+          Add criterion
+        </button>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={saving || !draft.name.trim()}
+          className="px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : editingId === 'new' ? 'Create rubric' : 'Save rubric'}
+        </button>
+        <button
+          type="button"
+          onClick={() => setEditingId(null)}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="max-w-[1100px] mx-auto">
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">QA rubrics</h2>
+            <p className="text-sm text-gray-500">Criteria the QA model scores messages against</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => startEdit(null)}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-primary-600 text-white text-sm font-medium hover:bg-primary-700"
+          >
+            <PlusIcon className="h-5 w-5" />
+            New rubric
+          </button>
+        </div>
+
+        {editingId === 'new' && form}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+          </div>
+        ) : rubrics.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <ClipboardDocumentCheckIcon className="h-10 w-10 mx-auto text-gray-300 mb-3" />
+            No rubrics yet. Reviews use the built-in default criteria.
+          </div>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {rubrics.map((rubric) => (
+              <li key={rubric.id}>
+                <div className={cn('px-4 py-4 flex items-start gap-4', !rubric.active && 'bg-gray-50')}>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className={cn('font-medium', rubric.active ? 'text-gray-900' : 'text-gray-500')}>
+                        {rubric.name}
+                      </span>
+                      {rubric.isDefault && (
+                        <span className="rounded-full bg-primary-100 px-2 py-0.5 text-xs font-medium text-primary-800">Default</span>
+                      )}
+                      {!rubric.active && (
+                        <span className="rounded-full bg-gray-200 px-2 py-0.5 text-xs font-medium text-gray-700">Inactive</span>
+                      )}
+                    </div>
+                    {rubric.description && <p className="text-sm text-gray-600">{rubric.description}</p>}
+                    <p className="text-xs text-gray-500 mt-1">
+                      {rubric.criteria.map(criterion => criterion.name).join(', ')} · passes at {rubric.passThreshold}/10
+                      {rubric.tags.length > 0 && <> · tags: {rubric.tags.join(', ')}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 text-sm font-medium">
+                    <button
+                      type="button"
+                      onClick={() => (editingId === rubric.id ? setEditingId(null) : startEdit(rubric))}
+                      className="text-primary-600 hover:text-primary-700"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => remove(rubric)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                {editingId === rubric.id && form}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { EyeIcon, EyeSlashIcon } from '@heroicons/react/24/outline';
+import toast from 'react-hot-toast';
+import AuthShell from '../components/auth/AuthShell';
+import apiService from '../services/api';
+import { cn } from '../utils';
+
+const resetPasswordSchema = z.object({
+  password: z
+    .string()
+    .min(1, 'Password is required')
+    .min(8, 'Password must be at least 8 characters'),
+  confirmPassword: z.string().min(1, 'Please confirm your password'),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ['confirmPassword'],
+});
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+export default function ResetPasswordPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token');
+  // Invitation links set the first password of an account an admin created
+  const isInvite = searchParams.get('invite') === '1';
+  const [showPassword, setShowPassword] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    if (!token) return;
+
+    try {
+      await apiService.resetPassword(token, data.password);
+      toast.success(isInvite
+        ? 'Your account is ready. Please log in with your new password.'
+        : 'Password reset. Please log in with your new password.');
+      navigate('/login', { replace: true });
+    } catch (error) {
+      console.error('Failed to reset password:', error);
+    }
+  };
+
+  const inputClass = (hasError: boolean) => cn(
+    'w-full rounded-lg border px-4 py-3 pr-12 text-base outline-none transition-colors',
+    'placeholder:text-gray-400',
+    'focus:border-primary-500 focus:ring-1 focus:ring-primary-500',
+    hasError ? 'border-red-300' : 'border-gray-300'
+  );
+
+  return (
+    <AuthShell>
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-white shadow-lg rounded-lg p-8">
+          {!token ? (
+            <div className="text-center space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900">Invalid reset link</h3>
+              <p className="text-base text-gray-600">
+                This link is missing its token. Request a new one from the login page.
+              </p>
+              <Link to="/login" className="inline-block text-base font-medium text-primary-600 hover:text-primary-500">
+                Back to login
+              </Link>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="text-left">
+                <h3 className="text-lg font-semibold text-gray-900">
+                  {isInvite ? 'Set your password' : 'Choose a new password'}
+                </h3>
+                <p className="mt-1 text-base text-gray-600">
+                  {isInvite
+                    ? 'Choose a password to activate your account, then log in with it.'
+                    : "You'll be signed out of every device and can log in again with the new password."}
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="password" className="block text-base text-gray-700 text-left">
+                  New password
+                </label>
+                <div className="relative mt-2">
+                  <input
+                    {...register('password')}
+                    type={showPassword ? 'text' : 'password'}
+                    id="password"
+                    autoComplete="new-password"
+                    className={inputClass(!!errors.password)}
+                    placeholder="••••••••"
+                  />
+                  <button
+                    type="button"
+                    className="absolute right-4 top-1/2 -translate-y-1/2"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeSlashIcon className="h-5 w-5 text-gray-400" />
+                    ) : (
+                      <EyeIcon className="h-5 w-5 text-gray-400" />
+                    )}
+                  </button>
+                </div>
+                {errors.password && (
+                  <p className="mt-1 text-sm text-red-600">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div>
+                <label htmlFor="confirmPassword" className="block text-base text-gray-700 text-left">
+                  Confirm new password
+                </label>
+                <input
+                  {...register('confirmPassword')}
+                  type={showPassword ? 'text' : 'password'}
+                  id="confirmPassword"
+                  autoComplete="new-password"
+                  className={cn('mt-2', inputClass(!!errors.confirmPassword))}
+                  placeholder="••••••••"
+                />
+                {errors.confirmPassword && (
+                  <p className="mt-1 text-sm text-red-600">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className={cn(
+                  'w-full rounded-lg bg-primary-600 px-4 py-3 text-base font-semibold text-white',
+                  'hover:bg-primary-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2',
+                  'disabled:opacity-50 disabled:cursor-not-allowed'
+                )}
+              >
+                {isSubmitting ? (
+                  <div className="flex items-center justify-center">
+                    <div className="h-4 w-4 animate-spin rounded-full border-2 border-white border-t-transparent" />
+                    <span className="ml-2">Saving...</span>
+                  </div>
+                ) : (
+                  isInvite ? 'Activate account' : 'Reset password'
+                )}
+              </button>
+
+              <div className="text-center">
+                <Link to="/login" className="text-base font-medium text-primary-600 hover:text-primary-500">
+                  Back to login
+                </Link>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </AuthShell>
+  );
+}
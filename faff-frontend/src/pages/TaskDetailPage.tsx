@@ -1,7 +1,7 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { useParams, Link, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
+import { useParams, useSearchParams, Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import type { Task, Message, Summary, TypingUser } from '../types';
+import type { Task, TaskTransition, TaskEvent, Message, Summary, SummaryEntity, SummaryJobResult, Job, TypingUser, User, DraftCheck } from '../types';
 import apiService from '../services/api';
 import socketService from '../services/socket';
 import { 
@@ -10,7 +10,8 @@ import {
   SparklesIcon,
   PencilIcon,
   EllipsisVerticalIcon,
-  FaceSmileIcon
+  FaceSmileIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/outline';
 import { 
   formatDate, 
@@ -22,15 +23,28 @@ import {
   cn
 } from '../utils';
 import toast from 'react-hot-toast';
+import MentionInput from '../components/task/MentionInput';
+import MessageContent from '../components/task/MessageContent';
+import SummaryHistory from '../components/task/SummaryHistory';
+import DraftCheckPanel from '../components/task/DraftCheckPanel';
 
 export default function TaskDetailPage() {
   const { taskId } = useParams<{ taskId: string }>();
+  const [searchParams] = useSearchParams();
+  // Message to jump to, e.g. from a search result (?message=<id>)
+  const targetMessageId = parseInt(searchParams.get('message') || '') || null;
   const navigate = useNavigate();
-  const { state: authState } = useAuth();
+  const { state: authState, hasPermission } = useAuth();
   const [task, setTask] = useState<Task | null>(null);
+  const [transitions, setTransitions] = useState<TaskTransition[]>([]);
   const [messages, setMessages] = useState<Message[]>([]);
+  const [history, setHistory] = useState<TaskEvent[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
   const [summary, setSummary] = useState<Summary | null>(null);
   const [loading, setLoading] = useState(true);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlderMessages, setLoadingOlderMessages] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<number | null>(null);
   const [messageContent, setMessageContent] = useState('');
   const [attachments, setAttachments] = useState<File[]>([]);
   const [replyToMessage, setReplyToMessage] = useState<Message | null>(null);
@@ -39,17 +53,35 @@ export default function TaskDetailPage() {
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [isActionsOpen, setIsActionsOpen] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+  const [mentionsOnly, setMentionsOnly] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [showSummaryHistory, setShowSummaryHistory] = useState(false);
+  // Latest pre-send check of the draft; its id goes out with the next message so the choice is logged
+  const [draftCheck, setDraftCheck] = useState<DraftCheck | null>(null);
+  const [showDraftCheck, setShowDraftCheck] = useState(false);
+  const [checkingDraft, setCheckingDraft] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // Scroll metrics captured before older messages are prepended, so the view can stay put
+  const scrollAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  // Message to scroll to once it has been rendered, instead of scrolling to the bottom
+  const jumpToMessageRef = useRef<number | null>(null);
+  // Last ?message= target a load or jump was made for, so it is only acted on once
+  const handledTargetRef = useRef<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const actionsDropdownRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const summaryRef = useRef<HTMLDivElement>(null);
+  // Summary job queued from this page, whose completion we are waiting for
+  const summaryJobIdRef = useRef<number | null>(null);
 
   useEffect(() => {
     if (taskId) {
       loadTaskData();
       loadMessages();
       loadSummary();
+      loadHistory();
+      loadUsers();
       
       // Join task room for real-time updates
       socketService.joinTask(parseInt(taskId));
@@ -58,6 +90,8 @@ export default function TaskDetailPage() {
       socketService.onNewMessage(handleNewMessage);
       socketService.onUserTyping(handleUserTyping);
       socketService.onTaskRefresh(handleTaskRefresh);
+      socketService.onSummaryUpdated(handleSummaryUpdated);
+      socketService.onJobUpdated(handleJobUpdated);
       socketService.onError(handleSocketError);
 
       return () => {
@@ -65,15 +99,37 @@ export default function TaskDetailPage() {
         socketService.offNewMessage(handleNewMessage);
         socketService.offUserTyping(handleUserTyping);
         socketService.offTaskRefresh(handleTaskRefresh);
+        socketService.offSummaryUpdated(handleSummaryUpdated);
+        socketService.offJobUpdated(handleJobUpdated);
         socketService.offError(handleSocketError);
       };
     }
   }, [taskId]);
 
-  useEffect(() => {
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (container && anchor) {
+      // Older history was prepended: keep the previously visible messages in place
+      container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      scrollAnchorRef.current = null;
+      return;
+    }
+    if (jumpToMessageRef.current) {
+      scrollToMessage(jumpToMessageRef.current);
+      jumpToMessageRef.current = null;
+      return;
+    }
     scrollToBottom();
   }, [messages]);
 
+  // Fade the jump highlight after a few seconds
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
   // Close actions dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -108,22 +164,104 @@ export default function TaskDetailPage() {
     try {
       const taskData = await apiService.getTask(parseInt(taskId!));
       setTask(taskData);
+      loadTransitions();
     } catch (error) {
       toast.error('Failed to load task details');
       navigate('/dashboard');
     }
   };
 
-  const loadMessages = async () => {
+  const loadTransitions = async () => {
+    try {
+      const transitionData = await apiService.getTaskTransitions(parseInt(taskId!));
+      setTransitions(transitionData);
+    } catch {
+      setTransitions([]);
+    }
+  };
+
+  const loadHistory = async () => {
+    try {
+      const events = await apiService.getTaskHistory(parseInt(taskId!));
+      setHistory(events);
+    } catch {
+      setHistory([]);
+    }
+  };
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await apiService.getUsers());
+    } catch {
+      setUsers([]);
+    }
+  };
+
+  const loadMessages = useCallback(async () => {
+    handledTargetRef.current = targetMessageId;
     try {
       setLoading(true);
       const response = await apiService.getTaskMessages(parseInt(taskId!));
-      setMessages(response.messages);
+      let loaded = response.messages;
+      let hasMore = response.hasMore;
+
+      // Page back until the message we were asked to show is loaded
+      while (targetMessageId && hasMore && !loaded.some(message => message.id === targetMessageId)) {
+        const older = await apiService.getTaskMessages(parseInt(taskId!), {
+          before: loaded[loaded.length - 1].id,
+          limit: 100,
+        });
+        loaded = [...loaded, ...older.messages];
+        hasMore = older.hasMore;
+      }
+
+      if (targetMessageId && loaded.some(message => message.id === targetMessageId)) {
+        jumpToMessageRef.current = targetMessageId;
+      }
+      setMessages(mergeMessages([], loaded));
+      setHasOlderMessages(hasMore);
     } catch (error) {
       toast.error('Failed to load messages');
     } finally {
       setLoading(false);
     }
+  }, [taskId, targetMessageId]);
+
+  // Jump to another message on the same task without reloading the page
+  useEffect(() => {
+    if (!targetMessageId || loading || handledTargetRef.current === targetMessageId) return;
+
+    handledTargetRef.current = targetMessageId;
+    if (messages.some(message => message.id === targetMessageId)) {
+      scrollToMessage(targetMessageId);
+    } else {
+      loadMessages();
+    }
+  }, [targetMessageId, loading, messages, loadMessages]);
+
+  const loadOlderMessages = async () => {
+    if (loadingOlderMessages || !hasOlderMessages || messages.length === 0) return;
+
+    try {
+      setLoadingOlderMessages(true);
+      const response = await apiService.getTaskMessages(parseInt(taskId!), { before: messages[0].id });
+      const container = messagesContainerRef.current;
+      if (container) {
+        scrollAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+      }
+      setMessages(prev => mergeMessages(prev, response.messages));
+      setHasOlderMessages(response.hasMore);
+    } catch {
+      toast.error('Failed to load older messages');
+    } finally {
+      setLoadingOlderMessages(false);
+    }
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < 100) {
+      loadOlderMessages();
+    }
   };
 
   const loadSummary = async () => {
@@ -137,7 +275,7 @@ export default function TaskDetailPage() {
 
   const handleNewMessage = (message: Message) => {
     if (message.taskId === parseInt(taskId!)) {
-      setMessages(prev => [...prev, message]);
+      setMessages(prev => mergeMessages(prev, [message]));
     }
   };
 
@@ -153,6 +291,14 @@ export default function TaskDetailPage() {
 
   const handleTaskRefresh = () => {
     loadTaskData();
+    loadHistory();
+  };
+
+  // Background refresh of the summary finished on the server
+  const handleSummaryUpdated = (data: { summary: Summary }) => {
+    if (data.summary.taskId !== parseInt(taskId!)) return;
+    setSummary(data.summary);
+    loadHistory();
   };
 
   const handleSocketError = (data: { message: string }) => {
@@ -163,8 +309,28 @@ export default function TaskDetailPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const sendMessage = async () => {
-    if (!messageContent.trim() && attachments.length === 0) return;
+  const scrollToMessage = (messageId: number) => {
+    document.getElementById(`message-${messageId}`)?.scrollIntoView({ block: 'center' });
+    setHighlightedMessageId(messageId);
+  };
+
+  const checkDraft = async () => {
+    if (!messageContent.trim()) return;
+
+    try {
+      setCheckingDraft(true);
+      setDraftCheck(await apiService.checkDraft(parseInt(taskId!), messageContent));
+      setShowDraftCheck(true);
+    } catch (error) {
+      console.error('Failed to check draft:', error);
+    } finally {
+      setCheckingDraft(false);
+    }
+  };
+
+  // content overrides the composer, e.g. when sending the suggested rewrite as is
+  const sendMessage = async (content: string = messageContent) => {
+    if (!content.trim() && attachments.length === 0) return;
 
     try {
       // For handling file attachments, we need to upload them first
@@ -182,22 +348,27 @@ export default function TaskDetailPage() {
         if (uploadedAttachments && uploadedAttachments.length > 0) {
           socketService.sendMessage({
             taskId: parseInt(taskId!),
-            content: messageContent,
+            content,
             replyToId: replyToMessage?.id,
             attachments: uploadedAttachments,
+            draftCheckId: draftCheck?.id,
           });
         }
       } else {
         // Send text-only message via WebSocket
         socketService.sendMessage({
           taskId: parseInt(taskId!),
-          content: messageContent,
+          content,
           replyToId: replyToMessage?.id,
+          draftCheckId: draftCheck?.id,
         });
       }
       
       // Clear form
       setMessageContent('');
+      setShowPreview(false);
+      setDraftCheck(null);
+      setShowDraftCheck(false);
       setAttachments(prev => {
         // Clean up object URLs before clearing attachments
         prev.forEach(file => {
@@ -254,41 +425,98 @@ export default function TaskDetailPage() {
     setAttachments(prev => prev.filter((_, i) => i !== index));
   };
 
-  const generateSummary = async () => {
+  const generateSummary = async (full = false) => {
     try {
       setGeneratingSummary(true);
-      const summaryData = await apiService.generateSummary(parseInt(taskId!));
-      setSummary(summaryData);
-      toast.success('Summary generated successfully');
-      
-      // Scroll to summary section after a brief delay to allow UI to update
-      setTimeout(() => {
-        summaryRef.current?.scrollIntoView({ 
-          behavior: 'smooth', 
-          block: 'start',
-          inline: 'nearest' 
-        });
-      }, 100);
-    } catch (error) {
+      const job = await apiService.generateSummary(parseInt(taskId!), { full });
+      summaryJobIdRef.current = job.id;
+
+      // The job may already have finished before the response arrived
+      handleJobUpdated({ job: await apiService.getJob(job.id) });
+    } catch {
+      summaryJobIdRef.current = null;
       toast.error('Failed to generate summary');
-    } finally {
       setGeneratingSummary(false);
     }
   };
 
-  const handleStatusChange = async (newStatus: string) => {
+  // Progress of the summary job queued from this page
+  const handleJobUpdated = ({ job }: { job: Job }) => {
+    if (job.id !== summaryJobIdRef.current) return;
+
+    if (job.status === 'pending' && job.attempts > 0) {
+      toast('Summary generation failed, retrying...', { id: `job-${job.id}` });
+      return;
+    }
+    if (job.status !== 'completed' && job.status !== 'dead') return;
+
+    summaryJobIdRef.current = null;
+    setGeneratingSummary(false);
+
+    if (job.status === 'dead') {
+      toast.error(job.lastError ? `Failed to generate summary: ${job.lastError}` : 'Failed to generate summary');
+      return;
+    }
+
+    const { summary: summaryData, coverage } = job.result as unknown as SummaryJobResult;
+    setSummary(summaryData);
+    loadHistory();
+    if (coverage.newMessageCount === 0) {
+      toast.success('Summary is already up to date');
+    } else {
+      toast.success(coverage.mode === 'incremental'
+        ? `Summary updated with ${coverage.newMessageCount} new message${coverage.newMessageCount === 1 ? '' : 's'}`
+        : `Summary generated from ${coverage.messageCount} message${coverage.messageCount === 1 ? '' : 's'}`);
+    }
+
+    // Scroll to summary section after a brief delay to allow UI to update
+    setTimeout(() => {
+      summaryRef.current?.scrollIntoView({ 
+        behavior: 'smooth', 
+        block: 'start',
+        inline: 'nearest' 
+      });
+    }, 100);
+  };
+
+  const handleStatusChange = async (transition: TaskTransition) => {
     if (!task) return;
+
+    let blockedReason: string | undefined;
+    if (transition.requiredFields.includes('blockedReason')) {
+      const reason = window.prompt('What is blocking this task?');
+      if (!reason || !reason.trim()) {
+        toast.error('A blocker reason is required');
+        return;
+      }
+      blockedReason = reason.trim();
+    }
     
     try {
-      const updatedTask = await apiService.updateTask(task.id, { status: newStatus as any });
+      const updatedTask = await apiService.updateTask(task.id, { status: transition.to, blockedReason });
       setTask(updatedTask);
       setIsActionsOpen(false);
-      toast.success(`Task status updated to ${newStatus}`);
+      loadTransitions();
+      loadHistory();
+      socketService.notifyTaskUpdate(task.id);
+      toast.success(`Task status updated to ${transition.to}`);
     } catch (error) {
       toast.error('Failed to update task status');
     }
   };
 
+  const toggleAutoSummary = async (autoSummary: boolean) => {
+    if (!task) return;
+
+    try {
+      const updatedTask = await apiService.updateTask(task.id, { autoSummary });
+      setTask(updatedTask);
+      toast.success(autoSummary ? 'Summary will update automatically' : 'Automatic summary updates turned off');
+    } catch {
+      toast.error('Failed to update summary settings');
+    }
+  };
+
   const handleDeleteTask = async () => {
     if (!task) return;
     
@@ -328,6 +556,21 @@ export default function TaskDetailPage() {
     ? descriptionParts[1].split('\n').filter(line => line.trim().length > 0)
     : [];
 
+  // Interleave history with the discussion; posted messages already appear as messages
+  // ("Mentioning me" shows only messages that mention the current user)
+  // While older messages are still unloaded, only show history from the loaded range onwards
+  const currentUserId = authState.user?.id;
+  const oldestLoadedAt = hasOlderMessages && messages.length > 0 ? new Date(messages[0].createdAt).getTime() : null;
+  const timeline: TimelineItem[] = [
+    ...messages
+      .filter(message => !mentionsOnly || (currentUserId !== undefined && message.mentionedUserIds?.includes(currentUserId)))
+      .map((message): TimelineItem => ({ kind: 'message', createdAt: message.createdAt, message })),
+    ...history
+      .filter(event => !mentionsOnly && event.type !== 'message_posted')
+      .filter(event => oldestLoadedAt === null || new Date(event.createdAt).getTime() >= oldestLoadedAt)
+      .map((event): TimelineItem => ({ kind: 'event', createdAt: event.createdAt, event })),
+  ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       {/* Header */}
@@ -345,13 +588,15 @@ export default function TaskDetailPage() {
               </div>
               
               <div className="flex items-center space-x-2">
-                <button 
-                  onClick={handleEditTask}
-                  className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
-                >
-                  <PencilIcon className="h-4 w-4 mr-2" />
-                  Edit
-                </button>
+                {hasPermission('task.update') && (
+                  <button 
+                    onClick={handleEditTask}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <PencilIcon className="h-4 w-4 mr-2" />
+                    Edit
+                  </button>
+                )}
                 <div className="relative" ref={actionsDropdownRef}>
                   <button 
                     onClick={() => setIsActionsOpen(!isActionsOpen)}
@@ -367,43 +612,33 @@ export default function TaskDetailPage() {
                         <div className="px-3 py-2 text-xs font-medium text-gray-500 uppercase tracking-wide">
                           Change Status
                         </div>
-                        <button
-                          onClick={() => handleStatusChange('Logged')}
-                          className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                        >
-                          Mark as Logged
-                        </button>
-                        <button
-                          onClick={() => handleStatusChange('Ongoing')}
-                          className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                        >
-                          Mark as Ongoing
-                        </button>
-                        <button
-                          onClick={() => handleStatusChange('Reviewed')}
-                          className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                        >
-                          Mark as Reviewed
-                        </button>
-                        <button
-                          onClick={() => handleStatusChange('Done')}
-                          className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                        >
-                          Mark as Done
-                        </button>
-                        <button
-                          onClick={() => handleStatusChange('Blocked')}
-                          className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100"
-                        >
-                          Mark as Blocked
-                        </button>
-                        <hr className="my-1" />
-                        <button
-                          onClick={handleDeleteTask}
-                          className="block w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
-                        >
-                          Delete Task
-                        </button>
+                        {transitions.length === 0 && (
+                          <div className="px-3 py-2 text-sm text-gray-400">
+                            No status changes available
+                          </div>
+                        )}
+                        {transitions.map((transition) => (
+                          <button
+                            key={transition.to}
+                            onClick={() => handleStatusChange(transition)}
+                            disabled={transition.errors.length > 0}
+                            title={transition.errors.map(error => error.message).join('\n') || undefined}
+                            className="block w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-100 disabled:text-gray-400 disabled:hover:bg-white disabled:cursor-not-allowed"
+                          >
+                            {transition.label} ({transition.to})
+                          </button>
+                        ))}
+                        {hasPermission('task.delete') && (
+                          <>
+                            <hr className="my-1" />
+                            <button
+                              onClick={handleDeleteTask}
+                              className="block w-full text-left px-3 py-2 text-sm text-red-600 hover:bg-red-50"
+                            >
+                              Delete Task
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
                   )}
@@ -428,6 +663,9 @@ export default function TaskDetailPage() {
                 )}>
                   {task.status}
                 </span>
+                {task.status === 'Blocked' && task.blockedReason && (
+                  <p className="mt-1 text-xs text-red-700 max-w-xs">{task.blockedReason}</p>
+                )}
               </div>
               
               <div>
@@ -488,56 +726,133 @@ export default function TaskDetailPage() {
                   <div className="text-sm text-gray-500">
                     Last updated: {formatDate(summary.updatedAt)}
                   </div>
+                  {hasPermission('task.update') && (
+                    <label
+                      className="flex items-center gap-1 text-sm text-gray-600"
+                      title="Refresh the summary in the background as new messages arrive and when the task is reviewed or done"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={!!task.autoSummary}
+                        onChange={(e) => toggleAutoSummary(e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      Auto-update
+                    </label>
+                  )}
                   <button
-                    onClick={generateSummary}
-                    disabled={generatingSummary}
-                    className="text-primary-600 text-sm font-medium hover:text-primary-700 disabled:opacity-50"
+                    onClick={() => setShowSummaryHistory(prev => !prev)}
+                    className="text-gray-600 text-sm font-medium hover:text-gray-800"
                   >
-                    {generatingSummary ? (
-                      <div className="flex items-center">
-                        <svg className="animate-spin -ml-1 mr-1 h-3 w-3 text-primary-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Regenerating...
-                      </div>
-                    ) : 'Regenerate'}
+                    {showSummaryHistory ? 'Hide history' : 'History'}
                   </button>
+                  {hasPermission('summary.edit') && (
+                    <>
+                      <button
+                        onClick={() => generateSummary()}
+                        disabled={generatingSummary}
+                        className="text-primary-600 text-sm font-medium hover:text-primary-700 disabled:opacity-50"
+                      >
+                        {generatingSummary ? (
+                          <div className="flex items-center">
+                            <svg className="animate-spin -ml-1 mr-1 h-3 w-3 text-primary-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                            </svg>
+                            Updating...
+                          </div>
+                        ) : 'Update'}
+                      </button>
+                      <button
+                        onClick={() => generateSummary(true)}
+                        disabled={generatingSummary}
+                        title="Re-summarize the whole discussion instead of only new messages"
+                        className="text-gray-600 text-sm font-medium hover:text-gray-800 disabled:opacity-50"
+                      >
+                        Rebuild
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
               
+              {showSummaryHistory && (
+                <div className="mb-6 p-4 bg-gray-50 rounded-lg border border-gray-200">
+                  <SummaryHistory taskId={summary.taskId} summaryUpdatedAt={summary.updatedAt} />
+                </div>
+              )}
+
+              {summary.issue && summary.content !== summary.issue && (
+                <p className="text-gray-700 mb-4">{summary.content}</p>
+              )}
+
               <div className="border-l-4 border-primary-500 pl-4 py-1 mb-4">
                 <div className="flex items-center mb-2">
                   <SparklesIcon className="h-5 w-5 mr-2 text-primary-600" />
                   <h3 className="font-medium text-gray-900">Issue:</h3>
                 </div>
-                <p className="text-gray-700">{summary.content}</p>
+                <p className="text-gray-700">{summary.issue || summary.content}</p>
               </div>
               
-              {summary.keyPoints && summary.keyPoints.length > 0 && (
+              {(summary.investigation || summary.keyPoints.length > 0) && (
                 <div className="border-l-4 border-primary-500 pl-4 py-1 mb-4">
                   <div className="flex items-center mb-2">
                     <SparklesIcon className="h-5 w-5 mr-2 text-primary-600" />
                     <h3 className="font-medium text-gray-900">Investigation so far:</h3>
                   </div>
-                  <p className="text-gray-700">
-                    {summary.keyPoints.join(' ')}
-                  </p>
+                  {summary.investigation && (
+                    <p className="text-gray-700">{summary.investigation}</p>
+                  )}
+                  {summary.keyPoints.length > 0 && (
+                    <ul className="mt-2 list-disc pl-5 space-y-1 text-gray-700">
+                      {summary.keyPoints.map((point, index) => (
+                        <li key={index}>{point}</li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               )}
               
-              <div className="border-l-4 border-primary-500 pl-4 py-1">
+              <div className="border-l-4 border-primary-500 pl-4 py-1 mb-4">
                 <div className="flex items-center mb-2">
                   <SparklesIcon className="h-5 w-5 mr-2 text-primary-600" />
                   <h3 className="font-medium text-gray-900">Next steps:</h3>
                 </div>
-                <p className="text-gray-700">
-                  {summary.entities && summary.entities.length > 0 
-                    ? summary.entities.join(', ')
-                    : 'Review discussion and implement necessary changes based on findings.'
-                  }
-                </p>
+                {summary.nextSteps.length > 0 ? (
+                  <ol className="list-decimal pl-5 space-y-1 text-gray-700">
+                    {summary.nextSteps.map((step, index) => (
+                      <li key={index}>{step}</li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="text-gray-500">No next steps identified yet.</p>
+                )}
               </div>
+
+              {summary.entities.length > 0 && (
+                <div className="border-l-4 border-primary-500 pl-4 py-1">
+                  <div className="flex items-center mb-2">
+                    <SparklesIcon className="h-5 w-5 mr-2 text-primary-600" />
+                    <h3 className="font-medium text-gray-900">Key details:</h3>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {summary.entities.map((entity, index) => (
+                      <span key={index} className="inline-flex items-center px-2 py-1 rounded-md bg-gray-100 text-sm text-gray-700">
+                        <span className="mr-1 text-xs uppercase text-gray-500">{ENTITY_LABELS[entity.type]}</span>
+                        {entity.type === 'url' ? (
+                          <a href={entity.value} target="_blank" rel="noopener noreferrer" className="text-primary-600 hover:underline break-all">
+                            {entity.value}
+                          </a>
+                        ) : entity.type === 'email' ? (
+                          <a href={`mailto:${entity.value}`} className="text-primary-600 hover:underline">{entity.value}</a>
+                        ) : (
+                          entity.value
+                        )}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             <div ref={summaryRef} className="bg-white rounded-lg shadow-sm p-6 border border-gray-200">
@@ -547,26 +862,39 @@ export default function TaskDetailPage() {
                 <p className="text-gray-500 mb-6">
                   Generate an AI-powered summary of this task's discussion to quickly understand the key points, investigation progress, and suggested next steps.
                 </p>
-                <button
-                  onClick={generateSummary}
-                  disabled={generatingSummary}
-                  className="inline-flex items-center px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {generatingSummary ? (
-                    <>
-                      <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                      Generating Summary...
-                    </>
-                  ) : (
-                    <>
-                      <SparklesIcon className="h-4 w-4 mr-2" />
-                      Generate AI Summary
-                    </>
-                  )}
-                </button>
+                {hasPermission('summary.edit') && (
+                  <>
+                    <button
+                      onClick={() => generateSummary()}
+                      disabled={generatingSummary}
+                      className="inline-flex items-center px-4 py-2 bg-primary-600 text-white text-sm font-medium rounded-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {generatingSummary ? (
+                        <>
+                          <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                          </svg>
+                          Generating Summary...
+                        </>
+                      ) : (
+                        <>
+                          <SparklesIcon className="h-4 w-4 mr-2" />
+                          Generate AI Summary
+                        </>
+                      )}
+                    </button>
+                    <label className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={!!task.autoSummary}
+                        onChange={(e) => toggleAutoSummary(e.target.checked)}
+                        className="rounded border-gray-300"
+                      />
+                      Generate automatically as the discussion grows
+                    </label>
+                  </>
+                )}
               </div>
             </div>
           )}
@@ -576,41 +904,79 @@ export default function TaskDetailPage() {
             <div className="p-4 border-b border-gray-200 flex items-center justify-between">
               <h2 className="text-lg font-medium text-gray-900">Discussion</h2>
               <div className="flex items-center space-x-3">
+                <label className="flex items-center gap-2 text-sm text-gray-600">
+                  <input
+                    type="checkbox"
+                    checked={mentionsOnly}
+                    onChange={(e) => setMentionsOnly(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Mentioning me
+                </label>
                 
-                <button 
-                  onClick={generateSummary}
-                  disabled={generatingSummary}
-                  className="text-primary-600 text-sm font-medium hover:text-primary-700 disabled:opacity-50"
-                >
-                  {generatingSummary ? (
-                    <div className="flex items-center">
-                      <svg className="animate-spin -ml-1 mr-1 h-3 w-3 text-primary-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                      </svg>
-                      Generating...
-                    </div>
-                  ) : summary ? 'Update Summary' : 'Generate Summary'}
-                </button>
+                {hasPermission('summary.edit') && (
+                  <button 
+                    onClick={() => generateSummary()}
+                    disabled={generatingSummary}
+                    className="text-primary-600 text-sm font-medium hover:text-primary-700 disabled:opacity-50"
+                  >
+                    {generatingSummary ? (
+                      <div className="flex items-center">
+                        <svg className="animate-spin -ml-1 mr-1 h-3 w-3 text-primary-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                        </svg>
+                        Generating...
+                      </div>
+                    ) : summary ? 'Update Summary' : 'Generate Summary'}
+                  </button>
+                )}
               </div>
             </div>
 
             {/* Messages Section */}
-            <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            <div
+              ref={messagesContainerRef}
+              onScroll={handleMessagesScroll}
+              className="flex-1 overflow-y-auto p-6 space-y-6"
+            >
               {loading ? (
                 <div className="flex justify-center py-8">
                   <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
                 </div>
               ) : (
                 <div className="space-y-6">
-                  {messages.map((message) => (
+                  {hasOlderMessages && (
+                    <div className="flex justify-center">
+                      {loadingOlderMessages ? (
+                        <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary-600"></div>
+                      ) : (
+                        <button
+                          onClick={loadOlderMessages}
+                          className="text-sm text-primary-600 hover:text-primary-700"
+                        >
+                          Load older messages
+                        </button>
+                      )}
+                    </div>
+                  )}
+
+                  {timeline.map((item) => item.kind === 'message' ? (
                     <MessageComponent
-                      key={message.id}
-                      message={message}
+                      key={`message-${item.message.id}`}
+                      message={item.message}
+                      highlighted={item.message.id === highlightedMessageId}
                       currentUserId={authState.user?.id}
+                      users={users}
                       onReply={setReplyToMessage}
                       onImageClick={setSelectedImage}
                     />
+                  ) : (
+                    <TaskEventComponent
+                      key={`event-${item.event.id}`}
+                      event={item.event}
+                      users={users}
+                    />
                   ))}
                   
                   {/* Typing indicators */}
@@ -707,16 +1073,73 @@ export default function TaskDetailPage() {
                   </div>
                 )}
 
-                <textarea
-                  value={messageContent}
-                  onChange={(e) => {
-                    setMessageContent(e.target.value);
-                    handleTyping();
-                  }}
-                  placeholder="Type your message..."
-                  rows={3}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 resize-none"
-                />
+                {draftCheck && showDraftCheck && (
+                  <DraftCheckPanel
+                    check={draftCheck}
+                    users={users}
+                    currentUserId={authState.user?.id}
+                    draftChanged={messageContent !== draftCheck.content}
+                    onSendRewrite={() => sendMessage(draftCheck.suggestedRewrite!)}
+                    onEditRewrite={() => {
+                      setMessageContent(draftCheck.suggestedRewrite!);
+                      setShowPreview(false);
+                      setShowDraftCheck(false);
+                    }}
+                    onSendDraft={() => sendMessage()}
+                    onDismiss={() => setShowDraftCheck(false)}
+                  />
+                )}
+
+                {/* Write / Preview tabs */}
+                <div className="flex items-center space-x-4 mb-2 text-sm">
+                  <button
+                    onClick={() => setShowPreview(false)}
+                    className={`pb-1 border-b-2 ${!showPreview ? 'border-primary-600 text-primary-700 font-medium' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                  >
+                    Write
+                  </button>
+                  <button
+                    onClick={() => setShowPreview(true)}
+                    className={`pb-1 border-b-2 ${showPreview ? 'border-primary-600 text-primary-700 font-medium' : 'border-transparent text-gray-500 hover:text-gray-700'}`}
+                  >
+                    Preview
+                  </button>
+                  <span className="text-xs text-gray-400">
+                    Markdown supported: **bold**, *italic*, lists, [links](url), `code`, ``` blocks, &gt; quotes
+                  </span>
+                </div>
+
+                {showPreview ? (
+                  <div className="w-full min-h-[5.5rem] px-3 py-2 border border-gray-200 rounded-lg bg-gray-50">
+                    {messageContent.trim() ? (
+                      <MessageContent
+                        content={messageContent}
+                        mentionedUserIds={users.map(u => u.id)}
+                        users={users}
+                        currentUserId={authState.user?.id}
+                      />
+                    ) : (
+                      <p className="text-sm text-gray-400">Nothing to preview</p>
+                    )}
+                  </div>
+                ) : (
+                  <MentionInput
+                    value={messageContent}
+                    onChange={(value) => {
+                      setMessageContent(value);
+                      // An emptied composer starts a new draft
+                      if (!value.trim()) {
+                        setDraftCheck(null);
+                        setShowDraftCheck(false);
+                      }
+                      handleTyping();
+                    }}
+                    users={users}
+                    placeholder="Type your message... Use @ to mention someone"
+                    rows={3}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 resize-none"
+                  />
+                )}
 
                 <div className="flex justify-between items-center mt-3">
                   <div className="flex items-center">
@@ -734,13 +1157,24 @@ export default function TaskDetailPage() {
                     </span>
                   </div>
 
-                  <button
-                    onClick={sendMessage}
-                    disabled={!messageContent.trim() && attachments.length === 0}
-                    className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
-                  >
-                    Send Message
-                  </button>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={checkDraft}
+                      disabled={!messageContent.trim() || checkingDraft}
+                      title="Check the draft against the QA rubric before sending"
+                      className="flex items-center gap-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      <ShieldCheckIcon className="h-4 w-4" />
+                      {checkingDraft ? 'Checking...' : 'Check before sending'}
+                    </button>
+                    <button
+                      onClick={() => sendMessage()}
+                      disabled={!messageContent.trim() && attachments.length === 0}
+                      className="px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 disabled:opacity-50"
+                    >
+                      Send Message
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -775,19 +1209,126 @@ export default function TaskDetailPage() {
   );
 }
 
+const ENTITY_LABELS: Record<SummaryEntity['type'], string> = {
+  url: 'Link',
+  email: 'Email',
+  phone: 'Phone',
+  person: 'Person',
+  organization: 'Org',
+  identifier: 'ID',
+  other: 'Other',
+};
+
+type TimelineItem =
+  | { kind: 'message'; createdAt: string; message: Message }
+  | { kind: 'event'; createdAt: string; event: TaskEvent };
+
+// Merge message windows and socket deliveries by id, keeping chronological order
+function mergeMessages(existing: Message[], incoming: Message[]): Message[] {
+  const byId = new Map(existing.map(message => [message.id, message]));
+  incoming.forEach(message => byId.set(message.id, message));
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+}
+
+// Task event (history) Component
+interface TaskEventComponentProps {
+  event: TaskEvent;
+  users: User[];
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  stepsToReproduce: 'steps to reproduce',
+  status: 'status',
+  priority: 'priority',
+  assignedToId: 'assignee',
+  tags: 'tags',
+  blockedReason: 'blocker reason',
+};
+
+function describeTaskEvent(event: TaskEvent, users: User[]): string[] {
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || value === undefined || value === '') return 'none';
+    if (field === 'assignedToId') {
+      return users.find(user => user.id === value)?.name || `user #${value}`;
+    }
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+    return String(value);
+  };
+
+  switch (event.type) {
+    case 'task_created':
+      return ['created this task'];
+    case 'task_updated':
+      return Object.entries(event.changes).map(([field, change]) => {
+        const label = FIELD_LABELS[field] || field;
+        if (field === 'description' || field === 'stepsToReproduce') {
+          return `updated the ${label}`;
+        }
+        return `changed ${label} from ${formatValue(field, change.from)} to ${formatValue(field, change.to)}`;
+      });
+    case 'message_edited':
+      return ['edited a message'];
+    case 'message_deleted':
+      return ['deleted a message'];
+    case 'qa_requested':
+      return ['requested a QA review'];
+    case 'qa_reviewed':
+      return [`marked a QA review as ${formatValue('status', event.changes.status?.to)}`];
+    case 'summary_updated':
+      return ['updated the summary'];
+    default:
+      return [event.type.replace(/_/g, ' ')];
+  }
+}
+
+function TaskEventComponent({ event, users }: TaskEventComponentProps) {
+  const actorName = event.actor?.name || 'System';
+  // Set when the change was made by a script with a personal access token
+  const accessToken = event.metadata.accessToken as { id: number; name: string } | undefined;
+
+  return (
+    <div className="flex items-start space-x-3 text-sm text-gray-500">
+      <div className="h-8 w-8 flex items-center justify-center">
+        <div className="h-2 w-2 rounded-full bg-gray-300"></div>
+      </div>
+      <div className="flex-1">
+        {describeTaskEvent(event, users).map((description, index) => (
+          <div key={index}>
+            <span className="font-medium text-gray-700">{actorName}</span> {description}
+          </div>
+        ))}
+        <div className="text-xs text-gray-400">
+          {formatFullDate(event.createdAt)}
+          {accessToken && <> · via API token “{accessToken.name}”</>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // Message Component
 interface MessageComponentProps {
   message: Message;
+  highlighted?: boolean;
   currentUserId?: number;
+  users: User[];
   onReply: (message: Message) => void;
   onImageClick: (image: string | null) => void;
 }
 
-function MessageComponent({ message, currentUserId, onReply, onImageClick }: MessageComponentProps) {
+function MessageComponent({ message, highlighted, currentUserId, users, onReply, onImageClick }: MessageComponentProps) {
   const initials = message.sender.name.split(' ').map(n => n[0]).join('');
   
   return (
-    <div className="flex items-start space-x-3">
+    <div
+      id={`message-${message.id}`}
+      className={cn(
+        'flex items-start space-x-3 rounded-lg transition-colors duration-700',
+        highlighted && 'bg-yellow-50 ring-2 ring-yellow-200'
+      )}
+    >
       <div className={`h-8 w-8 rounded-full flex items-center justify-center text-xs font-medium ${
         message.sender.id === 1 ? 'bg-red-100 text-red-800' : 
         message.sender.id === 2 ? 'bg-blue-100 text-blue-800' :
@@ -814,9 +1355,12 @@ function MessageComponent({ message, currentUserId, onReply, onImageClick }: Mes
           </div>
         )}
         
-        <div className="text-gray-700">
-          {message.content}
-        </div>
+        <MessageContent
+          content={message.content}
+          mentionedUserIds={message.mentionedUserIds}
+          users={users}
+          currentUserId={currentUserId}
+        />
         
         {message.attachments.length > 0 && (
           <div className="mt-2 space-y-2">
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircleIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import AuthShell from '../components/auth/AuthShell';
+import { useAuth } from '../contexts/AuthContext';
+import apiService from '../services/api';
+
+type VerifyStatus = 'verifying' | 'verified' | 'failed';
+
+export default function VerifyEmailPage() {
+  const [searchParams] = useSearchParams();
+  const { state: authState, refreshUser } = useAuth();
+  const token = searchParams.get('token');
+  const [status, setStatus] = useState<VerifyStatus>(token ? 'verifying' : 'failed');
+  // Tokens work once, so the request must not repeat when the effect re-runs
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (!token || requested.current) return;
+    requested.current = true;
+
+    apiService.verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((error) => {
+        console.error('Failed to verify email:', error);
+        setStatus('failed');
+      });
+  }, [token]);
+
+  // Pick up the verified flag in an already signed-in tab
+  useEffect(() => {
+    if (status === 'verified' && authState.isAuthenticated) {
+      refreshUser();
+    }
+  }, [status, authState.isAuthenticated, refreshUser]);
+
+  const continueTo = authState.isAuthenticated ? '/dashboard' : '/login';
+
+  return (
+    <AuthShell>
+      <div className="w-full max-w-md mx-auto">
+        <div className="bg-white shadow-lg rounded-lg p-8 text-center space-y-4">
+          {status === 'verifying' && (
+            <div className="flex items-center justify-center space-x-2">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+              <span className="text-gray-600">Verifying your email...</span>
+            </div>
+          )}
+
+          {status === 'verified' && (
+            <>
+              <CheckCircleIcon className="mx-auto h-12 w-12 text-green-500" />
+              <h3 className="text-lg font-semibold text-gray-900">Email verified</h3>
+              <p className="text-base text-gray-600">Thanks for confirming your email address.</p>
+            </>
+          )}
+
+          {status === 'failed' && (
+            <>
+              <ExclamationTriangleIcon className="mx-auto h-12 w-12 text-yellow-500" />
+              <h3 className="text-lg font-semibold text-gray-900">This link can't be used</h3>
+              <p className="text-base text-gray-600">
+                It may have expired, been used already, or been replaced by a newer link. Sign in to send
+                yourself a new one.
+              </p>
+            </>
+          )}
+
+          {status !== 'verifying' && (
+            <Link to={continueTo} className="inline-block text-base font-medium text-primary-600 hover:text-primary-500">
+              {authState.isAuthenticated ? 'Go to dashboard' : 'Go to login'}
+            </Link>
+          )}
+        </div>
+      </div>
+    </AuthShell>
+  );
+}
@@ -1,21 +1,57 @@
-import axios, { type AxiosInstance, AxiosError } from 'axios';
+import axios, { type AxiosInstance, type InternalAxiosRequestConfig, AxiosError } from 'axios';
 import toast from 'react-hot-toast';
 import type {
   User,
   Task,
+  TaskTransition,
+  TaskEvent,
   Message,
+  MessageWindow,
   Summary,
+  SummaryVersion,
   QAReview,
+  DraftCheck,
+  QAStats,
+  QAStatsInterval,
+  QARubric,
+  QACriterion,
+  Job,
+  Notification,
+  SearchResults,
   LoginCredentials,
   RegisterCredentials,
+  AuthResponse,
+  TwoFactorChallenge,
+  TwoFactorSetup,
+  TwoFactorStatus,
+  Session,
+  AccessTokenList,
+  CreateAccessTokenData,
+  CreatedAccessToken,
+  ManagedUser,
+  InviteUserData,
+  CreateServiceAccountData,
+  UserRole,
   CreateTaskData,
   CreateMessageData,
 } from '../types';
 
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:3000/api';
 
+// Requests whose 401 means bad credentials rather than an expired access token
+const NO_REFRESH_URLS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/refresh',
+  '/auth/login/2fa',
+  '/auth/login/2fa/setup',
+  '/auth/login/2fa/enable',
+];
+
 class ApiService {
   private api: AxiosInstance;
+  // Set by AuthContext; resolves with a new access token, or null once the session is over
+  private refreshHandler: (() => Promise<string | null>) | null = null;
 
   constructor() {
     this.api = axios.create({
@@ -40,14 +76,29 @@ class ApiService {
     // Response interceptor for error handling
     this.api.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
-        if (error.response?.status === 401) {
-          localStorage.removeItem('token');
-          window.location.href = '/login';
+      async (error: AxiosError) => {
+        const request = error.config as (InternalAxiosRequestConfig & { retried?: boolean }) | undefined;
+
+        // The access token expired or was revoked: refresh it silently and retry once
+        if (
+          error.response?.status === 401 &&
+          request &&
+          !request.retried &&
+          this.refreshHandler &&
+          !NO_REFRESH_URLS.includes(request.url || '')
+        ) {
+          request.retried = true;
+          const token = await this.refreshHandler();
+          if (token) {
+            request.headers.Authorization = `Bearer ${token}`;
+            return this.api(request);
+          }
+          // The session is over; AuthContext has signed the user out
+          return Promise.reject(error);
         }
         
-        // Don't show toast for 404 errors
-        if (error.response?.status !== 404) {
+        // Don't show toast for 404 errors or failed refreshes (AuthContext explains those)
+        if (error.response?.status !== 404 && request?.url !== '/auth/refresh') {
           const message = (error.response?.data as any)?.message || error.message;
           toast.error(message);
         }
@@ -56,18 +107,120 @@ class ApiService {
     );
   }
 
+  setRefreshHandler(handler: () => Promise<string | null>) {
+    this.refreshHandler = handler;
+  }
+
   // Auth endpoints
-  async login(credentials: LoginCredentials) {
+  async login(credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallenge> {
     const response = await this.api.post('/auth/login', credentials);
     console.log("response", response);
     return response.data;
   }
 
-  async register(credentials: RegisterCredentials) {
+  async register(credentials: RegisterCredentials): Promise<AuthResponse | TwoFactorChallenge> {
     const response = await this.api.post('/auth/register', credentials);
     return response.data;
   }
 
+  // Second login step, with an authenticator or recovery code
+  async verifyTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+    const response = await this.api.post('/auth/login/2fa', { challengeToken, code });
+    return response.data;
+  }
+
+  // Enrollment during login, when the user's role requires 2FA
+  async setupTwoFactorLogin(challengeToken: string): Promise<TwoFactorSetup> {
+    const response = await this.api.post('/auth/login/2fa/setup', { challengeToken });
+    return response.data;
+  }
+
+  async enableTwoFactorLogin(challengeToken: string, code: string): Promise<AuthResponse> {
+    const response = await this.api.post('/auth/login/2fa/enable', { challengeToken, code });
+    return response.data;
+  }
+
+  async refreshSession(refreshToken: string): Promise<{ token: string; refreshToken: string }> {
+    const response = await this.api.post('/auth/refresh', { refreshToken });
+    return response.data;
+  }
+
+  async logout(): Promise<void> {
+    await this.api.post('/auth/logout');
+  }
+
+  async getSessions(): Promise<Session[]> {
+    const response = await this.api.get('/auth/sessions');
+    return response.data.sessions;
+  }
+
+  async revokeSession(sessionId: number): Promise<void> {
+    await this.api.delete(`/auth/sessions/${sessionId}`);
+  }
+
+  async revokeOtherSessions(): Promise<number> {
+    const response = await this.api.delete('/auth/sessions');
+    return response.data.revoked;
+  }
+
+  // Personal access tokens
+  async getAccessTokens(): Promise<AccessTokenList> {
+    const response = await this.api.get('/tokens');
+    return response.data;
+  }
+
+  async createAccessToken(data: CreateAccessTokenData): Promise<CreatedAccessToken> {
+    const response = await this.api.post('/tokens', data);
+    return response.data;
+  }
+
+  async revokeAccessToken(tokenId: number): Promise<void> {
+    await this.api.delete(`/tokens/${tokenId}`);
+  }
+
+  async forgotPassword(email: string): Promise<string> {
+    const response = await this.api.post('/auth/forgot-password', { email });
+    return response.data.message;
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    await this.api.post('/auth/reset-password', { token, password });
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    await this.api.post('/auth/verify-email', { token });
+  }
+
+  async resendVerification(): Promise<string> {
+    const response = await this.api.post('/auth/verify-email/resend');
+    return response.data.message;
+  }
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatus> {
+    const response = await this.api.get('/auth/2fa');
+    return response.data;
+  }
+
+  async setupTwoFactor(): Promise<TwoFactorSetup> {
+    const response = await this.api.post('/auth/2fa/setup');
+    return response.data;
+  }
+
+  async enableTwoFactor(code: string): Promise<{ recoveryCodes: string[]; status: TwoFactorStatus }> {
+    const response = await this.api.post('/auth/2fa/enable', { code });
+    return response.data;
+  }
+
+  async regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[]; status: TwoFactorStatus }> {
+    const response = await this.api.post('/auth/2fa/recovery-codes', { code });
+    return response.data;
+  }
+
+  async disableTwoFactor(password: string, code: string): Promise<TwoFactorStatus> {
+    const response = await this.api.post('/auth/2fa/disable', { password, code });
+    return response.data.status;
+  }
+
   async getCurrentUser(): Promise<User> {
     const response = await this.api.get('/auth/me');
     return response.data.user;
@@ -112,7 +265,17 @@ class ApiService {
 
   async updateTask(id: number, data: Partial<Task>): Promise<Task> {
     const response = await this.api.put(`/tasks/${id}`, data);
-    return response.data.data;
+    return response.data.task;
+  }
+
+  async getTaskTransitions(id: number): Promise<TaskTransition[]> {
+    const response = await this.api.get(`/tasks/${id}/transitions`);
+    return response.data.transitions;
+  }
+
+  async getTaskHistory(id: number): Promise<TaskEvent[]> {
+    const response = await this.api.get(`/tasks/${id}/history`);
+    return response.data.events;
   }
 
   async deleteTask(id: number): Promise<void> {
@@ -122,14 +285,19 @@ class ApiService {
   // Message endpoints
   async getTaskMessages(
     taskId: number,
-    params?: { page?: number; limit?: number }
-  ): Promise<{
+    params?: { before?: number; after?: number; limit?: number; mentioning?: 'me' }
+  ): Promise<MessageWindow> {
+    const response = await this.api.get(`/messages/task/${taskId}`, { params });
+    return response.data;
+  }
+
+  async getMentions(params?: { page?: number; limit?: number }): Promise<{
     messages: Message[];
     totalCount: number;
     totalPages: number;
     currentPage: number;
   }> {
-    const response = await this.api.get(`/messages/task/${taskId}`, { params });
+    const response = await this.api.get('/messages/mentions', { params });
     return response.data;
   }
 
@@ -141,6 +309,10 @@ class ApiService {
     if (data.replyToId) {
       formData.append('replyToId', data.replyToId.toString());
     }
+
+    if (data.draftCheckId) {
+      formData.append('draftCheckId', data.draftCheckId.toString());
+    }
     
     if (data.files) {
       data.files.forEach((file) => {
@@ -194,26 +366,48 @@ class ApiService {
     return response.data.summary;
   }
 
-  async generateSummary(taskId: number): Promise<Summary> {
-    const response = await this.api.post(`/summaries/generate/${taskId}`);
-    return response.data.data;
+  // Queues the summary job; the result arrives over the socket as job_updated
+  async generateSummary(taskId: number, options?: { full?: boolean }): Promise<Job> {
+    const response = await this.api.post(`/summaries/generate/${taskId}`, null, {
+      params: options?.full ? { full: true } : undefined,
+    });
+    return response.data.job;
+  }
+
+  async getSummaryVersions(taskId: number, params?: { page?: number; limit?: number }): Promise<{
+    versions: SummaryVersion[];
+    totalCount: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    const response = await this.api.get(`/summaries/task/${taskId}/versions`, { params });
+    return response.data;
   }
 
   // QA endpoints
   async getQAReviews(params?: {
     taskId?: number;
-    status?: string;
-  }): Promise<QAReview[]> {
+    status?: QAReview['status'];
+    // "me", "unassigned" or a user ID
+    assignee?: 'me' | 'unassigned' | number;
+    overdue?: boolean;
+    page?: number;
+    limit?: number;
+  }): Promise<{
+    reviews: QAReview[];
+    totalCount: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
     const response = await this.api.get('/qa', { params });
     return response.data;
   }
 
   async createQAReview(data: {
     messageId: number;
-    taskId: number;
   }): Promise<QAReview> {
     const response = await this.api.post('/qa', data);
-    return response.data.data;
+    return response.data.review;
   }
 
   async updateQAReview(
@@ -221,7 +415,66 @@ class ApiService {
     data: { status: 'approved' | 'rejected'; feedback?: string }
   ): Promise<QAReview> {
     const response = await this.api.put(`/qa/${id}`, data);
-    return response.data.data;
+    return response.data.review;
+  }
+
+  async claimQAReview(id: number): Promise<QAReview> {
+    const response = await this.api.post(`/qa/${id}/claim`);
+    return response.data.review;
+  }
+
+  async unclaimQAReview(id: number): Promise<QAReview> {
+    const response = await this.api.post(`/qa/${id}/unclaim`);
+    return response.data.review;
+  }
+
+  async checkDraft(taskId: number, content: string): Promise<DraftCheck> {
+    const response = await this.api.post('/qa/draft-check', { taskId, content });
+    return response.data.check;
+  }
+
+  async getQAStats(params?: {
+    from?: string;
+    to?: string;
+    // Comma-separated task tags
+    tags?: string;
+    interval?: QAStatsInterval;
+  }): Promise<QAStats> {
+    const response = await this.api.get('/qa/stats', { params });
+    return response.data.stats;
+  }
+
+  async getQARubrics(params?: { active?: boolean }): Promise<QARubric[]> {
+    const response = await this.api.get('/qa/rubrics', { params });
+    return response.data.rubrics;
+  }
+
+  async createQARubric(data: {
+    name: string;
+    description?: string | null;
+    criteria: QACriterion[];
+    passThreshold?: number;
+    tags?: string[];
+    isDefault?: boolean;
+    active?: boolean;
+  }): Promise<QARubric> {
+    const response = await this.api.post('/qa/rubrics', data);
+    return response.data.rubric;
+  }
+
+  async updateQARubric(id: number, data: Partial<Omit<QARubric, 'id' | 'createdById' | 'createdBy' | 'createdAt' | 'updatedAt'>>): Promise<QARubric> {
+    const response = await this.api.put(`/qa/rubrics/${id}`, data);
+    return response.data.rubric;
+  }
+
+  async deleteQARubric(id: number): Promise<void> {
+    await this.api.delete(`/qa/rubrics/${id}`);
+  }
+
+  // Job endpoints
+  async getJob(id: number): Promise<Job> {
+    const response = await this.api.get(`/jobs/${id}`);
+    return response.data.job;
   }
 
   // File upload endpoint
@@ -235,11 +488,118 @@ class ApiService {
     return response.data.attachments;
   }
 
+  // Notification endpoints
+  async getNotifications(params?: {
+    page?: number;
+    limit?: number;
+    unread?: boolean;
+  }): Promise<{
+    notifications: Notification[];
+    unreadCount: number;
+    totalCount: number;
+    totalPages: number;
+    currentPage: number;
+  }> {
+    const response = await this.api.get('/notifications', { params });
+    return response.data;
+  }
+
+  async getUnreadNotificationCount(): Promise<number> {
+    const response = await this.api.get('/notifications/unread-count');
+    return response.data.unreadCount;
+  }
+
+  async markNotificationsRead(ids?: number[], read = true): Promise<{ updated: number; unreadCount: number }> {
+    const response = await this.api.put('/notifications/read', { ids, read });
+    return response.data;
+  }
+
+  // Search endpoint
+  async search(params: {
+    q: string;
+    type?: 'all' | 'tasks' | 'messages';
+    page?: number;
+    limit?: number;
+  }): Promise<SearchResults> {
+    const response = await this.api.get('/search', { params });
+    return response.data;
+  }
+
   // Users endpoint
   async getUsers(): Promise<User[]> {
     const response = await this.api.get('/auth/users');
     return response.data.users;
   }
+
+  // Admin user management
+  async getManagedUsers(): Promise<ManagedUser[]> {
+    const response = await this.api.get('/users');
+    return response.data.users;
+  }
+
+  async inviteUser(data: InviteUserData): Promise<{ user: ManagedUser; message: string; emailSent: boolean }> {
+    const response = await this.api.post('/users/invite', data);
+    return response.data;
+  }
+
+  async createServiceAccount(data: CreateServiceAccountData): Promise<ManagedUser> {
+    const response = await this.api.post('/users/service-accounts', data);
+    return response.data.user;
+  }
+
+  async getServiceAccountTokens(userId: number): Promise<AccessTokenList> {
+    const response = await this.api.get(`/users/${userId}/tokens`);
+    return response.data;
+  }
+
+  async createServiceAccountToken(userId: number, data: CreateAccessTokenData): Promise<CreatedAccessToken> {
+    const response = await this.api.post(`/users/${userId}/tokens`, data);
+    return response.data;
+  }
+
+  async revokeServiceAccountToken(userId: number, tokenId: number): Promise<void> {
+    await this.api.delete(`/users/${userId}/tokens/${tokenId}`);
+  }
+
+  async updateUserRole(userId: number, role: UserRole): Promise<User> {
+    const response = await this.api.put(`/users/${userId}/role`, { role });
+    return response.data.user;
+  }
+
+  async deactivateUser(userId: number): Promise<User> {
+    const response = await this.api.post(`/users/${userId}/deactivate`);
+    return response.data.user;
+  }
+
+  async reactivateUser(userId: number): Promise<User> {
+    const response = await this.api.post(`/users/${userId}/reactivate`);
+    return response.data.user;
+  }
+
+  async reassignUserTasks(userId: number, toUserId: number | null): Promise<number> {
+    const response = await this.api.post(`/users/${userId}/reassign-tasks`, { toUserId });
+    return response.data.reassigned;
+  }
+
+  async resetUserPassword(userId: number): Promise<string> {
+    const response = await this.api.post(`/users/${userId}/reset-password`);
+    return response.data.message;
+  }
+
+  async resetUserTwoFactor(userId: number): Promise<string> {
+    const response = await this.api.post(`/users/${userId}/reset-two-factor`);
+    return response.data.message;
+  }
+
+  async getTwoFactorPolicy(): Promise<UserRole[]> {
+    const response = await this.api.get('/users/two-factor-policy');
+    return response.data.requiredRoles;
+  }
+
+  async updateTwoFactorPolicy(requiredRoles: UserRole[]): Promise<UserRole[]> {
+    const response = await this.api.put('/users/two-factor-policy', { requiredRoles });
+    return response.data.requiredRoles;
+  }
 }
 
 export const apiService = new ApiService();
@@ -1,11 +1,28 @@
 import { io, Socket } from 'socket.io-client';
-import type { Message, TypingUser, Attachment } from '../types';
+import type { Message, TypingUser, Attachment, Notification, Summary, SummaryCoverage, Job } from '../types';
 
 const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
 
+interface SocketAuthHandlers {
+  // Get a fresh access token when the server refuses the current one (null if the session ended)
+  refreshToken: () => Promise<string | null>;
+  // The server revoked this device's session
+  onSessionRevoked: () => void;
+  // An admin changed the user's role
+  onRoleChanged: () => void;
+}
+
 class SocketService {
   private socket: Socket | null = null;
   private currentTaskId: number | null = null;
+  private authHandlers: SocketAuthHandlers | null = null;
+  private retriedAuth = false;
+  // The server is about to disconnect us so we reconnect with a changed role
+  private reconnectRequested = false;
+
+  setAuthHandlers(handlers: SocketAuthHandlers) {
+    this.authHandlers = handlers;
+  }
 
   connect(token: string) {
     if (this.socket?.connected) {
@@ -13,22 +30,45 @@ class SocketService {
     }
 
     this.socket = io("https://faff-assign.onrender.com", {
-      auth: {
-        token,
-      },
+      // Read on every (re)connect, so reconnects use the latest access token
+      auth: (cb) => cb({ token: localStorage.getItem('token') || token }),
       transports: ['websocket'],
     });
 
     this.socket.on('connect', () => {
+      this.retriedAuth = false;
       console.log('Connected to socket server');
     });
 
-    this.socket.on('disconnect', () => {
+    this.socket.on('disconnect', (reason) => {
       console.log('Disconnected from socket server');
+
+      // Server-side disconnects are not retried automatically
+      if (reason === 'io server disconnect' && this.reconnectRequested) {
+        this.reconnectRequested = false;
+        this.socket?.connect();
+      }
     });
 
-    this.socket.on('connect_error', (error) => {
+    this.socket.on('connect_error', async (error) => {
       console.error('Socket connection error:', error);
+
+      // The access token expired while disconnected: refresh it and try once more
+      if (error.message.startsWith('Authentication error') && !this.retriedAuth && this.authHandlers) {
+        this.retriedAuth = true;
+        if (await this.authHandlers.refreshToken()) {
+          this.socket?.connect();
+        }
+      }
+    });
+
+    this.socket.on('session_revoked', () => {
+      this.authHandlers?.onSessionRevoked();
+    });
+
+    this.socket.on('role_changed', () => {
+      this.reconnectRequested = true;
+      this.authHandlers?.onRoleChanged();
     });
   }
 
@@ -52,6 +92,8 @@ class SocketService {
     content: string;
     replyToId?: number;
     attachments?: Attachment[];
+    // Pre-send quality check the message is sent after
+    draftCheckId?: number;
   }) {
     if (this.socket) {
       this.socket.emit('send_message', data);
@@ -95,6 +137,18 @@ class SocketService {
     }
   }
 
+  onSummaryUpdated(callback: (data: { summary: Summary; version: number | null; coverage: SummaryCoverage }) => void) {
+    if (this.socket) {
+      this.socket.on('summary_updated', callback);
+    }
+  }
+
+  onJobUpdated(callback: (data: { job: Job }) => void) {
+    if (this.socket) {
+      this.socket.on('job_updated', callback);
+    }
+  }
+
   onFileUploadProgress(callback: (data: {
     userId: number;
     userName: string;
@@ -106,6 +160,18 @@ class SocketService {
     }
   }
 
+  onNotification(callback: (data: { notification: Notification; unreadCount: number }) => void) {
+    if (this.socket) {
+      this.socket.on('notification', callback);
+    }
+  }
+
+  onNotificationsRead(callback: (data: { unreadCount: number }) => void) {
+    if (this.socket) {
+      this.socket.on('notifications_read', callback);
+    }
+  }
+
   onError(callback: (data: { message: string }) => void) {
     if (this.socket) {
       this.socket.on('error', callback);
@@ -131,6 +197,18 @@ class SocketService {
     }
   }
 
+  offSummaryUpdated(callback?: (data: { summary: Summary; version: number | null; coverage: SummaryCoverage }) => void) {
+    if (this.socket) {
+      this.socket.off('summary_updated', callback);
+    }
+  }
+
+  offJobUpdated(callback?: (data: { job: Job }) => void) {
+    if (this.socket) {
+      this.socket.off('job_updated', callback);
+    }
+  }
+
   offFileUploadProgress(callback?: (data: {
     userId: number;
     userName: string;
@@ -142,6 +220,18 @@ class SocketService {
     }
   }
 
+  offNotification(callback?: (data: { notification: Notification; unreadCount: number }) => void) {
+    if (this.socket) {
+      this.socket.off('notification', callback);
+    }
+  }
+
+  offNotificationsRead(callback?: (data: { unreadCount: number }) => void) {
+    if (this.socket) {
+      this.socket.off('notifications_read', callback);
+    }
+  }
+
   offError(callback?: (data: { message: string }) => void) {
     if (this.socket) {
       this.socket.off('error', callback);
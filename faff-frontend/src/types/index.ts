@@ -1,18 +1,51 @@
+export type UserRole = 'admin' | 'lead' | 'operator' | 'qa_reviewer' | 'requester';
+
+export type Permission =
+  | 'task.view'
+  | 'task.create'
+  | 'task.update'
+  | 'task.assign'
+  | 'task.delete'
+  | 'message.send'
+  | 'message.moderate'
+  | 'summary.edit'
+  | 'qa.request'
+  | 'qa.review'
+  | 'qa.manage'
+  | 'job.retry'
+  | 'job.manage'
+  | 'user.manage';
+
 export interface User {
   id: number;
   name: string;
   email: string;
-  role: 'admin' | 'user';
+  role: UserRole;
+  // Only returned for the signed-in user
+  permissions?: Permission[];
+  // Null until the user follows the link in their verification email
+  emailVerifiedAt?: string | null;
+  // Set while an admin has deactivated the account
+  deactivatedAt?: string | null;
+  // Set while two-factor authentication is on
+  twoFactorEnabledAt?: string | null;
+  // An integration's user, which only acts through access tokens
+  isServiceAccount?: boolean;
   createdAt: string;
   updatedAt: string;
 }
 
+export type TaskStatus = 'Logged' | 'Ongoing' | 'Reviewed' | 'Done' | 'Blocked';
+
 export interface Task {
   id: number;
   title: string;
   description: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
-  status: 'Logged' | 'Ongoing' | 'Reviewed' | 'Done' | 'Blocked';
+  status: TaskStatus;
+  blockedReason?: string | null;
+  // Refresh the summary in the background as the discussion grows
+  autoSummary?: boolean;
   assignedToId?: number;
   createdById: number;
   createdAt: string;
@@ -22,6 +55,19 @@ export interface Task {
   messageCount?: number;
 }
 
+export interface TransitionError {
+  code: 'INVALID_TRANSITION' | 'FORBIDDEN' | 'MISSING_FIELD' | 'GUARD_FAILED';
+  message: string;
+  field?: string;
+}
+
+export interface TaskTransition {
+  to: TaskStatus;
+  label: string;
+  requiredFields: string[];
+  errors: TransitionError[];
+}
+
 export interface Attachment {
   id: string;
   filename: string;
@@ -40,36 +86,313 @@ export interface Message {
   content: string;
   replyToId?: number;
   attachments: Attachment[];
+  mentionedUserIds?: number[];
   createdAt: string;
   updatedAt: string;
   sender: User;
+  task?: Pick<Task, 'id' | 'title' | 'status'>;
   replyTo?: Message;
   replies?: Message[];
 }
 
+// Newest-first window of task messages; cursors are the oldest/newest message ids in it
+export interface MessageWindow {
+  messages: Message[];
+  hasMore: boolean;
+  cursors: {
+    before: number | null;
+    after: number | null;
+  };
+}
+
+// Full-text search; highlights and snippets wrap matches in <mark>…</mark>
+export interface TaskSearchResult {
+  id: number;
+  title: string;
+  status: TaskStatus;
+  priority: Task['priority'];
+  tags: string[];
+  rank: number;
+  titleHighlight: string;
+  snippet: string;
+  updatedAt: string;
+}
+
+export interface MessageSearchResult {
+  id: number;
+  taskId: number;
+  taskTitle: string;
+  senderId: number;
+  senderName: string | null;
+  rank: number;
+  snippet: string;
+  createdAt: string;
+}
+
+export interface SearchResults {
+  query: string;
+  tasks: { results: TaskSearchResult[]; totalCount: number };
+  messages: { results: MessageSearchResult[]; totalCount: number };
+  currentPage: number;
+}
+
+export type TaskEventType =
+  | 'task_created'
+  | 'task_updated'
+  | 'message_posted'
+  | 'message_edited'
+  | 'message_deleted'
+  | 'qa_requested'
+  | 'qa_reviewed'
+  | 'summary_updated';
+
+export interface TaskEvent {
+  id: number;
+  taskId: number;
+  actorId: number | null;
+  type: TaskEventType;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+  actor?: User | null;
+}
+
+export type SummaryEntityType = 'url' | 'email' | 'phone' | 'person' | 'organization' | 'identifier' | 'other';
+
+export interface SummaryEntity {
+  type: SummaryEntityType;
+  value: string;
+}
+
 export interface Summary {
   id: number;
   taskId: number;
+  // Null when the summary was refreshed in the background
+  createdById: number | null;
+  createdBy?: User | null;
   content: string;
+  issue: string | null;
+  investigation: string | null;
+  nextSteps: string[];
   keyPoints: string[];
-  entities: string[];
+  entities: SummaryEntity[];
   createdAt: string;
   updatedAt: string;
 }
 
+// Message range a generated summary covers
+export interface SummaryCoverage {
+  mode: 'full' | 'incremental';
+  fromMessageId: number | null;
+  toMessageId: number | null;
+  messageCount: number;
+  newMessageCount: number;
+}
+
+export type SummarySource = 'ai' | 'manual';
+
+export interface SummaryVersion {
+  id: number;
+  summaryId: number;
+  taskId: number;
+  version: number;
+  createdById: number | null;
+  createdBy?: User | null;
+  source: SummarySource;
+  model: string | null;
+  fromMessageId: number | null;
+  toMessageId: number | null;
+  messageCount: number;
+  content: string;
+  issue: string | null;
+  investigation: string | null;
+  nextSteps: string[];
+  keyPoints: string[];
+  entities: SummaryEntity[];
+  createdAt: string;
+}
+
+export type JobType = 'summary.generate' | 'qa.ai_review' | 'qa.sweep' | 'attachments.delete';
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+// Background job queued by an AI or file operation
+export interface Job {
+  id: number;
+  type: JobType;
+  payload: Record<string, unknown>;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  lastError: string | null;
+  result: Record<string, unknown> | null;
+  createdById: number | null;
+  taskId: number | null;
+  completedAt: string | null;
+  dedupeKey: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Result of a completed summary.generate job
+export interface SummaryJobResult {
+  summary: Summary;
+  version: number | null;
+  coverage: SummaryCoverage;
+  upToDate: boolean;
+}
+
+export interface QACriterion {
+  key: string;
+  name: string;
+  description: string;
+  weight: number;
+  passThreshold: number;
+}
+
+export interface QARubric {
+  id: number;
+  name: string;
+  description: string | null;
+  criteria: QACriterion[];
+  passThreshold: number;
+  tags: string[];
+  isDefault: boolean;
+  active: boolean;
+  createdById: number | null;
+  createdBy?: User | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Score of one rubric criterion on an AI-reviewed message (0-10)
+export interface QACriterionScore {
+  key: string;
+  name: string;
+  weight: number;
+  score: number;
+  passed: boolean;
+  explanation: string;
+}
+
 export interface QAReview {
   id: number;
   messageId: number;
   taskId: number;
-  reviewerId?: number;
+  // Null while the review waits in the unassigned pool
+  reviewerId: number | null;
+  requestedById: number | null;
   status: 'pending' | 'approved' | 'rejected';
   feedback?: string;
+  rubricId: number | null;
+  scores: QACriterionScore[];
+  overallScore: number | null;
+  assignedAt: string | null;
+  // SLA deadline, counted from the request
+  dueAt: string | null;
+  decidedAt: string | null;
+  decisionSource: 'ai' | 'human' | null;
+  // QA model's verdict, kept when a reviewer overrides it
+  aiStatus: 'approved' | 'rejected' | null;
   createdAt: string;
   updatedAt: string;
-  reviewer?: User;
+  reviewer?: User | null;
+  requestedBy?: User | null;
   message: Message;
 }
 
+// Pre-send quality check of a draft message
+export interface DraftCheck {
+  id: number;
+  taskId: number;
+  userId: number;
+  content: string;
+  rubricId: number | null;
+  scores: QACriterionScore[];
+  overallScore: number;
+  passed: boolean;
+  feedback: string;
+  // Null when the model had nothing to change
+  suggestedRewrite: string | null;
+  outcome: 'accepted' | 'edited' | 'sent_anyway' | null;
+  messageId: number | null;
+  createdAt: string;
+}
+
+export type QAStatsInterval = 'day' | 'week' | 'month';
+
+export interface QAApprovalCounts {
+  approved: number;
+  rejected: number;
+  // Share of decided reviews that were approved (null when there are none)
+  approvalRate: number | null;
+}
+
+export interface QAApprovalPeriod extends QAApprovalCounts {
+  // Start of the period
+  period: string;
+}
+
+export interface QATurnaroundStats {
+  count: number;
+  // Hours from the review request to its decision
+  averageHours: number | null;
+  medianHours: number | null;
+  p90Hours: number | null;
+  slaBreaches: number;
+}
+
+// QA quality metrics over reviews decided in a date range
+export interface QAStats {
+  range: { from: string; to: string; interval: QAStatsInterval; tags: string[] };
+  totals: QAApprovalCounts;
+  approvalOverTime: QAApprovalPeriod[];
+  approvalBySender: (QAApprovalCounts & {
+    sender: Pick<User, 'id' | 'name'> | null;
+    series: QAApprovalPeriod[];
+  })[];
+  aiHumanAgreement: {
+    compared: number;
+    agreed: number;
+    rate: number | null;
+    aiApprovedHumanRejected: number;
+    aiRejectedHumanApproved: number;
+  };
+  turnaround: {
+    overall: QATurnaroundStats;
+    human: QATurnaroundStats;
+    ai: QATurnaroundStats;
+  };
+  topRejectionReasons: { criterion: string; name: string; count: number }[];
+  // Rejections without a failed rubric criterion (reviewer feedback only)
+  unscoredRejections: number;
+}
+
+export type NotificationType =
+  | 'task_assigned'
+  | 'new_message'
+  | 'mention'
+  | 'qa_assigned'
+  | 'qa_approved'
+  | 'qa_rejected'
+  | 'status_changed';
+
+export interface Notification {
+  id: number;
+  userId: number;
+  actorId: number | null;
+  taskId: number | null;
+  type: NotificationType;
+  content: string;
+  metadata: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  actor?: User | null;
+  task?: Pick<Task, 'id' | 'title'> | null;
+}
+
 export interface AuthState {
   user: User | null;
   token: string | null;
@@ -77,6 +400,106 @@ export interface AuthState {
   isLoading: boolean;
 }
 
+// Returned by login and register
+export interface AuthResponse {
+  token: string;
+  refreshToken: string;
+  user: User;
+  // Only after enrolling in 2FA during login, shown to the user once
+  recoveryCodes?: string[];
+  // Only after signing in with a recovery code
+  recoveryCodesRemaining?: number;
+}
+
+// Returned by login and register instead of tokens while a second factor is pending
+export interface TwoFactorChallenge {
+  challengeToken: string;
+  // 2FA is on: the user enters a code
+  twoFactorRequired?: boolean;
+  // The user's role requires 2FA: they set it up before getting a session
+  twoFactorSetupRequired?: boolean;
+}
+
+// A new TOTP secret to add to an authenticator app
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of the otpauth URL
+  qrCode: string;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  // The user's role requires 2FA, so it cannot be turned off
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// A signed-in device
+export interface Session {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastUsedAt: string;
+  expiresAt: string;
+  createdAt: string;
+  // The session making the request
+  current: boolean;
+}
+
+export type TokenScope = 'tasks:read' | 'tasks:write' | 'messages:write';
+
+// A personal access token for the REST API; the token itself is only shown when created
+export interface PersonalAccessToken {
+  id: number;
+  userId: number;
+  name: string;
+  // Start of the token after faff_pat_, to tell tokens apart
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  createdById: number | null;
+  createdAt: string;
+}
+
+export interface AccessTokenList {
+  tokens: PersonalAccessToken[];
+  // Scopes a new token can have, and its longest lifetime
+  scopes: TokenScope[];
+  maxExpiresInDays: number;
+}
+
+export interface CreateAccessTokenData {
+  name: string;
+  scopes: TokenScope[];
+  expiresInDays: number;
+}
+
+export interface CreatedAccessToken {
+  token: string;
+  accessToken: PersonalAccessToken;
+}
+
+// A user as listed in the admin user console
+export interface ManagedUser extends User {
+  // Assigned tasks that are not Done
+  openTaskCount: number;
+}
+
+export interface InviteUserData {
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface CreateServiceAccountData {
+  name: string;
+  role: UserRole;
+}
+
 export interface LoginCredentials {
   email: string;
   password: string;
@@ -100,6 +523,8 @@ export interface CreateMessageData {
   content: string;
   replyToId?: number;
   files?: File[];
+  // Pre-send quality check the message is sent after
+  draftCheckId?: number;
 }
 
 export interface TypingUser {
@@ -116,6 +541,7 @@ export interface SocketEvents {
     content: string;
     replyToId?: number;
     attachments?: Attachment[];
+    draftCheckId?: number;
   }) => void;
   typing: (data: { taskId: number; isTyping: boolean }) => void;
   task_updated: (taskId: number) => void;
@@ -131,5 +557,7 @@ export interface SocketEvents {
     progress: number;
     filename: string;
   }) => void;
+  notification: (data: { notification: Notification; unreadCount: number }) => void;
+  notifications_read: (data: { unreadCount: number }) => void;
   error: (data: { message: string }) => void;
 } 
\ No newline at end of file
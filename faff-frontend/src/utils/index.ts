@@ -78,6 +78,21 @@ export function getStatusColor(status: string): string {
   }
 }
 
+export function getRoleLabel(role: string): string {
+  switch (role) {
+    case 'admin':
+      return 'Administrator';
+    case 'lead':
+      return 'Team Lead';
+    case 'qa_reviewer':
+      return 'QA Reviewer';
+    case 'operator':
+      return 'Operator';
+    default:
+      return capitalizeFirst(role.replace(/_/g, ' '));
+  }
+}
+
 export function capitalizeFirst(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1);
 }